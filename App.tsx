@@ -1,10 +1,24 @@
 
 
-import React, { useState, useCallback, useRef } from 'react';
+import React, { useState, useCallback, useRef, useEffect } from 'react';
 import ImageEditor from './ImageEditor';
+import ProjectList from './components/ProjectList';
+import ListingFields from './components/ListingFields';
 import { EditIcon, SparklesIcon, UploadIcon, CopyIcon } from './components/Icons';
-import { enhanceProductDescription, generateProductDescription } from './services/geminiService';
+import { enhanceProductDescription, generateProductDescription, translateProductListing } from './services/geminiService';
+import { deleteProject, listProjects, loadProduct, saveProduct, setProjectOpen, type ProjectSummary } from './services/projectStore';
 import { fileToBase64 } from './utils/imageUtils';
+import { DEFAULT_MARKETPLACE_ID, getMarketplaceProfile, MARKETPLACE_PROFILES, validateListing } from './utils/marketplaces';
+import {
+  cleanProductListing,
+  DEFAULT_LISTING_LANGUAGE,
+  EMPTY_PRODUCT_LISTING,
+  formatListingAsText,
+  isEmptyProductListing,
+  type ListingLanguage,
+  type ListingVersions,
+  type ProductListing,
+} from './utils/productListing';
 
 type Formality = 'descontraido' | 'profissional' | 'formal';
 
@@ -14,20 +28,115 @@ const formalityOptions: { id: Formality; label: string }[] = [
     { id: 'formal', label: 'Formal' },
 ];
 
+const languageOptions: { id: ListingLanguage; label: string }[] = [
+    { id: 'pt-BR', label: 'Português' },
+    { id: 'es', label: 'Espanhol' },
+    { id: 'en', label: 'Inglês' },
+];
+
+const getLanguageLabel = (language: ListingLanguage) => languageOptions.find(option => option.id === language)!.label;
+
+// The simulated ERP page shows one product, chosen with ?produto=<id>.
+const PRODUCT_ID = new URLSearchParams(window.location.search).get('produto') || 'produto-demo';
+
 export default function App() {
   const [isEditorOpen, setIsEditorOpen] = useState(false);
   const [productImages, setProductImages] = useState<string[]>([]);
   
   const [userProductInfo, setUserProductInfo] = useState<string>('');
-  const [productDescription, setProductDescription] = useState<string>('');
+  // Listings keyed by marketplace id and language; the page shows the active channel tab in the
+  // active language, which is also the language new copy is generated in.
+  const [listings, setListings] = useState<Record<string, ListingVersions>>({});
+  const [language, setLanguage] = useState<ListingLanguage>(DEFAULT_LISTING_LANGUAGE);
+  // Edited one term per line; blank lines are dropped when the glossary is used.
+  const [glossary, setGlossary] = useState<string[]>([]);
+  const [selectedMarketplaces, setSelectedMarketplaces] = useState<string[]>([DEFAULT_MARKETPLACE_ID]);
+  const [activeMarketplaceId, setActiveMarketplaceId] = useState(DEFAULT_MARKETPLACE_ID);
   const [isGeneratingDescription, setIsGeneratingDescription] = useState<boolean>(false);
   const [copySuccess, setCopySuccess] = useState<string>('');
   const [formality, setFormality] = useState<Formality>('profissional');
 
   const [initialImageData, setInitialImageData] = useState<{ file: File; base64: string; }[] | undefined>(undefined);
   const [isEnhancing, setIsEnhancing] = useState(false);
+  const [isTranslating, setIsTranslating] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  // Persistence state
+  const productBlobsRef = useRef<Blob[]>([]);
+  const [isProductLoaded, setIsProductLoaded] = useState(false);
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [editorProjectId, setEditorProjectId] = useState<string | undefined>(undefined);
+  const interruptedProject = projects.find(project => project.isOpen && project.id !== editorProjectId);
+
+  const refreshProjects = useCallback(() => {
+    listProjects(PRODUCT_ID)
+      .then(setProjects)
+      .catch(error => console.error("Falha ao listar projetos:", error));
+  }, []);
+
+  useEffect(() => {
+    loadProduct(PRODUCT_ID)
+      .then(product => {
+        if (!product) return;
+        productBlobsRef.current = product.images;
+        setProductImages(product.images.map(blob => URL.createObjectURL(blob)));
+        setUserProductInfo(product.userProductInfo);
+        const marketplaces = product.marketplaces.filter(id => getMarketplaceProfile(id));
+        setListings(product.listings);
+        setSelectedMarketplaces(marketplaces.length > 0 ? marketplaces : [DEFAULT_MARKETPLACE_ID]);
+        if (languageOptions.some(option => option.id === product.language)) setLanguage(product.language as ListingLanguage);
+        setGlossary(product.glossary);
+        setFormality(formalityOptions.find(option => option.id === product.formality)?.id ?? 'profissional');
+      })
+      .catch(error => console.error("Falha ao restaurar o produto:", error))
+      .finally(() => setIsProductLoaded(true));
+    refreshProjects();
+  }, [refreshProjects]);
+
+  useEffect(() => {
+    // Waiting for the restore avoids overwriting the saved product with the empty initial state.
+    if (!isProductLoaded) return;
+    const timer = window.setTimeout(() => {
+      saveProduct({
+        id: PRODUCT_ID,
+        images: productBlobsRef.current,
+        userProductInfo,
+        listings,
+        marketplaces: selectedMarketplaces,
+        language,
+        glossary,
+        formality,
+        updatedAt: Date.now(),
+      }).catch(error => console.error("Falha ao salvar o produto:", error));
+    }, 500);
+    return () => window.clearTimeout(timer);
+  }, [isProductLoaded, productImages, userProductInfo, listings, selectedMarketplaces, language, glossary, formality]);
+
+  const activeMarketplace = getMarketplaceProfile(selectedMarketplaces.includes(activeMarketplaceId) ? activeMarketplaceId : selectedMarketplaces[0])
+    ?? MARKETPLACE_PROFILES[0];
+  const productListing = listings[activeMarketplace.id]?.[language] ?? EMPTY_PRODUCT_LISTING;
+  // Issues of the version in the active language, per channel.
+  const listingIssues = Object.fromEntries(selectedMarketplaces.map(id => {
+    const listing = listings[id]?.[language];
+    return [id, listing ? validateListing(listing, getMarketplaceProfile(id)!) : []];
+  }));
+
+  const setListingVersion = (marketplaceId: string, listingLanguage: ListingLanguage, listing: ProductListing) => {
+    setListings(prev => ({ ...prev, [marketplaceId]: { ...prev[marketplaceId], [listingLanguage]: listing } }));
+  };
+
+  const handleListingChange = (listing: ProductListing) => {
+    setListingVersion(activeMarketplace.id, language, listing);
+  };
+
+  // At least one channel stays selected; listings of deselected channels are kept.
+  const handleToggleMarketplace = (id: string) => {
+    setSelectedMarketplaces(prev => {
+      if (!prev.includes(id)) return MARKETPLACE_PROFILES.map(profile => profile.id).filter(other => other === id || prev.includes(other));
+      return prev.length > 1 ? prev.filter(other => other !== id) : prev;
+    });
+  };
+
   const handleOpenEditor = async () => {
     if (productImages.length > 0) {
         try {
@@ -92,7 +201,35 @@ export default function App() {
   const handleCloseEditor = useCallback(() => {
     setIsEditorOpen(false);
     setInitialImageData(undefined);
-  }, []);
+    setEditorProjectId(undefined);
+    refreshProjects();
+  }, [refreshProjects]);
+
+  const handleOpenProject = (projectId: string) => {
+    setInitialImageData(undefined);
+    setEditorProjectId(projectId);
+    setIsEditorOpen(true);
+  };
+
+  const handleDeleteProject = async (projectId: string) => {
+    if (!window.confirm("Excluir este projeto de edição? Esta ação não pode ser desfeita.")) return;
+    try {
+      await deleteProject(projectId);
+    } catch (error: unknown) {
+      console.error("Falha ao excluir o projeto:", error);
+      alert("Não foi possível excluir o projeto.");
+    }
+    refreshProjects();
+  };
+
+  const handleDismissRecovery = async (projectId: string) => {
+    try {
+      await setProjectOpen(projectId, false);
+    } catch (error: unknown) {
+      console.error("Falha ao atualizar o projeto:", error);
+    }
+    refreshProjects();
+  };
 
   const handleSaveImages = useCallback((data: { images: Blob[] }) => {
     productImages.forEach(url => {
@@ -100,6 +237,7 @@ export default function App() {
             URL.revokeObjectURL(url);
         }
     });
+    productBlobsRef.current = data.images;
     const newImageUrls = data.images.map(blob => URL.createObjectURL(blob));
     setProductImages(newImageUrls);
     console.log("Imagens salvas!", data);
@@ -107,23 +245,31 @@ export default function App() {
   }, [productImages, handleCloseEditor]);
 
   const handleGenerateDescription = async () => {
-    const firstImageUrl = productImages[0];
-    if (!firstImageUrl) {
+    if (productImages.length === 0) {
       alert("Por favor, salve uma imagem primeiro para usar como referência.");
       return;
     }
 
     setIsGeneratingDescription(true);
     try {
-      const response = await fetch(firstImageUrl);
-      if (!response.ok) {
-        throw new Error('Falha ao buscar a imagem para gerar a descrição.');
+      const images = await Promise.all(productImages.map(async (url, index) => {
+        const response = await fetch(url);
+        if (!response.ok) {
+          throw new Error('Falha ao buscar as imagens para gerar a descrição.');
+        }
+        const blob = await response.blob();
+        const base64Image = await fileToBase64(new File([blob], `temp-image-${index}`, { type: blob.type }));
+        return { base64Image, mimeType: blob.type };
+      }));
+
+      const marketplaces = selectedMarketplaces.map(id => getMarketplaceProfile(id)!);
+      const generationLanguage = language;
+      const generated = await generateProductDescription(images, userProductInfo, formality, marketplaces, generationLanguage, glossary);
+      Object.entries(generated.listings).forEach(([id, listing]) => setListingVersion(id, generationLanguage, listing));
+      const failures = Object.entries(generated.errors);
+      if (failures.length > 0) {
+        alert(`Não foi possível gerar o anúncio para:\n${failures.map(([id, message]) => `${getMarketplaceProfile(id)!.name}: ${message}`).join('\n')}`);
       }
-      const blob = await response.blob();
-      const base64 = await fileToBase64(new File([blob], 'temp-image', { type: blob.type }));
-      
-      const description = await generateProductDescription(base64, blob.type, userProductInfo, formality);
-      setProductDescription(description);
     } catch (error: unknown) {
       console.error("Falha ao gerar a descrição", error);
       const message = error instanceof Error ? error.message : "Não foi possível gerar a descrição. Tente novamente.";
@@ -134,12 +280,14 @@ export default function App() {
   };
 
   const handleEnhanceDescription = async () => {
-    if (!productDescription) return;
+    if (isEmptyProductListing(productListing)) return;
 
     setIsEnhancing(true);
     try {
-        const enhancedText = await enhanceProductDescription(productDescription);
-        setProductDescription(enhancedText);
+        const marketplaceId = activeMarketplace.id;
+        const enhancementLanguage = language;
+        const enhancedListing = await enhanceProductDescription(cleanProductListing(productListing), activeMarketplace, enhancementLanguage, glossary);
+        setListingVersion(marketplaceId, enhancementLanguage, enhancedListing);
     } catch (error: unknown) {
         console.error("Failed to enhance description", error);
         const message = error instanceof Error ? error.message : "Não foi possível aprimorar a descrição. Tente novamente.";
@@ -149,8 +297,33 @@ export default function App() {
     }
   };
 
+  // Translates the version on screen; the original stays as it is, next to the new version.
+  const handleTranslateListing = async (targetLanguage: ListingLanguage) => {
+    if (isEmptyProductListing(productListing)) return;
+    const existing = listings[activeMarketplace.id]?.[targetLanguage];
+    if (existing && !isEmptyProductListing(existing)
+      && !window.confirm(`Substituir a versão em ${getLanguageLabel(targetLanguage).toLowerCase()} pela tradução?`)) return;
+
+    setIsTranslating(true);
+    try {
+        const marketplaceId = activeMarketplace.id;
+        const translated = await translateProductListing(cleanProductListing(productListing), activeMarketplace, language, targetLanguage, glossary);
+        setListingVersion(marketplaceId, targetLanguage, translated.listing);
+        setLanguage(targetLanguage);
+        if (translated.droppedTerms.length > 0) {
+            alert(`A tradução omitiu termos do glossário: ${translated.droppedTerms.join(', ')}. Revise o texto.`);
+        }
+    } catch (error: unknown) {
+        console.error("Falha ao traduzir o anúncio", error);
+        const message = error instanceof Error ? error.message : "Não foi possível traduzir o anúncio. Tente novamente.";
+        alert(message);
+    } finally {
+        setIsTranslating(false);
+    }
+  };
+
   const handleCopyDescription = () => {
-    navigator.clipboard.writeText(productDescription).then(() => {
+    navigator.clipboard.writeText(formatListingAsText(productListing)).then(() => {
         setCopySuccess('Copiado!');
         setTimeout(() => setCopySuccess(''), 2000);
     }, (err) => {
@@ -163,6 +336,18 @@ export default function App() {
       <div className="max-w-2xl w-full bg-white rounded-xl shadow-lg p-8">
         <h1 className="text-2xl font-bold text-slate-800 mb-2">Simulação de ERP</h1>
         <p className="text-slate-500 mb-6">Esta é uma página simulada do seu produto no ERP.</p>
+
+        {interruptedProject && (
+            <div className="mb-6 p-4 rounded-lg bg-amber-50 border border-amber-200 flex flex-col sm:flex-row sm:items-center gap-3">
+                <p className="flex-1 text-sm text-amber-800">
+                    A edição "{interruptedProject.name}" foi interrompida antes de ser fechada. Deseja recuperá-la?
+                </p>
+                <div className="flex gap-2">
+                    <button onClick={() => handleDismissRecovery(interruptedProject.id)} className="py-2 px-3 text-sm font-semibold rounded-lg bg-white text-slate-700 border border-slate-300 hover:bg-slate-100">Ignorar</button>
+                    <button onClick={() => handleOpenProject(interruptedProject.id)} className="py-2 px-3 text-sm font-semibold rounded-lg bg-amber-600 text-white hover:bg-amber-700">Recuperar</button>
+                </div>
+            </div>
+        )}
         
         {/* Description Section */}
         <div className="space-y-6 my-8 pt-6 border-t border-slate-200">
@@ -194,9 +379,39 @@ export default function App() {
                 </div>
             </div>
 
+            <div className="space-y-2">
+                <label className="font-semibold text-slate-700">Canais de Venda</label>
+                <p className="text-sm text-slate-500">A IA gera um anúncio para cada canal, seguindo os limites de cada um.</p>
+                <div className="flex flex-wrap gap-2">
+                    {MARKETPLACE_PROFILES.map(profile => (
+                        <button
+                            key={profile.id}
+                            onClick={() => handleToggleMarketplace(profile.id)}
+                            aria-pressed={selectedMarketplaces.includes(profile.id)}
+                            className={`py-2 px-3 text-sm font-semibold rounded-lg border transition-colors ${selectedMarketplaces.includes(profile.id) ? 'bg-indigo-50 text-indigo-700 border-indigo-300' : 'bg-white text-slate-600 border-slate-300 hover:bg-slate-100'}`}
+                        >
+                            {profile.name}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            <div className="space-y-2">
+                <label htmlFor="glossary" className="font-semibold text-slate-700">Glossário</label>
+                <p className="text-sm text-slate-500">Marcas e nomes de produto que nunca são traduzidos, um por linha.</p>
+                <textarea
+                    id="glossary"
+                    value={glossary.join('\n')}
+                    onChange={(e) => setGlossary(e.target.value.split('\n'))}
+                    placeholder={'Ex: Aurora Plus\nAcme'}
+                    className="w-full p-3 border border-slate-300 rounded-lg bg-white text-slate-800 text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition"
+                    rows={2}
+                />
+            </div>
+
             <div className="space-y-4">
               <div className="flex justify-between items-center">
-                <label htmlFor="description" className="font-semibold text-slate-700">Descrição para Marketplace (Gerada por IA)</label>
+                <label className="font-semibold text-slate-700">Anúncio para Marketplace (Gerado por IA)</label>
                 <button 
                   onClick={handleGenerateDescription} 
                   disabled={isGeneratingDescription || productImages.length === 0} 
@@ -206,26 +421,67 @@ export default function App() {
                   {isGeneratingDescription ? 'Gerando...' : 'Gerar com IA'}
                 </button>
               </div>
-              <div className="relative">
-                <textarea 
-                  id="description" 
-                  value={productDescription} 
-                  onChange={(e) => setProductDescription(e.target.value)} 
-                  placeholder="A descrição gerada pela IA aparecerá aqui. Baseia-se na primeira imagem e no texto acima." 
-                  className="w-full p-3 pr-10 border border-slate-300 rounded-lg bg-slate-50 text-slate-800 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition" 
-                  rows={5} 
-                />
-                 {productDescription && (
-                    <>
-                        <button onClick={handleCopyDescription} className="absolute top-2 right-2 p-2 text-slate-500 hover:text-indigo-600 rounded-md transition-colors" aria-label="Copiar descrição"><CopyIcon className="w-5 h-5" /></button>
-                        {copySuccess && <div className="absolute bottom-2 right-2 text-xs text-green-600 bg-green-100 px-2 py-1 rounded transition-opacity">{copySuccess}</div>}
-                    </>
-                )}
+              <p className="text-sm text-slate-500">A IA analisa todas as imagens do produto e o texto acima, e escreve no idioma selecionado. Revise cada campo antes de publicar.</p>
+              {selectedMarketplaces.length > 1 && (
+                <div className="flex flex-wrap gap-1 border-b border-slate-200">
+                    {selectedMarketplaces.map(id => (
+                        <button
+                            key={id}
+                            onClick={() => setActiveMarketplaceId(id)}
+                            className={`flex items-center gap-1.5 py-2 px-3 text-sm font-semibold border-b-2 -mb-px transition-colors ${activeMarketplace.id === id ? 'border-indigo-600 text-indigo-600' : 'border-transparent text-slate-500 hover:text-slate-700'}`}
+                        >
+                            {getMarketplaceProfile(id)!.name}
+                            {listingIssues[id].length > 0 && (
+                                <span className="min-w-[1.25rem] px-1 text-xs rounded-full bg-red-100 text-red-600" title="Campos fora das regras do canal">{listingIssues[id].length}</span>
+                            )}
+                        </button>
+                    ))}
+                </div>
+              )}
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div className="flex items-center gap-1 p-1 bg-slate-100 rounded-lg">
+                      {languageOptions.map(option => {
+                          const version = listings[activeMarketplace.id]?.[option.id];
+                          return (
+                              <button
+                                  key={option.id}
+                                  onClick={() => setLanguage(option.id)}
+                                  className={`flex items-center gap-1.5 py-1.5 px-3 text-sm font-semibold rounded-md transition-all ${language === option.id ? 'bg-white text-indigo-600 shadow-sm' : 'bg-transparent text-slate-600 hover:bg-white/60'}`}
+                              >
+                                  {option.label}
+                                  {version && !isEmptyProductListing(version) && <span className="w-1.5 h-1.5 rounded-full bg-indigo-400" title="Versão preenchida" />}
+                              </button>
+                          );
+                      })}
+                  </div>
+                  <div className="flex items-center gap-1 text-sm text-slate-500">
+                      {isTranslating ? 'Traduzindo...' : 'Traduzir para:'}
+                      {languageOptions.filter(option => option.id !== language).map(option => (
+                          <button
+                              key={option.id}
+                              onClick={() => handleTranslateListing(option.id)}
+                              disabled={isTranslating || isEmptyProductListing(productListing)}
+                              className="py-1 px-2 text-sm font-semibold rounded-md text-indigo-700 bg-indigo-50 hover:bg-indigo-100 disabled:bg-slate-100 disabled:text-slate-400"
+                          >
+                              {option.label}
+                          </button>
+                      ))}
+                  </div>
               </div>
-              <div className="flex justify-end">
+              <ListingFields listing={productListing} marketplace={activeMarketplace} issues={listingIssues[activeMarketplace.id] ?? []} onChange={handleListingChange} />
+              <div className="flex justify-end items-center gap-2">
+                 {copySuccess && <span className="text-xs text-green-600 bg-green-100 px-2 py-1 rounded">{copySuccess}</span>}
+                 <button
+                    onClick={handleCopyDescription}
+                    disabled={isEmptyProductListing(productListing)}
+                    className="flex items-center gap-2 py-2 px-4 bg-slate-100 text-slate-700 font-semibold rounded-lg shadow-sm hover:bg-slate-200 transition-colors text-sm disabled:opacity-50"
+                 >
+                    <CopyIcon className="w-4 h-4" />
+                    Copiar Tudo
+                 </button>
                  <button 
                     onClick={handleEnhanceDescription}
-                    disabled={isEnhancing || !productDescription}
+                    disabled={isEnhancing || isEmptyProductListing(productListing)}
                     className="flex items-center gap-2 py-2 px-4 bg-indigo-100 text-indigo-700 font-semibold rounded-lg shadow-sm hover:bg-indigo-200 transition-colors text-sm disabled:bg-slate-200 disabled:text-slate-500"
                 >
                     <SparklesIcon className="w-4 h-4" />
@@ -279,6 +535,11 @@ export default function App() {
             )}
           </div>
         </div>
+
+        <div className="space-y-4 pt-6 mt-6 border-t border-slate-200">
+          <label className="font-semibold text-slate-700">Projetos de Edição</label>
+          <ProjectList projects={projects} onOpen={handleOpenProject} onDelete={handleDeleteProject} />
+        </div>
       </div>
 
       {isEditorOpen && (
@@ -286,6 +547,8 @@ export default function App() {
             <div className="w-full h-full max-w-7xl max-h-[90vh] bg-white rounded-xl shadow-2xl">
                <ImageEditor 
                   initialImages={initialImageData}
+                  projectId={editorProjectId}
+                  productId={PRODUCT_ID}
                   onSave={handleSaveImages}
                   onClose={handleCloseEditor}
                />
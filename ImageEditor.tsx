@@ -1,73 +1,165 @@
-import React, { useState, useCallback, useRef, useEffect } from 'react';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import ReactCrop, { centerCrop, makeAspectCrop, type Crop, type PixelCrop } from 'react-image-crop';
-import { AspectRatio, ASPECT_RATIOS } from './constants';
-import { fileToBase64, getImageDimensions, createCroppedBlob } from './utils/imageUtils';
-import { editImageWithPrompt } from './services/geminiService';
-import { UploadIcon, SparklesIcon, SaveIcon, PhotoIcon, XCircleIcon, XIcon, GridIcon, BrushIcon, EraserIcon, TrashIcon, CropIcon, EyeIcon, CheckIcon, AdjustmentsIcon, UndoIcon, RedoIcon, ShadowIcon, EditIcon, SunIcon, ContrastIcon, DropletIcon, ColorWheelIcon, ChevronUpIcon } from './components/Icons';
-
-interface ImageAdjustments {
-  brightness: number;
-  contrast: number;
-  saturate: number;
-  hue: number;
-}
-
-const defaultAdjustments: ImageAdjustments = {
-  brightness: 100,
-  contrast: 100,
-  saturate: 100,
-  hue: 0,
-};
+import { AspectRatio, ASPECT_RATIOS, DEFAULT_ENHANCEMENT_PRESETS, DEFAULT_EXPORT_PROFILE_ID, getDefaultExportSettings, getExportProfile, type EnhancementPreset, type ExportSettings, type PresetMaskStrategy } from './constants';
+import { createThumbnail, getImageDimensions, toDataUrl } from './utils/imageUtils';
+import { internBlob, internDataUrl, getInternedSize, releaseUnreferenced, releaseUrls, resolveToDataUrl } from './utils/blobStore';
+import { trimHistory } from './utils/history';
+import { DEFAULT_ADJUSTMENTS, getAdjustmentsFilter, getCurveSettings, normalizeAdjustments, type CurveSettings, type ImageAdjustments } from './utils/adjustments';
+import { getAutoAdjustments, type AutoAdjustment } from './utils/autoAdjust';
+import { copyEdits, EDIT_PROPERTIES, getAvailableEditProperties, pasteEdits, type CopiedEdits, type EditProperty } from './utils/editClipboard';
+import { type HistogramResponse } from './utils/histogram';
+import { createLiveHistogram, type LiveHistogram } from './utils/liveHistogram';
+import { DEFAULT_BACKGROUND_REMOVAL_OPTIONS, applyForegroundMask, refineEdges, segmentForeground, type BackgroundRemovalOptions } from './utils/backgroundRemoval';
+import { computeProductFrame, DEFAULT_FRAMING_OPTIONS, getFramePadding, type FramingOptions } from './utils/framing';
+import { detectProduct } from './utils/imageAnalysis';
+import { getPaddingForAspectRatio, hasPadding, NO_PADDING, padCanvas, type Padding, type PaddingFill } from './utils/padding';
+import { MASK_COLOR, combineMask, createPaddingMask, featherMask, growMask, invertMask, magicWandSelect, readMaskAlpha, writeMaskAlpha } from './utils/maskOps';
+import { exportImage, type ExportResult } from './utils/exportImage';
+import { editImageVariations, editImageWithPrompt } from './services/geminiService';
+import { loadProject, saveProject } from './services/projectStore';
+import { clearStoredPresets, loadStoredPresets, loadTeamPresets, saveStoredPresets } from './services/presetStore';
+import { loadStoredRecipes, saveStoredRecipes } from './services/recipeStore';
+import { advanceRecipeRun, createRecipeId, getRecipeCrop, isRecipeRunFinished, type Recipe, type RecipeRun, type RecipeStep, type RecipeStepOutcome } from './utils/recipes';
+import { type TextContent } from './utils/textLayer';
+import { runTaskQueue, type TaskQueueController } from './utils/taskQueue';
+import { addImageLayerOnTop, createImageLayer, createShapeLayer, createStickerLayer, createTextLayer, getTopImageLayer, isOverlayLayer, loadLayerImages, padOverlayLayer, renderLayersToCanvas, type Layer, type ShapeKind, type TextLayer } from './utils/layers';
+import { UploadIcon, SparklesIcon, SaveIcon, PhotoIcon, XCircleIcon, XIcon, GridIcon, BrushIcon, CropIcon, CheckIcon, AdjustmentsIcon, UndoIcon, RedoIcon, EditIcon, CopyIcon, ClipboardIcon, ChevronUpIcon, LayersIcon, CollectionIcon, ClockIcon, ScissorsIcon, RecipeIcon } from './components/Icons';
+import BatchPanel, { type BatchConfig, type BatchState } from './components/BatchPanel';
+import ExportProfilePanel, { type ExportEstimate } from './components/ExportProfilePanel';
+import ExportReviewDialog, { type ExportReviewItem } from './components/ExportReviewDialog';
+import LayerCanvas from './components/LayerCanvas';
+import LayerTransformHandles from './components/LayerTransformHandles';
+import LayersPanel from './components/LayersPanel';
+import TextToolPanel from './components/TextToolPanel';
+import VariationChooser from './components/VariationChooser';
+import HistoryPanel, { type HistoryPanelEntry } from './components/HistoryPanel';
+import MaskToolsPanel, { type SelectionMode } from './components/MaskToolsPanel';
+import BackgroundRemovalPanel, { type CutoutBackground } from './components/BackgroundRemovalPanel';
+import AutoFramePanel, { type AutoFrameScope } from './components/AutoFramePanel';
+import ExtendCanvasPanel from './components/ExtendCanvasPanel';
+import PresetLibraryPanel, { PRESET_ICONS } from './components/PresetLibraryPanel';
+import AdjustmentsPanel, { type AdjustmentScope } from './components/AdjustmentsPanel';
+import EditClipboardPanel, { type PasteScope } from './components/EditClipboardPanel';
+import HistogramPanel from './components/HistogramPanel';
+import ClippingOverlayCanvas from './components/ClippingOverlayCanvas';
+import RecipePanel, { type RecipeRunOptions, type RecipeScope } from './components/RecipePanel';
 
 interface ImageState {
   id: string;
   file: File;
-  base64: string;
-  generatedBase64: string | null;
-  maskBase64: string | null;
+  // The original upload, as an interned object URL. It is also the source of the base layer
+  // and grows along when the document is padded, so it always has the document's proportions.
+  originalSrc: string;
+  maskSrc: string | null;
   crop?: Crop;
   naturalWidth: number;
   naturalHeight: number;
   adjustments: ImageAdjustments;
+  // Ordered bottom-up. Adjustments apply to image layers only.
+  layers: Layer[];
+  exportProfileId: string;
+  exportSettings: ExportSettings;
+}
+
+interface HistoryEntry {
+  images: ImageState[];
+  label: string;
+  timestamp: number;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+type SelectionShape =
+  | { kind: 'rect' | 'ellipse'; from: Point; to: Point }
+  | { kind: 'lasso'; points: Point[] };
+
+const traceSelection = (ctx: CanvasRenderingContext2D, shape: SelectionShape) => {
+  ctx.beginPath();
+  if (shape.kind === 'lasso') {
+    shape.points.forEach((point, i) => i === 0 ? ctx.moveTo(point.x, point.y) : ctx.lineTo(point.x, point.y));
+    return;
+  }
+  const x = Math.min(shape.from.x, shape.to.x);
+  const y = Math.min(shape.from.y, shape.to.y);
+  const width = Math.abs(shape.to.x - shape.from.x);
+  const height = Math.abs(shape.to.y - shape.from.y);
+  if (shape.kind === 'rect') {
+    ctx.rect(x, y, width, height);
+  } else {
+    ctx.ellipse(x + width / 2, y + height / 2, width / 2, height / 2, 0, 0, Math.PI * 2);
+  }
+};
+
+// Every blob URL an image references, for history memory accounting and release.
+const getImageUrls = (image: ImageState): string[] => [
+  image.originalSrc,
+  ...(image.maskSrc ? [image.maskSrc] : []),
+  ...image.layers.flatMap(layer => layer.kind === 'image' ? [layer.src] : []),
+];
+
+// Applies the adjustments and export profile a preset carries, keeping whatever it leaves unset.
+const applyPresetSettings = (image: ImageState, preset: EnhancementPreset | undefined): ImageState => {
+  if (!preset) return image;
+  const exportChanges = preset.exportProfileId
+    ? { exportProfileId: preset.exportProfileId, exportSettings: getDefaultExportSettings(getExportProfile(preset.exportProfileId)) }
+    : {};
+  return { ...image, ...exportChanges, adjustments: preset.adjustments ?? image.adjustments };
+};
+
+// Puts a kept AI result on top of the image, with the settings of the preset that produced it.
+const addEnhancementResult = (image: ImageState, resultSrc: string, label: string, preset: EnhancementPreset | undefined): ImageState =>
+  applyPresetSettings({ ...image, layers: addImageLayerOnTop(image.layers, createImageLayer(resultSrc, 'ai', label)), maskSrc: null }, preset);
+
+// AI results awaiting review. Regenerating reuses the same prompt and mask.
+interface PendingEnhancement {
+  options: string[];
+  selectedIndex: number;
+  label: string;
+  prompt: string;
+  maskSrc: string | null;
+  // Settings of the preset that produced the results, applied together with the kept one.
+  preset?: EnhancementPreset;
+  // The results were generated from an uncommitted input (the extended canvas of an outpaint),
+  // which only becomes a history step together with the kept result.
+  hasTemporaryInput?: boolean;
 }
 
+const VARIATION_COUNTS = [1, 2, 3, 4];
+
+const OUTPAINT_PROMPT = 'Preencha as áreas marcadas pela máscara continuando a cena da foto: mesmo fundo, iluminação, sombras e perspectiva. Não altere o produto e não adicione novos objetos.';
+// How far, relative to the shorter side, the outpaint mask reaches into the photo to hide the seam.
+const OUTPAINT_OVERLAP_RATIO = 0.02;
+// Longest side of the preview the live histogram and clipping overlay are computed on.
+const HISTOGRAM_PREVIEW_SIZE = 512;
+
 interface ImageEditorProps {
   initialImages?: {
     file: File | null;
     base64: string | null;
   }[];
+  // Reopens a project saved in IndexedDB instead of starting from `initialImages`.
+  projectId?: string;
+  productId?: string;
+  // History is trimmed from the oldest step when either limit is exceeded.
+  historyLimit?: number;
+  historyMemoryBudgetMB?: number;
   onSave: (data: { images: Blob[] }) => void;
   onClose: () => void;
 }
 
-const ENHANCEMENT_PRESETS = [
-  {
-    name: 'Aprimoramento Geral',
-    prompt: 'Aprimore esta imagem para que tenha aparência profissional e realista. Melhore o equilíbrio de contraste e brilho, a nitidez e a vivacidade das cores, mantendo a naturalidade.',
-    icon: <SparklesIcon className="w-6 h-6" />
-  },
-  {
-    name: 'Remover Fundo',
-    prompt: 'Remova o fundo desta imagem de forma precisa, deixando apenas o objeto principal com um fundo transparente.',
-    icon: <EraserIcon className="w-6 h-6" />
-  },
-  {
-    name: 'Fundo Branco',
-    prompt: 'Remova o fundo da imagem e substitua-o por um fundo branco puro, de estúdio, ideal para marketplaces.',
-    icon: <PhotoIcon className="w-6 h-6" />
-  },
-  {
-    name: 'Sombra Realista',
-    prompt: 'Adicione uma sombra suave e realista ao objeto principal para dar profundidade e destacá-lo do fundo. A sombra deve parecer natural, como se o objeto estivesse sobre uma superfície.',
-    icon: <ShadowIcon className="w-6 h-6" />
-  },
-  {
-    name: 'Cores Vibrantes',
-    prompt: 'Ajuste as cores da imagem para torná-las mais vibrantes e atraentes, sem parecerem supersaturadas ou artificiais. O objetivo é fazer o produto parecer mais apetecível.',
-    icon: <AdjustmentsIcon className="w-6 h-6" />
-  }
-];
+type AutosaveStatus = 'idle' | 'saving' | 'saved' | 'error';
 
+const AUTOSAVE_DELAY_MS = 1000;
+
+const createProjectInfo = (productId: string) => ({
+  id: `projeto-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+  productId,
+  name: `Edição de ${new Date().toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' })}`,
+  createdAt: Date.now(),
+});
 
 // Simple media query hook
 const useMediaQuery = (query: string) => {
@@ -83,36 +175,102 @@ const useMediaQuery = (query: string) => {
     return matches;
 };
 
-type Tool = 'crop' | 'brush' | 'adjust' | 'enhance' | 'text' | null;
-
-export default function ImageEditor({ initialImages: initialImageData, onSave, onClose }: ImageEditorProps) {
-  const [images, _setImages] = useState<ImageState[]>([]);
+type Tool = 'crop' | 'brush' | 'background' | 'adjust' | 'enhance' | 'text' | 'layers' | 'batch' | 'recipes' | 'export' | 'history' | null;
+
+export default function ImageEditor({ initialImages: initialImageData, projectId, productId = 'default', historyLimit = 50, historyMemoryBudgetMB = 256, onSave, onClose }: ImageEditorProps) {
+  const [images, setImagesState] = useState<ImageState[]>([]);
+  // The images as of the latest update, which the render closure only catches up with later.
+  const imagesRef = useRef<ImageState[]>([]);
+  // Changes the images without a history step. Updaters run against imagesRef, so a change made
+  // after an await starts from the current images rather than those of the render that began it.
+  const _setImages = (updater: React.SetStateAction<ImageState[]>) => {
+    imagesRef.current = typeof updater === 'function' ? updater(imagesRef.current) : updater;
+    setImagesState(imagesRef.current);
+  };
   const [selectedImageId, setSelectedImageId] = useState<string | null>(null);
   
   const [prompt, setPrompt] = useState<string>('');
   const [activeAspectRatio, setActiveAspectRatio] = useState<AspectRatio>(ASPECT_RATIOS[0]);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [isEnhancing, setIsEnhancing] = useState<boolean>(false);
+  const [variationCount, setVariationCount] = useState<number>(1);
+  const [exportReview, setExportReview] = useState<{ items: ExportReviewItem[]; blobs: Blob[] } | null>(null);
+  const [exportEstimate, setExportEstimate] = useState<ExportEstimate | null>(null);
+  const [isEstimatingExport, setIsEstimatingExport] = useState(false);
+  // Bumped whenever the estimate goes stale, so an encoding still in flight is discarded.
+  const exportEstimateTokenRef = useRef(0);
   const [error, setError] = useState<string | null>(null);
   const [showThumbnails, setShowThumbnails] = useState<boolean>(true);
 
 
   // State for enhancement confirmation flow
-  const [pendingEnhancement, setPendingEnhancement] = useState<string | null>(null);
+  const [pendingEnhancement, setPendingEnhancementState] = useState<PendingEnhancement | null>(null);
+  // Mirrors the pending results synchronously, so freeing blobs never misses ones that are still on review.
+  const pendingEnhancementRef = useRef<PendingEnhancement | null>(null);
+  const setPendingEnhancement = (updater: React.SetStateAction<PendingEnhancement | null>) => {
+    pendingEnhancementRef.current = typeof updater === 'function' ? updater(pendingEnhancementRef.current) : updater;
+    setPendingEnhancementState(pendingEnhancementRef.current);
+  };
   const [showOriginalForCompare, setShowOriginalForCompare] = useState<boolean>(false);
 
   // Editing tool state
   const [activeTool, setActiveTool] = useState<Tool>(null);
   const [isMobilePanelCollapsed, setIsMobilePanelCollapsed] = useState(false);
-  const [brushSize, setBrushSize] = useState<number>(30);
+  const [brushSize, setBrushSize] = useState<number>(60); // In image pixels
   const [isErasing, setIsErasing] = useState<boolean>(false);
+  const [selectionMode, setSelectionMode] = useState<SelectionMode>('brush');
+  const [wandTolerance, setWandTolerance] = useState(32);
+  const [wandContiguous, setWandContiguous] = useState(true);
+  const [maskOperationRadius, setMaskOperationRadius] = useState(10);
+  const [backgroundOptions, setBackgroundOptions] = useState<BackgroundRemovalOptions>(DEFAULT_BACKGROUND_REMOVAL_OPTIONS);
+  const [cutoutRefineRadius, setCutoutRefineRadius] = useState(4);
+  const [isRemovingBackground, setIsRemovingBackground] = useState(false);
+  const [framingSettings, setFramingSettings] = useState(DEFAULT_FRAMING_OPTIONS);
+  const [isFraming, setIsFraming] = useState(false);
+  // The crop tool either cuts the image down or extends the canvas around it.
+  const [cropMode, setCropMode] = useState<'crop' | 'extend'>('crop');
+  const [extendPadding, setExtendPadding] = useState<Padding>(NO_PADDING);
+  const [extendFill, setExtendFill] = useState<PaddingFill>({ kind: 'solid', color: '#ffffff' });
+  const [extendPreview, setExtendPreview] = useState<string | null>(null);
+  const [isExtending, setIsExtending] = useState(false);
   const [tempAdjustments, setTempAdjustments] = useState<ImageAdjustments | null>(null);
+  const [selectedLayerId, setSelectedLayerId] = useState<string | null>(null);
+
+  // Preset library: the user's own copy when customized, otherwise the team defaults.
+  const [presets, setPresets] = useState<EnhancementPreset[]>(() => loadStoredPresets() ?? DEFAULT_ENHANCEMENT_PRESETS);
+  const [teamPresets, setTeamPresets] = useState<EnhancementPreset[] | null>(null);
+  const [isManagingPresets, setIsManagingPresets] = useState(false);
+  const [isAutoAdjusting, setIsAutoAdjusting] = useState(false);
+  const [histogramResult, setHistogramResult] = useState<HistogramResponse | null>(null);
+  const [showClipping, setShowClipping] = useState(false);
+  const [copiedCurves, setCopiedCurves] = useState<CurveSettings | null>(null);
+  const [copiedEdits, setCopiedEdits] = useState<CopiedEdits | null>(null);
+  const [pasteProperties, setPasteProperties] = useState<EditProperty[]>(EDIT_PROPERTIES.map(p => p.id));
+
+  // Recipes: recorded sequences of edits that can be replayed on other images.
+  const [recipes, setRecipes] = useState<Recipe[]>(loadStoredRecipes);
+  const [recordingSteps, setRecordingSteps] = useState<RecipeStep[] | null>(null);
+  const [recipeRun, setRecipeRun] = useState<RecipeRun | null>(null);
+  // Images as the running recipe left them. They are shown but only committed when the run ends.
+  const recipeImagesRef = useRef(new Map<string, ImageState>());
+  // Bumped when a run is cancelled, so a step still in flight leaves the state alone.
+  const recipeRunTokenRef = useRef(0);
+
+  // Batch processing state
+  const [batch, setBatch] = useState<BatchState | null>(null);
+  const batchQueueRef = useRef<TaskQueueController | null>(null);
 
   // History state
-  const history = useRef<ImageState[][]>([]);
+  const history = useRef<HistoryEntry[]>([]);
   const historyIndex = useRef<number>(-1);
   const [_, setForceUpdate] = useState(false); // For re-rendering to update canUndo/canRedo
 
+  // Project persistence state
+  const projectInfo = useRef(createProjectInfo(productId));
+  const thumbnailRef = useRef<{ src: string; thumbnail: string } | null>(null);
+  const autosaveTimer = useRef<number | null>(null);
+  const [autosaveStatus, setAutosaveStatus] = useState<AutosaveStatus>('idle');
+
 
   const [crop, setCrop] = useState<Crop>();
   const [completedCrop, setCompletedCrop] = useState<PixelCrop>();
@@ -121,7 +279,15 @@ export default function ImageEditor({ initialImages: initialImageData, onSave, o
   const fileInputRef = useRef<HTMLInputElement>(null);
   const isDrawingRef = useRef(false);
   const hasDrawnRef = useRef(false);
-  const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+  const lastPointRef = useRef<Point | null>(null);
+  const selectionPreviewRef = useRef<HTMLCanvasElement>(null);
+  const selectionStartRef = useRef<Point | null>(null);
+  const lassoPointsRef = useRef<Point[]>([]);
+  // Flattened pixels of the active image for the magic wand and background removal, keyed by the layers they came from.
+  const imagePixelsRef = useRef<{ key: string; pixels: ImageData } | null>(null);
+  // Downscaled copy of the same pixels the live histogram is computed from.
+  const histogramPixelsRef = useRef<{ key: string; pixels: ImageData } | null>(null);
+  const liveHistogramRef = useRef<LiveHistogram | null>(null);
 
   const isDesktop = useMediaQuery('(min-width: 1024px)');
   const activeImage = images.find(img => img.id === selectedImageId);
@@ -130,37 +296,86 @@ export default function ImageEditor({ initialImages: initialImageData, onSave, o
   const canUndo = historyIndex.current > 0;
   const canRedo = historyIndex.current < history.current.length - 1;
 
-  const setImages = (updater: React.SetStateAction<ImageState[]>, saveToHistory = false) => {
-      const newState = typeof updater === 'function' ? updater(images) : updater;
-      _setImages(newState);
-      if (saveToHistory) {
+  const isProcessing = isLoading || isEnhancing || isRemovingBackground || isFraming || isExtending || recipeRun?.status === 'running';
+  // A recipe waiting for review still owns the images it changed, so editing stays blocked until it ends.
+  const isAnyLoading = isProcessing || !!recipeRun;
+
+  const getCommittedImage = (id: string) => history.current[historyIndex.current]?.images.find(img => img.id === id);
+
+  /**
+   * Replaces the whole history, e.g. after loading, and frees the blobs of the entries that
+   * left it, unless the kept history or the live editor state still shows them.
+   */
+  const resetHistory = (entries: HistoryEntry[], index: number) => {
+      const getEntryUrls = (entry: HistoryEntry) => entry.images.flatMap(getImageUrls);
+      const trimmed = trimHistory(
+          entries,
+          index,
+          { maxSteps: historyLimit, maxBytes: historyMemoryBudgetMB * 1024 * 1024 },
+          getEntryUrls,
+          getInternedSize
+      );
+      const dropped = [...history.current, ...entries].filter(entry => !trimmed.entries.includes(entry));
+      history.current = trimmed.entries;
+      historyIndex.current = trimmed.currentIndex;
+
+      const referenced = getReferencedUrls(trimmed.entries);
+      releaseUrls(new Set(dropped.flatMap(getEntryUrls).filter(url => !referenced.has(url))));
+      setForceUpdate(v => !v);
+  };
+
+  // Every blob URL the given history or the live editor state still shows.
+  const getReferencedUrls = (entries: HistoryEntry[]) => new Set([
+      ...entries.flatMap(entry => entry.images.flatMap(getImageUrls)),
+      ...imagesRef.current.flatMap(getImageUrls),
+      ...[...recipeImagesRef.current.values()].flatMap(getImageUrls),
+      ...(pendingEnhancementRef.current ? [...pendingEnhancementRef.current.options, pendingEnhancementRef.current.maskSrc ?? ''] : []),
+  ]);
+
+  // Frees the blobs of image states that were thrown away without ever reaching the history.
+  const releaseDiscardedImages = (discarded: ImageState[]) => {
+      const referenced = getReferencedUrls(history.current);
+      releaseUrls(new Set(discarded.flatMap(getImageUrls).filter(url => !referenced.has(url))));
+  };
+
+  // Puts an image back as the last history step has it and frees the blobs only its discarded state used.
+  const restoreCommittedImage = (id: string) => {
+      const discarded = imagesRef.current.filter(img => img.id === id);
+      _setImages(prev => prev.map(img => img.id === id ? getCommittedImage(id) ?? img : img));
+      releaseDiscardedImages(discarded);
+  };
+
+  // Passing `historyLabel` commits the new state as an undoable step with that name.
+  const setImages = (updater: React.SetStateAction<ImageState[]>, historyLabel?: string) => {
+      _setImages(updater);
+      const newState = imagesRef.current;
+      if (historyLabel) {
           const newHistory = history.current.slice(0, historyIndex.current + 1);
-          newHistory.push(newState);
-          history.current = newHistory;
-          historyIndex.current = newHistory.length - 1;
-          setForceUpdate(v => !v);
+          newHistory.push({ images: newState, label: historyLabel, timestamp: Date.now() });
+          resetHistory(newHistory, newHistory.length - 1);
       }
   };
 
-  const undo = useCallback(() => {
-    if (historyIndex.current > 0) {
-        historyIndex.current--;
-        _setImages(history.current[historyIndex.current]);
-        setForceUpdate(v => !v);
-    }
+  const jumpToHistory = useCallback((index: number) => {
+    if (index < 0 || index >= history.current.length) return;
+    historyIndex.current = index;
+    _setImages(history.current[index].images);
+    setForceUpdate(v => !v);
   }, []);
 
-  const redo = useCallback(() => {
-      if (historyIndex.current < history.current.length - 1) {
-          historyIndex.current++;
-          _setImages(history.current[historyIndex.current]);
-          setForceUpdate(v => !v);
-      }
+  const undo = useCallback(() => jumpToHistory(historyIndex.current - 1), [jumpToHistory]);
+
+  const redo = useCallback(() => jumpToHistory(historyIndex.current + 1), [jumpToHistory]);
+
+  useEffect(() => {
+    // Interned blobs outlive a single editor session only while something still shows them.
+    return () => releaseUnreferenced(new Set());
   }, []);
 
   // --- Keyboard Shortcuts for Undo/Redo ---
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
+      if (isAnyLoading) return;
       if (event.ctrlKey || event.metaKey) { // metaKey for macOS Command key
         if (event.key.toLowerCase() === 'z') {
           event.preventDefault(); // Prevent browser's default undo/redo
@@ -178,7 +393,7 @@ export default function ImageEditor({ initialImages: initialImageData, onSave, o
     return () => {
       window.removeEventListener('keydown', handleKeyDown);
     };
-  }, [undo, redo]);
+  }, [undo, redo, isAnyLoading]);
 
   const handleToolSelect = (tool: Tool) => {
     const newTool = activeTool === tool ? null : tool;
@@ -189,6 +404,13 @@ export default function ImageEditor({ initialImages: initialImageData, onSave, o
     if (newTool !== 'brush') {
       setIsErasing(false);
     }
+    if (newTool !== 'text' && newTool !== 'layers') {
+      setSelectedLayerId(null);
+    }
+    if (newTool === 'crop' && activeImage) {
+      const { aspectRatio } = getExportProfile(activeImage.exportProfileId);
+      if (aspectRatio) setActiveAspectRatio(aspectRatio);
+    }
     if (newTool === 'adjust' && activeImage) {
       setTempAdjustments(activeImage.adjustments);
     } else {
@@ -198,6 +420,7 @@ export default function ImageEditor({ initialImages: initialImageData, onSave, o
 
 
   // Canvas Drawing Logic
+  // The mask canvas has the image's natural size, so points and brush size are in image pixels.
   const getCanvasCoordinates = (event: MouseEvent | TouchEvent) => {
     const canvas = maskCanvasRef.current;
     if (!canvas) return null;
@@ -216,20 +439,225 @@ export default function ImageEditor({ initialImages: initialImageData, onSave, o
     };
   };
 
+  // Canvas pixels per screen pixel, to keep outlines and hit areas a constant size on screen.
+  const getCanvasScale = () => {
+    const canvas = maskCanvasRef.current;
+    return canvas ? canvas.width / (canvas.getBoundingClientRect().width || 1) : 1;
+  };
+
+  const drawSelectionPreview = (shape: SelectionShape | null) => {
+    const canvas = selectionPreviewRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    if (!shape) return;
+    const scale = getCanvasScale();
+    traceSelection(ctx, shape);
+    ctx.lineWidth = 1.5 * scale;
+    ctx.setLineDash([6 * scale, 4 * scale]);
+    ctx.strokeStyle = MASK_COLOR;
+    ctx.stroke();
+  };
+
+  const saveMask = () => {
+    const canvas = maskCanvasRef.current;
+    if (!canvas || !activeImage) return;
+    const imageId = activeImage.id;
+    internDataUrl(canvas.toDataURL()).then(maskSrc => {
+        // Ephemeral update without saving history
+        _setImages(current => current.map(img => 
+            img.id === imageId ? { ...img, maskSrc } : img
+        ));
+    });
+  };
+
+  const fillSelection = (shape: SelectionShape) => {
+    const ctx = maskCanvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    applyBrushStyle(ctx);
+    traceSelection(ctx, shape);
+    ctx.closePath();
+    ctx.fill();
+    saveMask();
+  };
+
+  const closeLasso = () => {
+    const points = lassoPointsRef.current;
+    lassoPointsRef.current = [];
+    drawSelectionPreview(null);
+    if (points.length >= 3) fillSelection({ kind: 'lasso', points });
+  };
+
+  const addLassoPoint = (point: Point) => {
+    const points = lassoPointsRef.current;
+    if (points.length >= 3 && Math.hypot(point.x - points[0].x, point.y - points[0].y) <= 10 * getCanvasScale()) {
+      closeLasso();
+      return;
+    }
+    // The clicks of a double click land on the same spot; keep one vertex.
+    const last = points[points.length - 1];
+    if (last && Math.hypot(point.x - last.x, point.y - last.y) < 2 * getCanvasScale()) return;
+    lassoPointsRef.current = [...points, point];
+    drawSelectionPreview({ kind: 'lasso', points: lassoPointsRef.current });
+  };
+
+  const getImagePixels = async (image: ImageState): Promise<ImageData> => {
+    const imageLayers = image.layers.filter(l => l.kind === 'image');
+    const key = `${image.id}:${imageLayers.map(l => `${l.src}|${l.visible}`).join(',')}`;
+    if (imagePixelsRef.current?.key === key) return imagePixelsRef.current.pixels;
+    const canvas = await renderLayersToCanvas(imageLayers, image.naturalWidth, image.naturalHeight);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not get canvas context');
+    const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    imagePixelsRef.current = { key, pixels };
+    return pixels;
+  };
+
+  const getHistogramPixels = async (image: ImageState): Promise<ImageData> => {
+    const imageLayers = image.layers.filter(l => l.kind === 'image');
+    const key = `${image.id}:${imageLayers.map(l => `${l.src}|${l.visible}`).join(',')}`;
+    if (histogramPixelsRef.current?.key === key) return histogramPixelsRef.current.pixels;
+    const source = await renderLayersToCanvas(imageLayers, image.naturalWidth, image.naturalHeight);
+    const scale = Math.min(1, HISTOGRAM_PREVIEW_SIZE / Math.max(source.width, source.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(source.width * scale));
+    canvas.height = Math.max(1, Math.round(source.height * scale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not get canvas context');
+    ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+    const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    histogramPixelsRef.current = { key, pixels };
+    return pixels;
+  };
+
+  // The histogram follows the adjust sliders; the worker always works on the latest values.
+  useEffect(() => {
+    if (activeTool !== 'adjust' || !activeImage || !tempAdjustments) {
+      setHistogramResult(null);
+      return;
+    }
+    let cancelled = false;
+    getHistogramPixels(activeImage)
+      .then(pixels => {
+        if (cancelled) return;
+        liveHistogramRef.current ??= createLiveHistogram(setHistogramResult);
+        liveHistogramRef.current.update(pixels, tempAdjustments, showClipping, pixels.width / activeImage.naturalWidth);
+      })
+      .catch(e => console.error("Error computing histogram:", e));
+    return () => { cancelled = true; };
+  }, [activeTool, activeImage?.id, activeImage?.layers, tempAdjustments, showClipping]);
+
+  useEffect(() => () => liveHistogramRef.current?.dispose(), []);
+
+  const applyMagicWand = async (point: Point) => {
+    const canvas = maskCanvasRef.current;
+    if (!canvas || !activeImage) return;
+    const pixels = await getImagePixels(activeImage);
+    const selection = magicWandSelect(pixels, point.x, point.y, wandTolerance, wandContiguous);
+    writeMaskAlpha(canvas, combineMask(readMaskAlpha(canvas), selection, isErasing ? 'subtract' : 'add'));
+    saveMask();
+  };
+
+  const transformMask = (transform: (alpha: Uint8ClampedArray, canvas: HTMLCanvasElement) => Uint8ClampedArray) => {
+    const canvas = maskCanvasRef.current;
+    if (!canvas) return;
+    writeMaskAlpha(canvas, transform(readMaskAlpha(canvas), canvas));
+    saveMask();
+  };
+
+  const handleInvertMask = () => transformMask(invertMask);
+
+  const handleGrowMask = (radius: number) =>
+    transformMask((alpha, canvas) => growMask(alpha, canvas.width, canvas.height, radius));
+
+  const handleFeatherMask = (radius: number) => {
+    const canvas = maskCanvasRef.current;
+    if (!canvas) return;
+    featherMask(canvas, radius);
+    saveMask();
+  };
+
+  // Runs a pixel operation after the "processing" state has painted; they can take a moment on large photos.
+  const runBackgroundStep = async (step: () => Promise<void>) => {
+    setIsRemovingBackground(true);
+    setError(null);
+    await new Promise(resolve => setTimeout(resolve, 0));
+    try {
+      await step();
+    } catch (e) {
+      console.error("Error removing background:", e);
+      setError("Falha ao remover o fundo da imagem.");
+    } finally {
+      setIsRemovingBackground(false);
+    }
+  };
+
+  const handleDetectProduct = () => runBackgroundStep(async () => {
+    const canvas = maskCanvasRef.current;
+    if (!canvas || !activeImage) return;
+    const pixels = await getImagePixels(activeImage);
+    writeMaskAlpha(canvas, segmentForeground(pixels, backgroundOptions));
+    setSelectionMode('brush');
+    saveMask();
+  });
+
+  const handleRefineCutoutEdges = () => runBackgroundStep(async () => {
+    const canvas = maskCanvasRef.current;
+    if (!canvas || !activeImage) return;
+    const pixels = await getImagePixels(activeImage);
+    writeMaskAlpha(canvas, refineEdges(pixels, readMaskAlpha(canvas), cutoutRefineRadius, backgroundOptions));
+    saveMask();
+  });
+
+  const handleApplyCutout = (background: CutoutBackground) => runBackgroundStep(async () => {
+    const canvas = maskCanvasRef.current;
+    if (!canvas || !activeImage) return;
+    const pixels = await getImagePixels(activeImage);
+    const result = applyForegroundMask(pixels, readMaskAlpha(canvas), background === 'white' ? [255, 255, 255] : undefined);
+    const output = document.createElement('canvas');
+    output.width = result.width;
+    output.height = result.height;
+    output.getContext('2d')?.putImageData(result, 0, 0);
+    const label = background === 'white' ? 'Fundo Branco (local)' : 'Fundo Removido (local)';
+    const resultLayer = createImageLayer(await internDataUrl(output.toDataURL('image/png')), 'local', label);
+    const imageId = activeImage.id;
+    setImages(currentImages => currentImages.map(img =>
+      img.id === imageId ? { ...img, layers: addImageLayerOnTop(img.layers, resultLayer), maskSrc: null } : img
+    ), label);
+    setActiveTool(null);
+  });
+
+  const handleCancelCutout = () => {
+    handleClearMask();
+    setActiveTool(null);
+  };
+
   const startDrawing = (e: React.MouseEvent | React.TouchEvent) => {
     e.preventDefault();
     const coords = getCanvasCoordinates(e.nativeEvent);
-    if (coords) {
-        isDrawingRef.current = true;
-        hasDrawnRef.current = false;
-        lastPointRef.current = coords;
+    if (!coords) return;
+
+    if (selectionMode === 'wand') {
+        applyMagicWand(coords);
+        return;
+    }
+    if (selectionMode === 'lasso') {
+        addLassoPoint(coords);
+        return;
+    }
+
+    isDrawingRef.current = true;
+    hasDrawnRef.current = false;
+    lastPointRef.current = coords;
+    selectionStartRef.current = coords;
 
+    if (selectionMode === 'brush') {
         // Draw a dot for single clicks, improving UX
         const ctx = maskCanvasRef.current?.getContext('2d');
         if (ctx) {
+            applyBrushStyle(ctx);
             ctx.beginPath();
             ctx.arc(coords.x, coords.y, brushSize / 2, 0, Math.PI * 2);
-            ctx.fillStyle = ctx.strokeStyle; // Use the same color as the line
             ctx.fill();
             hasDrawnRef.current = true;
         }
@@ -238,13 +666,25 @@ export default function ImageEditor({ initialImages: initialImageData, onSave, o
 
   const draw = (e: React.MouseEvent | React.TouchEvent) => {
     e.preventDefault();
-    if (!isDrawingRef.current) return;
-    
-    const canvas = maskCanvasRef.current;
-    const ctx = canvas?.getContext('2d');
     const currentPoint = getCanvasCoordinates(e.nativeEvent);
+    if (!currentPoint) return;
+
+    if (selectionMode === 'lasso') {
+        const points = lassoPointsRef.current;
+        if (points.length > 0) drawSelectionPreview({ kind: 'lasso', points: [...points, currentPoint] });
+        return;
+    }
+    if (!isDrawingRef.current) return;
+
+    if (selectionMode === 'rect' || selectionMode === 'ellipse') {
+        hasDrawnRef.current = true;
+        lastPointRef.current = currentPoint;
+        drawSelectionPreview({ kind: selectionMode, from: selectionStartRef.current!, to: currentPoint });
+        return;
+    }
 
-    if (ctx && currentPoint && lastPointRef.current) {
+    const ctx = maskCanvasRef.current?.getContext('2d');
+    if (ctx && lastPointRef.current) {
         hasDrawnRef.current = true;
         ctx.beginPath();
         ctx.moveTo(lastPointRef.current.x, lastPointRef.current.y);
@@ -258,67 +698,42 @@ export default function ImageEditor({ initialImages: initialImageData, onSave, o
     if (!isDrawingRef.current) return;
     
     const wasDrawing = hasDrawnRef.current;
+    const from = selectionStartRef.current;
+    const to = lastPointRef.current;
     isDrawingRef.current = false;
     lastPointRef.current = null;
+    selectionStartRef.current = null;
     hasDrawnRef.current = false;
 
     if (!wasDrawing) return; // Exit if no actual drawing occurred (e.g., just a click outside)
 
-    const canvas = maskCanvasRef.current;
-    if (canvas && activeImage) {
-        const newMaskBase64 = canvas.toDataURL();
-        // Ephemeral update without saving history
-        _setImages(current => current.map(img => 
-            img.id === activeImage.id ? { ...img, maskBase64: newMaskBase64 } : img
-        ));
+    if ((selectionMode === 'rect' || selectionMode === 'ellipse') && from && to) {
+        drawSelectionPreview(null);
+        fillSelection({ kind: selectionMode, from, to });
+        return;
     }
+    saveMask();
   };
-  
-  // Effect to handle canvas setup and resizing
-  useEffect(() => {
-    const canvas = maskCanvasRef.current;
-    const image = imgRef.current;
-    if (!canvas || !image) return;
-
-    const resizeObserver = new ResizeObserver(() => {
-        const { clientWidth, clientHeight } = image;
-        if (canvas.width !== clientWidth || canvas.height !== clientHeight) {
-            canvas.width = clientWidth;
-            canvas.height = clientHeight;
-            // Redraw mask after resize
-            if (activeImage?.maskBase64) {
-                const maskImage = new Image();
-                maskImage.src = activeImage.maskBase64;
-                maskImage.onload = () => {
-                    canvas.getContext('2d')?.drawImage(maskImage, 0, 0, canvas.width, canvas.height);
-                };
-            }
-        }
-    });
-
-    resizeObserver.observe(image);
-
-    return () => resizeObserver.disconnect();
-  }, [activeImage?.maskBase64]);
 
-
-  // Effect to setup drawing context (brush size, color, eraser)
+  // An unfinished lasso or marquee belongs to the mode, tool and image it was started in.
   useEffect(() => {
-    if (activeTool !== 'brush') return;
-    const ctx = maskCanvasRef.current?.getContext('2d');
-    if (ctx) {
-        ctx.lineWidth = brushSize;
-        ctx.lineCap = 'round';
-        ctx.lineJoin = 'round';
-        if (isErasing) {
-            ctx.globalCompositeOperation = 'destination-out';
-        } else {
-            ctx.globalCompositeOperation = 'source-over';
-            ctx.strokeStyle = 'rgb(139, 92, 246)'; // Indigo for regular brush
-            ctx.fillStyle = 'rgb(139, 92, 246)';
-        }
+    lassoPointsRef.current = [];
+    isDrawingRef.current = false;
+    drawSelectionPreview(null);
+  }, [selectionMode, activeTool, selectedImageId]);
+  
+  const applyBrushStyle = (ctx: CanvasRenderingContext2D) => {
+    ctx.lineWidth = brushSize;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    if (isErasing) {
+        ctx.globalCompositeOperation = 'destination-out';
+    } else {
+        ctx.globalCompositeOperation = 'source-over';
+        ctx.strokeStyle = MASK_COLOR;
+        ctx.fillStyle = MASK_COLOR;
     }
-  }, [brushSize, isErasing, activeTool]);
+  };
 
   const handleClearMask = () => {
     const canvas = maskCanvasRef.current;
@@ -326,7 +741,7 @@ export default function ImageEditor({ initialImages: initialImageData, onSave, o
     if (canvas && ctx && activeImage) {
         ctx.clearRect(0, 0, canvas.width, canvas.height);
         _setImages(current => current.map(img => 
-            img.id === activeImage.id ? { ...img, maskBase64: null } : img
+            img.id === activeImage.id ? { ...img, maskSrc: null } : img
         ));
     }
   };
@@ -337,32 +752,113 @@ export default function ImageEditor({ initialImages: initialImageData, onSave, o
             const newImagesPromises = initialImageData
               .filter(d => d.file && d.base64)
               .map(async (d, index) => {
-                  const { naturalWidth, naturalHeight } = await getImageDimensions(d.base64!);
+                  const originalSrc = await internDataUrl(d.base64!);
+                  const { naturalWidth, naturalHeight } = await getImageDimensions(originalSrc);
                   const fullCrop: Crop = { unit: '%', x: 0, y: 0, width: 100, height: 100 };
                   return {
                       id: `${Date.now()}-${index}`,
                       file: d.file!,
-                      base64: d.base64!,
-                      generatedBase64: null,
-                      maskBase64: null,
+                      originalSrc,
+                      maskSrc: null,
                       naturalWidth,
                       naturalHeight,
-                      adjustments: { ...defaultAdjustments },
+                      adjustments: { ...DEFAULT_ADJUSTMENTS },
+                      layers: [createImageLayer(originalSrc, 'base', 'Foto original')],
                       crop: fullCrop,
+                      exportProfileId: DEFAULT_EXPORT_PROFILE_ID,
+                      exportSettings: getDefaultExportSettings(getExportProfile(DEFAULT_EXPORT_PROFILE_ID)),
                   };
               });
             const newImages = await Promise.all(newImagesPromises);
             
             _setImages(newImages);
-            history.current = [newImages];
-            historyIndex.current = 0;
-            setForceUpdate(v => !v);
+            resetHistory([{ images: newImages, label: 'Imagens carregadas', timestamp: Date.now() }], 0);
             setSelectedImageId(newImages[0]?.id || null);
         }
     };
     initializeImages();
   }, [initialImageData]);
 
+  useEffect(() => {
+    if (!projectId) return;
+    let cancelled = false;
+    loadProject<HistoryEntry>(projectId).then(project => {
+        if (cancelled) return;
+        if (!project || project.history.length === 0) {
+            setError("O projeto salvo não foi encontrado.");
+            return;
+        }
+        const { id, productId: projectProductId, name, createdAt } = project;
+        projectInfo.current = { id, productId: projectProductId, name, createdAt };
+        // Projects saved before levels, curves, vignette and sharpening existed lack those fields.
+        const entries = project.history.map(entry => ({
+            ...entry,
+            images: entry.images.map(img => ({ ...img, adjustments: normalizeAdjustments(img.adjustments) })),
+        }));
+        const restoredImages = entries[project.historyIndex].images;
+        resetHistory(entries, project.historyIndex);
+        _setImages(restoredImages);
+        setSelectedImageId(restoredImages.some(img => img.id === project.selectedImageId) ? project.selectedImageId : restoredImages[0]?.id ?? null);
+    }).catch(err => {
+        console.error("Failed to load project", err);
+        if (!cancelled) setError("Não foi possível abrir o projeto salvo.");
+    });
+    return () => { cancelled = true; };
+  }, [projectId]);
+
+  // --- Project Persistence ---
+  // Only committed history is saved; in-progress tool edits are recovered up to the last confirmed step.
+  const persistProject = async (isOpen: boolean) => {
+    const current = history.current[historyIndex.current]?.images;
+    if (!current || current.length === 0) return;
+
+    const coverSrc = getTopImageLayer(current[0].layers)?.src ?? current[0].originalSrc;
+    if (thumbnailRef.current?.src !== coverSrc) {
+        thumbnailRef.current = { src: coverSrc, thumbnail: await createThumbnail(coverSrc) };
+    }
+    await saveProject<HistoryEntry>({
+        ...projectInfo.current,
+        updatedAt: Date.now(),
+        imageCount: current.length,
+        thumbnail: thumbnailRef.current.thumbnail,
+        isOpen,
+        history: history.current,
+        historyIndex: historyIndex.current,
+        selectedImageId,
+    });
+  };
+
+  useEffect(() => {
+    if (historyIndex.current < 0) return;
+    autosaveTimer.current = window.setTimeout(() => {
+        setAutosaveStatus('saving');
+        persistProject(true)
+            .then(() => setAutosaveStatus('saved'))
+            .catch(err => {
+                console.error("Failed to autosave project", err);
+                setAutosaveStatus('error');
+            });
+    }, AUTOSAVE_DELAY_MS);
+    return () => {
+        if (autosaveTimer.current) window.clearTimeout(autosaveTimer.current);
+    };
+  }, [_, selectedImageId]);
+
+  // Saves right away and marks the session as cleanly closed, so it is not offered for recovery.
+  const finishProjectSession = async () => {
+    if (autosaveTimer.current) window.clearTimeout(autosaveTimer.current);
+    try {
+        await persistProject(false);
+    } catch (err) {
+        console.error("Failed to save project", err);
+    }
+  };
+
+  const handleClose = async () => {
+    await finishProjectSession();
+    onClose();
+  };
+
   // Set the crop state when the active image changes
   useEffect(() => {
     if (activeImage) {
@@ -370,24 +866,26 @@ export default function ImageEditor({ initialImages: initialImageData, onSave, o
     }
   }, [activeImage]);
   
-  // Redraw mask when active image changes. This now has a more specific dependency array.
+  // Redraw mask when active image changes. Masks saved by older versions at screen size
+  // are scaled up to the image's natural size here.
   useEffect(() => {
     const canvas = maskCanvasRef.current;
     const ctx = canvas?.getContext('2d');
     if (canvas && ctx) {
       ctx.clearRect(0, 0, canvas.width, canvas.height);
-      if (activeImage?.maskBase64) {
+      if (activeImage?.maskSrc) {
         const maskImage = new Image();
-        maskImage.src = activeImage.maskBase64;
+        maskImage.src = activeImage.maskSrc;
         maskImage.onload = () => {
-          if (maskCanvasRef.current) {
-            const currentCtx = maskCanvasRef.current.getContext('2d');
-            currentCtx?.drawImage(maskImage, 0, 0, maskCanvasRef.current.width, maskCanvasRef.current.height);
+          if (maskCanvasRef.current === canvas) {
+            ctx.globalCompositeOperation = 'source-over';
+            ctx.clearRect(0, 0, canvas.width, canvas.height);
+            ctx.drawImage(maskImage, 0, 0, canvas.width, canvas.height);
           }
         };
       }
     }
-  }, [selectedImageId, activeImage?.maskBase64]);
+  }, [selectedImageId, activeImage?.maskSrc]);
 
   // Update image state with the latest crop
   const updateImageCrop = (id: string, newCrop: Crop) => {
@@ -426,6 +924,9 @@ export default function ImageEditor({ initialImages: initialImageData, onSave, o
 
   const handleAspectRatioChange = (aspect: AspectRatio) => {
     setActiveAspectRatio(aspect);
+    if (cropMode === 'extend' && activeImage) {
+        setExtendPadding(getPaddingForAspectRatio(activeImage.naturalWidth, activeImage.naturalHeight, aspect.ratio));
+    }
     if (imgRef.current && activeImage) {
         const { naturalWidth, naturalHeight } = activeImage;
         const newCrop = centerCrop(makeAspectCrop({ unit: '%', width: 100 }, aspect.ratio, naturalWidth, naturalHeight), naturalWidth, naturalHeight);
@@ -439,23 +940,26 @@ export default function ImageEditor({ initialImages: initialImageData, onSave, o
     if (files && files.length > 0) {
       setError(null);
       const newImagesPromises = Array.from(files).map(async (file: File, index) => {
-        const base64 = await fileToBase64(file);
-        const { naturalWidth, naturalHeight } = await getImageDimensions(base64);
+        const originalSrc = await internBlob(file);
+        const { naturalWidth, naturalHeight } = await getImageDimensions(originalSrc);
         return {
           id: `${Date.now()}-${index}`,
           file,
-          base64,
-          generatedBase64: null,
-          maskBase64: null,
+          originalSrc,
+          maskSrc: null,
           naturalWidth,
           naturalHeight,
-          adjustments: { ...defaultAdjustments },
+          adjustments: { ...DEFAULT_ADJUSTMENTS },
+          layers: [createImageLayer(originalSrc, 'base', 'Foto original')],
+          // New uploads usually go to the same marketplace as the image being edited.
+          exportProfileId: activeImage?.exportProfileId ?? DEFAULT_EXPORT_PROFILE_ID,
+          exportSettings: activeImage?.exportSettings ?? getDefaultExportSettings(getExportProfile(DEFAULT_EXPORT_PROFILE_ID)),
         };
       });
 
       try {
         const newImages = await Promise.all(newImagesPromises);
-        setImages(prev => [...prev, ...newImages], true);
+        setImages(prev => [...prev, ...newImages], newImages.length === 1 ? 'Adicionar imagem' : 'Adicionar imagens');
         if (!selectedImageId) {
           setSelectedImageId(newImages[0].id);
         }
@@ -474,7 +978,24 @@ export default function ImageEditor({ initialImages: initialImageData, onSave, o
             setSelectedImageId(remaining[0]?.id || null);
         }
         return remaining;
-    }, true);
+    }, 'Remover imagem');
+  };
+
+  /**
+   * Flattens the visible image layers of an image into a PNG data URL, the input sent to the model.
+   * Adjustments and overlay layers are left out: they stay editable on top of the result.
+   */
+  const renderImageLayers = async (image: ImageState): Promise<string> => {
+    const imageLayers = image.layers.filter(l => l.kind === 'image');
+    const canvas = await renderLayersToCanvas(imageLayers, image.naturalWidth, image.naturalHeight);
+    return canvas.toDataURL('image/png');
+  };
+
+  const requestVariations = async (image: ImageState, editPrompt: string, maskSrc: string | null): Promise<string[]> => {
+    const sourceImage = await renderImageLayers(image);
+    const mask = maskSrc ? await resolveToDataUrl(maskSrc) : null;
+    const results = await editImageVariations(sourceImage, 'image/png', editPrompt, variationCount, mask);
+    return results.map(result => toDataUrl(result.data, result.mimeType));
   };
 
   const handleGenerate = useCallback(async () => {
@@ -487,38 +1008,28 @@ export default function ImageEditor({ initialImages: initialImageData, onSave, o
     setError(null);
 
     try {
-      const { base64, file, generatedBase64, maskBase64, adjustments } = activeImage;
-      const sourceImage = generatedBase64 || base64;
-      
-      const tempImg = new Image();
-      tempImg.src = sourceImage;
-      await new Promise(res => tempImg.onload = res);
-
-      const canvas = document.createElement('canvas');
-      canvas.width = tempImg.naturalWidth;
-      canvas.height = tempImg.naturalHeight;
-      const ctx = canvas.getContext('2d');
-      if (!ctx) throw new Error("Could not get canvas context");
-      
-      ctx.filter = `brightness(${adjustments.brightness}%) contrast(${adjustments.contrast}%) saturate(${adjustments.saturate}%) hue-rotate(${adjustments.hue}deg)`;
-      ctx.drawImage(tempImg, 0, 0);
+      const { maskSrc } = activeImage;
+      const label = `IA: ${prompt.length > 40 ? `${prompt.slice(0, 40)}…` : prompt}`;
 
-      const imageWithAdjustmentsApplied = canvas.toDataURL(file.type);
-      
-      const resultBase64Raw = await editImageWithPrompt(imageWithAdjustmentsApplied, file.type, prompt, maskBase64);
-      const resultMimeType = 'image/png'; // AI generation often results in PNG
-      const resultBase64 = `data:${resultMimeType};base64,${resultBase64Raw}`;
-      const { naturalWidth, naturalHeight } = await getImageDimensions(resultBase64);
-      
-      const fullCrop: Crop = { unit: '%', x: 0, y: 0, width: 100, height: 100 };
-      const newFile = new File([await (await fetch(resultBase64)).blob()], 'generated-image.png', { type: resultMimeType });
+      if (variationCount > 1) {
+        // Let the user pick among the variations before anything is applied.
+        const options = await requestVariations(activeImage, prompt, maskSrc);
+        setPendingEnhancement({ options, selectedIndex: 0, label, prompt, maskSrc });
+        return;
+      }
+
+      const sourceImage = await renderImageLayers(activeImage);
+      const mask = maskSrc ? await resolveToDataUrl(maskSrc) : null;
+      const result = await editImageWithPrompt(sourceImage, 'image/png', prompt, mask);
+      const resultSrc = await internDataUrl(toDataUrl(result.data, result.mimeType));
+      const resultLayer = createImageLayer(resultSrc, 'ai', label);
 
       setImages(currentImages =>
         currentImages.map(img =>
           img.id === selectedImageId
-            ? { ...img, generatedBase64: resultBase64, maskBase64: null, naturalWidth, naturalHeight, crop: fullCrop, adjustments: { ...defaultAdjustments }, file: newFile }
+            ? { ...img, layers: addImageLayerOnTop(img.layers, resultLayer), maskSrc: null }
             : img
-        ), true
+        ), label
       );
 
     } catch (err: unknown) {
@@ -530,14 +1041,30 @@ export default function ImageEditor({ initialImages: initialImageData, onSave, o
       setActiveTool(null);
       setPrompt('');
     }
-  }, [activeImage, prompt, selectedImageId, setImages]);
+  }, [activeImage, prompt, selectedImageId, setImages, variationCount]);
+
+  /**
+   * The mask a preset edits through. Auto-detected masks are computed on the current pixels
+   * and are not kept on the image; "painted" falls back to the whole image when nothing is painted.
+   */
+  const getPresetMask = async (image: ImageState, strategy: PresetMaskStrategy): Promise<string | null> => {
+    if (strategy === 'none') return null;
+    if (strategy === 'painted') return image.maskSrc;
+    const pixels = await getImagePixels(image);
+    const product = segmentForeground(pixels, backgroundOptions);
+    const canvas = document.createElement('canvas');
+    canvas.width = pixels.width;
+    canvas.height = pixels.height;
+    writeMaskAlpha(canvas, strategy === 'background' ? invertMask(product) : product);
+    return canvas.toDataURL('image/png');
+  };
 
-  const handleEnhanceImage = useCallback(async (enhancePrompt: string) => {
+  const handleEnhanceImage = useCallback(async (preset: EnhancementPreset) => {
     if (!activeImage) {
       setError("Por favor, selecione uma imagem para aprimorar.");
       return;
     }
-    if (!enhancePrompt) {
+    if (!preset.prompt) {
         setError("Nenhuma ação de aprimoramento foi selecionada.");
         return;
     }
@@ -546,55 +1073,53 @@ export default function ImageEditor({ initialImages: initialImageData, onSave, o
     setError(null);
 
     try {
-      const { base64, file, generatedBase64, adjustments } = activeImage;
-      const sourceImage = generatedBase64 || base64;
-      
-      const tempImg = new Image();
-      tempImg.src = sourceImage;
-      await new Promise(res => tempImg.onload = res);
-
-      const canvas = document.createElement('canvas');
-      canvas.width = tempImg.naturalWidth;
-      canvas.height = tempImg.naturalHeight;
-      const ctx = canvas.getContext('2d');
-      if (!ctx) throw new Error("Could not get canvas context");
-      
-      ctx.filter = `brightness(${adjustments.brightness}%) contrast(${adjustments.contrast}%) saturate(${adjustments.saturate}%) hue-rotate(${adjustments.hue}deg)`;
-      ctx.drawImage(tempImg, 0, 0);
+      const label = `Aprimoramento: ${preset.name}`;
+      const maskSrc = await getPresetMask(activeImage, preset.maskStrategy);
+      const options = await requestVariations(activeImage, preset.prompt, maskSrc);
+      // Set for confirmation instead of applying directly
+      setPendingEnhancement({ options, selectedIndex: 0, label, prompt: preset.prompt, maskSrc, preset });
 
-      const imageWithAdjustmentsApplied = canvas.toDataURL(file.type);
+    } catch (err: unknown) {
+      console.error(err);
+      const message = err instanceof Error ? err.message : 'Ocorreu um erro inesperado ao aprimorar a imagem.';
+      setError(message);
+    } finally {
+      setIsEnhancing(false);
+      setActiveTool(null);
+    }
+  }, [activeImage, variationCount, backgroundOptions]);
 
-      const resultBase64Raw = await editImageWithPrompt(imageWithAdjustmentsApplied, file.type, enhancePrompt, null);
-      const resultBase64 = `data:image/png;base64,${resultBase64Raw}`;
-      
-      setPendingEnhancement(resultBase64); // Set for confirmation instead of applying directly
+  const handleRegenerateEnhancement = async () => {
+    if (!pendingEnhancement || !activeImage) return;
 
+    setIsEnhancing(true);
+    setError(null);
+    try {
+      const options = await requestVariations(activeImage, pendingEnhancement.prompt, pendingEnhancement.maskSrc);
+      setPendingEnhancement(prev => prev && { ...prev, options, selectedIndex: 0 });
     } catch (err: unknown) {
       console.error(err);
       const message = err instanceof Error ? err.message : 'Ocorreu um erro inesperado ao aprimorar a imagem.';
       setError(message);
     } finally {
       setIsEnhancing(false);
-      setActiveTool(null);
     }
-  }, [activeImage]);
+  };
 
   const handleConfirmEnhancement = async () => {
     if (!pendingEnhancement || !selectedImageId) return;
 
     setIsLoading(true);
     try {
-        const { naturalWidth, naturalHeight } = await getImageDimensions(pendingEnhancement);
-        const fullCrop: Crop = { unit: '%', x: 0, y: 0, width: 100, height: 100 };
-        const newFile = new File([await (await fetch(pendingEnhancement)).blob()], 'enhanced-image.png', { type: 'image/png' });
+        const { options, selectedIndex, label, preset } = pendingEnhancement;
+        const resultSrc = await internDataUrl(options[selectedIndex]);
 
         setImages(currentImages =>
             currentImages.map(img =>
-                img.id === selectedImageId
-                    ? { ...img, generatedBase64: pendingEnhancement, maskBase64: null, naturalWidth, naturalHeight, crop: fullCrop, adjustments: { ...defaultAdjustments }, file: newFile }
-                    : img
-            ), true
+                img.id === selectedImageId ? addEnhancementResult(img, resultSrc, label, preset) : img
+            ), label
         );
+        if (preset) recordRecipeStep({ kind: 'enhance', preset });
         setPendingEnhancement(null);
 
     } catch (e) {
@@ -608,33 +1133,64 @@ export default function ImageEditor({ initialImages: initialImageData, onSave, o
 
   const handleCancelEnhancement = () => {
       setPendingEnhancement(null);
+      if (pendingEnhancement?.hasTemporaryInput && selectedImageId) restoreCommittedImage(selectedImageId);
+  };
+
+  useEffect(() => {
+    let isCancelled = false;
+    loadTeamPresets()
+      .then(team => {
+        if (isCancelled || !team) return;
+        setTeamPresets(team);
+        // Team defaults replace the built-in ones until the user customizes the library.
+        if (!loadStoredPresets()) setPresets(team);
+      })
+      .catch(e => console.warn('Could not load team presets:', e));
+    return () => { isCancelled = true; };
+  }, []);
+
+  const handlePresetsChange = (next: EnhancementPreset[]) => {
+    setPresets(next);
+    saveStoredPresets(next);
+  };
+
+  const handleRestoreDefaultPresets = () => {
+    clearStoredPresets();
+    setPresets(teamPresets ?? DEFAULT_ENHANCEMENT_PRESETS);
   };
 
 
+  const exportImageState = async (image: ImageState): Promise<ExportResult> => {
+    const flattened = await renderLayersToCanvas(
+        image.layers,
+        image.naturalWidth,
+        image.naturalHeight,
+        image.adjustments
+    );
+    return exportImage(flattened, image.crop, getExportProfile(image.exportProfileId), image.exportSettings);
+  };
+
   const handleSave = useCallback(async () => {
     if (images.length === 0) return;
 
     try {
-        const blobPromises = images.map(async (image) => {
-            const tempImage = new Image();
-            const imageLoadPromise = new Promise((resolve, reject) => {
-                tempImage.onload = resolve;
-                tempImage.onerror = reject;
+        const results: ExportResult[] = await Promise.all(images.map(exportImageState));
+
+        const blobs = results.map(result => result.blob);
+        if (results.some(result => result.issues.some(issue => issue.level === 'warning'))) {
+            // Let the user decide whether to save non-compliant images or go back and fix them.
+            setExportReview({
+                blobs,
+                items: images.map((image, index) => ({
+                    id: image.id,
+                    src: URL.createObjectURL(blobs[index]),
+                    profileName: getExportProfile(image.exportProfileId).name,
+                    issues: results[index].issues,
+                })),
             });
-            tempImage.src = image.generatedBase64 || image.base64;
-            await imageLoadPromise;
-
-            const cropToUse = image.crop;
-            
-            return createCroppedBlob(
-                tempImage,
-                cropToUse,
-                1080,
-                image.adjustments
-            );
-        });
-
-        const blobs = await Promise.all(blobPromises);
+            return;
+        }
+        await finishProjectSession();
         onSave({ images: blobs });
     } catch (error: unknown) {
         console.error("Failed to process images for saving", error);
@@ -643,9 +1199,55 @@ export default function ImageEditor({ initialImages: initialImageData, onSave, o
     }
   }, [images, onSave]);
 
-  const handleAdjustmentChange = (adjustment: keyof ImageAdjustments, value: number) => {
+  const closeExportReview = () => {
+    exportReview?.items.forEach(item => URL.revokeObjectURL(item.src));
+    setExportReview(null);
+  };
+
+  const handleConfirmExportReview = async () => {
+    if (!exportReview) return;
+    const { blobs } = exportReview;
+    closeExportReview();
+    await finishProjectSession();
+    onSave({ images: blobs });
+  };
+
+  const handleExportProfileChange = (profileId: string) => {
+    if (!activeImage) return;
+    // A new destination brings its own format and size limit.
+    const exportSettings = getDefaultExportSettings(getExportProfile(profileId));
+    setImages(prev => prev.map(img => img.id === activeImage.id ? { ...img, exportProfileId: profileId, exportSettings } : img), 'Perfil de exportação');
+    recordRecipeStep({ kind: 'export', exportProfileId: profileId, exportSettings });
+    const { aspectRatio } = getExportProfile(profileId);
+    if (aspectRatio) setActiveAspectRatio(aspectRatio);
+  };
+
+  const handleApplyExportProfileToAll = () => {
+    if (!activeImage) return;
+    const { exportProfileId, exportSettings } = activeImage;
+    setImages(prev => prev.map(img => ({ ...img, exportProfileId, exportSettings })), 'Perfil de exportação em todas');
+  };
+
+  const handleExportSettingsChange = (changes: Partial<ExportSettings>, commit = true) => {
+    if (!activeImage) return;
+    if (commit && Object.keys(changes).length === 0) {
+      // Commit the value left by a slider drag, unless it never moved.
+      const committed = getCommittedImage(activeImage.id);
+      if (committed?.exportSettings !== activeImage.exportSettings) setImages(images, 'Configurações de exportação');
+      return;
+    }
+    const exportSettings = { ...activeImage.exportSettings, ...changes };
+    const update = (prev: ImageState[]) => prev.map(img => img.id === activeImage.id ? { ...img, exportSettings } : img);
+    if (commit) {
+      setImages(update, 'Configurações de exportação');
+    } else {
+      _setImages(update);
+    }
+  };
+
+  const handleAdjustmentsChange = (changes: Partial<ImageAdjustments>) => {
     if (!activeImage || !tempAdjustments) return;
-    const newAdjustments = { ...tempAdjustments, [adjustment]: value };
+    const newAdjustments = { ...tempAdjustments, ...changes };
     setTempAdjustments(newAdjustments);
     // Ephemeral update without saving history
     _setImages(prev => prev.map(img => 
@@ -653,13 +1255,56 @@ export default function ImageEditor({ initialImages: initialImageData, onSave, o
     ));
   };
   
-  const handleResetAdjustment = (adjustment: keyof ImageAdjustments) => {
-    if (!activeImage) return;
-    handleAdjustmentChange(adjustment, defaultAdjustments[adjustment]);
-  }
-  
+  /**
+   * Neutral whites and a full tonal range from each image's own histogram. On the active image it
+   * is a preview like the sliders; across the gallery every image is corrected in one history step.
+   */
+  const handleAutoAdjust = async (kinds: AutoAdjustment[], scope: AdjustmentScope) => {
+    if (!activeImage || !tempAdjustments) return;
+    setIsAutoAdjusting(true);
+    setError(null);
+    await new Promise(resolve => setTimeout(resolve, 0));
+    try {
+      if (scope === 'current') {
+        handleAdjustmentsChange(getAutoAdjustments(await getImagePixels(activeImage), tempAdjustments, kinds));
+        return;
+      }
+      const results = new Map<string, ImageAdjustments>();
+      for (const image of images) {
+        const adjustments = image.id === activeImage.id ? tempAdjustments : image.adjustments;
+        results.set(image.id, getAutoAdjustments(await getImagePixels(image), adjustments, kinds));
+      }
+      setImages(prev => prev.map(img => results.has(img.id) ? { ...img, adjustments: results.get(img.id)! } : img), 'Correção automática em todas');
+      setTempAdjustments(results.get(activeImage.id) ?? tempAdjustments);
+    } catch (e) {
+      console.error("Error analyzing images:", e);
+      setError("Falha ao analisar as cores da imagem.");
+    } finally {
+      setIsAutoAdjusting(false);
+    }
+  };
+
+  const handleCopyCurves = () => {
+    if (tempAdjustments) setCopiedCurves(getCurveSettings(tempAdjustments));
+  };
+
+  // Pasting on the active image previews like the sliders; on the gallery it is one history step.
+  const handlePasteCurves = (scope: AdjustmentScope) => {
+    if (!activeImage || !tempAdjustments || !copiedCurves) return;
+    if (scope === 'current') {
+      handleAdjustmentsChange(copiedCurves);
+      return;
+    }
+    setImages(prev => prev.map(img => ({
+      ...img,
+      adjustments: { ...(img.id === activeImage.id ? tempAdjustments : img.adjustments), ...copiedCurves },
+    })), 'Colar curvas em todas');
+    setTempAdjustments({ ...tempAdjustments, ...copiedCurves });
+  };
+
   const handleConfirmAdjustments = () => {
-    setImages(images, true); // This saves the current state (with temp adjustments applied) to history
+    setImages(images, 'Ajustes'); // This saves the current state (with temp adjustments applied) to history
+    if (activeImage) recordRecipeStep({ kind: 'adjust', adjustments: activeImage.adjustments });
     setActiveTool(null);
     setTempAdjustments(null);
   };
@@ -667,7 +1312,7 @@ export default function ImageEditor({ initialImages: initialImageData, onSave, o
   const handleCancelAdjustments = () => {
     if(activeImage) {
       // Revert to original adjustments before temp changes
-      const originalAdjustments = history.current[historyIndex.current].find(i => i.id === activeImage.id)?.adjustments || defaultAdjustments;
+      const originalAdjustments = getCommittedImage(activeImage.id)?.adjustments || DEFAULT_ADJUSTMENTS;
       _setImages(prev => prev.map(img => 
         img.id === activeImage.id ? { ...img, adjustments: originalAdjustments } : img
       ));
@@ -676,49 +1321,746 @@ export default function ImageEditor({ initialImages: initialImageData, onSave, o
     setTempAdjustments(null);
   }
 
-  const handleConfirmCrop = () => {
-    setImages(images, true);
-    setActiveTool(null);
+  // --- Edit Clipboard ---
+  const handleCopyEdits = (imageId: string) => {
+    const image = images.find(img => img.id === imageId);
+    if (image) setCopiedEdits(copyEdits(image));
   };
 
-  const handleCancelCrop = () => {
-    if(activeImage) {
-      const originalCrop = history.current[historyIndex.current].find(i => i.id === activeImage.id)?.crop;
-      _setImages(prev => prev.map(img =>
-        img.id === activeImage.id ? { ...img, crop: originalCrop } : img
-      ));
-      setCrop(originalCrop);
+  // Pasted on any number of images as a single history step.
+  const handlePasteEdits = async (targetIds: string[], label: string) => {
+    if (!copiedEdits) return;
+    const properties = pasteProperties.filter(p => getAvailableEditProperties(copiedEdits).includes(p));
+    const targets = images.filter(img => targetIds.includes(img.id));
+    if (targets.length === 0 || properties.length === 0) return;
+    setError(null);
+    try {
+      const pasted = await Promise.all(targets.map(img => pasteEdits(img, copiedEdits, properties)));
+      const results = new Map(pasted.map(img => [img.id, img]));
+      setImages(prev => prev.map(img => results.get(img.id) ?? img), label);
+    } catch (e) {
+      console.error("Error pasting edits:", e);
+      setError("Falha ao colar as edições.");
     }
-    setActiveTool(null);
-  }
+  };
 
+  const handlePasteEditsScope = (scope: PasteScope) => {
+    if (!copiedEdits) return;
+    if (scope === 'all') {
+      handlePasteEdits(images.filter(img => img.id !== copiedEdits.sourceId).map(img => img.id), 'Sincronizar edições');
+    } else if (selectedImageId) {
+      handlePasteEdits([selectedImageId], 'Colar edições');
+    }
+  };
 
-  const isGenerateDisabled = !activeImage || !prompt || isLoading || isEnhancing;
-  const isAnyLoading = isLoading || isEnhancing;
+  // --- Batch Processing ---
+  const updateBatchItem = (imageId: string, changes: Partial<BatchState['items'][string]>) => {
+    setBatch(prev => prev && {
+      ...prev,
+      items: { ...prev.items, [imageId]: { ...prev.items[imageId], ...changes } },
+    });
+  };
+
+  const runBatch = (imageIds: string[], prompt: string, concurrency: number, maskStrategy: PresetMaskStrategy) => {
+    // Snapshot the gallery: the batch edits the images as they were when it started.
+    const sources = new Map<string, ImageState>(images.map(img => [img.id, img]));
+    setBatch(prev => prev && { ...prev, isRunning: true, isPaused: false });
+
+    const queue = runTaskQueue(imageIds, async (imageId) => {
+      const image = sources.get(imageId);
+      if (!image) throw new Error('Imagem não encontrada.');
+      const sourceImage = await renderImageLayers(image);
+      const maskSrc = await getPresetMask(image, maskStrategy);
+      const mask = maskSrc ? await resolveToDataUrl(maskSrc) : null;
+      const result = await editImageWithPrompt(sourceImage, 'image/png', prompt, mask);
+      return toDataUrl(result.data, result.mimeType);
+    }, {
+      concurrency,
+      onUpdate: (imageId, { status, result, error }) => {
+        updateBatchItem(imageId, { status, resultBase64: result, error, accepted: status === 'done' });
+      },
+    });
+    batchQueueRef.current = queue;
+
+    queue.done.then(() => {
+      if (batchQueueRef.current !== queue) return;
+      batchQueueRef.current = null;
+      setBatch(prev => prev && { ...prev, isRunning: false, isPaused: false });
+    });
+  };
+
+  const getBatchMaskStrategy = (presetId: string | null): PresetMaskStrategy =>
+    presets.find(p => p.id === presetId)?.maskStrategy ?? 'none';
+
+  const handleStartBatch = ({ label, prompt, presetId, imageIds, concurrency }: BatchConfig) => {
+    setError(null);
+    setBatch({ label, prompt, presetId, concurrency, items: {}, isRunning: true, isPaused: false });
+    runBatch(imageIds, prompt, concurrency, getBatchMaskStrategy(presetId));
+  };
+
+  const handlePauseBatch = () => {
+    batchQueueRef.current?.pause();
+    setBatch(prev => prev && { ...prev, isPaused: true });
+  };
+
+  const handleResumeBatch = () => {
+    batchQueueRef.current?.resume();
+    setBatch(prev => prev && { ...prev, isPaused: false });
+  };
+
+  const handleCancelBatch = () => {
+    batchQueueRef.current?.cancel();
+  };
+
+  const handleRetryFailedBatch = () => {
+    if (!batch) return;
+    const failedIds = Object.keys(batch.items).filter(id => batch.items[id].status === 'error');
+    if (failedIds.length > 0) runBatch(failedIds, batch.prompt, batch.concurrency, getBatchMaskStrategy(batch.presetId));
+  };
+
+  const handleToggleBatchItem = (imageId: string) => {
+    if (!batch?.items[imageId]) return;
+    updateBatchItem(imageId, { accepted: !batch.items[imageId].accepted });
+  };
+
+  const handleApplyBatch = async () => {
+    if (!batch) return;
+    const label = `Lote: ${batch.label}`;
+    const preset = presets.find(p => p.id === batch.presetId);
+    const results = new Map<string, string>();
+    for (const id of Object.keys(batch.items)) {
+      const item = batch.items[id];
+      if (item.status === 'done' && item.accepted && item.resultBase64) results.set(id, await internDataUrl(item.resultBase64));
+    }
+    // All accepted results land in a single history entry, so one undo reverts the whole batch.
+    setImages(currentImages => currentImages.map(img => {
+      const resultSrc = results.get(img.id);
+      if (!resultSrc) return img;
+      return addEnhancementResult(img, resultSrc, label, preset);
+    }), label);
+    setBatch(null);
+    setActiveTool(null);
+  };
+
+  const handleDiscardBatch = () => {
+    batchQueueRef.current?.cancel();
+    batchQueueRef.current = null;
+    setBatch(null);
+  };
+
+  // --- Recipes ---
+  const recordRecipeStep = (step: RecipeStep) => setRecordingSteps(prev => prev && [...prev, step]);
+
+  const handleSaveRecording = (name: string) => {
+    if (!recordingSteps?.length) return;
+    const next = [...recipes, { id: createRecipeId(), name, steps: recordingSteps }];
+    setRecipes(next);
+    saveStoredRecipes(next);
+    setRecordingSteps(null);
+  };
+
+  const handleDeleteRecipe = (id: string) => {
+    const next = recipes.filter(recipe => recipe.id !== id);
+    setRecipes(next);
+    saveStoredRecipes(next);
+  };
+
+  // The same operations the enhance, crop, adjust and export tools confirm, on any image.
+  const applyRecipeStep = async (image: ImageState, step: RecipeStep): Promise<ImageState> => {
+    switch (step.kind) {
+      case 'enhance': {
+        const { preset } = step;
+        const maskSrc = await getPresetMask(image, preset.maskStrategy);
+        const sourceImage = await renderImageLayers(image);
+        const mask = maskSrc ? await resolveToDataUrl(maskSrc) : null;
+        const result = await editImageWithPrompt(sourceImage, 'image/png', preset.prompt, mask);
+        const resultSrc = await internDataUrl(toDataUrl(result.data, result.mimeType));
+        return addEnhancementResult(image, resultSrc, `Aprimoramento: ${preset.name}`, preset);
+      }
+      case 'crop':
+        return { ...image, crop: getRecipeCrop(step, image.naturalWidth, image.naturalHeight) };
+      case 'adjust':
+        return { ...image, adjustments: normalizeAdjustments(step.adjustments) };
+      case 'export':
+        return { ...image, exportProfileId: step.exportProfileId, exportSettings: { ...step.exportSettings } };
+    }
+  };
+
+  // The whole run lands in a single history entry, so one undo reverts it on every image.
+  const finishRecipeRun = (run: RecipeRun) => {
+    const results = recipeImagesRef.current;
+    if (Object.values(run.outcomes).includes('done')) {
+      setImages(currentImages => currentImages.map(img => results.get(img.id) ?? img), `Receita: ${run.recipe.name}`);
+    }
+    setRecipeRun({ ...run, status: 'done', error: null });
+  };
+
+  const runRecipe = async (start: RecipeRun) => {
+    const token = recipeRunTokenRef.current;
+    let run = start;
+    while (!isRecipeRunFinished(run)) {
+      const imageId = run.imageIds[run.imageIndex];
+      const image = recipeImagesRef.current.get(imageId);
+      setRecipeRun({ ...run, status: 'running', error: null });
+      setSelectedImageId(imageId);
+      let outcome: RecipeStepOutcome = 'done';
+      try {
+        if (!image) throw new Error('Imagem não encontrada.');
+        const result = await applyRecipeStep(image, run.recipe.steps[run.stepIndex]);
+        if (token !== recipeRunTokenRef.current) {
+          releaseDiscardedImages([result]);
+          return;
+        }
+        recipeImagesRef.current.set(imageId, result);
+        // Shown right away, committed with the rest when the run ends.
+        _setImages(prev => prev.map(img => img.id === imageId ? result : img));
+      } catch (err: unknown) {
+        if (token !== recipeRunTokenRef.current) return;
+        console.error(err);
+        const message = err instanceof Error ? err.message : 'Ocorreu um erro inesperado.';
+        if (!run.skipFailedSteps) {
+          setRecipeRun({ ...run, status: 'failed', error: message });
+          return;
+        }
+        outcome = 'failed';
+      }
+      run = advanceRecipeRun(run, outcome);
+      if (run.reviewEachStep && !isRecipeRunFinished(run)) {
+        setRecipeRun({ ...run, status: 'review', error: null });
+        return;
+      }
+    }
+    finishRecipeRun(run);
+  };
+
+  const handleRunRecipe = (recipe: Recipe, scope: RecipeScope, options: RecipeRunOptions) => {
+    const targets = scope === 'all' ? images : images.filter(img => img.id === selectedImageId);
+    if (targets.length === 0 || recipe.steps.length === 0) return;
+    setError(null);
+    recipeImagesRef.current = new Map(targets.map(img => [img.id, img]));
+    recipeRunTokenRef.current++;
+    runRecipe({ recipe, imageIds: targets.map(img => img.id), imageIndex: 0, stepIndex: 0, ...options, status: 'running', error: null, outcomes: {} });
+  };
+
+  const handleContinueRecipe = () => {
+    if (recipeRun) runRecipe(recipeRun);
+  };
+
+  const handleSkipRecipeStep = () => {
+    if (!recipeRun) return;
+    const run = advanceRecipeRun(recipeRun, 'skipped');
+    if (isRecipeRunFinished(run)) {
+      finishRecipeRun(run);
+    } else if (run.reviewEachStep) {
+      setRecipeRun({ ...run, status: 'review', error: null });
+    } else {
+      runRecipe(run);
+    }
+  };
+
+  const handleCancelRecipeRun = () => {
+    if (!recipeRun) return;
+    recipeRunTokenRef.current++;
+    // Nothing was committed yet: put the images back as the last history step has them.
+    const { imageIds } = recipeRun;
+    const discarded = [...recipeImagesRef.current.values()];
+    recipeImagesRef.current = new Map();
+    imageIds.forEach(restoreCommittedImage);
+    releaseDiscardedImages(discarded);
+    setRecipeRun(null);
+  };
+
+  // --- Layers ---
+  // Like adjustments, layer and text edits are ephemeral until confirmed, then saved as one history step.
+  const updateActiveLayers = (updater: (layers: Layer[]) => Layer[]) => {
+    if (!activeImage) return;
+    _setImages(prev => prev.map(img =>
+      img.id === activeImage.id ? { ...img, layers: updater(img.layers) } : img
+    ));
+  };
+
+  const addLayer = (layer: Layer) => {
+    updateActiveLayers(layers => [...layers, layer]);
+    setSelectedLayerId(layer.id);
+  };
+
+  const handleLayerChange = (id: string, changes: Partial<Layer>) => {
+    updateActiveLayers(layers => layers.map(l => l.id === id ? { ...l, ...changes } as Layer : l));
+  };
+
+  const handleMoveLayer = (id: string, direction: 'up' | 'down') => {
+    updateActiveLayers(layers => {
+      const index = layers.findIndex(l => l.id === id);
+      const target = direction === 'up' ? index + 1 : index - 1;
+      if (index < 0 || target < 0 || target >= layers.length) return layers;
+      const reordered = [...layers];
+      [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+      return reordered;
+    });
+  };
+
+  const handleDeleteLayer = (id: string) => {
+    updateActiveLayers(layers => {
+      const layer = layers.find(l => l.id === id);
+      // An image must always keep at least one image layer.
+      if (layer?.kind === 'image' && layers.filter(l => l.kind === 'image').length <= 1) return layers;
+      return layers.filter(l => l.id !== id);
+    });
+    setSelectedLayerId(null);
+  };
+
+  const handleAddText = (overrides?: Partial<TextContent>) => addLayer(createTextLayer(overrides));
+
+  const handleAddShape = (shape: ShapeKind) => addLayer(createShapeLayer(shape));
+
+  const handleAddSticker = (emoji: string) => addLayer(createStickerLayer(emoji));
+
+  const handleDuplicateText = (id: string) => {
+    const source = activeImage?.layers.find((l): l is TextLayer => l.id === id && l.kind === 'text');
+    if (!source) return;
+    const { id: _sourceId, ...properties } = source;
+    handleAddText({ ...properties, x: Math.min(100, source.x + 3), y: Math.min(100, source.y + 3) });
+  };
+
+  const handleConfirmLayers = () => {
+    setImages(images, activeTool === 'text' ? 'Texto' : 'Camadas');
+    setActiveTool(null);
+    setSelectedLayerId(null);
+  };
+
+  const handleCancelLayers = () => {
+    if (activeImage) {
+      const originalLayers = getCommittedImage(activeImage.id)?.layers;
+      if (originalLayers) {
+        _setImages(prev => prev.map(img =>
+          img.id === activeImage.id ? { ...img, layers: originalLayers } : img
+        ));
+      }
+    }
+    setActiveTool(null);
+    setSelectedLayerId(null);
+  };
+
+  /**
+   * Grows an image's document by `padding` (in image pixels). Every image layer is padded so
+   * hidden ones stay aligned, and overlays, crop and mask move along with the pixels.
+   */
+  const padImageState = async (image: ImageState, padding: Padding, fill: PaddingFill): Promise<ImageState> => {
+    const { naturalWidth: width, naturalHeight: height } = image;
+    const newWidth = width + padding.left + padding.right;
+    const newHeight = height + padding.top + padding.bottom;
+    const sources = [image.originalSrc, ...image.layers.flatMap(l => l.kind === 'image' ? [l.src] : [])];
+    const loaded = await loadLayerImages(sources.map(src => createImageLayer(src, 'base', '')));
+    const padded = new Map<string, string>();
+    for (const src of new Set(sources)) {
+      padded.set(src, await internDataUrl(padCanvas(loaded.get(src)!, width, height, padding, fill).toDataURL('image/png')));
+    }
+
+    let maskSrc: string | null = null;
+    if (image.maskSrc) {
+      const mask = (await loadLayerImages([createImageLayer(image.maskSrc, 'base', '')])).get(image.maskSrc)!;
+      maskSrc = await internDataUrl(padCanvas(mask, width, height, padding, { kind: 'transparent' }).toDataURL('image/png'));
+    }
+
+    const crop: Crop | undefined = image.crop && {
+      unit: '%',
+      x: ((image.crop.x / 100) * width + padding.left) / newWidth * 100,
+      y: ((image.crop.y / 100) * height + padding.top) / newHeight * 100,
+      width: image.crop.width * width / newWidth,
+      height: image.crop.height * height / newHeight,
+    };
+
+    return {
+      ...image,
+      originalSrc: padded.get(image.originalSrc)!,
+      maskSrc,
+      crop,
+      naturalWidth: newWidth,
+      naturalHeight: newHeight,
+      layers: image.layers.map(l => l.kind === 'image' ? { ...l, src: padded.get(l.src)! } : padOverlayLayer(l, width, height, padding)),
+    };
+  };
+
+  /**
+   * Crops (and pads, if the frame does not fit) an image so the product is centred and covers
+   * the requested share of the frame. Returns null when no product could be told from the background.
+   */
+  const frameImage = async (image: ImageState, options: FramingOptions): Promise<ImageState | null> => {
+    const source = await renderLayersToCanvas(image.layers.filter(l => l.kind === 'image'), image.naturalWidth, image.naturalHeight);
+    const { bounds, backgroundColor } = detectProduct(source);
+    if (!bounds) return null;
+
+    const frame = computeProductFrame(bounds, options);
+    const padding = getFramePadding(frame, image.naturalWidth, image.naturalHeight);
+    const fill: PaddingFill = backgroundColor ? { kind: 'solid', color: backgroundColor } : { kind: 'transparent' };
+    const framed = hasPadding(padding) ? await padImageState(image, padding, fill) : image;
+
+    const toPercent = (value: number, total: number) => Math.min(100, Math.max(0, (value / total) * 100));
+    return {
+      ...framed,
+      crop: {
+        unit: '%',
+        x: toPercent(frame.x + padding.left, framed.naturalWidth),
+        y: toPercent(frame.y + padding.top, framed.naturalHeight),
+        width: toPercent(frame.width, framed.naturalWidth),
+        height: toPercent(frame.height, framed.naturalHeight),
+      },
+    };
+  };
+
+  const handleAutoFrame = async (scope: AutoFrameScope) => {
+    const targets = scope === 'all' ? images : images.filter(img => img.id === selectedImageId);
+    if (targets.length === 0) return;
+
+    setIsFraming(true);
+    setError(null);
+    const options = { ...framingSettings, aspectRatio: activeAspectRatio.ratio };
+    const results = new Map<string, ImageState>();
+    let notFound = 0;
+    try {
+      for (const image of targets) {
+        const framed = await frameImage(image, options);
+        if (framed) results.set(image.id, framed);
+        else notFound++;
+      }
+      if (results.size > 0) {
+        // All framed images land in a single history entry, like a batch.
+        setImages(prev => prev.map(img => results.get(img.id) ?? img), scope === 'all' ? 'Auto enquadrar todas' : 'Auto enquadrar');
+      }
+      if (notFound > 0) {
+        setError(notFound === 1 && targets.length === 1
+          ? 'Não foi possível separar o produto do fundo nesta imagem.'
+          : `Não foi possível separar o produto do fundo em ${notFound} de ${targets.length} imagens.`);
+      }
+    } catch (e) {
+      console.error("Error framing images:", e);
+      setError("Falha ao enquadrar as imagens.");
+    } finally {
+      setIsFraming(false);
+    }
+  };
+
+  const handleFitExtendToAspectRatio = () => {
+    if (!activeImage) return;
+    setExtendPadding(getPaddingForAspectRatio(activeImage.naturalWidth, activeImage.naturalHeight, activeAspectRatio.ratio));
+  };
+
+  const handleExtendCanvas = async () => {
+    if (!activeImage || !hasPadding(extendPadding)) return;
+    setIsExtending(true);
+    setError(null);
+    try {
+      const extended = await padImageState(activeImage, extendPadding, extendFill);
+      const fullCrop: Crop = { unit: '%', x: 0, y: 0, width: 100, height: 100 };
+      setImages(prev => prev.map(img => img.id === activeImage.id ? { ...extended, crop: fullCrop } : img), 'Estender tela');
+      setExtendPadding(NO_PADDING);
+    } catch (e) {
+      console.error("Error extending canvas:", e);
+      setError("Falha ao estender a tela da imagem.");
+    } finally {
+      setIsExtending(false);
+    }
+  };
+
+  /**
+   * Extends the canvas (to the chosen padding, or to the active aspect ratio when none is set)
+   * and asks the model to fill the new area. The blurred fill gives the model the scene's colours
+   * to continue from; the variations are reviewed like any enhancement.
+   */
+  const handleOutpaint = async () => {
+    if (!activeImage) return;
+    const padding = hasPadding(extendPadding)
+      ? extendPadding
+      : getPaddingForAspectRatio(activeImage.naturalWidth, activeImage.naturalHeight, activeAspectRatio.ratio);
+    if (!hasPadding(padding)) return;
+
+    setIsLoading(true);
+    setError(null);
+    let hasTemporaryInput = false;
+    try {
+      const { naturalWidth, naturalHeight } = activeImage;
+      const overlap = Math.round(Math.min(naturalWidth, naturalHeight) * OUTPAINT_OVERLAP_RATIO);
+      const maskSrc = await internDataUrl(createPaddingMask(naturalWidth, naturalHeight, padding, overlap).toDataURL('image/png'));
+      const extended = await padImageState(activeImage, padding, { kind: 'blur' });
+      const fullCrop: Crop = { unit: '%', x: 0, y: 0, width: 100, height: 100 };
+      const outpaintImage: ImageState = { ...extended, crop: fullCrop, maskSrc };
+      // Shown while the model works, but only committed together with the result the user keeps.
+      _setImages(prev => prev.map(img => img.id === activeImage.id ? outpaintImage : img));
+      hasTemporaryInput = true;
+      setExtendPadding(NO_PADDING);
+      setActiveTool(null);
+
+      const label = 'Expansão com IA';
+      const options = await requestVariations(outpaintImage, OUTPAINT_PROMPT, maskSrc);
+      setPendingEnhancement({ options, selectedIndex: 0, label, prompt: OUTPAINT_PROMPT, maskSrc, hasTemporaryInput: true });
+    } catch (err: unknown) {
+      console.error(err);
+      if (hasTemporaryInput) restoreCommittedImage(activeImage.id);
+      setError(err instanceof Error ? err.message : 'Falha ao expandir a imagem com IA.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Small preview of the extended canvas, from the visible photo only.
+  useEffect(() => {
+    if (activeTool !== 'crop' || cropMode !== 'extend' || !activeImage || !hasPadding(extendPadding)) {
+      setExtendPreview(null);
+      return;
+    }
+    const topLayer = getTopImageLayer(activeImage.layers);
+    if (!topLayer) return;
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      const { naturalWidth: width, naturalHeight: height } = activeImage;
+      const source = (await loadLayerImages([topLayer])).get(topLayer.src);
+      if (cancelled || !source) return;
+      const scale = Math.min(1, 240 / Math.max(width + extendPadding.left + extendPadding.right, height + extendPadding.top + extendPadding.bottom));
+      const scaledPadding = {
+        top: Math.round(extendPadding.top * scale),
+        right: Math.round(extendPadding.right * scale),
+        bottom: Math.round(extendPadding.bottom * scale),
+        left: Math.round(extendPadding.left * scale),
+      };
+      const preview = padCanvas(source, Math.round(width * scale), Math.round(height * scale), scaledPadding, extendFill);
+      if (!cancelled) setExtendPreview(preview.toDataURL());
+    }, 200);
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [activeTool, cropMode, activeImage, extendPadding, extendFill]);
 
-  const originalSrc = activeImage?.generatedBase64 || activeImage?.base64;
-  let displayedImageSrc = originalSrc;
-  if (pendingEnhancement) {
-      displayedImageSrc = showOriginalForCompare ? originalSrc : pendingEnhancement;
+  const handleConfirmCrop = () => {
+    setImages(images, 'Cortar');
+    if (activeImage) recordRecipeStep({ kind: 'crop', crop: activeImage.crop, aspectRatio: activeAspectRatio.ratio, aspectName: activeAspectRatio.name });
+    setActiveTool(null);
+  };
+
+  const handleCancelCrop = () => {
+    if(activeImage) {
+      const originalCrop = getCommittedImage(activeImage.id)?.crop;
+      _setImages(prev => prev.map(img =>
+        img.id === activeImage.id ? { ...img, crop: originalCrop } : img
+      ));
+      setCrop(originalCrop);
+    }
+    setActiveTool(null);
   }
+
+
+  const isGenerateDisabled = !activeImage || !prompt || isLoading || isEnhancing || !!batch || !!recipeRun;
+
+  // Brush size is in image pixels, so large photos need a larger range to cover the same area.
+  const maxBrushSize = activeImage ? Math.max(100, Math.round(Math.max(activeImage.naturalWidth, activeImage.naturalHeight) / 5)) : 100;
+
+  useEffect(() => {
+    setBrushSize(size => Math.min(size, maxBrushSize));
+  }, [maxBrushSize]);
+
+  const historyEntries: HistoryPanelEntry[] = history.current.map(entry => {
+      const image = entry.images.find(img => img.id === selectedImageId) ?? entry.images[0];
+      return {
+          label: entry.label,
+          timestamp: entry.timestamp,
+          thumbnail: image ? getTopImageLayer(image.layers)?.src ?? image.originalSrc : null,
+      };
+  });
+  // Encoding is costly (especially AVIF and size targeting), so the estimate is only computed on
+  // request and dropped as soon as anything it depends on changes.
+  useEffect(() => {
+    exportEstimateTokenRef.current++;
+    setExportEstimate(null);
+    setIsEstimatingExport(false);
+  }, [activeImage?.id, activeImage?.layers, activeImage?.crop, activeImage?.adjustments, activeImage?.exportProfileId, activeImage?.exportSettings]);
+
+  const handleEstimateExport = async () => {
+    if (!activeImage) return;
+    const token = ++exportEstimateTokenRef.current;
+    setIsEstimatingExport(true);
+    try {
+      const result = await exportImageState(activeImage);
+      if (token !== exportEstimateTokenRef.current) return;
+      setExportEstimate({ bytes: result.blob.size, width: result.width, height: result.height, quality: result.quality });
+    } catch (err) {
+      console.error("Failed to estimate export size", err);
+      if (token === exportEstimateTokenRef.current) setError('Não foi possível calcular o tamanho do arquivo.');
+    } finally {
+      if (token === exportEstimateTokenRef.current) setIsEstimatingExport(false);
+    }
+  };
+
+  const activeExportProfile = activeImage ? getExportProfile(activeImage.exportProfileId) : null;
+  const profileAspectMismatch = activeExportProfile?.aspectRatio && activeExportProfile.aspectRatio.name !== activeAspectRatio.name
+    ? `${activeExportProfile.name} usa o formato ${activeExportProfile.aspectRatio.name}; o corte será ajustado ao salvar.`
+    : null;
+
+  // A pending enhancement is previewed as the layer it would become once confirmed.
+  const pendingLayer = useMemo(
+    () => pendingEnhancement
+      ? createImageLayer(pendingEnhancement.options[pendingEnhancement.selectedIndex], 'ai', pendingEnhancement.label)
+      : null,
+    [pendingEnhancement]
+  );
+  const displayedLayers = useMemo(() => {
+    if (!activeImage) return [];
+    if (pendingLayer && !showOriginalForCompare) return addImageLayerOnTop(activeImage.layers, pendingLayer);
+    return activeImage.layers;
+  }, [activeImage, pendingLayer, showOriginalForCompare]);
+
+  const editableLayers = activeTool === 'text'
+    ? displayedLayers.filter((l): l is TextLayer => l.kind === 'text')
+    : activeTool === 'layers' ? displayedLayers.filter(isOverlayLayer) : [];
   
-  const filterStyle = activeImage ? {
-      filter: `brightness(${activeImage.adjustments.brightness}%) contrast(${activeImage.adjustments.contrast}%) saturate(${activeImage.adjustments.saturate}%) hue-rotate(${activeImage.adjustments.hue}deg)`,
-  } : {};
-  
-  const adjustmentControls: {
-    id: keyof ImageAdjustments;
-    name: string;
-    icon: React.ReactElement;
-    min: number;
-    max: number;
-    unit: string;
-  }[] = [
-    { id: 'brightness', name: 'Brilho', icon: <SunIcon className="w-5 h-5" />, min: 0, max: 200, unit: '%' },
-    { id: 'contrast', name: 'Contraste', icon: <ContrastIcon className="w-5 h-5" />, min: 0, max: 200, unit: '%' },
-    { id: 'saturate', name: 'Saturação', icon: <DropletIcon className="w-5 h-5" />, min: 0, max: 200, unit: '%' },
-    { id: 'hue', name: 'Tonalidade', icon: <ColorWheelIcon className="w-5 h-5" />, min: -180, max: 180, unit: '°' },
-  ];
+  // Tools keep unconfirmed edits on the image; copying and pasting waits until they are closed.
+  const isEditClipboardDisabled = isAnyLoading || !!activeTool || !!pendingEnhancement || !!recipeRun;
+  const copiedEditsSourceIndex = copiedEdits ? images.findIndex(img => img.id === copiedEdits.sourceId) : -1;
+
+  const editClipboardPanel = copiedEdits && (
+    <EditClipboardPanel
+      edits={copiedEdits}
+      sourceIndex={copiedEditsSourceIndex}
+      properties={pasteProperties}
+      syncCount={images.filter(img => img.id !== copiedEdits.sourceId).length}
+      canPasteSelected={!!selectedImageId && selectedImageId !== copiedEdits.sourceId}
+      disabled={isEditClipboardDisabled}
+      onPropertiesChange={setPasteProperties}
+      onPaste={handlePasteEditsScope}
+      onClear={() => setCopiedEdits(null)}
+    />
+  );
+
+  const histogramPanel = (
+    <HistogramPanel
+      histogram={histogramResult?.histogram ?? null}
+      clipping={histogramResult?.clipping ?? null}
+      showClipping={showClipping}
+      onShowClippingChange={setShowClipping}
+    />
+  );
+
+  const autoFramePanel = (
+    <AutoFramePanel
+        settings={framingSettings}
+        aspectName={activeAspectRatio.name}
+        imageCount={images.length}
+        isProcessing={isFraming}
+        onChange={setFramingSettings}
+        onApply={handleAutoFrame}
+    />
+  );
+
+  const cropModeToggle = (
+    <div className="grid grid-cols-2 gap-1 p-1 bg-slate-100 rounded-lg">
+        {([['crop', 'Cortar'], ['extend', 'Estender Tela']] as const).map(([mode, name]) => (
+            <button key={mode} onClick={() => setCropMode(mode)} className={`py-1.5 text-sm font-semibold rounded-md transition-colors ${cropMode === mode ? 'bg-white text-indigo-700 shadow-sm' : 'text-slate-600 hover:text-slate-800'}`}>
+                {name}
+            </button>
+        ))}
+    </div>
+  );
+
+  const extendCanvasPanel = activeImage ? (
+    <ExtendCanvasPanel
+        padding={extendPadding}
+        fill={extendFill}
+        imageWidth={activeImage.naturalWidth}
+        imageHeight={activeImage.naturalHeight}
+        aspectName={activeAspectRatio.name}
+        previewSrc={extendPreview}
+        isProcessing={isAnyLoading}
+        onPaddingChange={setExtendPadding}
+        onFillChange={setExtendFill}
+        onFitAspectRatio={handleFitExtendToAspectRatio}
+        onApply={handleExtendCanvas}
+        onOutpaint={handleOutpaint}
+    />
+  ) : null;
+
+  const variationChooser = pendingEnhancement ? (
+    <VariationChooser
+        label={pendingEnhancement.label}
+        options={pendingEnhancement.options}
+        selectedIndex={pendingEnhancement.selectedIndex}
+        isRegenerating={isEnhancing}
+        onSelect={index => setPendingEnhancement(prev => prev && { ...prev, selectedIndex: index })}
+        onCompare={setShowOriginalForCompare}
+        onRegenerate={handleRegenerateEnhancement}
+        onKeep={handleConfirmEnhancement}
+        onDiscard={handleCancelEnhancement}
+    />
+  ) : null;
+
+  const recipePanel = (
+    <RecipePanel
+        recipes={recipes}
+        recordingSteps={recordingSteps}
+        run={recipeRun}
+        imageCount={images.length}
+        hasActiveImage={!!activeImage}
+        onStartRecording={() => setRecordingSteps([])}
+        onRemoveRecordedStep={index => setRecordingSteps(prev => prev && prev.filter((_, i) => i !== index))}
+        onSaveRecording={handleSaveRecording}
+        onDiscardRecording={() => setRecordingSteps(null)}
+        onDeleteRecipe={handleDeleteRecipe}
+        onRun={handleRunRecipe}
+        onContinue={handleContinueRecipe}
+        onRetryStep={handleContinueRecipe}
+        onSkipStep={handleSkipRecipeStep}
+        onCancelRun={handleCancelRecipeRun}
+        onCloseRun={() => setRecipeRun(null)}
+    />
+  );
+
+  const presetLibraryPanel = (
+    <PresetLibraryPanel
+        presets={presets}
+        currentAdjustments={activeImage?.adjustments ?? null}
+        onChange={handlePresetsChange}
+        onRestoreDefaults={handleRestoreDefaultPresets}
+        onClose={() => setIsManagingPresets(false)}
+    />
+  );
+
+  const maskToolsPanel = (
+    <MaskToolsPanel
+        mode={selectionMode}
+        isSubtracting={isErasing}
+        brushSize={brushSize}
+        maxBrushSize={maxBrushSize}
+        wandTolerance={wandTolerance}
+        wandContiguous={wandContiguous}
+        operationRadius={maskOperationRadius}
+        hasMask={!!activeImage?.maskSrc}
+        onModeChange={setSelectionMode}
+        onSubtractingChange={setIsErasing}
+        onBrushSizeChange={setBrushSize}
+        onWandToleranceChange={setWandTolerance}
+        onWandContiguousChange={setWandContiguous}
+        onOperationRadiusChange={setMaskOperationRadius}
+        onInvert={handleInvertMask}
+        onGrow={handleGrowMask}
+        onFeather={handleFeatherMask}
+        onClear={handleClearMask}
+    />
+  );
+
+  const backgroundRemovalPanel = (
+    <BackgroundRemovalPanel
+        options={backgroundOptions}
+        refineRadius={cutoutRefineRadius}
+        hasMask={!!activeImage?.maskSrc}
+        isProcessing={isRemovingBackground}
+        onOptionsChange={setBackgroundOptions}
+        onRefineRadiusChange={setCutoutRefineRadius}
+        onDetect={handleDetectProduct}
+        onRefineEdges={handleRefineCutoutEdges}
+        onApply={handleApplyCutout}
+        onCancel={handleCancelCutout}
+    >
+        {maskToolsPanel}
+    </BackgroundRemovalPanel>
+  );
 
   const cropperComponent = activeImage ? (
     <div className="relative w-full h-full flex items-center justify-center">
@@ -741,45 +2083,74 @@ export default function ImageEditor({ initialImages: initialImageData, onSave, o
         disabled={isAnyLoading || activeTool !== 'crop'}
         className="max-w-full max-h-full"
       >
-        <img
-          ref={imgRef}
-          src={displayedImageSrc}
-          alt="Produto selecionado"
-          onLoad={!activeImage.crop ? onImageLoad : undefined}
-          style={{ 
-            maxHeight: isDesktop ? '70vh' : 'calc(100vh - 200px)',
-            ...filterStyle 
-          }}
-          className={isAnyLoading ? 'opacity-60' : ''}
-        />
+        <div className={`relative ${isProcessing ? 'opacity-60' : ''}`}>
+          {/* The image only sizes the document; the visible pixels come from the layer canvas. */}
+          <img
+            ref={imgRef}
+            src={activeImage.originalSrc}
+            alt="Produto selecionado"
+            onLoad={!activeImage.crop ? onImageLoad : undefined}
+            style={{ 
+              maxHeight: isDesktop ? '70vh' : 'calc(100vh - 200px)',
+            }}
+            className="invisible"
+          />
+          <LayerCanvas
+            layers={displayedLayers}
+            naturalWidth={activeImage.naturalWidth}
+            naturalHeight={activeImage.naturalHeight}
+            adjustments={activeImage.adjustments}
+            className="absolute inset-0 w-full h-full pointer-events-none"
+          />
+          {activeTool === 'adjust' && showClipping && histogramResult?.clipping && (
+            <ClippingOverlayCanvas overlay={histogramResult.clipping.overlay} className="absolute inset-0 w-full h-full pointer-events-none" />
+          )}
+          <canvas
+            key={activeImage.id}
+            ref={maskCanvasRef}
+            width={activeImage.naturalWidth}
+            height={activeImage.naturalHeight}
+            className="absolute inset-0 w-full h-full"
+            style={{
+              pointerEvents: (activeTool === 'brush' || activeTool === 'background') ? 'auto' : 'none',
+              touchAction: 'none',
+              opacity: 0.3,
+            }}
+            onMouseDown={startDrawing}
+            onMouseMove={draw}
+            onMouseUp={stopDrawing}
+            onMouseLeave={stopDrawing}
+            onTouchStart={startDrawing}
+            onTouchMove={draw}
+            onTouchEnd={stopDrawing}
+            onDoubleClick={() => selectionMode === 'lasso' && closeLasso()}
+          />
+          <canvas
+            ref={selectionPreviewRef}
+            width={activeImage.naturalWidth}
+            height={activeImage.naturalHeight}
+            className="absolute inset-0 w-full h-full pointer-events-none"
+          />
+        </div>
       </ReactCrop>
 
-      <canvas
-        key={displayedImageSrc}
-        ref={maskCanvasRef}
-        className="absolute top-0 left-0"
-        style={{
-          pointerEvents: (activeTool === 'brush') ? 'auto' : 'none',
-          touchAction: 'none',
-          width: '100%',
-          height: '100%',
-          opacity: 0.3,
-        }}
-        onMouseDown={startDrawing}
-        onMouseMove={draw}
-        onMouseUp={stopDrawing}
-        onMouseLeave={stopDrawing}
-        onTouchStart={startDrawing}
-        onTouchMove={draw}
-        onTouchEnd={stopDrawing}
-      />
-
-      {isAnyLoading && (
+      {(activeTool === 'text' || activeTool === 'layers') && !isAnyLoading && !pendingEnhancement && (
+        <LayerTransformHandles
+          layers={editableLayers}
+          naturalWidth={activeImage.naturalWidth}
+          selectedId={selectedLayerId}
+          onSelect={setSelectedLayerId}
+          onChange={handleLayerChange}
+        />
+      )}
+
+      {isProcessing && (
         <div className="absolute inset-0 bg-white/60 backdrop-blur-sm flex flex-col items-center justify-center rounded-xl z-10">
           <svg className="animate-spin h-10 w-10 text-indigo-600" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path></svg>
           <p className="mt-4 font-semibold text-indigo-700">
             {isLoading ? 'Aplicando edição...' : 
              isEnhancing ? 'Aprimorando imagem...' :
+             recipeRun ? 'Executando receita...' :
              'Processando...'}
           </p>
         </div>
@@ -796,7 +2167,7 @@ export default function ImageEditor({ initialImages: initialImageData, onSave, o
   const desktopLayout = (
     <div className="flex flex-row h-full font-sans bg-slate-100 text-slate-800 rounded-lg overflow-hidden">
         <button 
-          onClick={onClose} 
+          onClick={handleClose} 
           className="absolute top-4 right-4 z-30 p-2 rounded-full bg-slate-200 text-slate-600 hover:bg-slate-300 transition-colors"
           aria-label="Fechar editor"
         >
@@ -808,14 +2179,22 @@ export default function ImageEditor({ initialImages: initialImageData, onSave, o
             <div>
               <h1 className="text-2xl font-bold text-slate-900">Editor de Imagens</h1>
               <p className="text-sm text-slate-500 mt-1">Refine suas imagens de produto com IA.</p>
+              {autosaveStatus !== 'idle' && (
+                <p className={`text-xs mt-1 ${autosaveStatus === 'error' ? 'text-red-500' : 'text-slate-400'}`}>
+                  {autosaveStatus === 'saving' ? 'Salvando projeto...' : autosaveStatus === 'saved' ? 'Projeto salvo automaticamente' : 'Falha ao salvar o projeto'}
+                </p>
+              )}
             </div>
             <div className="flex items-center gap-2">
-              <button onClick={undo} disabled={!canUndo} className="p-2 rounded-md bg-white hover:bg-slate-100 text-slate-600 disabled:text-slate-300 disabled:cursor-not-allowed disabled:bg-white" aria-label="Desfazer (Ctrl+Z)">
+              <button onClick={undo} disabled={!canUndo || isAnyLoading} className="p-2 rounded-md bg-white hover:bg-slate-100 text-slate-600 disabled:text-slate-300 disabled:cursor-not-allowed disabled:bg-white" aria-label="Desfazer (Ctrl+Z)">
                 <UndoIcon className="w-6 h-6" />
               </button>
-              <button onClick={redo} disabled={!canRedo} className="p-2 rounded-md bg-white hover:bg-slate-100 text-slate-600 disabled:text-slate-300 disabled:cursor-not-allowed disabled:bg-white" aria-label="Refazer (Ctrl+Shift+Z)">
+              <button onClick={redo} disabled={!canRedo || isAnyLoading} className="p-2 rounded-md bg-white hover:bg-slate-100 text-slate-600 disabled:text-slate-300 disabled:cursor-not-allowed disabled:bg-white" aria-label="Refazer (Ctrl+Shift+Z)">
                 <RedoIcon className="w-6 h-6" />
               </button>
+              <button onClick={() => handleToolSelect('history')} className={`p-2 rounded-md transition-colors ${activeTool === 'history' ? 'bg-indigo-100 text-indigo-700' : 'bg-white hover:bg-slate-100 text-slate-600'}`} aria-label="Histórico">
+                <ClockIcon className="w-6 h-6" />
+              </button>
             </div>
           </header>
   
@@ -839,8 +2218,30 @@ export default function ImageEditor({ initialImages: initialImageData, onSave, o
                           disabled={isAnyLoading}
                           className={`w-full aspect-square rounded-md overflow-hidden border-2 transition-colors ${selectedImageId === image.id ? 'border-indigo-500 ring-2 ring-indigo-200' : 'border-slate-200 hover:border-indigo-400'} disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:border-slate-200`}
                       >
-                          <img src={image.generatedBase64 || image.base64} alt="Thumbnail" className="w-full h-full object-cover" style={{filter: `brightness(${image.adjustments.brightness}%) contrast(${image.adjustments.contrast}%) saturate(${image.adjustments.saturate}%) hue-rotate(${image.adjustments.hue}deg)`}}/>
+                          <img src={getTopImageLayer(image.layers)?.src ?? image.originalSrc} alt="Thumbnail" className="w-full h-full object-cover" style={{filter: getAdjustmentsFilter(image.adjustments)}}/>
                       </button>
+                      <div className="absolute bottom-1 left-1 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity focus-within:opacity-100">
+                          <button
+                              onClick={() => handleCopyEdits(image.id)}
+                              disabled={isEditClipboardDisabled}
+                              className={`p-1 rounded-md bg-white/90 shadow-sm disabled:opacity-50 ${copiedEdits?.sourceId === image.id ? 'text-indigo-600' : 'text-slate-600 hover:text-indigo-600'}`}
+                              aria-label="Copiar edições"
+                              title="Copiar edições"
+                          >
+                              <CopyIcon className="w-4 h-4" />
+                          </button>
+                          {copiedEdits && copiedEdits.sourceId !== image.id && (
+                              <button
+                                  onClick={() => handlePasteEdits([image.id], 'Colar edições')}
+                                  disabled={isEditClipboardDisabled}
+                                  className="p-1 rounded-md bg-white/90 shadow-sm text-slate-600 hover:text-indigo-600 disabled:opacity-50"
+                                  aria-label="Colar edições"
+                                  title="Colar edições"
+                              >
+                                  <ClipboardIcon className="w-4 h-4" />
+                              </button>
+                          )}
+                      </div>
                       <button
                           onClick={() => handleRemoveImage(image.id)}
                           disabled={isAnyLoading}
@@ -860,6 +2261,7 @@ export default function ImageEditor({ initialImages: initialImageData, onSave, o
                 <span className="text-xs font-medium mt-1">Adicionar</span>
               </button>
             </div>
+            {editClipboardPanel}
           </div>
           
           {images.length > 0 && (
@@ -867,11 +2269,11 @@ export default function ImageEditor({ initialImages: initialImageData, onSave, o
               <div className="pt-4 border-t border-slate-200 space-y-4">
                   <h2 className="text-lg font-semibold text-slate-700">2. Edição da Imagem Selecionada</h2>
   
-                  <div className="grid grid-cols-4 gap-2">
+                  <div className="grid grid-cols-3 gap-2">
                       <button 
                           onClick={() => handleToolSelect('crop')} 
                           className={`flex flex-col items-center justify-center gap-1 p-2 rounded-lg transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed ${activeTool === 'crop' ? 'bg-green-100 text-green-700' : 'text-slate-600 hover:bg-slate-100'}`} 
-                          disabled={isAnyLoading || !!pendingEnhancement}
+                          disabled={isAnyLoading || !!pendingEnhancement || !!batch || !!recipeRun}
                       >
                           <CropIcon className={`w-8 h-8 ${activeTool === 'crop' ? 'text-green-700' : 'text-green-600'}`} />
                           <span className="text-xs font-semibold mt-1">Cortar</span>
@@ -879,7 +2281,7 @@ export default function ImageEditor({ initialImages: initialImageData, onSave, o
                        <button 
                           onClick={() => handleToolSelect('adjust')} 
                           className={`flex flex-col items-center justify-center gap-1 p-2 rounded-lg transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed ${activeTool === 'adjust' ? 'bg-blue-100 text-blue-700' : 'text-slate-600 hover:bg-slate-100'}`} 
-                          disabled={isAnyLoading || !!pendingEnhancement}
+                          disabled={isAnyLoading || !!pendingEnhancement || !!batch || !!recipeRun}
                       >
                           <AdjustmentsIcon className={`w-8 h-8 ${activeTool === 'adjust' ? 'text-blue-700' : 'text-blue-600'}`} />
                           <span className="text-xs font-semibold mt-1">Ajustes</span>
@@ -887,24 +2289,66 @@ export default function ImageEditor({ initialImages: initialImageData, onSave, o
                        <button 
                           onClick={() => handleToolSelect('brush')} 
                           className={`flex flex-col items-center justify-center gap-1 p-2 rounded-lg transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed ${activeTool === 'brush' ? 'bg-purple-100 text-purple-700' : 'text-slate-600 hover:bg-slate-100'}`} 
-                          disabled={isAnyLoading || !!pendingEnhancement}
+                          disabled={isAnyLoading || !!pendingEnhancement || !!batch || !!recipeRun}
                       >
                           <BrushIcon className={`w-8 h-8 ${activeTool === 'brush' ? 'text-purple-700' : 'text-purple-600'}`} />
                           <span className="text-xs font-semibold mt-1">Pincel</span>
                       </button>
+                      <button 
+                          onClick={() => handleToolSelect('background')} 
+                          className={`flex flex-col items-center justify-center gap-1 p-2 rounded-lg transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed ${activeTool === 'background' ? 'bg-emerald-100 text-emerald-700' : 'text-slate-600 hover:bg-slate-100'}`} 
+                          disabled={isAnyLoading || !!pendingEnhancement || !!batch || !!recipeRun || !activeImage}
+                      >
+                          <ScissorsIcon className={`w-8 h-8 ${activeTool === 'background' ? 'text-emerald-700' : 'text-emerald-600'}`} />
+                          <span className="text-xs font-semibold mt-1">Recortar Fundo</span>
+                      </button>
+                      <button 
+                          onClick={() => handleToolSelect('text')} 
+                          className={`flex flex-col items-center justify-center gap-1 p-2 rounded-lg transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed ${activeTool === 'text' ? 'bg-pink-100 text-pink-700' : 'text-slate-600 hover:bg-slate-100'}`} 
+                          disabled={isAnyLoading || !!pendingEnhancement || !!batch || !!recipeRun}
+                      >
+                          <EditIcon className={`w-8 h-8 ${activeTool === 'text' ? 'text-pink-700' : 'text-pink-600'}`} />
+                          <span className="text-xs font-semibold mt-1">Texto</span>
+                      </button>
+                      <button 
+                          onClick={() => handleToolSelect('layers')} 
+                          className={`flex flex-col items-center justify-center gap-1 p-2 rounded-lg transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed ${activeTool === 'layers' ? 'bg-teal-100 text-teal-700' : 'text-slate-600 hover:bg-slate-100'}`} 
+                          disabled={isAnyLoading || !!pendingEnhancement || !!batch || !!recipeRun}
+                      >
+                          <LayersIcon className={`w-8 h-8 ${activeTool === 'layers' ? 'text-teal-700' : 'text-teal-600'}`} />
+                          <span className="text-xs font-semibold mt-1">Camadas</span>
+                      </button>
                       <button 
                           onClick={() => handleToolSelect('enhance')}
                           className={`flex flex-col items-center justify-center gap-1 p-2 rounded-lg transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed ${activeTool === 'enhance' ? 'bg-yellow-100 text-yellow-700' : 'text-slate-600 hover:bg-slate-100'}`}
-                          disabled={isAnyLoading || !!pendingEnhancement || !activeImage}
+                          disabled={isAnyLoading || !!pendingEnhancement || !!batch || !!recipeRun || !activeImage}
                       >
                           <SparklesIcon className={`w-8 h-8 ${activeTool === 'enhance' ? 'text-yellow-700' : 'text-yellow-600'}`} />
                           <span className="text-xs font-semibold mt-1">Aprimorar</span>
                       </button>
+                      <button 
+                          onClick={() => handleToolSelect('batch')}
+                          className={`flex flex-col items-center justify-center gap-1 p-2 rounded-lg transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed ${activeTool === 'batch' ? 'bg-orange-100 text-orange-700' : 'text-slate-600 hover:bg-slate-100'}`}
+                          disabled={isAnyLoading || !!pendingEnhancement || !!recipeRun || images.length === 0}
+                      >
+                          <CollectionIcon className={`w-8 h-8 ${activeTool === 'batch' ? 'text-orange-700' : 'text-orange-600'}`} />
+                          <span className="text-xs font-semibold mt-1">Lote</span>
+                      </button>
+                      <button 
+                          onClick={() => handleToolSelect('recipes')}
+                          className={`relative flex flex-col items-center justify-center gap-1 p-2 rounded-lg transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed ${activeTool === 'recipes' ? 'bg-rose-100 text-rose-700' : 'text-slate-600 hover:bg-slate-100'}`}
+                          disabled={isAnyLoading || !!pendingEnhancement || !!batch || images.length === 0}
+                      >
+                          {recordingSteps && <span className="absolute top-2 right-2 w-2 h-2 rounded-full bg-red-500 animate-pulse" aria-label="Gravando receita" />}
+                          <RecipeIcon className={`w-8 h-8 ${activeTool === 'recipes' ? 'text-rose-700' : 'text-rose-600'}`} />
+                          <span className="text-xs font-semibold mt-1">Receitas</span>
+                      </button>
                   </div>
                   
                   <div className="min-h-[120px]">
                       {activeTool === 'crop' && (
                           <div className="space-y-4">
+                              {cropModeToggle}
                               <div>
                                   <label className="font-medium text-slate-600">Proporção</label>
                                   <div className="grid grid-cols-5 gap-2 mt-3">
@@ -917,58 +2361,28 @@ export default function ImageEditor({ initialImages: initialImageData, onSave, o
                                       </button>
                                       ))}
                                   </div>
+                                  {profileAspectMismatch && (
+                                      <p className="text-xs text-amber-700 mt-2">{profileAspectMismatch}</p>
+                                  )}
                               </div>
-                              <button
-                                  onClick={handleConfirmCrop}
-                                  className="w-full py-2 px-3 bg-indigo-600 text-white font-semibold rounded-lg shadow-sm hover:bg-indigo-700 transition-colors"
-                              >
-                                  Confirmar Corte
-                              </button>
+                              {cropMode === 'extend' ? extendCanvasPanel : (
+                                  <>
+                                      {autoFramePanel}
+                                      <button
+                                          onClick={handleConfirmCrop}
+                                          className="w-full py-2 px-3 bg-indigo-600 text-white font-semibold rounded-lg shadow-sm hover:bg-indigo-700 transition-colors"
+                                      >
+                                          Confirmar Corte
+                                      </button>
+                                  </>
+                              )}
                         </div>
                       )}
                       
                       {activeTool === 'adjust' && activeImage && tempAdjustments && (
                           <div className="space-y-3">
-                              <div className="space-y-2">
-                                  <div className="flex justify-between items-center text-sm">
-                                      <label htmlFor="brightness" className="font-medium text-slate-600">Brilho</label>
-                                      <span className="text-slate-500 font-mono text-xs w-10 text-right">{tempAdjustments.brightness}%</span>
-                                  </div>
-                                  <div className="flex items-center gap-2">
-                                  <input id="brightness" type="range" min="0" max="200" value={tempAdjustments.brightness} onChange={e => handleAdjustmentChange('brightness', Number(e.target.value))} className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer" />
-                                  <button onClick={() => handleResetAdjustment('brightness')} className="text-xs text-slate-500 hover:text-indigo-600">Reset</button>
-                                  </div>
-                              </div>
-                              <div className="space-y-2">
-                                  <div className="flex justify-between items-center text-sm">
-                                      <label htmlFor="contrast" className="font-medium text-slate-600">Contraste</label>
-                                      <span className="text-slate-500 font-mono text-xs w-10 text-right">{tempAdjustments.contrast}%</span>
-                                  </div>
-                                  <div className="flex items-center gap-2">
-                                  <input id="contrast" type="range" min="0" max="200" value={tempAdjustments.contrast} onChange={e => handleAdjustmentChange('contrast', Number(e.target.value))} className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer" />
-                                   <button onClick={() => handleResetAdjustment('contrast')} className="text-xs text-slate-500 hover:text-indigo-600">Reset</button>
-                                  </div>
-                              </div>
-                              <div className="space-y-2">
-                                  <div className="flex justify-between items-center text-sm">
-                                      <label htmlFor="saturate" className="font-medium text-slate-600">Saturação</label>
-                                      <span className="text-slate-500 font-mono text-xs w-10 text-right">{tempAdjustments.saturate}%</span>
-                                  </div>
-                                  <div className="flex items-center gap-2">
-                                  <input id="saturate" type="range" min="0" max="200" value={tempAdjustments.saturate} onChange={e => handleAdjustmentChange('saturate', Number(e.target.value))} className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer" />
-                                  <button onClick={() => handleResetAdjustment('saturate')} className="text-xs text-slate-500 hover:text-indigo-600">Reset</button>
-                                  </div>
-                              </div>
-                              <div className="space-y-2">
-                                  <div className="flex justify-between items-center text-sm">
-                                      <label htmlFor="hue" className="font-medium text-slate-600">Tonalidade</label>
-                                      <span className="text-slate-500 font-mono text-xs w-10 text-right">{tempAdjustments.hue}°</span>
-                                  </div>
-                                  <div className="flex items-center gap-2">
-                                  <input id="hue" type="range" min="-180" max="180" value={tempAdjustments.hue} onChange={e => handleAdjustmentChange('hue', Number(e.target.value))} className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer" />
-                                  <button onClick={() => handleResetAdjustment('hue')} className="text-xs text-slate-500 hover:text-indigo-600">Reset</button>
-                                  </div>
-                              </div>
+                              {histogramPanel}
+                              <AdjustmentsPanel adjustments={tempAdjustments} imageCount={images.length} isAutoAdjusting={isAutoAdjusting} copiedCurves={copiedCurves} onChange={handleAdjustmentsChange} onAuto={handleAutoAdjust} onCopyCurves={handleCopyCurves} onPasteCurves={handlePasteCurves} />
                                <div className="flex items-center gap-2 pt-2">
                                   <button onClick={handleCancelAdjustments} className="flex-1 text-sm text-slate-600 font-semibold hover:text-slate-800 transition-colors">Cancelar</button>
                                   <button 
@@ -983,91 +2397,112 @@ export default function ImageEditor({ initialImages: initialImageData, onSave, o
   
                       {activeTool === 'brush' && (
                           <div className="space-y-3">
-                              <p className="text-xs text-slate-500">Pinte a área que deseja editar. Se nada for selecionado, a edição será aplicada na imagem toda.</p>
+                              <p className="text-xs text-slate-500">Selecione a área que deseja editar. Se nada for selecionado, a edição será aplicada na imagem toda.</p>
                               
-                              <div className="bg-slate-50 p-3 rounded-lg space-y-4">
-                                  <div>
-                                  <label htmlFor="brush-size" className="text-sm font-medium text-slate-500">Tamanho do Pincel</label>
-                                  <input id="brush-size" type="range" min="5" max="100" value={brushSize} onChange={e => setBrushSize(Number(e.target.value))} className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer" />
-                                  </div>
-                                  <div className="flex items-center gap-2">
-                                  <button onClick={() => setIsErasing(false)} className={`flex-1 py-2 px-3 text-sm rounded-md flex items-center justify-center gap-2 transition-colors ${!isErasing ? 'bg-indigo-500 text-white' : 'bg-white hover:bg-slate-200 text-slate-700 border border-slate-300'}`}>
-                                      <BrushIcon className="w-5 h-5"/> Pincel
-                                  </button>
-                                  <button onClick={() => setIsErasing(true)} className={`flex-1 py-2 px-3 text-sm rounded-md flex items-center justify-center gap-2 transition-colors ${isErasing ? 'bg-indigo-500 text-white' : 'bg-white hover:bg-slate-200 text-slate-700 border border-slate-300'}`}>
-                                      <EraserIcon className="w-5 h-5"/> Borracha
-                                  </button>
-                                  <button onClick={handleClearMask} className="p-2 bg-white hover:bg-slate-200 text-slate-600 rounded-md border border-slate-300" aria-label="Limpar máscara">
-                                      <TrashIcon className="w-5 h-5" />
-                                  </button>
-                                  </div>
-                              </div>
+                              {maskToolsPanel}
                           </div>
                       )}
   
-                      {activeTool === 'enhance' && (
+                      {activeTool === 'background' && activeImage && backgroundRemovalPanel}
+
+                      {activeTool === 'text' && activeImage && (
+                          <TextToolPanel
+                              layers={activeImage.layers.filter((l): l is TextLayer => l.kind === 'text')}
+                              selectedId={selectedLayerId}
+                              onSelect={setSelectedLayerId}
+                              onAdd={handleAddText}
+                              onChange={handleLayerChange}
+                              onDuplicate={handleDuplicateText}
+                              onDelete={handleDeleteLayer}
+                              onConfirm={handleConfirmLayers}
+                              onCancel={handleCancelLayers}
+                          />
+                      )}
+
+                      {activeTool === 'layers' && activeImage && (
+                          <LayersPanel
+                              layers={activeImage.layers}
+                              selectedId={selectedLayerId}
+                              onSelect={setSelectedLayerId}
+                              onChange={handleLayerChange}
+                              onMove={handleMoveLayer}
+                              onDelete={handleDeleteLayer}
+                              onAddShape={handleAddShape}
+                              onAddSticker={handleAddSticker}
+                              onConfirm={handleConfirmLayers}
+                              onCancel={handleCancelLayers}
+                          />
+                      )}
+
+                      {activeTool === 'history' && (
+                          <div className="space-y-3">
+                              <p className="text-sm text-slate-600">Clique em uma etapa para voltar a ela. As etapas seguintes continuam disponíveis até a próxima edição.</p>
+                              <HistoryPanel entries={historyEntries} currentIndex={historyIndex.current} onJump={jumpToHistory} disabled={isAnyLoading} />
+                          </div>
+                      )}
+
+                      {activeTool === 'batch' && (
+                          <BatchPanel
+                              images={images.map(img => ({ id: img.id, src: getTopImageLayer(img.layers)?.src ?? img.originalSrc }))}
+                              presets={presets}
+                              batch={batch}
+                              onStart={handleStartBatch}
+                              onPause={handlePauseBatch}
+                              onResume={handleResumeBatch}
+                              onCancel={handleCancelBatch}
+                              onRetryFailed={handleRetryFailedBatch}
+                              onToggleAccept={handleToggleBatchItem}
+                              onApply={handleApplyBatch}
+                              onDiscard={handleDiscardBatch}
+                          />
+                      )}
+
+                      {activeTool === 'recipes' && recipePanel}
+
+                      {activeTool === 'enhance' && isManagingPresets && presetLibraryPanel}
+
+                      {activeTool === 'enhance' && !isManagingPresets && (
                           <div className="space-y-3">
-                              <p className="text-sm text-slate-600">Escolha um aprimoramento rápido:</p>
+                              <div className="flex items-center justify-between">
+                                  <p className="text-sm text-slate-600">Escolha um aprimoramento rápido:</p>
+                                  <button onClick={() => setIsManagingPresets(true)} className="text-xs font-semibold text-indigo-600 hover:text-indigo-800">Gerenciar</button>
+                              </div>
+                              <div className="flex items-center justify-between text-sm">
+                                  <span className="font-medium text-slate-600">Variações</span>
+                                  <div className="flex gap-1">
+                                      {VARIATION_COUNTS.map(count => (
+                                          <button key={count} onClick={() => setVariationCount(count)} disabled={isAnyLoading} className={`w-8 h-8 rounded-md text-sm font-semibold transition-colors ${variationCount === count ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-700 hover:bg-slate-200'}`}>{count}</button>
+                                      ))}
+                                  </div>
+                              </div>
                               <div className="grid grid-cols-1 gap-2">
-                                  {ENHANCEMENT_PRESETS.map(preset => (
-                                      <button
-                                          key={preset.name}
-                                          onClick={() => handleEnhanceImage(preset.prompt)}
-                                          disabled={isEnhancing}
-                                          className="flex items-center gap-3 p-3 w-full text-left bg-slate-50 hover:bg-indigo-50 border border-slate-200 hover:border-indigo-200 rounded-lg transition-colors disabled:opacity-60 disabled:cursor-not-allowed"
-                                      >
-                                          <div className="text-indigo-500 bg-indigo-100 p-2 rounded-md">
-                                              {preset.icon}
-                                          </div>
-                                          <div>
-                                              <h4 className="font-semibold text-slate-800">{preset.name}</h4>
-                                          </div>
-                                      </button>
-                                  ))}
+                                  {presets.map(preset => {
+                                      const PresetIcon = PRESET_ICONS[preset.icon];
+                                      return (
+                                          <button
+                                              key={preset.id}
+                                              onClick={() => handleEnhanceImage(preset)}
+                                              disabled={isEnhancing}
+                                              className="flex items-center gap-3 p-3 w-full text-left bg-slate-50 hover:bg-indigo-50 border border-slate-200 hover:border-indigo-200 rounded-lg transition-colors disabled:opacity-60 disabled:cursor-not-allowed"
+                                          >
+                                              <div className="text-indigo-500 bg-indigo-100 p-2 rounded-md">
+                                                  <PresetIcon className="w-6 h-6" />
+                                              </div>
+                                              <div>
+                                                  <h4 className="font-semibold text-slate-800">{preset.name}</h4>
+                                              </div>
+                                          </button>
+                                      );
+                                  })}
                               </div>
                           </div>
                       )}
   
                   </div>
   
-                  {pendingEnhancement && (
-                    <div className="space-y-4 pt-4 border-t border-slate-200 bg-indigo-50 p-4 rounded-lg">
-                        <h3 className="font-semibold text-center text-indigo-800">Revisar Aprimoramento</h3>
-                        <p className="text-xs text-center text-indigo-700">O resultado parece bom? Mantenha pressionado "Comparar" para ver o original.</p>
-                        
-                        <button 
-                            onMouseDown={() => setShowOriginalForCompare(true)}
-                            onMouseUp={() => setShowOriginalForCompare(false)}
-                            onMouseLeave={() => setShowOriginalForCompare(false)}
-                            onTouchStart={() => setShowOriginalForCompare(true)}
-                            onTouchEnd={() => setShowOriginalForCompare(false)}
-                            className="w-full flex items-center justify-center gap-2 py-2 px-3 bg-white text-slate-700 font-semibold rounded-lg border border-slate-300 hover:bg-slate-100 transition-colors"
-                            title="Segure para ver a imagem original"
-                        >
-                            <EyeIcon className="w-5 h-5" />
-                            Comparar com Anterior
-                        </button>
-                        
-                        <div className="flex items-center gap-2">
-                            <button 
-                                onClick={handleCancelEnhancement} 
-                                className="w-full flex items-center justify-center gap-2 py-2 px-3 bg-white text-red-600 font-semibold rounded-lg border border-slate-300 hover:bg-red-50 hover:border-red-300 transition-colors"
-                            >
-                                <XIcon className="w-5 h-5" />
-                                Descartar
-                            </button>
-                            <button 
-                                onClick={handleConfirmEnhancement} 
-                                className="w-full flex items-center justify-center gap-2 py-2 px-3 bg-green-600 text-white font-semibold rounded-lg shadow-sm hover:bg-green-700 transition-colors"
-                            >
-                                <CheckIcon className="w-5 h-5" />
-                                Confirmar
-                            </button>
-                        </div>
-                    </div>
-                  )}
-  
-  
+                  {variationChooser}
+
+
                   {!pendingEnhancement && (
                       <>
                           <div className="space-y-3 pt-4 border-t border-slate-200">
@@ -1075,6 +2510,14 @@ export default function ImageEditor({ initialImages: initialImageData, onSave, o
                                   <label htmlFor="prompt" className="font-medium text-slate-600">Edite com um comando de texto</label>
                                   <textarea id="prompt" value={prompt} onChange={(e) => setPrompt(e.target.value)} placeholder="Ex: 'Remova o fundo e substitua por uma cor cinza claro'." className="w-full mt-2 p-3 border-2 border-slate-300 rounded-lg bg-white text-slate-800 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-shadow disabled:bg-slate-100" rows={3} disabled={isAnyLoading} />
                               </div>
+                              <div className="flex items-center justify-between text-sm">
+                                  <span className="font-medium text-slate-600">Variações</span>
+                                  <div className="flex gap-1">
+                                      {VARIATION_COUNTS.map(count => (
+                                          <button key={count} onClick={() => setVariationCount(count)} disabled={isAnyLoading} className={`w-8 h-8 rounded-md text-sm font-semibold transition-colors ${variationCount === count ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-700 hover:bg-slate-200'}`}>{count}</button>
+                                      ))}
+                                  </div>
+                              </div>
                           </div>
   
                           <div className="pt-4">
@@ -1095,6 +2538,21 @@ export default function ImageEditor({ initialImages: initialImageData, onSave, o
             <div className="bg-white rounded-xl shadow-lg p-2 mb-4">
                 {cropperComponent}
             </div>
+            {activeImage && (
+                <div className="w-full max-w-sm bg-white rounded-xl shadow-lg p-4">
+                    <ExportProfilePanel
+                        profileId={activeImage.exportProfileId}
+                        settings={activeImage.exportSettings}
+                        estimate={exportEstimate}
+                        isEstimating={isEstimatingExport}
+                        onEstimate={handleEstimateExport}
+                        onSettingsChange={handleExportSettingsChange}
+                        imageCount={images.length}
+                        onChange={handleExportProfileChange}
+                        onApplyToAll={handleApplyExportProfileToAll}
+                    />
+                </div>
+            )}
             <button
                 onClick={handleSave}
                 disabled={isAnyLoading}
@@ -1111,20 +2569,28 @@ export default function ImageEditor({ initialImages: initialImageData, onSave, o
   const mobileLayout = (
     <div className="w-full h-full flex flex-col bg-slate-900 text-white font-sans">
       <header className="absolute top-0 left-0 right-0 z-20 flex justify-between items-center p-4 bg-gradient-to-b from-black/50 to-transparent">
-        <button onClick={onClose} className="p-2 rounded-full bg-black/30 backdrop-blur-sm">
+        <button onClick={handleClose} className="p-2 rounded-full bg-black/30 backdrop-blur-sm">
           <XIcon className="w-6 h-6" />
         </button>
         <div className="flex items-center gap-2">
-            <button onClick={undo} disabled={!canUndo} className="p-2 rounded-full bg-black/30 backdrop-blur-sm disabled:opacity-50">
+            <button onClick={undo} disabled={!canUndo || isAnyLoading} className="p-2 rounded-full bg-black/30 backdrop-blur-sm disabled:opacity-50">
               <UndoIcon className="w-6 h-6" />
             </button>
-            <button onClick={redo} disabled={!canRedo} className="p-2 rounded-full bg-black/30 backdrop-blur-sm disabled:opacity-50">
+            <button onClick={redo} disabled={!canRedo || isAnyLoading} className="p-2 rounded-full bg-black/30 backdrop-blur-sm disabled:opacity-50">
               <RedoIcon className="w-6 h-6" />
             </button>
+            <button onClick={() => handleToolSelect('history')} className={`p-2 rounded-full backdrop-blur-sm ${activeTool === 'history' ? 'bg-indigo-500/40' : 'bg-black/30'}`} aria-label="Histórico">
+              <ClockIcon className="w-6 h-6" />
+            </button>
+        </div>
+        <div className="flex items-center gap-2">
+          <button onClick={() => handleToolSelect('export')} disabled={!activeImage} className={`py-2 px-3 text-sm font-semibold rounded-lg backdrop-blur-sm disabled:opacity-50 ${activeTool === 'export' ? 'bg-indigo-500/40' : 'bg-black/30'}`}>
+            {activeImage ? getExportProfile(activeImage.exportProfileId).name : 'Perfil'}
+          </button>
+          <button onClick={handleSave} disabled={isAnyLoading} className="py-2 px-4 text-sm font-semibold bg-indigo-600 rounded-lg shadow-lg hover:bg-indigo-500 disabled:bg-slate-500">
+            Salvar
+          </button>
         </div>
-        <button onClick={handleSave} disabled={isAnyLoading} className="py-2 px-4 text-sm font-semibold bg-indigo-600 rounded-lg shadow-lg hover:bg-indigo-500 disabled:bg-slate-500">
-          Salvar
-        </button>
       </header>
       
       <main className="flex-1 flex items-center justify-center p-4 pt-20 pb-40 overflow-hidden">
@@ -1143,6 +2609,9 @@ export default function ImageEditor({ initialImages: initialImageData, onSave, o
       </main>
 
       <footer className="absolute bottom-0 left-0 right-0 z-20 flex flex-col">
+        {showThumbnails && editClipboardPanel && activeTool === null && (
+            <div className="mx-2">{editClipboardPanel}</div>
+        )}
         {showThumbnails && images.length > 0 && (
              <div className="w-full overflow-x-auto p-2">
                 <div className="flex items-center gap-2 w-max mx-auto">
@@ -1152,8 +2621,18 @@ export default function ImageEditor({ initialImages: initialImageData, onSave, o
                                 onClick={() => setSelectedImageId(image.id)}
                                 className={`w-14 h-14 rounded-md overflow-hidden border-2 transition-all ${selectedImageId === image.id ? 'border-indigo-400 scale-105' : 'border-transparent'}`}
                             >
-                                <img src={image.generatedBase64 || image.base64} alt="Thumbnail" className="w-full h-full object-cover"/>
+                                <img src={getTopImageLayer(image.layers)?.src ?? image.originalSrc} alt="Thumbnail" className="w-full h-full object-cover"/>
                             </button>
+                            {selectedImageId === image.id && (
+                                <button
+                                    onClick={() => handleCopyEdits(image.id)}
+                                    disabled={isEditClipboardDisabled}
+                                    className={`absolute -top-1 -right-1 p-1 rounded-full shadow disabled:opacity-50 ${copiedEdits?.sourceId === image.id ? 'bg-indigo-600 text-white' : 'bg-slate-700 text-slate-200'}`}
+                                    aria-label="Copiar edições"
+                                >
+                                    <CopyIcon className="w-3 h-3" />
+                                </button>
+                            )}
                         </div>
                     ))}
                     <button onClick={() => fileInputRef.current?.click()} className="w-14 h-14 flex items-center justify-center bg-slate-800/50 rounded-md">
@@ -1164,9 +2643,16 @@ export default function ImageEditor({ initialImages: initialImageData, onSave, o
             </div>
         )}
 
+        {/* The variations replace the toolbar and panels until one is kept or all are discarded. */}
+        {variationChooser && (
+            <div className="bg-white text-slate-800 rounded-t-2xl p-4 max-h-[70vh] overflow-y-auto">
+                {variationChooser}
+            </div>
+        )}
+
         {/* Main Toolbar */}
-        {activeTool === null && images.length > 0 && (
-            <div className="bg-slate-900/80 backdrop-blur-sm flex justify-around items-center p-2">
+        {activeTool === null && images.length > 0 && !pendingEnhancement && (
+            <div className="bg-slate-900/80 backdrop-blur-sm flex justify-start sm:justify-around items-center p-2 overflow-x-auto [&>button]:shrink-0">
               <button onClick={() => setShowThumbnails(!showThumbnails)} className={`flex flex-col items-center gap-1 w-16 p-2 rounded-lg transition-colors ${showThumbnails ? 'text-indigo-400' : 'text-slate-300'}`}>
                   <GridIcon className="w-6 h-6" />
                   <span className="text-xs font-medium">Galeria</span>
@@ -1183,19 +2669,36 @@ export default function ImageEditor({ initialImages: initialImageData, onSave, o
                   <BrushIcon className="w-6 h-6" />
                   <span className="text-xs font-medium">Pincel</span>
               </button>
+              <button onClick={() => handleToolSelect('background')} className={`flex flex-col items-center gap-1 w-16 p-2 rounded-lg transition-colors ${activeTool === 'background' ? 'text-indigo-400' : 'text-slate-300'}`}>
+                  <ScissorsIcon className="w-6 h-6" />
+                  <span className="text-xs font-medium">Recortar</span>
+              </button>
               <button onClick={() => handleToolSelect('text')} className={`flex flex-col items-center gap-1 w-16 p-2 rounded-lg transition-colors ${activeTool === 'text' ? 'text-indigo-400' : 'text-slate-300'}`}>
                   <EditIcon className="w-6 h-6" />
                   <span className="text-xs font-medium">Texto</span>
               </button>
+              <button onClick={() => handleToolSelect('layers')} className={`flex flex-col items-center gap-1 w-16 p-2 rounded-lg transition-colors ${activeTool === 'layers' ? 'text-indigo-400' : 'text-slate-300'}`}>
+                  <LayersIcon className="w-6 h-6" />
+                  <span className="text-xs font-medium">Camadas</span>
+              </button>
               <button onClick={() => handleToolSelect('enhance')} className={`flex flex-col items-center gap-1 w-16 p-2 rounded-lg transition-colors ${activeTool === 'enhance' ? 'text-indigo-400' : 'text-slate-300'}`}>
                   <SparklesIcon className="w-6 h-6" />
                   <span className="text-xs font-medium">Aprimorar</span>
               </button>
+              <button onClick={() => handleToolSelect('batch')} className={`flex flex-col items-center gap-1 w-16 p-2 rounded-lg transition-colors ${activeTool === 'batch' ? 'text-indigo-400' : 'text-slate-300'}`}>
+                  <CollectionIcon className="w-6 h-6" />
+                  <span className="text-xs font-medium">Lote</span>
+              </button>
+              <button onClick={() => handleToolSelect('recipes')} className={`relative flex flex-col items-center gap-1 w-16 p-2 rounded-lg transition-colors ${activeTool === 'recipes' ? 'text-indigo-400' : 'text-slate-300'}`}>
+                  {recordingSteps && <span className="absolute top-1 right-3 w-2 h-2 rounded-full bg-red-500 animate-pulse" aria-label="Gravando receita" />}
+                  <RecipeIcon className="w-6 h-6" />
+                  <span className="text-xs font-medium">Receitas</span>
+              </button>
             </div>
         )}
 
         {/* Tool-specific Panels */}
-        <div className={`bg-white text-slate-800 rounded-t-2xl transition-transform duration-300 ${activeTool ? 'translate-y-0' : 'translate-y-full'}`}>
+        <div className={`bg-white text-slate-800 rounded-t-2xl transition-transform duration-300 ${pendingEnhancement ? 'hidden' : activeTool ? 'translate-y-0' : 'translate-y-full'}`}>
           <button
             onClick={() => setIsMobilePanelCollapsed(!isMobilePanelCollapsed)}
             className="w-full flex justify-center pt-4 pb-2"
@@ -1207,6 +2710,7 @@ export default function ImageEditor({ initialImages: initialImageData, onSave, o
             <div className="px-4 pb-4">
               {activeTool === 'crop' && (
                 <div className="space-y-4">
+                  {cropModeToggle}
                   <div className="grid grid-cols-5 gap-2">
                     {ASPECT_RATIOS.map(aspect => (
                       <button key={aspect.name} onClick={() => handleAspectRatioChange(aspect)} className={`flex flex-col items-center justify-center p-2 rounded-lg transition-all ${activeAspectRatio.name === aspect.name ? 'bg-indigo-100 text-indigo-600' : 'bg-slate-100'}`}>
@@ -1214,6 +2718,8 @@ export default function ImageEditor({ initialImages: initialImageData, onSave, o
                       </button>
                     ))}
                   </div>
+                  {profileAspectMismatch && <p className="text-xs text-amber-700">{profileAspectMismatch}</p>}
+                  {cropMode === 'extend' ? extendCanvasPanel : autoFramePanel}
                   <div className="flex items-center gap-2">
                     <button onClick={handleCancelCrop} className="flex-1 py-3 rounded-lg bg-slate-200 text-slate-800 font-semibold text-sm">Cancelar</button>
                     <button onClick={handleConfirmCrop} className="flex-1 py-3 rounded-lg bg-indigo-600 text-white font-semibold text-sm">Confirmar</button>
@@ -1223,27 +2729,8 @@ export default function ImageEditor({ initialImages: initialImageData, onSave, o
 
               {activeTool === 'adjust' && activeImage && tempAdjustments && (
                  <div className="space-y-4">
-                    <div className="space-y-4">
-                        {adjustmentControls.map(control => (
-                            <div key={control.id}>
-                                <div className="flex justify-between items-center mb-1">
-                                    <div className="flex items-center gap-2">
-                                        {React.cloneElement(control.icon, { className: 'w-5 h-5 text-slate-500' })}
-                                        <label className="text-sm font-medium text-slate-700">{control.name}</label>
-                                    </div>
-                                    <span className="text-sm font-mono text-slate-500">{tempAdjustments[control.id]}{control.unit}</span>
-                                </div>
-                                <input
-                                    type="range"
-                                    min={control.min}
-                                    max={control.max}
-                                    value={tempAdjustments[control.id]}
-                                    onChange={e => handleAdjustmentChange(control.id, Number(e.target.value))}
-                                    className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:bg-indigo-600 [&::-moz-range-thumb]:bg-indigo-600"
-                                />
-                            </div>
-                        ))}
-                    </div>
+                    {histogramPanel}
+                    <AdjustmentsPanel adjustments={tempAdjustments} imageCount={images.length} isAutoAdjusting={isAutoAdjusting} copiedCurves={copiedCurves} onChange={handleAdjustmentsChange} onAuto={handleAutoAdjust} onCopyCurves={handleCopyCurves} onPasteCurves={handlePasteCurves} />
                     <div className="flex items-center gap-2 pt-2">
                         <button onClick={handleCancelAdjustments} className="flex-1 py-3 rounded-lg bg-slate-200 text-slate-800 font-semibold text-sm">Cancelar</button>
                         <button onClick={handleConfirmAdjustments} className="flex-1 py-3 rounded-lg bg-indigo-600 text-white font-semibold text-sm">Confirmar</button>
@@ -1251,16 +2738,54 @@ export default function ImageEditor({ initialImages: initialImageData, onSave, o
                 </div>
               )}
 
-              {(activeTool === 'brush' || activeTool === 'text') && (
+              {activeTool === 'text' && activeImage && (
                 <div className="space-y-4">
-                    <h3 className="text-lg font-semibold text-center text-slate-800">
-                        {activeTool === 'brush' ? 'Edição com Pincel' : 'Edição por Texto'}
-                    </h3>
+                    <h3 className="text-lg font-semibold text-center text-slate-800">Texto na Imagem</h3>
+                    <TextToolPanel
+                        layers={activeImage.layers.filter((l): l is TextLayer => l.kind === 'text')}
+                        selectedId={selectedLayerId}
+                        onSelect={setSelectedLayerId}
+                        onAdd={handleAddText}
+                        onChange={handleLayerChange}
+                        onDuplicate={handleDuplicateText}
+                        onDelete={handleDeleteLayer}
+                        onConfirm={handleConfirmLayers}
+                        onCancel={handleCancelLayers}
+                    />
+                </div>
+              )}
+
+              {activeTool === 'layers' && activeImage && (
+                <div className="space-y-4">
+                    <h3 className="text-lg font-semibold text-center text-slate-800">Camadas</h3>
+                    <LayersPanel
+                        layers={activeImage.layers}
+                        selectedId={selectedLayerId}
+                        onSelect={setSelectedLayerId}
+                        onChange={handleLayerChange}
+                        onMove={handleMoveLayer}
+                        onDelete={handleDeleteLayer}
+                        onAddShape={handleAddShape}
+                        onAddSticker={handleAddSticker}
+                        onConfirm={handleConfirmLayers}
+                        onCancel={handleCancelLayers}
+                    />
+                </div>
+              )}
+
+              {activeTool === 'background' && activeImage && (
+                <div className="space-y-4">
+                    <h3 className="text-lg font-semibold text-center text-slate-800">Recortar Fundo</h3>
+                    {backgroundRemovalPanel}
+                </div>
+              )}
+
+              {activeTool === 'brush' && (
+                <div className="space-y-4">
+                    <h3 className="text-lg font-semibold text-center text-slate-800">Edição com Pincel</h3>
                     
                     <p className="text-sm text-center text-slate-500 -mt-2">
-                        {activeTool === 'brush' 
-                            ? 'Pinte a área que deseja editar e descreva a alteração.' 
-                            : 'Descreva a alteração que você deseja aplicar na imagem.'}
+                        Selecione a área que deseja editar e descreva a alteração.
                     </p>
 
                     <textarea 
@@ -1271,25 +2796,7 @@ export default function ImageEditor({ initialImages: initialImageData, onSave, o
                         rows={3}
                     />
                     
-                    {activeTool === 'brush' && (
-                        <div className="bg-slate-50 p-3 rounded-lg space-y-4">
-                            <div>
-                                <label htmlFor="brush-size-mobile" className="text-sm font-medium text-slate-600">Tamanho do Pincel</label>
-                                <input id="brush-size-mobile" type="range" min="5" max="100" value={brushSize} onChange={e => setBrushSize(Number(e.target.value))} className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:bg-indigo-600 [&::-moz-range-thumb]:bg-indigo-600 mt-1" />
-                            </div>
-                            <div className="flex items-center gap-2">
-                                <button onClick={() => setIsErasing(false)} className={`flex-1 py-2 px-3 text-sm rounded-md flex items-center justify-center gap-2 transition-colors ${!isErasing ? 'bg-indigo-500 text-white' : 'bg-white hover:bg-slate-200 text-slate-700 border border-slate-300'}`}>
-                                    <BrushIcon className="w-5 h-5"/> Pincel
-                                </button>
-                                <button onClick={() => setIsErasing(true)} className={`flex-1 py-2 px-3 text-sm rounded-md flex items-center justify-center gap-2 transition-colors ${isErasing ? 'bg-indigo-500 text-white' : 'bg-white hover:bg-slate-200 text-slate-700 border border-slate-300'}`}>
-                                    <EraserIcon className="w-5 h-5"/> Borracha
-                                </button>
-                                <button onClick={handleClearMask} className="p-2 bg-white hover:bg-slate-200 text-slate-600 rounded-md border border-slate-300" aria-label="Limpar máscara">
-                                    <TrashIcon className="w-5 h-5" />
-                                </button>
-                            </div>
-                        </div>
-                    )}
+                    {maskToolsPanel}
 
                     <div className="flex items-center gap-2 pt-2">
                         <button onClick={() => { setActiveTool(null); setPrompt('')}} className="flex-1 py-3 rounded-lg bg-slate-200 text-slate-800 font-semibold text-sm">Cancelar</button>
@@ -1298,6 +2805,67 @@ export default function ImageEditor({ initialImages: initialImageData, onSave, o
                 </div>
               )}
 
+              {activeTool === 'export' && activeImage && (
+                <div className="space-y-4">
+                    <h3 className="text-lg font-semibold text-center text-slate-800">Exportação</h3>
+                    <ExportProfilePanel
+                        profileId={activeImage.exportProfileId}
+                        settings={activeImage.exportSettings}
+                        estimate={exportEstimate}
+                        isEstimating={isEstimatingExport}
+                        onEstimate={handleEstimateExport}
+                        onSettingsChange={handleExportSettingsChange}
+                        imageCount={images.length}
+                        onChange={handleExportProfileChange}
+                        onApplyToAll={handleApplyExportProfileToAll}
+                    />
+                    <button onClick={() => setActiveTool(null)} className="w-full py-3 rounded-lg bg-slate-200 text-slate-800 font-semibold text-sm">
+                        Fechar
+                    </button>
+                </div>
+              )}
+
+              {activeTool === 'history' && (
+                <div className="space-y-4">
+                    <h3 className="text-lg font-semibold text-center text-slate-800">Histórico</h3>
+                    <HistoryPanel entries={historyEntries} currentIndex={historyIndex.current} onJump={jumpToHistory} disabled={isAnyLoading} />
+                    <button onClick={() => setActiveTool(null)} className="w-full py-3 rounded-lg bg-slate-200 text-slate-800 font-semibold text-sm">
+                        Fechar
+                    </button>
+                </div>
+              )}
+
+              {activeTool === 'batch' && (
+                <div className="space-y-4">
+                    <h3 className="text-lg font-semibold text-center text-slate-800">Edição em Lote</h3>
+                    <BatchPanel
+                        images={images.map(img => ({ id: img.id, src: getTopImageLayer(img.layers)?.src ?? img.originalSrc }))}
+                        presets={presets}
+                        batch={batch}
+                        onStart={handleStartBatch}
+                        onPause={handlePauseBatch}
+                        onResume={handleResumeBatch}
+                        onCancel={handleCancelBatch}
+                        onRetryFailed={handleRetryFailedBatch}
+                        onToggleAccept={handleToggleBatchItem}
+                        onApply={handleApplyBatch}
+                        onDiscard={handleDiscardBatch}
+                    />
+                </div>
+              )}
+
+              {activeTool === 'recipes' && (
+                <div className="space-y-4">
+                    <h3 className="text-lg font-semibold text-center text-slate-800">Receitas</h3>
+                    {recipePanel}
+                    {!recipeRun && (
+                        <button onClick={() => setActiveTool(null)} className="w-full py-3 rounded-lg bg-slate-200 text-slate-800 font-semibold text-sm">
+                            Fechar
+                        </button>
+                    )}
+                </div>
+              )}
+
               {activeTool === 'enhance' && (
                  <div className="space-y-4">
                     <h3 className="text-lg font-semibold text-center text-slate-800">Aprimoramento Rápido</h3>
@@ -1305,23 +2873,40 @@ export default function ImageEditor({ initialImages: initialImageData, onSave, o
                         Aplique edições pré-definidas com um toque.
                     </p>
 
+                    <div className="flex items-center justify-between text-sm">
+                        <span className="font-medium text-slate-600">Variações</span>
+                        <div className="flex gap-1">
+                            {VARIATION_COUNTS.map(count => (
+                                <button key={count} onClick={() => setVariationCount(count)} disabled={isAnyLoading} className={`w-8 h-8 rounded-md text-sm font-semibold transition-colors ${variationCount === count ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-700 hover:bg-slate-200'}`}>{count}</button>
+                            ))}
+                        </div>
+                    </div>
+
+                    {isManagingPresets ? presetLibraryPanel : (
                     <div className="space-y-2">
-                        {ENHANCEMENT_PRESETS.map(preset => (
-                            <button 
-                                key={preset.name} 
-                                onClick={() => handleEnhanceImage(preset.prompt)} 
-                                disabled={isEnhancing} 
-                                className="flex items-center gap-3 p-3 w-full text-left bg-slate-50 hover:bg-indigo-50 border border-slate-200 hover:border-indigo-200 rounded-lg transition-colors disabled:opacity-60 disabled:cursor-not-allowed"
-                            >
-                                <div className="text-indigo-500 bg-indigo-100 p-2 rounded-md">
-                                    {preset.icon}
-                                </div>
-                                <div>
-                                    <h4 className="font-semibold text-slate-800 text-sm">{preset.name}</h4>
-                                </div>
-                            </button>
-                        ))}
+                        {presets.map(preset => {
+                            const PresetIcon = PRESET_ICONS[preset.icon];
+                            return (
+                                <button 
+                                    key={preset.id} 
+                                    onClick={() => handleEnhanceImage(preset)} 
+                                    disabled={isEnhancing} 
+                                    className="flex items-center gap-3 p-3 w-full text-left bg-slate-50 hover:bg-indigo-50 border border-slate-200 hover:border-indigo-200 rounded-lg transition-colors disabled:opacity-60 disabled:cursor-not-allowed"
+                                >
+                                    <div className="text-indigo-500 bg-indigo-100 p-2 rounded-md">
+                                        <PresetIcon className="w-6 h-6" />
+                                    </div>
+                                    <div>
+                                        <h4 className="font-semibold text-slate-800 text-sm">{preset.name}</h4>
+                                    </div>
+                                </button>
+                            );
+                        })}
+                        <button onClick={() => setIsManagingPresets(true)} className="w-full text-xs font-semibold text-indigo-600 hover:text-indigo-800 pt-1">
+                            Gerenciar predefinições
+                        </button>
                     </div>
+                    )}
                     <div className="pt-2">
                         <button
                             onClick={() => setActiveTool(null)}
@@ -1339,5 +2924,12 @@ export default function ImageEditor({ initialImages: initialImageData, onSave, o
     </div>
   );
 
-  return isDesktop ? desktopLayout : mobileLayout;
+  return (
+    <>
+      {isDesktop ? desktopLayout : mobileLayout}
+      {exportReview && (
+        <ExportReviewDialog items={exportReview.items} onConfirm={handleConfirmExportReview} onCancel={closeExportReview} />
+      )}
+    </>
+  );
 }
@@ -0,0 +1,163 @@
+import React, { useState } from 'react';
+import { DEFAULT_ADJUSTMENTS, getChannelCurve, isDefaultAdjustments, setChannelCurve, type CurveSettings, type ImageAdjustments, type ToneChannel } from '../utils/adjustments';
+import { type AutoAdjustment } from '../utils/autoAdjust';
+import CurvesEditor from './CurvesEditor';
+import { ColorWheelIcon, ContrastIcon, CopyIcon, DropletIcon, SunIcon } from './Icons';
+import LevelsDialog, { TONE_CHANNELS } from './LevelsDialog';
+
+export type AdjustmentScope = 'current' | 'all';
+
+type NumericAdjustment = Exclude<keyof ImageAdjustments, 'levels' | 'curve'>;
+
+interface SliderField<Key extends string> {
+  id: Key;
+  name: string;
+  min: number;
+  max: number;
+  step?: number;
+  unit: string;
+  icon?: React.FC<{ className?: string }>;
+}
+
+const ADJUSTMENT_GROUPS: { name: string; fields: SliderField<NumericAdjustment>[] }[] = [
+  {
+    name: 'Luz',
+    fields: [
+      { id: 'exposure', name: 'Exposição', min: -3, max: 3, step: 0.1, unit: ' EV', icon: SunIcon },
+      { id: 'brightness', name: 'Brilho', min: 0, max: 200, unit: '%' },
+      { id: 'contrast', name: 'Contraste', min: 0, max: 200, unit: '%', icon: ContrastIcon },
+      { id: 'highlights', name: 'Realces', min: -100, max: 100, unit: '' },
+      { id: 'shadows', name: 'Sombras', min: -100, max: 100, unit: '' },
+    ],
+  },
+  {
+    name: 'Cor',
+    fields: [
+      { id: 'temperature', name: 'Temperatura', min: -100, max: 100, unit: '' },
+      { id: 'tint', name: 'Matiz', min: -100, max: 100, unit: '' },
+      { id: 'saturate', name: 'Saturação', min: 0, max: 200, unit: '%', icon: DropletIcon },
+      { id: 'hue', name: 'Tonalidade', min: -180, max: 180, unit: '°', icon: ColorWheelIcon },
+    ],
+  },
+  {
+    name: 'Detalhes',
+    fields: [
+      { id: 'sharpen', name: 'Nitidez', min: 0, max: 100, unit: '' },
+      { id: 'vignette', name: 'Vinheta', min: -100, max: 100, unit: '' },
+    ],
+  },
+];
+
+interface AdjustmentsPanelProps {
+  adjustments: ImageAdjustments;
+  imageCount: number;
+  isAutoAdjusting: boolean;
+  onChange: (changes: Partial<ImageAdjustments>) => void;
+  // Curves copied from an image, ready to paste on others.
+  copiedCurves: CurveSettings | null;
+  onAuto: (kinds: AutoAdjustment[], scope: AdjustmentScope) => void;
+  onCopyCurves: () => void;
+  onPasteCurves: (scope: AdjustmentScope) => void;
+}
+
+const autoButtonClass = 'py-2 px-3 text-sm font-semibold rounded-lg bg-white hover:bg-slate-200 text-slate-700 border border-slate-300 disabled:opacity-50';
+
+interface SliderProps {
+  id: string;
+  field: SliderField<string>;
+  value: number;
+  onChange: (value: number) => void;
+  onReset: () => void;
+}
+
+const AdjustmentSlider: React.FC<SliderProps> = ({ id, field, value, onChange, onReset }) => {
+  const Icon = field.icon;
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between items-center text-sm">
+        <label htmlFor={id} className="flex items-center gap-2 font-medium text-slate-600">
+          {Icon && <Icon className="w-4 h-4 text-slate-500" />}
+          {field.name}
+        </label>
+        <span className="text-slate-500 font-mono text-xs text-right">{value}{field.unit}</span>
+      </div>
+      <div className="flex items-center gap-2">
+        <input id={id} type="range" min={field.min} max={field.max} step={field.step ?? 1} value={value} onChange={e => onChange(Number(e.target.value))} className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer" />
+        <button onClick={onReset} className="text-xs text-slate-500 hover:text-indigo-600">Reset</button>
+      </div>
+    </div>
+  );
+};
+
+export default function AdjustmentsPanel({ adjustments, imageCount, isAutoAdjusting, copiedCurves, onChange, onAuto, onCopyCurves, onPasteCurves }: AdjustmentsPanelProps) {
+  const [curveChannel, setCurveChannel] = useState<ToneChannel>('rgb');
+  const [isLevelsOpen, setIsLevelsOpen] = useState(false);
+  const hasLevels = !isDefaultAdjustments({ ...DEFAULT_ADJUSTMENTS, levels: adjustments.levels, channelLevels: adjustments.channelLevels });
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-slate-50 p-3 rounded-lg space-y-2">
+        <p className="font-medium text-slate-600">Correção Automática</p>
+        <div className="grid grid-cols-2 gap-2">
+          <button onClick={() => onAuto(['whiteBalance'], 'current')} disabled={isAutoAdjusting} className={autoButtonClass}>Balanço de Branco</button>
+          <button onClick={() => onAuto(['levels'], 'current')} disabled={isAutoAdjusting} className={autoButtonClass}>Níveis</button>
+        </div>
+        <button onClick={() => onAuto(['whiteBalance', 'levels'], 'all')} disabled={isAutoAdjusting || imageCount < 2} className={`w-full ${autoButtonClass}`}>
+          {isAutoAdjusting ? 'Analisando...' : `Corrigir Todas (${imageCount})`}
+        </button>
+      </div>
+
+      {ADJUSTMENT_GROUPS.map(group => (
+        <div key={group.name} className="space-y-2">
+          <p className="text-xs font-semibold uppercase tracking-wide text-slate-400">{group.name}</p>
+          {group.fields.map(field => (
+            <AdjustmentSlider
+              key={field.id}
+              id={`adjust-${field.id}`}
+              field={field}
+              value={adjustments[field.id]}
+              onChange={value => onChange({ [field.id]: value })}
+              onReset={() => onChange({ [field.id]: DEFAULT_ADJUSTMENTS[field.id] })}
+            />
+          ))}
+        </div>
+      ))}
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <p className="text-xs font-semibold uppercase tracking-wide text-slate-400">Curvas</p>
+          <div className="flex gap-1">
+            {TONE_CHANNELS.map(option => (
+              <button
+                key={option.id}
+                onClick={() => setCurveChannel(option.id)}
+                className={`w-8 py-0.5 text-xs font-semibold rounded ${curveChannel === option.id ? 'bg-slate-700 text-white' : 'text-slate-500 hover:bg-slate-200'}`}
+                style={curveChannel === option.id ? { backgroundColor: option.color } : undefined}
+                aria-label={option.name}
+              >
+                {option.id === 'rgb' ? 'RGB' : option.name[0]}
+              </button>
+            ))}
+          </div>
+        </div>
+        <CurvesEditor
+          curve={getChannelCurve(adjustments, curveChannel)}
+          color={TONE_CHANNELS.find(option => option.id === curveChannel)!.color}
+          onChange={curve => onChange(setChannelCurve(adjustments, curveChannel, curve))}
+        />
+        <div className="grid grid-cols-3 gap-2">
+          <button onClick={onCopyCurves} className={`flex items-center justify-center gap-1 ${autoButtonClass}`}>
+            <CopyIcon className="w-4 h-4" /> Copiar
+          </button>
+          <button onClick={() => onPasteCurves('current')} disabled={!copiedCurves} className={autoButtonClass}>Colar</button>
+          <button onClick={() => onPasteCurves('all')} disabled={!copiedCurves || imageCount < 2} className={autoButtonClass}>Em Todas</button>
+        </div>
+      </div>
+
+      <button onClick={() => setIsLevelsOpen(true)} className={`w-full ${autoButtonClass}`}>
+        Níveis{hasLevels ? ' (ajustados)' : ''}...
+      </button>
+      {isLevelsOpen && <LevelsDialog adjustments={adjustments} onChange={onChange} onClose={() => setIsLevelsOpen(false)} />}
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+import React from 'react';
+import { type FramingOptions } from '../utils/framing';
+
+export type AutoFrameScope = 'current' | 'all';
+
+type FramingSettings = Omit<FramingOptions, 'aspectRatio'>;
+
+interface AutoFramePanelProps {
+  settings: FramingSettings;
+  aspectName: string;
+  imageCount: number;
+  isProcessing: boolean;
+  onChange: (settings: FramingSettings) => void;
+  onApply: (scope: AutoFrameScope) => void;
+}
+
+export default function AutoFramePanel({ settings, aspectName, imageCount, isProcessing, onChange, onApply }: AutoFramePanelProps) {
+  return (
+    <div className="bg-slate-50 p-3 rounded-lg space-y-3">
+      <div>
+        <p className="font-medium text-slate-600">Auto Enquadrar</p>
+        <p className="text-xs text-slate-500">
+          Centraliza o produto na proporção {aspectName}, completando com a cor do fundo quando faltar espaço.
+        </p>
+      </div>
+      <div>
+        <label htmlFor="frame-fill" className="flex justify-between text-sm font-medium text-slate-500"><span>Ocupação do Produto</span><span className="font-mono">{settings.fill}%</span></label>
+        <input id="frame-fill" type="range" min="30" max="100" value={settings.fill} onChange={e => onChange({ ...settings, fill: Number(e.target.value) })} className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer" />
+      </div>
+      <div>
+        <label htmlFor="frame-margin" className="flex justify-between text-sm font-medium text-slate-500"><span>Margem Mínima</span><span className="font-mono">{settings.margin}%</span></label>
+        <input id="frame-margin" type="range" min="0" max="25" value={settings.margin} onChange={e => onChange({ ...settings, margin: Number(e.target.value) })} className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer" />
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <button onClick={() => onApply('current')} disabled={isProcessing} className="py-2 px-3 text-sm font-semibold rounded-lg bg-white hover:bg-slate-200 text-slate-700 border border-slate-300 disabled:opacity-50">
+          {isProcessing ? 'Enquadrando...' : 'Nesta Imagem'}
+        </button>
+        <button onClick={() => onApply('all')} disabled={isProcessing || imageCount < 2} className="py-2 px-3 text-sm font-semibold rounded-lg bg-white hover:bg-slate-200 text-slate-700 border border-slate-300 disabled:opacity-50">
+          Em Todas ({imageCount})
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+import React from 'react';
+import { type BackgroundRemovalOptions } from '../utils/backgroundRemoval';
+
+export type CutoutBackground = 'transparent' | 'white';
+
+interface BackgroundRemovalPanelProps {
+  options: BackgroundRemovalOptions;
+  refineRadius: number;
+  hasMask: boolean;
+  isProcessing: boolean;
+  onOptionsChange: (options: BackgroundRemovalOptions) => void;
+  onRefineRadiusChange: (radius: number) => void;
+  onDetect: () => void;
+  onRefineEdges: () => void;
+  onApply: (background: CutoutBackground) => void;
+  onCancel: () => void;
+  // Selection tools for touching up the detected product by hand.
+  children?: React.ReactNode;
+}
+
+export default function BackgroundRemovalPanel({
+  options,
+  refineRadius,
+  hasMask,
+  isProcessing,
+  onOptionsChange,
+  onRefineRadiusChange,
+  onDetect,
+  onRefineEdges,
+  onApply,
+  onCancel,
+  children,
+}: BackgroundRemovalPanelProps) {
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-slate-500">
+        O fundo é detectado no seu navegador, sem usar a IA. A área destacada é o produto que será mantido; ajuste-a com as ferramentas de seleção.
+      </p>
+
+      <div className="bg-slate-50 p-3 rounded-lg space-y-3">
+        <div>
+          <label htmlFor="cutout-tolerance" className="flex justify-between text-sm font-medium text-slate-500"><span>Tolerância de Cor</span><span className="font-mono">{options.tolerance}</span></label>
+          <input id="cutout-tolerance" type="range" min="2" max="100" value={options.tolerance} onChange={e => onOptionsChange({ ...options, tolerance: Number(e.target.value) })} className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer" />
+        </div>
+        <div>
+          <label htmlFor="cutout-edges" className="flex justify-between text-sm font-medium text-slate-500"><span>Sensibilidade de Bordas</span><span className="font-mono">{options.edgeThreshold}</span></label>
+          <input id="cutout-edges" type="range" min="5" max="120" value={options.edgeThreshold} onChange={e => onOptionsChange({ ...options, edgeThreshold: Number(e.target.value) })} className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer" />
+        </div>
+        <button onClick={onDetect} disabled={isProcessing} className="w-full py-2 px-3 text-sm font-semibold rounded-md bg-indigo-600 text-white hover:bg-indigo-700 disabled:bg-slate-400">
+          {isProcessing ? 'Processando...' : hasMask ? 'Detectar Novamente' : 'Detectar Produto'}
+        </button>
+      </div>
+
+      {hasMask && (
+        <>
+          {children}
+          <div className="bg-slate-50 p-3 rounded-lg space-y-2">
+            <label htmlFor="cutout-refine" className="flex justify-between text-sm font-medium text-slate-500"><span>Largura do Refinamento</span><span className="font-mono">{refineRadius}px</span></label>
+            <input id="cutout-refine" type="range" min="1" max="30" value={refineRadius} onChange={e => onRefineRadiusChange(Number(e.target.value))} className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer" />
+            <button onClick={onRefineEdges} disabled={isProcessing} className="w-full py-2 px-3 text-sm font-semibold rounded-md bg-white hover:bg-slate-200 text-slate-700 border border-slate-300 disabled:opacity-50">
+              Refinar Bordas
+            </button>
+          </div>
+        </>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        <button onClick={() => onApply('transparent')} disabled={!hasMask || isProcessing} className="py-2 px-3 text-sm font-semibold rounded-lg bg-indigo-600 text-white hover:bg-indigo-700 disabled:bg-slate-400">
+          Fundo Transparente
+        </button>
+        <button onClick={() => onApply('white')} disabled={!hasMask || isProcessing} className="py-2 px-3 text-sm font-semibold rounded-lg bg-indigo-600 text-white hover:bg-indigo-700 disabled:bg-slate-400">
+          Fundo Branco
+        </button>
+      </div>
+      <button onClick={onCancel} disabled={isProcessing} className="w-full py-2 px-3 text-sm font-semibold rounded-lg bg-slate-200 text-slate-800 hover:bg-slate-300 disabled:opacity-50">
+        Cancelar
+      </button>
+    </div>
+  );
+}
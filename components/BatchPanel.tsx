@@ -0,0 +1,191 @@
+import React, { useState } from 'react';
+import { type TaskStatus } from '../utils/taskQueue';
+import { CheckIcon, XIcon } from './Icons';
+
+export interface BatchItem {
+  status: TaskStatus;
+  resultBase64?: string;
+  error?: string;
+  accepted: boolean;
+}
+
+export interface BatchState {
+  label: string;
+  prompt: string;
+  // The library preset being run; null for a custom prompt.
+  presetId: string | null;
+  concurrency: number;
+  // Keyed by image id, in gallery order.
+  items: Record<string, BatchItem>;
+  isRunning: boolean;
+  isPaused: boolean;
+}
+
+export interface BatchConfig {
+  label: string;
+  prompt: string;
+  presetId: string | null;
+  imageIds: string[];
+  concurrency: number;
+}
+
+interface BatchPanelProps {
+  images: { id: string; src: string }[];
+  presets: { id: string; name: string; prompt: string }[];
+  batch: BatchState | null;
+  onStart: (config: BatchConfig) => void;
+  onPause: () => void;
+  onResume: () => void;
+  onCancel: () => void;
+  onRetryFailed: () => void;
+  onToggleAccept: (imageId: string) => void;
+  onApply: () => void;
+  onDiscard: () => void;
+}
+
+const STATUS_LABELS: Record<TaskStatus, { label: string; className: string }> = {
+  queued: { label: 'Na fila', className: 'bg-slate-100 text-slate-600' },
+  running: { label: 'Processando', className: 'bg-indigo-100 text-indigo-700' },
+  done: { label: 'Concluído', className: 'bg-green-100 text-green-700' },
+  error: { label: 'Falhou', className: 'bg-red-100 text-red-700' },
+  cancelled: { label: 'Cancelado', className: 'bg-slate-200 text-slate-500' },
+};
+
+const CUSTOM_PROMPT = -1;
+
+export default function BatchPanel({ images, presets, batch, onStart, onPause, onResume, onCancel, onRetryFailed, onToggleAccept, onApply, onDiscard }: BatchPanelProps) {
+  const [presetIndex, setPresetIndex] = useState(0);
+  const [customPrompt, setCustomPrompt] = useState('');
+  const [selectedIds, setSelectedIds] = useState<string[]>(() => images.map(img => img.id));
+  const [concurrency, setConcurrency] = useState(2);
+
+  if (!batch) {
+    const isCustom = presetIndex === CUSTOM_PROMPT;
+    const prompt = isCustom ? customPrompt.trim() : presets[presetIndex]?.prompt;
+    const canStart = !!prompt && selectedIds.length > 0;
+    const toggleImage = (id: string) =>
+      setSelectedIds(prev => prev.includes(id) ? prev.filter(i => i !== id) : [...prev, id]);
+
+    return (
+      <div className="space-y-4">
+        <label className="block text-sm font-medium text-slate-600 space-y-1">
+          <span>Ação</span>
+          <select value={presetIndex} onChange={e => setPresetIndex(Number(e.target.value))} className="w-full p-2 border border-slate-300 rounded-md bg-white text-slate-800 text-sm">
+            {presets.map((preset, index) => <option key={preset.id} value={index}>{preset.name}</option>)}
+            <option value={CUSTOM_PROMPT}>Comando personalizado</option>
+          </select>
+        </label>
+        {isCustom && (
+          <textarea value={customPrompt} onChange={e => setCustomPrompt(e.target.value)} placeholder="Ex: 'Coloque o produto sobre uma mesa de madeira clara'." className="w-full p-2 border border-slate-300 rounded-md bg-white text-slate-800 text-sm" rows={2} />
+        )}
+
+        <div className="space-y-2">
+          <div className="flex justify-between items-center text-sm">
+            <span className="font-medium text-slate-600">Imagens ({selectedIds.length}/{images.length})</span>
+            <div className="flex gap-2 text-xs">
+              <button onClick={() => setSelectedIds(images.map(img => img.id))} className="text-indigo-600 hover:underline">Todas</button>
+              <button onClick={() => setSelectedIds([])} className="text-slate-500 hover:underline">Nenhuma</button>
+            </div>
+          </div>
+          <div className="grid grid-cols-5 gap-2">
+            {images.map(image => {
+              const isSelected = selectedIds.includes(image.id);
+              return (
+                <button key={image.id} onClick={() => toggleImage(image.id)} className={`relative aspect-square rounded-md overflow-hidden border-2 ${isSelected ? 'border-indigo-500' : 'border-slate-200 opacity-50'}`}>
+                  <img src={image.src} alt="Miniatura" className="w-full h-full object-cover" />
+                  {isSelected && <CheckIcon className="absolute top-0.5 right-0.5 w-4 h-4 p-0.5 rounded-full bg-indigo-500 text-white" />}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+
+        <label className="flex items-center justify-between text-sm font-medium text-slate-600">
+          <span>Processar em paralelo</span>
+          <select value={concurrency} onChange={e => setConcurrency(Number(e.target.value))} className="p-1 border border-slate-300 rounded-md bg-white text-slate-800 text-sm">
+            {[1, 2, 3, 4].map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </label>
+
+        <button
+          onClick={() => onStart({
+            label: isCustom ? 'Comando personalizado' : presets[presetIndex].name,
+            prompt: prompt!,
+            presetId: isCustom ? null : presets[presetIndex].id,
+            imageIds: images.map(img => img.id).filter(id => selectedIds.includes(id)),
+            concurrency,
+          })}
+          disabled={!canStart}
+          className="w-full py-2 px-3 bg-indigo-600 text-white font-semibold rounded-lg shadow-sm hover:bg-indigo-700 transition-colors disabled:bg-slate-400 disabled:cursor-not-allowed"
+        >
+          Iniciar Lote
+        </button>
+      </div>
+    );
+  }
+
+  const entries = images.filter(image => batch.items[image.id]).map(image => ({ image, item: batch.items[image.id] }));
+  const finishedCount = entries.filter(({ item }) => item.status !== 'queued' && item.status !== 'running').length;
+  const failedCount = entries.filter(({ item }) => item.status === 'error').length;
+  const acceptedCount = entries.filter(({ item }) => item.status === 'done' && item.accepted).length;
+  const progress = entries.length ? (finishedCount / entries.length) * 100 : 0;
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <div className="flex justify-between text-sm">
+          <span className="font-semibold text-slate-700">{batch.label}</span>
+          <span className="text-slate-500 font-mono text-xs">{finishedCount}/{entries.length}</span>
+        </div>
+        <div className="mt-2 h-2 bg-slate-200 rounded-full overflow-hidden">
+          <div className="h-full bg-indigo-500 transition-all" style={{ width: `${progress}%` }} />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        {entries.map(({ image, item }) => {
+          const status = STATUS_LABELS[item.status];
+          const isDone = item.status === 'done';
+          return (
+            <div key={image.id} className={`relative rounded-md overflow-hidden border-2 ${isDone && item.accepted ? 'border-green-500' : 'border-slate-200'}`}>
+              <img src={item.resultBase64 ?? image.src} alt="Resultado" className={`w-full aspect-square object-cover ${isDone && !item.accepted ? 'opacity-40' : ''}`} title={item.error} />
+              <span className={`absolute bottom-1 left-1 px-1.5 py-0.5 rounded text-[10px] font-semibold ${status.className}`}>{status.label}</span>
+              {isDone && (
+                <button
+                  onClick={() => onToggleAccept(image.id)}
+                  className={`absolute top-1 right-1 p-1 rounded-full text-white ${item.accepted ? 'bg-green-600' : 'bg-slate-500'}`}
+                  aria-label={item.accepted ? 'Rejeitar resultado' : 'Aceitar resultado'}
+                >
+                  {item.accepted ? <CheckIcon className="w-3 h-3" /> : <XIcon className="w-3 h-3" />}
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {batch.isRunning ? (
+        <div className="flex items-center gap-2">
+          <button onClick={batch.isPaused ? onResume : onPause} className="flex-1 py-2 rounded-lg bg-slate-200 text-slate-800 font-semibold text-sm">
+            {batch.isPaused ? 'Continuar' : 'Pausar'}
+          </button>
+          <button onClick={onCancel} className="flex-1 py-2 rounded-lg bg-white text-red-600 border border-slate-300 font-semibold text-sm hover:bg-red-50">Cancelar</button>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {failedCount > 0 && (
+            <button onClick={onRetryFailed} className="w-full py-2 rounded-lg bg-white text-slate-700 border border-slate-300 font-semibold text-sm hover:bg-slate-100">
+              Tentar novamente ({failedCount} {failedCount === 1 ? 'falha' : 'falhas'})
+            </button>
+          )}
+          <div className="flex items-center gap-2">
+            <button onClick={onDiscard} className="flex-1 py-2 rounded-lg bg-slate-200 text-slate-800 font-semibold text-sm">Descartar</button>
+            <button onClick={onApply} disabled={acceptedCount === 0} className="flex-1 py-2 px-3 bg-green-600 text-white font-semibold rounded-lg shadow-sm hover:bg-green-700 transition-colors text-sm disabled:bg-slate-400">
+              Aplicar {acceptedCount}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,23 @@
+import React, { useEffect, useRef } from 'react';
+
+interface ClippingOverlayCanvasProps {
+  overlay: ImageData;
+  className?: string;
+}
+
+/**
+ * Shows the clipping overlay computed on the downscaled preview, stretched over the image.
+ */
+export default function ClippingOverlayCanvas({ overlay, className }: ClippingOverlayCanvasProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    canvas.width = overlay.width;
+    canvas.height = overlay.height;
+    canvas.getContext('2d')?.putImageData(overlay, 0, 0);
+  }, [overlay]);
+
+  return <canvas ref={canvasRef} className={className} style={{ imageRendering: 'pixelated' }} />;
+}
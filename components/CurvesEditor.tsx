@@ -0,0 +1,99 @@
+import React, { useRef, useState } from 'react';
+import { buildCurveLut, DEFAULT_CURVE, type CurvePoint } from '../utils/adjustments';
+
+interface CurvesEditorProps {
+  curve: CurvePoint[];
+  // Stroke colour of the curve, matching the channel being edited.
+  color: string;
+  onChange: (curve: CurvePoint[]) => void;
+}
+
+const SIZE = 255;
+// Clicks closer than this (in curve units) to a point grab it instead of adding a new one.
+const GRAB_DISTANCE = 10;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * Tone curve with draggable control points. Clicking the graph adds a point, dragging moves it
+ * between its neighbours and double-clicking removes it; the end points can move but not go away.
+ */
+export default function CurvesEditor({ curve, color, onChange }: CurvesEditorProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const points = [...curve].sort((a, b) => a[0] - b[0]);
+  const lut = buildCurveLut(points);
+  const path = Array.from(lut, (y, x) => `${x === 0 ? 'M' : 'L'}${x},${SIZE - y}`).join(' ');
+
+  const toCurvePoint = (e: React.PointerEvent | React.MouseEvent): CurvePoint => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return [
+      Math.round(clamp(((e.clientX - rect.left) / rect.width) * SIZE, 0, SIZE)),
+      Math.round(clamp((1 - (e.clientY - rect.top) / rect.height) * SIZE, 0, SIZE)),
+    ];
+  };
+
+  const findPoint = ([x, y]: CurvePoint) =>
+    points.findIndex(([px, py]) => Math.hypot(px - x, py - y) <= GRAB_DISTANCE);
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    const point = toCurvePoint(e);
+    let index = findPoint(point);
+    if (index === -1) {
+      // Points share no input value; the new one goes between its neighbours.
+      if (points.some(([x]) => x === point[0])) return;
+      index = points.findIndex(([x]) => x > point[0]);
+      if (index === -1) index = points.length;
+      onChange([...points.slice(0, index), point, ...points.slice(index)]);
+    }
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDragIndex(index);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (dragIndex === null) return;
+    const [x, y] = toCurvePoint(e);
+    const minX = dragIndex === 0 ? 0 : points[dragIndex - 1][0] + 1;
+    const maxX = dragIndex === points.length - 1 ? SIZE : points[dragIndex + 1][0] - 1;
+    const next = [...points];
+    next[dragIndex] = [clamp(x, minX, maxX), y];
+    onChange(next);
+  };
+
+  const handleDoubleClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    const index = findPoint(toCurvePoint(e));
+    if (index <= 0 || index >= points.length - 1) return;
+    onChange(points.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-1">
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${SIZE} ${SIZE}`}
+        className="w-full aspect-square bg-slate-50 border border-slate-200 rounded-md touch-none cursor-crosshair"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => setDragIndex(null)}
+        onPointerCancel={() => setDragIndex(null)}
+        onDoubleClick={handleDoubleClick}
+      >
+        {[64, 128, 192].map(v => (
+          <g key={v} stroke="#e2e8f0" strokeWidth="1">
+            <line x1={v} y1="0" x2={v} y2={SIZE} />
+            <line x1="0" y1={v} x2={SIZE} y2={v} />
+          </g>
+        ))}
+        <line x1="0" y1={SIZE} x2={SIZE} y2="0" stroke="#cbd5e1" strokeWidth="1" strokeDasharray="4 4" />
+        <path d={path} fill="none" stroke={color} strokeWidth="2" />
+        {points.map(([x, y], index) => (
+          <circle key={index} cx={x} cy={SIZE - y} r={dragIndex === index ? 6 : 5} fill="white" stroke={color} strokeWidth="2" />
+        ))}
+      </svg>
+      <div className="flex justify-between text-xs text-slate-500">
+        <span>Clique para adicionar, clique duplo para remover.</span>
+        <button onClick={() => onChange(DEFAULT_CURVE)} className="hover:text-indigo-600">Restaurar</button>
+      </div>
+    </div>
+  );
+}
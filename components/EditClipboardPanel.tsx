@@ -0,0 +1,62 @@
+import React from 'react';
+import { EDIT_PROPERTIES, getAvailableEditProperties, type CopiedEdits, type EditProperty } from '../utils/editClipboard';
+import { XIcon } from './Icons';
+
+export type PasteScope = 'selected' | 'all';
+
+interface EditClipboardPanelProps {
+  edits: CopiedEdits;
+  // Position of the source image in the gallery, for the label; -1 once it was removed.
+  sourceIndex: number;
+  properties: EditProperty[];
+  // Images "sync" pastes on: every image but the source.
+  syncCount: number;
+  canPasteSelected: boolean;
+  disabled: boolean;
+  onPropertiesChange: (properties: EditProperty[]) => void;
+  onPaste: (scope: PasteScope) => void;
+  onClear: () => void;
+}
+
+const buttonClass = 'py-2 px-3 text-sm font-semibold rounded-lg bg-white hover:bg-slate-200 text-slate-700 border border-slate-300 disabled:opacity-50';
+
+export default function EditClipboardPanel({ edits, sourceIndex, properties, syncCount, canPasteSelected, disabled, onPropertiesChange, onPaste, onClear }: EditClipboardPanelProps) {
+  const available = getAvailableEditProperties(edits);
+  const selected = properties.filter(p => available.includes(p));
+
+  const toggle = (id: EditProperty, checked: boolean) =>
+    onPropertiesChange(checked ? [...properties, id] : properties.filter(p => p !== id));
+
+  return (
+    <div className="bg-slate-50 p-3 rounded-lg space-y-2 text-slate-700">
+      <div className="flex items-center justify-between">
+        <p className="font-medium text-slate-600 text-sm">{sourceIndex === -1 ? 'Edições copiadas' : `Edições copiadas da imagem ${sourceIndex + 1}`}</p>
+        <button onClick={onClear} className="p-1 text-slate-400 hover:text-slate-600" aria-label="Descartar edições copiadas">
+          <XIcon className="w-4 h-4" />
+        </button>
+      </div>
+      <div className="grid grid-cols-2 gap-1">
+        {EDIT_PROPERTIES.map(property => (
+          <label key={property.id} className={`flex items-center gap-2 text-sm ${available.includes(property.id) ? 'text-slate-600' : 'text-slate-400'}`}>
+            <input
+              type="checkbox"
+              checked={selected.includes(property.id)}
+              disabled={!available.includes(property.id)}
+              onChange={e => toggle(property.id, e.target.checked)}
+              className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+            />
+            {property.name}
+          </label>
+        ))}
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <button onClick={() => onPaste('selected')} disabled={disabled || !canPasteSelected || selected.length === 0} className={buttonClass}>
+          Colar na Selecionada
+        </button>
+        <button onClick={() => onPaste('all')} disabled={disabled || syncCount === 0 || selected.length === 0} className={buttonClass}>
+          Sincronizar Todas ({syncCount})
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+import React from 'react';
+import { EXPORT_FORMATS, EXPORT_PROFILES, getExportProfile, type ExportProfile, type ExportSettings } from '../constants';
+import { formatKB } from '../utils/exportImage';
+import { isEncodingSupported } from '../utils/imageUtils';
+
+export interface ExportEstimate {
+  bytes: number;
+  width: number;
+  height: number;
+  quality: number;
+}
+
+interface ExportProfilePanelProps {
+  profileId: string;
+  settings: ExportSettings;
+  estimate: ExportEstimate | null;
+  isEstimating: boolean;
+  imageCount: number;
+  // Encodes the image to measure it; the estimate is cleared again when the settings change.
+  onEstimate: () => void;
+  onChange: (profileId: string) => void;
+  // `commit` is false while a slider is being dragged, so only the final value enters the history.
+  onSettingsChange: (changes: Partial<ExportSettings>, commit?: boolean) => void;
+  onApplyToAll: () => void;
+}
+
+const rangeClass = "w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:bg-indigo-600 [&::-moz-range-thumb]:bg-indigo-600";
+
+const getFormatName = (format: ExportProfile['format']) => EXPORT_FORMATS.find(f => f.id === format)?.name ?? format;
+
+export const describeExportProfile = (profile: ExportProfile): string[] => {
+  const rules = [
+    profile.aspectRatio ? profile.aspectRatio.name : 'Corte livre',
+    profile.minSize === profile.maxSize ? `${profile.maxSize} px` : `${profile.minSize}–${profile.maxSize} px`,
+    profile.acceptedFormats.map(getFormatName).join('/'),
+  ];
+  if (profile.maxFileSizeKB) rules.push(`até ${Math.round(profile.maxFileSizeKB / 1024)} MB`);
+  if (profile.requireWhiteBackground) rules.push('fundo branco');
+  if (profile.maxProductFill) rules.push(`produto até ${profile.maxProductFill}%`);
+  return rules;
+};
+
+export default function ExportProfilePanel({ profileId, settings, estimate, isEstimating, imageCount, onEstimate, onChange, onSettingsChange, onApplyToAll }: ExportProfilePanelProps) {
+  const profile = getExportProfile(profileId);
+  const isLossy = EXPORT_FORMATS.find(f => f.id === settings.format)?.lossy ?? false;
+  const commitQuality = () => onSettingsChange({}, true);
+
+  return (
+    <div className="space-y-3">
+      <label className="block text-sm font-medium text-slate-600 space-y-1">
+        <span>Perfil de exportação</span>
+        <select value={profile.id} onChange={e => onChange(e.target.value)} className="w-full p-2 border border-slate-300 rounded-md bg-white text-slate-800 text-sm">
+          {EXPORT_PROFILES.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+        </select>
+      </label>
+      <div className="flex flex-wrap gap-1">
+        {describeExportProfile(profile).map(rule => (
+          <span key={rule} className="px-2 py-0.5 rounded-full bg-slate-100 text-slate-600 text-xs">{rule}</span>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-4 gap-1">
+        {EXPORT_FORMATS.map(format => {
+          const isSupported = isEncodingSupported(format.id);
+          const isAccepted = profile.acceptedFormats.includes(format.id);
+          return (
+            <button
+              key={format.id}
+              onClick={() => onSettingsChange({ format: format.id })}
+              disabled={!isSupported}
+              title={!isSupported ? 'Não suportado neste navegador' : !isAccepted ? `Não aceito por ${profile.name}` : undefined}
+              className={`py-1.5 rounded-md text-xs font-semibold transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${settings.format === format.id ? 'bg-indigo-600 text-white' : isAccepted ? 'bg-slate-100 text-slate-700 hover:bg-slate-200' : 'bg-slate-100 text-slate-400 line-through'}`}
+            >
+              {format.name}
+            </button>
+          );
+        })}
+      </div>
+
+      {isLossy && (
+        <div>
+          <div className="flex justify-between text-xs font-medium text-slate-500">
+            <span>Qualidade</span>
+            <span className="font-mono">{settings.quality}%</span>
+          </div>
+          <input
+            type="range"
+            min="10"
+            max="100"
+            value={settings.quality}
+            onChange={e => onSettingsChange({ quality: Number(e.target.value) }, false)}
+            onPointerUp={commitQuality}
+            onKeyUp={commitQuality}
+            className={rangeClass}
+          />
+        </div>
+      )}
+
+      <label className="flex items-center justify-between gap-2 text-xs font-medium text-slate-500">
+        <span className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={settings.maxFileSizeKB !== null}
+            onChange={e => onSettingsChange({ maxFileSizeKB: e.target.checked ? profile.maxFileSizeKB ?? 1024 : null })}
+            disabled={!isLossy}
+          />
+          Tamanho máximo (KB)
+        </span>
+        <input
+          type="number"
+          min="10"
+          step="10"
+          value={settings.maxFileSizeKB ?? ''}
+          onChange={e => onSettingsChange({ maxFileSizeKB: Math.max(10, Number(e.target.value) || 10) })}
+          disabled={!isLossy || settings.maxFileSizeKB === null}
+          className="w-24 p-1 border border-slate-300 rounded-md bg-white text-slate-800 text-sm text-right disabled:bg-slate-100 disabled:text-slate-400"
+        />
+      </label>
+
+      {estimate || isEstimating ? (
+        <p className="text-xs text-slate-500">
+          {isEstimating || !estimate
+            ? 'Calculando tamanho...'
+            : `${formatKB(estimate.bytes)} · ${estimate.width} × ${estimate.height} px${isLossy ? ` · qualidade ${estimate.quality}%` : ''}`}
+        </p>
+      ) : (
+        <button onClick={onEstimate} className="text-xs font-semibold text-indigo-600 hover:underline">
+          Calcular tamanho do arquivo
+        </button>
+      )}
+
+      {imageCount > 1 && (
+        <button onClick={onApplyToAll} className="text-xs font-semibold text-indigo-600 hover:underline">
+          Usar estas configurações em todas as imagens
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import React from 'react';
+import { type ExportIssue } from '../utils/exportImage';
+import { CheckIcon, XIcon } from './Icons';
+
+export interface ExportReviewItem {
+  id: string;
+  src: string;
+  profileName: string;
+  issues: ExportIssue[];
+}
+
+interface ExportReviewDialogProps {
+  items: ExportReviewItem[];
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+export default function ExportReviewDialog({ items, onConfirm, onCancel }: ExportReviewDialogProps) {
+  const itemsWithIssues = items.filter(item => item.issues.length > 0);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4" role="dialog" aria-modal="true">
+      <div className="w-full max-w-lg max-h-[85vh] flex flex-col bg-white text-slate-800 rounded-xl shadow-xl">
+        <div className="p-4 border-b border-slate-200">
+          <h3 className="text-lg font-semibold">Revisar Exportação</h3>
+          <p className="text-sm text-slate-500">Algumas imagens não atendem a todas as exigências do perfil escolhido.</p>
+        </div>
+        <ul className="flex-1 overflow-y-auto p-4 space-y-4">
+          {itemsWithIssues.map(item => (
+            <li key={item.id} className="flex gap-3">
+              <img src={item.src} alt="Miniatura" className="w-16 h-16 rounded-md object-cover border border-slate-200 flex-shrink-0" />
+              <div className="space-y-1 min-w-0">
+                <p className="text-xs font-semibold text-slate-500">{item.profileName}</p>
+                {item.issues.map((issue, index) => (
+                  <p key={index} className={`text-sm ${issue.level === 'warning' ? 'text-amber-700' : 'text-slate-600'}`}>
+                    {issue.level === 'warning' ? '⚠️' : '✓'} {issue.message}
+                  </p>
+                ))}
+              </div>
+            </li>
+          ))}
+        </ul>
+        <div className="flex items-center gap-2 p-4 border-t border-slate-200">
+          <button onClick={onCancel} className="w-full flex items-center justify-center gap-2 py-2 px-3 bg-slate-200 text-slate-800 font-semibold rounded-lg">
+            <XIcon className="w-5 h-5" />
+            Voltar e Corrigir
+          </button>
+          <button onClick={onConfirm} className="w-full flex items-center justify-center gap-2 py-2 px-3 bg-green-600 text-white font-semibold rounded-lg shadow-sm hover:bg-green-700 transition-colors">
+            <CheckIcon className="w-5 h-5" />
+            Salvar Mesmo Assim
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+import React from 'react';
+import { SparklesIcon } from './Icons';
+import { type Padding, type PaddingFill, type PaddingFillKind } from '../utils/padding';
+
+interface ExtendCanvasPanelProps {
+  padding: Padding;
+  fill: PaddingFill;
+  imageWidth: number;
+  imageHeight: number;
+  aspectName: string;
+  previewSrc: string | null;
+  isProcessing: boolean;
+  onPaddingChange: (padding: Padding) => void;
+  onFillChange: (fill: PaddingFill) => void;
+  onFitAspectRatio: () => void;
+  onApply: () => void;
+  // Extends to the padding (or to the aspect ratio when there is none) and lets the AI fill it.
+  onOutpaint: () => void;
+}
+
+const FILL_KINDS: { id: PaddingFillKind; name: string }[] = [
+  { id: 'solid', name: 'Cor' },
+  { id: 'gradient', name: 'Degradê' },
+  { id: 'blur', name: 'Desfocado' },
+  { id: 'mirror', name: 'Espelhado' },
+  { id: 'transparent', name: 'Transparente' },
+];
+
+const SIDES: { id: keyof Padding; name: string }[] = [
+  { id: 'top', name: 'Topo' },
+  { id: 'right', name: 'Direita' },
+  { id: 'bottom', name: 'Base' },
+  { id: 'left', name: 'Esquerda' },
+];
+
+const createFill = (kind: PaddingFillKind, current: PaddingFill): PaddingFill => {
+  const color = current.kind === 'solid' ? current.color : current.kind === 'gradient' ? current.from : '#ffffff';
+  switch (kind) {
+    case 'solid':
+      return { kind, color };
+    case 'gradient':
+      return { kind, from: color, to: '#e2e8f0' };
+    default:
+      return { kind };
+  }
+};
+
+export default function ExtendCanvasPanel({
+  padding,
+  fill,
+  imageWidth,
+  imageHeight,
+  aspectName,
+  previewSrc,
+  isProcessing,
+  onPaddingChange,
+  onFillChange,
+  onFitAspectRatio,
+  onApply,
+  onOutpaint,
+}: ExtendCanvasPanelProps) {
+  const resultWidth = imageWidth + padding.left + padding.right;
+  const resultHeight = imageHeight + padding.top + padding.bottom;
+  const hasPadding = resultWidth !== imageWidth || resultHeight !== imageHeight;
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-slate-500">
+        Aumenta a tela ao redor da foto em vez de cortá-la, preenchendo o espaço novo.
+      </p>
+
+      <div>
+        <label className="text-sm font-medium text-slate-600">Preenchimento</label>
+        <div className="grid grid-cols-5 gap-1 mt-1">
+          {FILL_KINDS.map(kind => (
+            <button
+              key={kind.id}
+              onClick={() => onFillChange(createFill(kind.id, fill))}
+              className={`py-1.5 px-1 text-xs font-medium rounded-md transition-colors ${fill.kind === kind.id ? 'bg-indigo-100 text-indigo-700' : 'bg-white text-slate-600 border border-slate-300 hover:bg-slate-100'}`}
+            >
+              {kind.name}
+            </button>
+          ))}
+        </div>
+        {fill.kind === 'solid' && (
+          <label className="flex items-center justify-between text-sm text-slate-600 mt-2">
+            Cor
+            <input type="color" value={fill.color} onChange={e => onFillChange({ ...fill, color: e.target.value })} className="w-10 h-8 rounded border border-slate-300" />
+          </label>
+        )}
+        {fill.kind === 'gradient' && (
+          <div className="flex items-center justify-between text-sm text-slate-600 mt-2">
+            <span>Cores (topo → base)</span>
+            <div className="flex gap-1">
+              <input type="color" value={fill.from} onChange={e => onFillChange({ ...fill, from: e.target.value })} className="w-10 h-8 rounded border border-slate-300" aria-label="Cor do topo" />
+              <input type="color" value={fill.to} onChange={e => onFillChange({ ...fill, to: e.target.value })} className="w-10 h-8 rounded border border-slate-300" aria-label="Cor da base" />
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between">
+          <label className="text-sm font-medium text-slate-600">Margens (px)</label>
+          <button onClick={onFitAspectRatio} className="text-xs font-semibold text-indigo-600 hover:text-indigo-800">
+            Completar para {aspectName}
+          </button>
+        </div>
+        <div className="grid grid-cols-4 gap-1 mt-1">
+          {SIDES.map(side => (
+            <label key={side.id} className="text-[10px] font-medium text-slate-500 text-center">
+              {side.name}
+              <input
+                type="number"
+                min={0}
+                value={padding[side.id]}
+                onChange={e => onPaddingChange({ ...padding, [side.id]: Math.max(0, Math.round(Number(e.target.value) || 0)) })}
+                className="w-full mt-0.5 px-1 py-1 text-sm text-center border border-slate-300 rounded-md"
+              />
+            </label>
+          ))}
+        </div>
+        <p className="text-xs text-slate-500 mt-1 font-mono">
+          {imageWidth} × {imageHeight} → {resultWidth} × {resultHeight} px
+        </p>
+      </div>
+
+      {previewSrc && hasPadding && (
+        <div className="flex justify-center bg-[repeating-conic-gradient(#e2e8f0_0_25%,#fff_0_50%)] bg-[length:16px_16px] rounded-lg p-2">
+          <img src={previewSrc} alt="Prévia da tela estendida" className="max-h-40 object-contain" />
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        <button onClick={onApply} disabled={!hasPadding || isProcessing} className="py-2 px-3 bg-indigo-600 text-white font-semibold rounded-lg shadow-sm hover:bg-indigo-700 transition-colors disabled:bg-slate-400">
+          {isProcessing ? 'Estendendo...' : 'Estender Tela'}
+        </button>
+        <button onClick={onOutpaint} disabled={isProcessing} className="flex items-center justify-center gap-1 py-2 px-3 bg-purple-600 text-white font-semibold rounded-lg shadow-sm hover:bg-purple-700 transition-colors disabled:bg-slate-400">
+          <SparklesIcon className="w-4 h-4" />
+          Preencher com IA
+        </button>
+      </div>
+      <p className="text-xs text-slate-500">
+        Com a IA, a área nova é gerada continuando a cena. Sem margens definidas, a tela é completada para {aspectName}.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import React, { useEffect, useRef } from 'react';
+import { type ClippingOverlay, type Histogram } from '../utils/histogram';
+
+interface HistogramPanelProps {
+  histogram: Histogram | null;
+  clipping: ClippingOverlay | null;
+  showClipping: boolean;
+  onShowClippingChange: (show: boolean) => void;
+}
+
+const WIDTH = 256;
+const HEIGHT = 80;
+
+const CHANNELS: { key: keyof Omit<Histogram, 'total'>; color: string }[] = [
+  { key: 'red', color: 'rgba(239, 68, 68, 0.6)' },
+  { key: 'green', color: 'rgba(34, 197, 94, 0.6)' },
+  { key: 'blue', color: 'rgba(59, 130, 246, 0.6)' },
+];
+
+const formatShare = (share: number) => `${(share * 100).toFixed(1)}%`;
+
+function drawHistogram(canvas: HTMLCanvasElement, histogram: Histogram) {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  ctx.clearRect(0, 0, WIDTH, HEIGHT);
+  // The end bins are left out of the scale: a white backdrop piles up at 255 and would flatten the rest.
+  let peak = 1;
+  for (const { key } of [...CHANNELS, { key: 'luminance' as const }]) {
+    for (let v = 1; v < 255; v++) peak = Math.max(peak, histogram[key][v]);
+  }
+  const plot = (counts: Uint32Array) => {
+    ctx.beginPath();
+    ctx.moveTo(0, HEIGHT);
+    for (let v = 0; v < 256; v++) ctx.lineTo(v, HEIGHT - Math.min(1, counts[v] / peak) * HEIGHT);
+    ctx.lineTo(WIDTH, HEIGHT);
+    ctx.closePath();
+  };
+  ctx.globalCompositeOperation = 'lighter';
+  for (const channel of CHANNELS) {
+    plot(histogram[channel.key]);
+    ctx.fillStyle = channel.color;
+    ctx.fill();
+  }
+  ctx.globalCompositeOperation = 'source-over';
+  plot(histogram.luminance);
+  ctx.strokeStyle = 'rgba(255, 255, 255, 0.9)';
+  ctx.stroke();
+}
+
+export default function HistogramPanel({ histogram, clipping, showClipping, onShowClippingChange }: HistogramPanelProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    if (canvasRef.current && histogram) drawHistogram(canvasRef.current, histogram);
+  }, [histogram]);
+
+  return (
+    <div className="space-y-2">
+      <canvas ref={canvasRef} width={WIDTH} height={HEIGHT} className="w-full h-20 bg-slate-800 rounded-md" />
+      <label className="flex items-center gap-2 text-sm text-slate-600">
+        <input type="checkbox" checked={showClipping} onChange={e => onShowClippingChange(e.target.checked)} className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500" />
+        Mostrar áreas estouradas
+      </label>
+      {showClipping && clipping && (
+        <p className="flex justify-between text-xs font-mono">
+          <span className={clipping.highlights > 0 ? 'text-red-600' : 'text-slate-500'}>Realces: {formatShare(clipping.highlights)}</span>
+          <span className={clipping.shadows > 0 ? 'text-blue-600' : 'text-slate-500'}>Sombras: {formatShare(clipping.shadows)}</span>
+        </p>
+      )}
+    </div>
+  );
+}
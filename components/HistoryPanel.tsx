@@ -0,0 +1,46 @@
+import React from 'react';
+
+export interface HistoryPanelEntry {
+  label: string;
+  timestamp: number;
+  thumbnail: string | null;
+}
+
+interface HistoryPanelProps {
+  entries: HistoryPanelEntry[];
+  currentIndex: number;
+  onJump: (index: number) => void;
+  disabled?: boolean;
+}
+
+const formatTime = (timestamp: number) =>
+  timestamp ? new Date(timestamp).toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' }) : '';
+
+export default function HistoryPanel({ entries, currentIndex, onJump, disabled = false }: HistoryPanelProps) {
+  return (
+    <ol className="border border-slate-200 rounded-lg divide-y divide-slate-200 overflow-hidden max-h-96 overflow-y-auto">
+      {entries.map((entry, index) => {
+        const isCurrent = index === currentIndex;
+        // Steps after the current one can still be redone, so they stay listed but dimmed.
+        const isUndone = index > currentIndex;
+        return (
+          <li key={index}>
+            <button
+              onClick={() => onJump(index)}
+              disabled={disabled}
+              className={`w-full flex items-center gap-3 px-2 py-1.5 text-left text-sm transition-colors disabled:cursor-not-allowed ${isCurrent ? 'bg-indigo-50 text-indigo-700 font-semibold' : 'bg-white hover:bg-slate-50'} ${isUndone ? 'text-slate-400' : 'text-slate-700'}`}
+            >
+              {entry.thumbnail ? (
+                <img src={entry.thumbnail} alt="" className={`w-10 h-10 rounded object-cover border border-slate-200 flex-shrink-0 ${isUndone ? 'opacity-50' : ''}`} />
+              ) : (
+                <div className="w-10 h-10 rounded bg-slate-100 flex-shrink-0" />
+              )}
+              <span className="flex-1 truncate">{entry.label}</span>
+              <span className="text-xs font-mono text-slate-400">{formatTime(entry.timestamp)}</span>
+            </button>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
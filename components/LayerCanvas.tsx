@@ -0,0 +1,64 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { type ImageAdjustments } from '../utils/adjustments';
+import { drawLayers, loadLayerImages, type Layer } from '../utils/layers';
+
+interface LayerCanvasProps {
+  layers: Layer[];
+  naturalWidth: number;
+  naturalHeight: number;
+  adjustments?: ImageAdjustments;
+  className?: string;
+}
+
+/**
+ * Live preview of a layer stack, drawn with the same routine used when exporting.
+ * The canvas fills its positioned parent and is redrawn at the device pixel ratio.
+ */
+export default function LayerCanvas({ layers, naturalWidth, naturalHeight, adjustments, className }: LayerCanvasProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [images, setImages] = useState<Map<string, HTMLImageElement>>(new Map());
+  const [fontsVersion, setFontsVersion] = useState(0);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const resizeObserver = new ResizeObserver(() => {
+      setSize({ width: canvas.clientWidth, height: canvas.clientHeight });
+    });
+    resizeObserver.observe(canvas);
+    return () => resizeObserver.disconnect();
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadLayerImages(layers)
+      .then(loaded => { if (!cancelled) setImages(loaded); })
+      .catch(error => console.error('Falha ao carregar camadas:', error));
+    return () => { cancelled = true; };
+  }, [layers]);
+
+  // Redraw once late web fonts arrive, otherwise text keeps the fallback font.
+  useEffect(() => {
+    const fonts = document.fonts;
+    if (!fonts) return;
+    const listener = () => setFontsVersion(v => v + 1);
+    fonts.addEventListener('loadingdone', listener);
+    return () => fonts.removeEventListener('loadingdone', listener);
+  }, []);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !size.width || !naturalWidth) return;
+    const ratio = window.devicePixelRatio || 1;
+    const scale = (size.width / naturalWidth) * ratio;
+    canvas.width = Math.round(size.width * ratio);
+    canvas.height = Math.round(size.height * ratio);
+    ctx.setTransform(scale, 0, 0, scale, 0, 0);
+    ctx.clearRect(0, 0, naturalWidth, naturalHeight);
+    drawLayers(ctx, layers, naturalWidth, naturalHeight, images, adjustments);
+  }, [layers, images, size, naturalWidth, naturalHeight, adjustments, fontsVersion]);
+
+  return <canvas ref={canvasRef} className={className} />;
+}
@@ -0,0 +1,161 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { getLayerBox, getScaledLayerChanges, type OverlayLayer } from '../utils/layers';
+
+interface LayerTransformHandlesProps {
+  layers: OverlayLayer[];
+  naturalWidth: number;
+  selectedId: string | null;
+  onSelect: (id: string | null) => void;
+  onChange: (id: string, changes: Partial<OverlayLayer>) => void;
+}
+
+type DragMode = 'move' | 'resize' | 'scale' | 'rotate';
+
+interface DragState {
+  mode: DragMode;
+  id: string;
+  startX: number;
+  startY: number;
+  start: OverlayLayer;
+  // Box center in client coordinates at drag start.
+  centerX: number;
+  centerY: number;
+}
+
+/**
+ * Selection boxes with move, resize, scale and rotate handles for overlay layers.
+ * The layers themselves are drawn by `LayerCanvas` underneath.
+ */
+export default function LayerTransformHandles({ layers, naturalWidth, selectedId, onSelect, onChange }: LayerTransformHandlesProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const resizeObserver = new ResizeObserver(() => {
+      setSize({ width: container.clientWidth, height: container.clientHeight });
+    });
+    resizeObserver.observe(container);
+    return () => resizeObserver.disconnect();
+  }, []);
+
+  const scale = naturalWidth > 0 ? size.width / naturalWidth : 0;
+
+  const startDrag = (e: React.PointerEvent, layer: OverlayLayer, mode: DragMode) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    onSelect(layer.id);
+    (e.currentTarget as Element).setPointerCapture(e.pointerId);
+    dragRef.current = {
+      mode,
+      id: layer.id,
+      startX: e.clientX,
+      startY: e.clientY,
+      start: layer,
+      centerX: rect.left + (layer.x / 100) * rect.width,
+      centerY: rect.top + (layer.y / 100) * rect.height,
+    };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag || !size.width || !size.height) return;
+    const { start, centerX, centerY } = drag;
+
+    switch (drag.mode) {
+      case 'move': {
+        const x = start.x + ((e.clientX - drag.startX) / size.width) * 100;
+        const y = start.y + ((e.clientY - drag.startY) / size.height) * 100;
+        onChange(drag.id, { x: Math.min(100, Math.max(0, x)), y: Math.min(100, Math.max(0, y)) });
+        break;
+      }
+      case 'resize': {
+        // Project the pointer onto the box's rotated horizontal axis; the box grows symmetrically.
+        const angle = (start.rotation * Math.PI) / 180;
+        const dx = e.clientX - centerX;
+        const dy = e.clientY - centerY;
+        const localX = dx * Math.cos(angle) + dy * Math.sin(angle);
+        const width = ((Math.abs(localX) * 2) / size.width) * 100;
+        onChange(drag.id, { width: Math.min(200, Math.max(5, width)) });
+        break;
+      }
+      case 'scale': {
+        const startDistance = Math.hypot(drag.startX - centerX, drag.startY - centerY) || 1;
+        const factor = Math.hypot(e.clientX - centerX, e.clientY - centerY) / startDistance;
+        onChange(drag.id, getScaledLayerChanges(start, factor));
+        break;
+      }
+      case 'rotate': {
+        // The handle sits above the box, so "up" is 0 degrees.
+        let rotation = (Math.atan2(e.clientY - centerY, e.clientX - centerX) * 180) / Math.PI + 90;
+        if (rotation > 180) rotation -= 360;
+        if (e.shiftKey) rotation = Math.round(rotation / 15) * 15;
+        onChange(drag.id, { rotation: Math.round(rotation) });
+        break;
+      }
+    }
+  };
+
+  const endDrag = () => {
+    dragRef.current = null;
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className="absolute inset-0 overflow-hidden"
+      style={{ touchAction: 'none' }}
+      onPointerDown={() => onSelect(null)}
+      onPointerMove={handlePointerMove}
+      onPointerUp={endDrag}
+      onPointerCancel={endDrag}
+    >
+      {scale > 0 && layers.filter(layer => layer.visible).map(layer => {
+        const box = getLayerBox(layer, naturalWidth);
+        const isSelected = layer.id === selectedId;
+        return (
+          <div
+            key={layer.id}
+            className={`absolute cursor-move border ${isSelected ? 'border-indigo-500' : 'border-dashed border-white/70 hover:border-indigo-300'}`}
+            style={{
+              left: `${layer.x}%`,
+              top: `${layer.y}%`,
+              width: box.width * scale,
+              height: Math.max(box.height * scale, 12),
+              transform: `translate(-50%, -50%) rotate(${layer.rotation}deg)`,
+              boxShadow: isSelected ? '0 0 0 1px rgba(255, 255, 255, 0.8)' : undefined,
+            }}
+            onPointerDown={e => startDrag(e, layer, 'move')}
+          >
+            {isSelected && (
+              <>
+                <div className="absolute left-1/2 -top-7 w-px h-5 bg-indigo-500 -translate-x-1/2 pointer-events-none" />
+                <div
+                  className="absolute left-1/2 -top-9 w-4 h-4 -translate-x-1/2 rounded-full bg-white border-2 border-indigo-500 cursor-grab"
+                  onPointerDown={e => startDrag(e, layer, 'rotate')}
+                  aria-label="Girar camada"
+                />
+                {layer.kind !== 'sticker' && (
+                  <div
+                    className="absolute top-1/2 -right-2 w-3 h-6 -translate-y-1/2 rounded-sm bg-white border-2 border-indigo-500 cursor-ew-resize"
+                    onPointerDown={e => startDrag(e, layer, 'resize')}
+                    aria-label="Redimensionar largura"
+                  />
+                )}
+                <div
+                  className="absolute -bottom-2 -right-2 w-4 h-4 rounded-sm bg-white border-2 border-indigo-500 cursor-nwse-resize"
+                  onPointerDown={e => startDrag(e, layer, 'scale')}
+                  aria-label="Escalar camada"
+                />
+              </>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
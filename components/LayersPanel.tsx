@@ -0,0 +1,122 @@
+import React from 'react';
+import { BLEND_MODES, STICKER_EMOJIS, getLayerLabel, type BlendMode, type Layer, type ShapeKind } from '../utils/layers';
+import { EyeIcon, EyeOffIcon, ChevronUpIcon, ChevronDownIcon, TrashIcon, PhotoIcon, EditIcon, SparklesIcon, LayersIcon } from './Icons';
+
+interface LayersPanelProps {
+  layers: Layer[];
+  selectedId: string | null;
+  onSelect: (id: string | null) => void;
+  onChange: (id: string, changes: Partial<Layer>) => void;
+  onMove: (id: string, direction: 'up' | 'down') => void;
+  onDelete: (id: string) => void;
+  onAddShape: (shape: ShapeKind) => void;
+  onAddSticker: (emoji: string) => void;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+const rangeClass = "w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:bg-indigo-600 [&::-moz-range-thumb]:bg-indigo-600";
+
+const LayerKindIcon = ({ layer }: { layer: Layer }) => {
+  const className = "w-4 h-4 flex-shrink-0";
+  switch (layer.kind) {
+    case 'image':
+      return layer.role === 'ai' ? <SparklesIcon className={className} /> : <PhotoIcon className={className} />;
+    case 'text':
+      return <EditIcon className={className} />;
+    case 'shape':
+      return <LayersIcon className={className} />;
+    case 'sticker':
+      return <span className="w-4 text-center text-sm leading-none">{layer.emoji}</span>;
+  }
+};
+
+export default function LayersPanel({ layers, selectedId, onSelect, onChange, onMove, onDelete, onAddShape, onAddSticker, onConfirm, onCancel }: LayersPanelProps) {
+  const selected = layers.find(l => l.id === selectedId);
+  const imageLayerCount = layers.filter(l => l.kind === 'image').length;
+  // The list shows the top of the stack first, like most editors.
+  const ordered = layers.map((layer, index) => ({ layer, index })).reverse();
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <button onClick={() => onAddShape('rectangle')} className="py-1.5 px-2.5 text-xs font-semibold rounded-full bg-slate-100 text-slate-700 hover:bg-indigo-50 hover:text-indigo-700 transition-colors">+ Retângulo</button>
+        <button onClick={() => onAddShape('ellipse')} className="py-1.5 px-2.5 text-xs font-semibold rounded-full bg-slate-100 text-slate-700 hover:bg-indigo-50 hover:text-indigo-700 transition-colors">+ Elipse</button>
+        {STICKER_EMOJIS.map(emoji => (
+          <button key={emoji} onClick={() => onAddSticker(emoji)} className="w-8 h-8 text-lg rounded-full bg-slate-100 hover:bg-indigo-50 transition-colors" aria-label={`Adicionar adesivo ${emoji}`}>
+            {emoji}
+          </button>
+        ))}
+      </div>
+
+      <ul className="border border-slate-200 rounded-lg divide-y divide-slate-200 overflow-hidden">
+        {ordered.map(({ layer, index }) => (
+          <li key={layer.id} className={`flex items-center gap-2 px-2 py-1.5 text-sm ${layer.id === selectedId ? 'bg-indigo-50' : 'bg-white'}`}>
+            <button onClick={() => onChange(layer.id, { visible: !layer.visible })} className="p-1 text-slate-500 hover:text-indigo-600" aria-label={layer.visible ? 'Ocultar camada' : 'Mostrar camada'}>
+              {layer.visible ? <EyeIcon className="w-4 h-4" /> : <EyeOffIcon className="w-4 h-4" />}
+            </button>
+            <button onClick={() => onSelect(layer.id)} className={`flex-1 flex items-center gap-2 min-w-0 text-left ${layer.visible ? 'text-slate-700' : 'text-slate-400'}`}>
+              <LayerKindIcon layer={layer} />
+              <span className="truncate">{getLayerLabel(layer)}</span>
+            </button>
+            <button onClick={() => onMove(layer.id, 'up')} disabled={index === layers.length - 1} className="p-1 text-slate-500 hover:text-indigo-600 disabled:text-slate-300" aria-label="Mover para cima">
+              <ChevronUpIcon className="w-4 h-4" />
+            </button>
+            <button onClick={() => onMove(layer.id, 'down')} disabled={index === 0} className="p-1 text-slate-500 hover:text-indigo-600 disabled:text-slate-300" aria-label="Mover para baixo">
+              <ChevronDownIcon className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => onDelete(layer.id)}
+              disabled={layer.kind === 'image' && imageLayerCount <= 1}
+              className="p-1 text-slate-500 hover:text-red-600 disabled:text-slate-300"
+              aria-label="Remover camada"
+            >
+              <TrashIcon className="w-4 h-4" />
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      {selected && (
+        <div className="bg-slate-50 p-3 rounded-lg space-y-3">
+          <div>
+            <div className="flex justify-between text-xs font-medium text-slate-500">
+              <span>Opacidade</span>
+              <span className="font-mono">{selected.opacity}%</span>
+            </div>
+            <input type="range" min="0" max="100" value={selected.opacity} onChange={e => onChange(selected.id, { opacity: Number(e.target.value) })} className={rangeClass} />
+          </div>
+          <label className="block text-xs font-medium text-slate-500 space-y-1">
+            <span>Mesclagem</span>
+            <select
+              value={selected.blendMode}
+              onChange={e => onChange(selected.id, { blendMode: e.target.value as BlendMode })}
+              className="w-full p-2 border border-slate-300 rounded-md bg-white text-slate-800 text-sm"
+            >
+              {BLEND_MODES.map(mode => <option key={mode.id} value={mode.id}>{mode.name}</option>)}
+            </select>
+          </label>
+          {selected.kind === 'shape' && (
+            <div className="grid grid-cols-2 gap-2 items-end">
+              <label className="text-xs font-medium text-slate-500 space-y-1">
+                <span>Preenchimento</span>
+                <input type="color" value={selected.fill} onChange={e => onChange(selected.id, { fill: e.target.value })} className="w-full h-8 rounded cursor-pointer" />
+              </label>
+              {selected.shape === 'rectangle' && (
+                <label className="text-xs font-medium text-slate-500 space-y-1">
+                  <span>Arredondamento</span>
+                  <input type="range" min="0" max="100" value={selected.cornerRadius} onChange={e => onChange(selected.id, { cornerRadius: Number(e.target.value) })} className={rangeClass} />
+                </label>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="flex items-center gap-2 pt-2">
+        <button onClick={onCancel} className="flex-1 py-2 rounded-lg bg-slate-200 text-slate-800 font-semibold text-sm">Cancelar</button>
+        <button onClick={onConfirm} className="flex-1 py-2 px-3 bg-indigo-600 text-white font-semibold rounded-lg shadow-sm hover:bg-indigo-700 transition-colors text-sm">Confirmar Camadas</button>
+      </div>
+    </div>
+  );
+}
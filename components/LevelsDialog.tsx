@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { DEFAULT_LEVELS, getChannelLevels, setChannelLevels, type ImageAdjustments, type Levels, type ToneChannel } from '../utils/adjustments';
+import { CheckIcon, XIcon } from './Icons';
+
+export const TONE_CHANNELS: { id: ToneChannel; name: string; color: string }[] = [
+  { id: 'rgb', name: 'RGB', color: '#334155' },
+  { id: 'red', name: 'Vermelho', color: '#ef4444' },
+  { id: 'green', name: 'Verde', color: '#22c55e' },
+  { id: 'blue', name: 'Azul', color: '#3b82f6' },
+];
+
+const LEVELS_FIELDS: { group: string; fields: { id: keyof Levels; name: string; min: number; max: number; step: number }[] }[] = [
+  {
+    group: 'Entrada',
+    fields: [
+      { id: 'inputBlack', name: 'Preto', min: 0, max: 254, step: 1 },
+      { id: 'gamma', name: 'Gama', min: 0.1, max: 3, step: 0.05 },
+      { id: 'inputWhite', name: 'Branco', min: 1, max: 255, step: 1 },
+    ],
+  },
+  {
+    group: 'Saída',
+    fields: [
+      { id: 'outputBlack', name: 'Preto', min: 0, max: 255, step: 1 },
+      { id: 'outputWhite', name: 'Branco', min: 0, max: 255, step: 1 },
+    ],
+  },
+];
+
+interface LevelsDialogProps {
+  adjustments: ImageAdjustments;
+  onChange: (changes: Partial<ImageAdjustments>) => void;
+  onClose: () => void;
+}
+
+// Keeps the input black point below the white point, so the range never collapses.
+function constrainLevels(levels: Levels, changed: keyof Levels): Levels {
+  if (changed === 'inputBlack') return { ...levels, inputBlack: Math.min(levels.inputBlack, levels.inputWhite - 1) };
+  if (changed === 'inputWhite') return { ...levels, inputWhite: Math.max(levels.inputWhite, levels.inputBlack + 1) };
+  return levels;
+}
+
+/**
+ * Levels for the composite and each colour channel. Changes preview live; cancelling puts back
+ * the levels the dialog was opened with.
+ */
+export default function LevelsDialog({ adjustments, onChange, onClose }: LevelsDialogProps) {
+  const [channel, setChannel] = useState<ToneChannel>('rgb');
+  const [initial] = useState(() => ({ levels: adjustments.levels, channelLevels: adjustments.channelLevels }));
+  const levels = getChannelLevels(adjustments, channel);
+
+  const updateLevels = (id: keyof Levels, value: number) => {
+    if (!Number.isFinite(value)) return;
+    onChange(setChannelLevels(adjustments, channel, constrainLevels({ ...levels, [id]: value }, id)));
+  };
+
+  const handleCancel = () => {
+    onChange(initial);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/20 p-4" role="dialog" aria-modal="true">
+      <div className="w-full max-w-sm bg-white text-slate-800 rounded-xl shadow-xl">
+        <div className="p-4 border-b border-slate-200">
+          <h3 className="text-lg font-semibold">Níveis</h3>
+          <p className="text-sm text-slate-500">O canal RGB atua nas três cores, antes dos ajustes de cada canal.</p>
+        </div>
+        <div className="p-4 space-y-4">
+          <div className="grid grid-cols-4 gap-1">
+            {TONE_CHANNELS.map(option => (
+              <button
+                key={option.id}
+                onClick={() => setChannel(option.id)}
+                className={`py-1.5 text-xs font-semibold rounded-md border ${channel === option.id ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-600 border-slate-300 hover:bg-slate-100'}`}
+              >
+                {option.name}
+              </button>
+            ))}
+          </div>
+          {LEVELS_FIELDS.map(({ group, fields }) => (
+            <div key={group} className="space-y-2">
+              <p className="text-xs font-semibold uppercase tracking-wide text-slate-400">{group}</p>
+              {fields.map(field => (
+                <div key={field.id} className="flex items-center gap-2">
+                  <label htmlFor={`levels-${field.id}`} className="w-14 text-sm font-medium text-slate-600">{field.name}</label>
+                  <input
+                    id={`levels-${field.id}`}
+                    type="range"
+                    min={field.min}
+                    max={field.max}
+                    step={field.step}
+                    value={levels[field.id]}
+                    onChange={e => updateLevels(field.id, Number(e.target.value))}
+                    className="flex-1 h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer"
+                  />
+                  <input
+                    type="number"
+                    min={field.min}
+                    max={field.max}
+                    step={field.step}
+                    value={levels[field.id]}
+                    onChange={e => updateLevels(field.id, Math.min(field.max, Math.max(field.min, Number(e.target.value))))}
+                    className="w-16 p-1 border border-slate-300 rounded-md text-sm font-mono text-right"
+                  />
+                </div>
+              ))}
+            </div>
+          ))}
+          <button onClick={() => onChange(setChannelLevels(adjustments, channel, DEFAULT_LEVELS))} className="text-xs text-slate-500 hover:text-indigo-600">
+            Restaurar canal
+          </button>
+        </div>
+        <div className="flex items-center gap-2 p-4 border-t border-slate-200">
+          <button onClick={handleCancel} className="w-full flex items-center justify-center gap-2 py-2 px-3 bg-slate-200 text-slate-800 font-semibold rounded-lg">
+            <XIcon className="w-5 h-5" />
+            Cancelar
+          </button>
+          <button onClick={onClose} className="w-full flex items-center justify-center gap-2 py-2 px-3 bg-indigo-600 text-white font-semibold rounded-lg shadow-sm hover:bg-indigo-700 transition-colors">
+            <CheckIcon className="w-5 h-5" />
+            OK
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import type { ListingIssue, MarketplaceProfile } from '../utils/marketplaces';
+import { formatListingField, LISTING_FIELD_NAMES, type ListingListField, type ProductListing } from '../utils/productListing';
+import { CopyIcon } from './Icons';
+
+interface ListingFieldsProps {
+  listing: ProductListing;
+  // Channel the listing is for; its limits drive the counters.
+  marketplace: MarketplaceProfile;
+  issues: ListingIssue[];
+  onChange: (listing: ProductListing) => void;
+}
+
+const inputClass = 'w-full p-2 border rounded-lg bg-slate-50 text-slate-800 text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition';
+
+// Lists are edited as text. Blank entries are kept while typing, so a trailing separator
+// survives until the next item is written; copying and the AI requests ignore them.
+const toBulletText = (items: string[]) => items.join('\n');
+const fromBulletText = (text: string) => text.split('\n');
+const toTagText = (items: string[]) => items.join(', ');
+const fromTagText = (text: string) => text ? text.split(/, ?/) : [];
+
+/**
+ * The listing fields, each editable and copyable on its own, since the ERP keeps them separately.
+ */
+export default function ListingFields({ listing, marketplace, issues, onChange }: ListingFieldsProps) {
+  const [copiedField, setCopiedField] = useState<keyof ProductListing | null>(null);
+
+  const update = <K extends keyof ProductListing>(field: K, value: ProductListing[K]) =>
+    onChange({ ...listing, [field]: value });
+
+  const handleCopy = (field: keyof ProductListing) => {
+    navigator.clipboard.writeText(formatListingField(listing, field)).then(() => {
+      setCopiedField(field);
+      setTimeout(() => setCopiedField(current => current === field ? null : current), 2000);
+    }, (err) => {
+      console.error('Não foi possível copiar o texto: ', err);
+    });
+  };
+
+  const fieldIssues = (field: keyof ProductListing) => issues.filter(issue => issue.field === field);
+  const fieldClass = (field: keyof ProductListing) =>
+    `${inputClass} ${fieldIssues(field).length > 0 ? 'border-red-400' : 'border-slate-300'}`;
+  const countItems = (items: string[]) => items.filter(item => item.trim()).length;
+
+  // `counter` is the current size against the channel's limit, when the field has one.
+  const renderLabel = (field: keyof ProductListing, hint?: string, counter?: { value: number; max?: number }) => (
+    <div className="flex items-center justify-between">
+      <label htmlFor={`listing-${field}`} className="text-sm font-medium text-slate-600">
+        {LISTING_FIELD_NAMES[field]}
+        {hint && <span className="ml-1 font-normal text-slate-400">({hint})</span>}
+      </label>
+      <div className="flex items-center gap-1">
+        {counter && (
+          <span className={`text-xs font-mono ${counter.max !== undefined && counter.value > counter.max ? 'text-red-600 font-semibold' : 'text-slate-400'}`}>
+            {counter.max !== undefined ? `${counter.value}/${counter.max}` : counter.value}
+          </span>
+        )}
+        {copiedField === field && <span className="text-xs text-green-600 bg-green-100 px-2 py-0.5 rounded">Copiado!</span>}
+        <button
+          onClick={() => handleCopy(field)}
+          disabled={!formatListingField(listing, field)}
+          className="p-1 text-slate-400 hover:text-indigo-600 rounded-md transition-colors disabled:opacity-40"
+          aria-label={`Copiar ${LISTING_FIELD_NAMES[field].toLowerCase()}`}
+        >
+          <CopyIcon className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+
+  const renderIssues = (field: keyof ProductListing) => fieldIssues(field).map((issue, index) => (
+    <p key={index} className="text-xs text-red-600">{issue.message}</p>
+  ));
+
+  const renderTagField = (field: Exclude<ListingListField, 'bullets'>) => (
+    <div className="space-y-1">
+      {renderLabel(field, 'separados por vírgula')}
+      <input
+        id={`listing-${field}`}
+        type="text"
+        value={toTagText(listing[field])}
+        onChange={e => update(field, fromTagText(e.target.value))}
+        className={fieldClass(field)}
+      />
+      {renderIssues(field)}
+    </div>
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-1">
+        {renderLabel('title', undefined, { value: listing.title.trim().length, max: marketplace.titleMaxLength })}
+        <input id="listing-title" type="text" value={listing.title} onChange={e => update('title', e.target.value)} className={fieldClass('title')} />
+        {renderIssues('title')}
+      </div>
+      <div className="space-y-1">
+        {renderLabel('shortDescription', undefined, { value: listing.shortDescription.trim().length })}
+        <textarea id="listing-shortDescription" value={listing.shortDescription} onChange={e => update('shortDescription', e.target.value)} className={fieldClass('shortDescription')} rows={2} />
+        {renderIssues('shortDescription')}
+      </div>
+      <div className="space-y-1">
+        {renderLabel('longDescription', marketplace.allowsHtml ? 'aceita HTML' : undefined, { value: listing.longDescription.trim().length })}
+        <textarea id="listing-longDescription" value={listing.longDescription} onChange={e => update('longDescription', e.target.value)} className={fieldClass('longDescription')} rows={5} />
+        {renderIssues('longDescription')}
+      </div>
+      <div className="space-y-1">
+        {renderLabel('bullets', 'uma por linha', { value: countItems(listing.bullets), max: marketplace.bulletCount })}
+        <textarea id="listing-bullets" value={toBulletText(listing.bullets)} onChange={e => update('bullets', fromBulletText(e.target.value))} className={fieldClass('bullets')} rows={4} />
+        {renderIssues('bullets')}
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {renderTagField('materials')}
+        {renderTagField('colors')}
+      </div>
+      <div className="space-y-1">
+        {renderLabel('category')}
+        <input id="listing-category" type="text" value={listing.category} onChange={e => update('category', e.target.value)} className={fieldClass('category')} />
+        {renderIssues('category')}
+      </div>
+      {renderTagField('keywords')}
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+import React from 'react';
+import { BrushIcon, EraserIcon, LassoIcon, MagicWandIcon, SelectEllipseIcon, SelectRectIcon, TrashIcon } from './Icons';
+
+export type SelectionMode = 'brush' | 'rect' | 'ellipse' | 'lasso' | 'wand';
+
+interface MaskToolsPanelProps {
+  mode: SelectionMode;
+  // Brush erases and the other modes remove from the mask instead of adding to it.
+  isSubtracting: boolean;
+  brushSize: number;
+  maxBrushSize: number;
+  wandTolerance: number;
+  wandContiguous: boolean;
+  operationRadius: number;
+  hasMask: boolean;
+  onModeChange: (mode: SelectionMode) => void;
+  onSubtractingChange: (isSubtracting: boolean) => void;
+  onBrushSizeChange: (size: number) => void;
+  onWandToleranceChange: (tolerance: number) => void;
+  onWandContiguousChange: (contiguous: boolean) => void;
+  onOperationRadiusChange: (radius: number) => void;
+  onInvert: () => void;
+  onGrow: (radius: number) => void;
+  onFeather: (radius: number) => void;
+  onClear: () => void;
+}
+
+const MODES: { id: SelectionMode; name: string; icon: React.ReactNode; hint: string }[] = [
+  { id: 'brush', name: 'Pincel', icon: <BrushIcon className="w-5 h-5" />, hint: 'Pinte a área que deseja editar.' },
+  { id: 'rect', name: 'Retângulo', icon: <SelectRectIcon className="w-5 h-5" />, hint: 'Arraste para selecionar um retângulo.' },
+  { id: 'ellipse', name: 'Elipse', icon: <SelectEllipseIcon className="w-5 h-5" />, hint: 'Arraste para selecionar uma elipse.' },
+  { id: 'lasso', name: 'Laço', icon: <LassoIcon className="w-5 h-5" />, hint: 'Clique para marcar os vértices. Feche clicando no primeiro ponto ou com um duplo clique.' },
+  { id: 'wand', name: 'Varinha', icon: <MagicWandIcon className="w-5 h-5" />, hint: 'Clique em uma cor para selecionar a área parecida.' },
+];
+
+const toggleClass = (isActive: boolean) =>
+  `flex-1 py-2 px-3 text-sm rounded-md flex items-center justify-center gap-2 transition-colors ${isActive ? 'bg-indigo-500 text-white' : 'bg-white hover:bg-slate-200 text-slate-700 border border-slate-300'}`;
+
+const operationClass = 'py-1.5 px-2 text-xs font-semibold rounded-md bg-white hover:bg-slate-200 text-slate-700 border border-slate-300 disabled:opacity-50 disabled:cursor-not-allowed';
+
+export default function MaskToolsPanel({
+  mode,
+  isSubtracting,
+  brushSize,
+  maxBrushSize,
+  wandTolerance,
+  wandContiguous,
+  operationRadius,
+  hasMask,
+  onModeChange,
+  onSubtractingChange,
+  onBrushSizeChange,
+  onWandToleranceChange,
+  onWandContiguousChange,
+  onOperationRadiusChange,
+  onInvert,
+  onGrow,
+  onFeather,
+  onClear,
+}: MaskToolsPanelProps) {
+  const activeMode = MODES.find(m => m.id === mode)!;
+
+  return (
+    <div className="bg-slate-50 p-3 rounded-lg space-y-4">
+      <div className="grid grid-cols-5 gap-1">
+        {MODES.map(m => (
+          <button
+            key={m.id}
+            onClick={() => onModeChange(m.id)}
+            className={`flex flex-col items-center gap-1 p-1.5 rounded-md text-xs font-medium transition-colors ${mode === m.id ? 'bg-indigo-100 text-indigo-700' : 'text-slate-600 hover:bg-slate-200'}`}
+          >
+            {m.icon}
+            {m.name}
+          </button>
+        ))}
+      </div>
+      <p className="text-xs text-slate-500">{activeMode.hint}</p>
+
+      {mode === 'brush' && (
+        <div>
+          <label htmlFor="brush-size" className="flex justify-between text-sm font-medium text-slate-500"><span>Tamanho do Pincel</span><span className="font-mono">{brushSize}px</span></label>
+          <input id="brush-size" type="range" min="5" max={maxBrushSize} value={brushSize} onChange={e => onBrushSizeChange(Number(e.target.value))} className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer" />
+        </div>
+      )}
+
+      {mode === 'wand' && (
+        <div className="space-y-2">
+          <label htmlFor="wand-tolerance" className="flex justify-between text-sm font-medium text-slate-500"><span>Tolerância</span><span className="font-mono">{wandTolerance}</span></label>
+          <input id="wand-tolerance" type="range" min="0" max="128" value={wandTolerance} onChange={e => onWandToleranceChange(Number(e.target.value))} className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer" />
+          <label className="flex items-center gap-2 text-sm text-slate-600">
+            <input type="checkbox" checked={wandContiguous} onChange={e => onWandContiguousChange(e.target.checked)} className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500" />
+            Somente áreas conectadas
+          </label>
+        </div>
+      )}
+
+      <div className="flex items-center gap-2">
+        <button onClick={() => onSubtractingChange(false)} className={toggleClass(!isSubtracting)}>
+          <BrushIcon className="w-5 h-5" /> {mode === 'brush' ? 'Pincel' : 'Adicionar'}
+        </button>
+        <button onClick={() => onSubtractingChange(true)} className={toggleClass(isSubtracting)}>
+          <EraserIcon className="w-5 h-5" /> {mode === 'brush' ? 'Borracha' : 'Remover'}
+        </button>
+        <button onClick={onClear} className="p-2 bg-white hover:bg-slate-200 text-slate-600 rounded-md border border-slate-300" aria-label="Limpar máscara">
+          <TrashIcon className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="space-y-2 border-t border-slate-200 pt-3">
+        <label htmlFor="mask-radius" className="flex justify-between text-sm font-medium text-slate-500"><span>Raio das Operações</span><span className="font-mono">{operationRadius}px</span></label>
+        <input id="mask-radius" type="range" min="1" max="100" value={operationRadius} onChange={e => onOperationRadiusChange(Number(e.target.value))} className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer" />
+        <div className="grid grid-cols-4 gap-1">
+          <button onClick={onInvert} className={operationClass}>Inverter</button>
+          <button onClick={() => onGrow(operationRadius)} disabled={!hasMask} className={operationClass}>Expandir</button>
+          <button onClick={() => onGrow(-operationRadius)} disabled={!hasMask} className={operationClass}>Contrair</button>
+          <button onClick={() => onFeather(operationRadius)} disabled={!hasMask} className={operationClass}>Suavizar</button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,222 @@
+import React, { useRef, useState } from 'react';
+import { EXPORT_PROFILES, PRESET_MASK_STRATEGIES, type EnhancementPreset, type PresetIcon } from '../constants';
+import { createPresetId, parsePresetFile, serializePresets } from '../services/presetStore';
+import { DEFAULT_ADJUSTMENTS, type ImageAdjustments } from '../utils/adjustments';
+import { AdjustmentsIcon, ChevronDownIcon, ChevronUpIcon, CopyIcon, DownloadIcon, EditIcon, EraserIcon, PhotoIcon, ShadowIcon, SparklesIcon, TrashIcon, UploadIcon } from './Icons';
+
+export const PRESET_ICONS: Record<PresetIcon, React.FC<{ className?: string }>> = {
+  sparkles: SparklesIcon,
+  eraser: EraserIcon,
+  photo: PhotoIcon,
+  shadow: ShadowIcon,
+  adjustments: AdjustmentsIcon,
+};
+
+const ADJUSTMENT_FIELDS: { id: keyof ImageAdjustments; name: string; min: number; max: number; unit: string }[] = [
+  { id: 'brightness', name: 'Brilho', min: 0, max: 200, unit: '%' },
+  { id: 'contrast', name: 'Contraste', min: 0, max: 200, unit: '%' },
+  { id: 'saturate', name: 'Saturação', min: 0, max: 200, unit: '%' },
+  { id: 'hue', name: 'Tonalidade', min: -180, max: 180, unit: '°' },
+];
+
+interface PresetLibraryPanelProps {
+  presets: EnhancementPreset[];
+  // Adjustments of the active image, offered as the starting point of a preset.
+  currentAdjustments: ImageAdjustments | null;
+  onChange: (presets: EnhancementPreset[]) => void;
+  onRestoreDefaults: () => void;
+  onClose: () => void;
+}
+
+const createEmptyPreset = (): EnhancementPreset => ({
+  id: createPresetId(),
+  name: '',
+  prompt: '',
+  icon: 'sparkles',
+  maskStrategy: 'none',
+  adjustments: null,
+  exportProfileId: null,
+});
+
+const iconButtonClass = 'p-1.5 rounded-md text-slate-500 hover:bg-slate-200 hover:text-slate-700 disabled:opacity-30 disabled:hover:bg-transparent';
+
+export default function PresetLibraryPanel({ presets, currentAdjustments, onChange, onRestoreDefaults, onClose }: PresetLibraryPanelProps) {
+  const [draft, setDraft] = useState<EnhancementPreset | null>(null);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const isNewDraft = !!draft && !presets.some(p => p.id === draft.id);
+
+  const move = (index: number, offset: number) => {
+    const next = [...presets];
+    const [preset] = next.splice(index, 1);
+    next.splice(index + offset, 0, preset);
+    onChange(next);
+  };
+
+  const duplicate = (index: number) => {
+    const copy = { ...presets[index], id: createPresetId(), name: `${presets[index].name} (cópia)` };
+    onChange([...presets.slice(0, index + 1), copy, ...presets.slice(index + 1)]);
+  };
+
+  const remove = (preset: EnhancementPreset) => {
+    if (!window.confirm(`Excluir a predefinição "${preset.name}"?`)) return;
+    onChange(presets.filter(p => p.id !== preset.id));
+  };
+
+  const saveDraft = () => {
+    if (!draft) return;
+    const preset = { ...draft, name: draft.name.trim(), prompt: draft.prompt.trim() };
+    onChange(isNewDraft ? [...presets, preset] : presets.map(p => p.id === preset.id ? preset : p));
+    setDraft(null);
+  };
+
+  const handleExport = () => {
+    const url = URL.createObjectURL(new Blob([serializePresets(presets)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'predefinicoes.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parsePresetFile(await file.text());
+      // Presets already in the library are updated in place; new ones go to the end.
+      const importedById = new Map(imported.map(p => [p.id, p]));
+      const updated = presets.map(p => importedById.get(p.id) ?? p);
+      const added = imported.filter(p => !presets.some(existing => existing.id === p.id));
+      onChange([...updated, ...added]);
+      setMessage({ text: `${imported.length} predefinição(ões) importada(s).`, isError: false });
+    } catch (err) {
+      setMessage({ text: err instanceof Error ? err.message : 'Não foi possível importar o arquivo.', isError: true });
+    }
+  };
+
+  if (draft) {
+    const canSave = !!draft.name.trim() && !!draft.prompt.trim();
+    return (
+      <div className="space-y-3">
+        <p className="font-medium text-slate-700">{isNewDraft ? 'Nova Predefinição' : 'Editar Predefinição'}</p>
+        <label className="block text-sm font-medium text-slate-600 space-y-1">
+          <span>Nome</span>
+          <input value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} className="w-full p-2 border border-slate-300 rounded-md bg-white text-slate-800 text-sm" />
+        </label>
+        <div>
+          <span className="text-sm font-medium text-slate-600">Ícone</span>
+          <div className="flex gap-1 mt-1">
+            {(Object.keys(PRESET_ICONS) as PresetIcon[]).map(icon => {
+              const Icon = PRESET_ICONS[icon];
+              return (
+                <button key={icon} onClick={() => setDraft({ ...draft, icon })} className={`p-2 rounded-md transition-colors ${draft.icon === icon ? 'bg-indigo-100 text-indigo-700' : 'text-slate-500 hover:bg-slate-200'}`} aria-label={icon}>
+                  <Icon className="w-5 h-5" />
+                </button>
+              );
+            })}
+          </div>
+        </div>
+        <label className="block text-sm font-medium text-slate-600 space-y-1">
+          <span>Comando para a IA</span>
+          <textarea value={draft.prompt} onChange={e => setDraft({ ...draft, prompt: e.target.value })} rows={4} className="w-full p-2 border border-slate-300 rounded-md bg-white text-slate-800 text-sm" />
+        </label>
+        <label className="block text-sm font-medium text-slate-600 space-y-1">
+          <span>Área editada</span>
+          <select value={draft.maskStrategy} onChange={e => setDraft({ ...draft, maskStrategy: e.target.value as EnhancementPreset['maskStrategy'] })} className="w-full p-2 border border-slate-300 rounded-md bg-white text-slate-800 text-sm">
+            {PRESET_MASK_STRATEGIES.map(strategy => <option key={strategy.id} value={strategy.id}>{strategy.name}</option>)}
+          </select>
+        </label>
+        <label className="block text-sm font-medium text-slate-600 space-y-1">
+          <span>Perfil de exportação</span>
+          <select value={draft.exportProfileId ?? ''} onChange={e => setDraft({ ...draft, exportProfileId: e.target.value || null })} className="w-full p-2 border border-slate-300 rounded-md bg-white text-slate-800 text-sm">
+            <option value="">Manter o da imagem</option>
+            {EXPORT_PROFILES.map(profile => <option key={profile.id} value={profile.id}>{profile.name}</option>)}
+          </select>
+        </label>
+
+        <div className="bg-slate-50 p-3 rounded-lg space-y-2">
+          <label className="flex items-center gap-2 text-sm font-medium text-slate-600">
+            <input
+              type="checkbox"
+              checked={!!draft.adjustments}
+              onChange={e => setDraft({ ...draft, adjustments: e.target.checked ? { ...(currentAdjustments ?? DEFAULT_ADJUSTMENTS) } : null })}
+              className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+            />
+            Aplicar ajustes de cor
+          </label>
+          {draft.adjustments && ADJUSTMENT_FIELDS.map(field => (
+            <div key={field.id}>
+              <label htmlFor={`preset-${field.id}`} className="flex justify-between text-xs font-medium text-slate-500"><span>{field.name}</span><span className="font-mono">{draft.adjustments![field.id]}{field.unit}</span></label>
+              <input
+                id={`preset-${field.id}`}
+                type="range"
+                min={field.min}
+                max={field.max}
+                value={draft.adjustments![field.id]}
+                onChange={e => setDraft({ ...draft, adjustments: { ...draft.adjustments!, [field.id]: Number(e.target.value) } })}
+                className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer"
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <button onClick={() => setDraft(null)} className="py-2 px-3 text-sm font-semibold rounded-lg bg-slate-200 text-slate-800 hover:bg-slate-300">Cancelar</button>
+          <button onClick={saveDraft} disabled={!canSave} className="py-2 px-3 text-sm font-semibold rounded-lg bg-indigo-600 text-white hover:bg-indigo-700 disabled:bg-slate-400">Salvar</button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="font-medium text-slate-700">Biblioteca de Predefinições</p>
+        <button onClick={onClose} className="text-xs font-semibold text-indigo-600 hover:text-indigo-800">Concluir</button>
+      </div>
+
+      <ul className="space-y-1">
+        {presets.map((preset, index) => {
+          const Icon = PRESET_ICONS[preset.icon];
+          return (
+            <li key={preset.id} className="flex items-center gap-2 p-2 bg-slate-50 border border-slate-200 rounded-lg">
+              <Icon className="w-5 h-5 text-indigo-500 flex-shrink-0" />
+              <span className="flex-1 text-sm font-medium text-slate-700 truncate">{preset.name}</span>
+              <button onClick={() => move(index, -1)} disabled={index === 0} className={iconButtonClass} aria-label="Mover para cima"><ChevronUpIcon className="w-4 h-4" /></button>
+              <button onClick={() => move(index, 1)} disabled={index === presets.length - 1} className={iconButtonClass} aria-label="Mover para baixo"><ChevronDownIcon className="w-4 h-4" /></button>
+              <button onClick={() => setDraft(preset)} className={iconButtonClass} aria-label="Editar"><EditIcon className="w-4 h-4" /></button>
+              <button onClick={() => duplicate(index)} className={iconButtonClass} aria-label="Duplicar"><CopyIcon className="w-4 h-4" /></button>
+              <button onClick={() => remove(preset)} className={iconButtonClass} aria-label="Excluir"><TrashIcon className="w-4 h-4" /></button>
+            </li>
+          );
+        })}
+        {presets.length === 0 && <li className="text-sm text-slate-500 text-center py-2">Nenhuma predefinição.</li>}
+      </ul>
+
+      <button onClick={() => setDraft(createEmptyPreset())} className="w-full py-2 px-3 text-sm font-semibold rounded-lg bg-indigo-600 text-white hover:bg-indigo-700">
+        Nova Predefinição
+      </button>
+
+      <div className="grid grid-cols-2 gap-2">
+        <button onClick={() => fileInputRef.current?.click()} className="flex items-center justify-center gap-1 py-2 px-3 text-sm font-semibold rounded-lg bg-white hover:bg-slate-200 text-slate-700 border border-slate-300">
+          <UploadIcon className="w-4 h-4" /> Importar
+        </button>
+        <button onClick={handleExport} disabled={presets.length === 0} className="flex items-center justify-center gap-1 py-2 px-3 text-sm font-semibold rounded-lg bg-white hover:bg-slate-200 text-slate-700 border border-slate-300 disabled:opacity-50">
+          <DownloadIcon className="w-4 h-4" /> Exportar
+        </button>
+      </div>
+      <input type="file" ref={fileInputRef} onChange={handleImport} className="hidden" accept="application/json,.json" />
+      {message && <p className={`text-xs ${message.isError ? 'text-red-600' : 'text-green-700'}`}>{message.text}</p>}
+
+      <button
+        onClick={() => window.confirm('Substituir a biblioteca pelas predefinições padrão da equipe?') && onRestoreDefaults()}
+        className="w-full text-xs font-semibold text-slate-500 hover:text-slate-700"
+      >
+        Restaurar padrões
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+import React from 'react';
+import { type ProjectSummary } from '../services/projectStore';
+import { EditIcon, PhotoIcon, TrashIcon } from './Icons';
+
+interface ProjectListProps {
+  projects: ProjectSummary[];
+  onOpen: (projectId: string) => void;
+  onDelete: (projectId: string) => void;
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' });
+
+export default function ProjectList({ projects, onOpen, onDelete }: ProjectListProps) {
+  if (projects.length === 0) {
+    return <p className="text-sm text-slate-500">Nenhum projeto salvo para este produto.</p>;
+  }
+
+  return (
+    <ul className="divide-y divide-slate-200 border border-slate-200 rounded-lg overflow-hidden">
+      {projects.map(project => (
+        <li key={project.id} className="flex items-center gap-3 p-2 bg-white">
+          {project.thumbnail ? (
+            <img src={project.thumbnail} alt="" className="w-12 h-12 rounded-md object-cover border border-slate-200" />
+          ) : (
+            <div className="w-12 h-12 rounded-md bg-slate-100 flex items-center justify-center">
+              <PhotoIcon className="w-6 h-6 text-slate-400" />
+            </div>
+          )}
+          <div className="flex-1 min-w-0">
+            <p className="text-sm font-semibold text-slate-700 truncate">{project.name}</p>
+            <p className="text-xs text-slate-500">
+              {project.imageCount} {project.imageCount === 1 ? 'imagem' : 'imagens'} · alterado em {formatDate(project.updatedAt)}
+            </p>
+          </div>
+          <button onClick={() => onOpen(project.id)} className="flex items-center gap-1 py-1.5 px-3 text-xs font-semibold rounded-lg bg-indigo-100 text-indigo-700 hover:bg-indigo-200 transition-colors">
+            <EditIcon className="w-4 h-4" />
+            Abrir
+          </button>
+          <button onClick={() => onDelete(project.id)} className="p-1.5 text-slate-400 hover:text-red-600" aria-label="Excluir projeto">
+            <TrashIcon className="w-4 h-4" />
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,204 @@
+import React, { useState } from 'react';
+import { describeRecipeStep, getStepOutcomeKey, type Recipe, type RecipeRun, type RecipeStep, type RecipeStepOutcome } from '../utils/recipes';
+import { TrashIcon, XIcon } from './Icons';
+
+export type RecipeScope = 'current' | 'all';
+
+export interface RecipeRunOptions {
+  reviewEachStep: boolean;
+  skipFailedSteps: boolean;
+}
+
+interface RecipePanelProps {
+  recipes: Recipe[];
+  // Steps recorded so far, or null when not recording.
+  recordingSteps: RecipeStep[] | null;
+  run: RecipeRun | null;
+  imageCount: number;
+  hasActiveImage: boolean;
+  onStartRecording: () => void;
+  onRemoveRecordedStep: (index: number) => void;
+  onSaveRecording: (name: string) => void;
+  onDiscardRecording: () => void;
+  onDeleteRecipe: (id: string) => void;
+  onRun: (recipe: Recipe, scope: RecipeScope, options: RecipeRunOptions) => void;
+  onContinue: () => void;
+  onRetryStep: () => void;
+  onSkipStep: () => void;
+  onCancelRun: () => void;
+  onCloseRun: () => void;
+}
+
+const OUTCOME_LABELS: Record<RecipeStepOutcome, { label: string; className: string }> = {
+  done: { label: 'Concluída', className: 'bg-green-100 text-green-700' },
+  skipped: { label: 'Pulada', className: 'bg-slate-200 text-slate-500' },
+  failed: { label: 'Falhou', className: 'bg-red-100 text-red-700' },
+};
+
+const secondaryButtonClass = 'py-2 px-3 text-sm font-semibold rounded-lg bg-white hover:bg-slate-200 text-slate-700 border border-slate-300 disabled:opacity-50';
+
+function RecipeRunView({ run, onContinue, onRetryStep, onSkipStep, onCancelRun, onCloseRun }: Pick<RecipePanelProps, 'onContinue' | 'onRetryStep' | 'onSkipStep' | 'onCancelRun' | 'onCloseRun'> & { run: RecipeRun }) {
+  const isDone = run.status === 'done';
+  const imageIndex = Math.min(run.imageIndex, run.imageIds.length - 1);
+  const imageId = run.imageIds[imageIndex];
+  const outcomes = Object.values(run.outcomes);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between text-sm">
+        <span className="font-semibold text-slate-700">{run.recipe.name}</span>
+        {run.imageIds.length > 1 && <span className="text-slate-500 font-mono text-xs">Imagem {imageIndex + 1}/{run.imageIds.length}</span>}
+      </div>
+
+      <ol className="space-y-1">
+        {run.recipe.steps.map((step, index) => {
+          const outcome = run.outcomes[getStepOutcomeKey(imageId, index)];
+          const isCurrent = !isDone && index === run.stepIndex;
+          return (
+            <li key={index} className={`flex items-center gap-2 p-2 rounded-md text-sm ${isCurrent ? 'bg-indigo-50 border border-indigo-200' : 'bg-slate-50'}`}>
+              <span className="text-xs font-mono text-slate-400">{index + 1}.</span>
+              <span className="flex-1 text-slate-700 truncate">{describeRecipeStep(step)}</span>
+              {outcome && <span className={`text-[10px] font-semibold px-1.5 py-0.5 rounded ${OUTCOME_LABELS[outcome].className}`}>{OUTCOME_LABELS[outcome].label}</span>}
+              {isCurrent && run.status === 'running' && <span className="text-[10px] font-semibold px-1.5 py-0.5 rounded bg-indigo-100 text-indigo-700">Processando</span>}
+            </li>
+          );
+        })}
+      </ol>
+
+      {run.status === 'failed' && (
+        <div className="space-y-2">
+          <p className="text-xs text-red-600">A etapa {run.stepIndex + 1} falhou: {run.error}</p>
+          <div className="grid grid-cols-2 gap-2">
+            <button onClick={onRetryStep} className={secondaryButtonClass}>Tentar Novamente</button>
+            <button onClick={onSkipStep} className={secondaryButtonClass}>Pular Etapa</button>
+          </div>
+        </div>
+      )}
+
+      {run.status === 'review' && (
+        <div className="space-y-2">
+          <p className="text-xs text-slate-500">Confira o resultado na imagem antes de seguir.</p>
+          <div className="grid grid-cols-2 gap-2">
+            <button onClick={onSkipStep} className={secondaryButtonClass}>Pular Próxima</button>
+            <button onClick={onContinue} className="py-2 px-3 text-sm font-semibold rounded-lg bg-indigo-600 text-white hover:bg-indigo-700">Próxima Etapa</button>
+          </div>
+        </div>
+      )}
+
+      {isDone ? (
+        <>
+          <p className="text-xs text-slate-500">
+            {outcomes.filter(o => o === 'done').length} etapa(s) aplicada(s), {outcomes.filter(o => o !== 'done').length} pulada(s). Desfaça com um único passo no histórico.
+          </p>
+          <button onClick={onCloseRun} className="w-full py-2 px-3 text-sm font-semibold rounded-lg bg-indigo-600 text-white hover:bg-indigo-700">Fechar</button>
+        </>
+      ) : (
+        <button onClick={onCancelRun} className="w-full py-2 px-3 text-sm font-semibold rounded-lg bg-slate-200 text-slate-800 hover:bg-slate-300">
+          Cancelar e Desfazer
+        </button>
+      )}
+    </div>
+  );
+}
+
+export default function RecipePanel({
+  recipes,
+  recordingSteps,
+  run,
+  imageCount,
+  hasActiveImage,
+  onStartRecording,
+  onRemoveRecordedStep,
+  onSaveRecording,
+  onDiscardRecording,
+  onDeleteRecipe,
+  onRun,
+  onContinue,
+  onRetryStep,
+  onSkipStep,
+  onCancelRun,
+  onCloseRun,
+}: RecipePanelProps) {
+  const [name, setName] = useState('');
+  const [options, setOptions] = useState<RecipeRunOptions>({ reviewEachStep: false, skipFailedSteps: false });
+
+  if (run) {
+    return <RecipeRunView run={run} onContinue={onContinue} onRetryStep={onRetryStep} onSkipStep={onSkipStep} onCancelRun={onCancelRun} onCloseRun={onCloseRun} />;
+  }
+
+  if (recordingSteps) {
+    return (
+      <div className="space-y-3">
+        <p className="flex items-center gap-2 text-sm font-semibold text-red-600">
+          <span className="w-2 h-2 rounded-full bg-red-500 animate-pulse" /> Gravando receita
+        </p>
+        <p className="text-xs text-slate-500">
+          Use as ferramentas normalmente: aprimoramentos com predefinições, cortes, ajustes e perfis de exportação confirmados viram etapas.
+        </p>
+        <ol className="space-y-1">
+          {recordingSteps.map((step, index) => (
+            <li key={index} className="flex items-center gap-2 p-2 bg-slate-50 rounded-md text-sm">
+              <span className="text-xs font-mono text-slate-400">{index + 1}.</span>
+              <span className="flex-1 text-slate-700 truncate">{describeRecipeStep(step)}</span>
+              <button onClick={() => onRemoveRecordedStep(index)} className="p-1 text-slate-400 hover:text-red-600" aria-label="Remover etapa"><XIcon className="w-4 h-4" /></button>
+            </li>
+          ))}
+          {recordingSteps.length === 0 && <li className="text-sm text-slate-500 text-center py-2">Nenhuma etapa gravada ainda.</li>}
+        </ol>
+        <input value={name} onChange={e => setName(e.target.value)} placeholder="Nome da receita" className="w-full p-2 border border-slate-300 rounded-md bg-white text-slate-800 text-sm" />
+        <div className="grid grid-cols-2 gap-2">
+          <button onClick={onDiscardRecording} className="py-2 px-3 text-sm font-semibold rounded-lg bg-slate-200 text-slate-800 hover:bg-slate-300">Descartar</button>
+          <button
+            onClick={() => { onSaveRecording(name.trim()); setName(''); }}
+            disabled={!name.trim() || recordingSteps.length === 0}
+            className="py-2 px-3 text-sm font-semibold rounded-lg bg-indigo-600 text-white hover:bg-indigo-700 disabled:bg-slate-400"
+          >
+            Salvar Receita
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-slate-500">
+        Receitas repetem uma sequência de edições em qualquer imagem ou na galeria inteira.
+      </p>
+
+      {recipes.map(recipe => (
+        <div key={recipe.id} className="p-3 bg-slate-50 border border-slate-200 rounded-lg space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="font-semibold text-sm text-slate-700">{recipe.name}</span>
+            <button onClick={() => window.confirm(`Excluir a receita "${recipe.name}"?`) && onDeleteRecipe(recipe.id)} className="p-1 text-slate-400 hover:text-red-600" aria-label="Excluir receita">
+              <TrashIcon className="w-4 h-4" />
+            </button>
+          </div>
+          <p className="text-xs text-slate-500">{recipe.steps.map(describeRecipeStep).join(' → ')}</p>
+          <div className="grid grid-cols-2 gap-2">
+            <button onClick={() => onRun(recipe, 'current', options)} disabled={!hasActiveImage} className={secondaryButtonClass}>Nesta Imagem</button>
+            <button onClick={() => onRun(recipe, 'all', options)} disabled={imageCount === 0} className={secondaryButtonClass}>Em Todas ({imageCount})</button>
+          </div>
+        </div>
+      ))}
+      {recipes.length === 0 && <p className="text-sm text-slate-500 text-center py-2">Nenhuma receita salva.</p>}
+
+      {recipes.length > 0 && (
+        <div className="space-y-1">
+          <label className="flex items-center gap-2 text-sm text-slate-600">
+            <input type="checkbox" checked={options.reviewEachStep} onChange={e => setOptions({ ...options, reviewEachStep: e.target.checked })} className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500" />
+            Revisar cada etapa
+          </label>
+          <label className="flex items-center gap-2 text-sm text-slate-600">
+            <input type="checkbox" checked={options.skipFailedSteps} onChange={e => setOptions({ ...options, skipFailedSteps: e.target.checked })} className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500" />
+            Pular etapas com falha automaticamente
+          </label>
+        </div>
+      )}
+
+      <button onClick={onStartRecording} className="w-full flex items-center justify-center gap-2 py-2 px-3 text-sm font-semibold rounded-lg bg-red-50 text-red-700 border border-red-200 hover:bg-red-100">
+        <span className="w-2 h-2 rounded-full bg-red-500" /> Gravar Nova Receita
+      </button>
+    </div>
+  );
+}
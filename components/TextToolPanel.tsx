@@ -0,0 +1,154 @@
+import React from 'react';
+import { type TextLayer } from '../utils/layers';
+import { TEXT_FONT_FAMILIES, TEXT_FONT_WEIGHTS, type TextAlign, type TextContent } from '../utils/textLayer';
+import { TrashIcon, CopyIcon } from './Icons';
+
+interface TextToolPanelProps {
+  layers: TextLayer[];
+  selectedId: string | null;
+  onSelect: (id: string | null) => void;
+  onAdd: (overrides?: Partial<TextContent>) => void;
+  onChange: (id: string, changes: Partial<TextContent>) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+// Common marketplace badges, added with a single click.
+const QUICK_TEXTS: { label: string; overrides: Partial<TextContent> }[] = [
+  { label: 'Frete Grátis', overrides: { text: 'Frete Grátis', color: '#ffffff', strokeColor: '#16a34a', strokeWidth: 12, y: 12 } },
+  { label: '-30%', overrides: { text: '-30%', color: '#ffffff', strokeColor: '#dc2626', strokeWidth: 14, fontSize: 14, fontWeight: 900, width: 35, x: 80, y: 15 } },
+  { label: 'Novidade', overrides: { text: 'NOVIDADE', color: '#facc15', strokeColor: '#000000', strokeWidth: 8, y: 88 } },
+];
+
+const ALIGN_OPTIONS: { id: TextAlign; label: string }[] = [
+  { id: 'left', label: 'Esquerda' },
+  { id: 'center', label: 'Centro' },
+  { id: 'right', label: 'Direita' },
+];
+
+const inputClass = "w-full p-2 border border-slate-300 rounded-md bg-white text-slate-800 text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500";
+const rangeClass = "w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:bg-indigo-600 [&::-moz-range-thumb]:bg-indigo-600";
+
+export default function TextToolPanel({ layers, selectedId, onSelect, onAdd, onChange, onDuplicate, onDelete, onConfirm, onCancel }: TextToolPanelProps) {
+  const selected = layers.find(layer => layer.id === selectedId);
+  const update = (changes: Partial<TextContent>) => selected && onChange(selected.id, changes);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <button onClick={() => onAdd()} className="py-2 px-3 bg-indigo-600 text-white text-sm font-semibold rounded-lg shadow-sm hover:bg-indigo-700 transition-colors">
+          Adicionar Texto
+        </button>
+        {QUICK_TEXTS.map(quick => (
+          <button key={quick.label} onClick={() => onAdd(quick.overrides)} className="py-1.5 px-2.5 text-xs font-semibold rounded-full bg-slate-100 text-slate-700 hover:bg-indigo-50 hover:text-indigo-700 transition-colors">
+            {quick.label}
+          </button>
+        ))}
+      </div>
+
+      {layers.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {layers.map((layer, index) => (
+            <button
+              key={layer.id}
+              onClick={() => onSelect(layer.id)}
+              className={`max-w-[140px] truncate py-1 px-2 text-xs rounded-md border transition-colors ${layer.id === selectedId ? 'border-indigo-500 bg-indigo-50 text-indigo-700' : 'border-slate-300 text-slate-600 hover:border-indigo-300'}`}
+            >
+              {layer.text.trim() || `Texto ${index + 1}`}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {selected ? (
+        <div className="bg-slate-50 p-3 rounded-lg space-y-3">
+          <textarea value={selected.text} onChange={e => update({ text: e.target.value })} className={inputClass} rows={2} aria-label="Conteúdo do texto" />
+
+          <div className="grid grid-cols-2 gap-2">
+            <label className="text-xs font-medium text-slate-500 space-y-1">
+              <span>Fonte</span>
+              <select value={selected.fontFamily} onChange={e => update({ fontFamily: e.target.value })} className={inputClass}>
+                {TEXT_FONT_FAMILIES.map(font => <option key={font.name} value={font.value}>{font.name}</option>)}
+              </select>
+            </label>
+            <label className="text-xs font-medium text-slate-500 space-y-1">
+              <span>Peso</span>
+              <select value={selected.fontWeight} onChange={e => update({ fontWeight: Number(e.target.value) })} className={inputClass}>
+                {TEXT_FONT_WEIGHTS.map(weight => <option key={weight.value} value={weight.value}>{weight.name}</option>)}
+              </select>
+            </label>
+          </div>
+
+          <div>
+            <div className="flex justify-between text-xs font-medium text-slate-500">
+              <span>Tamanho</span>
+              <span className="font-mono">{selected.fontSize.toFixed(1)}</span>
+            </div>
+            <input type="range" min="1" max="30" step="0.5" value={selected.fontSize} onChange={e => update({ fontSize: Number(e.target.value) })} className={rangeClass} />
+          </div>
+
+          <div>
+            <div className="flex justify-between text-xs font-medium text-slate-500">
+              <span>Rotação</span>
+              <span className="font-mono">{selected.rotation}°</span>
+            </div>
+            <input type="range" min="-180" max="180" value={selected.rotation} onChange={e => update({ rotation: Number(e.target.value) })} className={rangeClass} />
+          </div>
+
+          <div className="flex items-center gap-1 p-1 bg-white rounded-lg border border-slate-200">
+            {ALIGN_OPTIONS.map(option => (
+              <button
+                key={option.id}
+                onClick={() => update({ align: option.id })}
+                className={`flex-1 py-1 text-xs font-semibold rounded-md transition-colors ${selected.align === option.id ? 'bg-indigo-100 text-indigo-700' : 'text-slate-600 hover:bg-slate-100'}`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-3 gap-2 items-end">
+            <label className="text-xs font-medium text-slate-500 space-y-1">
+              <span>Cor</span>
+              <input type="color" value={selected.color} onChange={e => update({ color: e.target.value })} className="w-full h-8 rounded cursor-pointer" />
+            </label>
+            <label className="text-xs font-medium text-slate-500 space-y-1">
+              <span>Contorno</span>
+              <input type="color" value={selected.strokeColor} onChange={e => update({ strokeColor: e.target.value })} className="w-full h-8 rounded cursor-pointer" />
+            </label>
+            <label className="text-xs font-medium text-slate-500 space-y-1">
+              <span>Espessura</span>
+              <input type="range" min="0" max="25" value={selected.strokeWidth} onChange={e => update({ strokeWidth: Number(e.target.value) })} className={rangeClass} />
+            </label>
+          </div>
+
+          <div>
+            <div className="flex justify-between text-xs font-medium text-slate-500">
+              <span>Sombra</span>
+              <span className="font-mono">{selected.shadowBlur}</span>
+            </div>
+            <input type="range" min="0" max="50" value={selected.shadowBlur} onChange={e => update({ shadowBlur: Number(e.target.value) })} className={rangeClass} />
+          </div>
+
+          <div className="flex items-center gap-2">
+            <button onClick={() => onDuplicate(selected.id)} className="flex-1 flex items-center justify-center gap-2 py-2 text-sm bg-white hover:bg-slate-200 text-slate-700 rounded-md border border-slate-300">
+              <CopyIcon className="w-4 h-4" /> Duplicar
+            </button>
+            <button onClick={() => onDelete(selected.id)} className="flex-1 flex items-center justify-center gap-2 py-2 text-sm bg-white hover:bg-red-50 text-red-600 rounded-md border border-slate-300">
+              <TrashIcon className="w-4 h-4" /> Remover
+            </button>
+          </div>
+        </div>
+      ) : (
+        <p className="text-xs text-slate-500">Adicione um texto ou selecione um existente para editar. Arraste na imagem para mover, use as alças para redimensionar e girar.</p>
+      )}
+
+      <div className="flex items-center gap-2 pt-2">
+        <button onClick={onCancel} className="flex-1 py-2 rounded-lg bg-slate-200 text-slate-800 font-semibold text-sm">Cancelar</button>
+        <button onClick={onConfirm} className="flex-1 py-2 px-3 bg-indigo-600 text-white font-semibold rounded-lg shadow-sm hover:bg-indigo-700 transition-colors text-sm">Confirmar Texto</button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+import React from 'react';
+import { CheckIcon, EyeIcon, SparklesIcon, XIcon } from './Icons';
+
+interface VariationChooserProps {
+  label: string;
+  options: string[];
+  selectedIndex: number;
+  isRegenerating: boolean;
+  onSelect: (index: number) => void;
+  onCompare: (showOriginal: boolean) => void;
+  onRegenerate: () => void;
+  onKeep: () => void;
+  onDiscard: () => void;
+}
+
+export default function VariationChooser({ label, options, selectedIndex, isRegenerating, onSelect, onCompare, onRegenerate, onKeep, onDiscard }: VariationChooserProps) {
+  const hasChoice = options.length > 1;
+
+  return (
+    <div className="space-y-4 pt-4 border-t border-slate-200 bg-indigo-50 p-4 rounded-lg">
+      <h3 className="font-semibold text-center text-indigo-800">{hasChoice ? 'Escolha uma Variação' : 'Revisar Aprimoramento'}</h3>
+      <p className="text-xs text-center text-indigo-700">
+        {hasChoice ? `${label}: clique em uma opção para visualizá-la na imagem.` : 'O resultado parece bom?'} Mantenha pressionado "Comparar" para ver o original.
+      </p>
+
+      {hasChoice && (
+        <div className="grid grid-cols-2 gap-2">
+          {options.map((option, index) => (
+            <button
+              key={index}
+              onClick={() => onSelect(index)}
+              disabled={isRegenerating}
+              className={`relative rounded-md overflow-hidden border-2 transition-all disabled:opacity-50 ${index === selectedIndex ? 'border-indigo-500 ring-2 ring-indigo-300' : 'border-slate-200 hover:border-indigo-300'}`}
+            >
+              <img src={option} alt={`Variação ${index + 1}`} className="w-full aspect-square object-cover bg-white" />
+              <span className="absolute bottom-1 left-1 px-1.5 py-0.5 rounded bg-black/60 text-white text-[10px] font-semibold">{index + 1}</span>
+              {index === selectedIndex && <CheckIcon className="absolute top-1 right-1 w-4 h-4 p-0.5 rounded-full bg-indigo-500 text-white" />}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center gap-2">
+        <button
+          onMouseDown={() => onCompare(true)}
+          onMouseUp={() => onCompare(false)}
+          onMouseLeave={() => onCompare(false)}
+          onTouchStart={() => onCompare(true)}
+          onTouchEnd={() => onCompare(false)}
+          className="w-full flex items-center justify-center gap-2 py-2 px-3 bg-white text-slate-700 font-semibold rounded-lg border border-slate-300 hover:bg-slate-100 transition-colors"
+          title="Segure para ver a imagem original"
+        >
+          <EyeIcon className="w-5 h-5" />
+          Comparar
+        </button>
+        <button
+          onClick={onRegenerate}
+          disabled={isRegenerating}
+          className="w-full flex items-center justify-center gap-2 py-2 px-3 bg-white text-indigo-700 font-semibold rounded-lg border border-slate-300 hover:bg-indigo-100 transition-colors disabled:opacity-60 disabled:cursor-not-allowed"
+        >
+          <SparklesIcon className={`w-5 h-5 ${isRegenerating ? 'animate-pulse' : ''}`} />
+          {isRegenerating ? 'Gerando...' : 'Gerar Novamente'}
+        </button>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <button
+          onClick={onDiscard}
+          disabled={isRegenerating}
+          className="w-full flex items-center justify-center gap-2 py-2 px-3 bg-white text-red-600 font-semibold rounded-lg border border-slate-300 hover:bg-red-50 hover:border-red-300 transition-colors disabled:opacity-60"
+        >
+          <XIcon className="w-5 h-5" />
+          Descartar
+        </button>
+        <button
+          onClick={onKeep}
+          disabled={isRegenerating}
+          className="w-full flex items-center justify-center gap-2 py-2 px-3 bg-green-600 text-white font-semibold rounded-lg shadow-sm hover:bg-green-700 transition-colors disabled:bg-slate-400"
+        >
+          <CheckIcon className="w-5 h-5" />
+          {hasChoice ? 'Manter Esta' : 'Confirmar'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 import React from 'react';
+import { type ImageAdjustments } from './utils/adjustments';
 
 export interface AspectRatio {
   name: string;
@@ -44,4 +45,140 @@ export const ASPECT_RATIOS: AspectRatio[] = [
   { name: 'Story', ratio: 9 / 16, icon: <StoryIcon /> },
   { name: 'Paisagem', ratio: 16 / 9, icon: <LandscapeIcon /> },
   { name: 'Clássico', ratio: 4 / 3, icon: <ClassicIcon /> },
-];
\ No newline at end of file
+];
+
+export type ExportFormat = 'image/png' | 'image/jpeg' | 'image/webp' | 'image/avif';
+
+export const EXPORT_FORMATS: { id: ExportFormat; name: string; lossy: boolean }[] = [
+  { id: 'image/png', name: 'PNG', lossy: false },
+  { id: 'image/jpeg', name: 'JPEG', lossy: true },
+  { id: 'image/webp', name: 'WebP', lossy: true },
+  { id: 'image/avif', name: 'AVIF', lossy: true },
+];
+
+/**
+ * Where an image is going to be published and the rules that destination enforces.
+ * Pixel sizes refer to the longest side of the exported image.
+ */
+export interface ExportProfile {
+  id: string;
+  name: string;
+  // null keeps whatever crop the user chose.
+  aspectRatio: AspectRatio | null;
+  minSize: number;
+  maxSize: number;
+  // Default format; the user may pick any of `acceptedFormats`.
+  format: ExportFormat;
+  acceptedFormats: ExportFormat[];
+  maxFileSizeKB: number | null;
+  requireWhiteBackground: boolean;
+  // Largest share of the frame, in percent, the product may cover on its widest side.
+  maxProductFill: number | null;
+}
+
+export const DEFAULT_EXPORT_PROFILE_ID = 'padrao';
+
+export const EXPORT_PROFILES: ExportProfile[] = [
+  { id: DEFAULT_EXPORT_PROFILE_ID, name: 'Padrão', aspectRatio: null, minSize: 1080, maxSize: 1080, format: 'image/png', acceptedFormats: ['image/png', 'image/jpeg', 'image/webp', 'image/avif'], maxFileSizeKB: null, requireWhiteBackground: false, maxProductFill: null },
+  { id: 'mercado-livre', name: 'Mercado Livre', aspectRatio: ASPECT_RATIOS[0], minSize: 500, maxSize: 1920, format: 'image/jpeg', acceptedFormats: ['image/jpeg', 'image/png'], maxFileSizeKB: 10240, requireWhiteBackground: true, maxProductFill: 95 },
+  { id: 'shopee', name: 'Shopee', aspectRatio: ASPECT_RATIOS[0], minSize: 500, maxSize: 1024, format: 'image/jpeg', acceptedFormats: ['image/jpeg', 'image/png'], maxFileSizeKB: 2048, requireWhiteBackground: false, maxProductFill: null },
+  { id: 'amazon', name: 'Amazon', aspectRatio: ASPECT_RATIOS[0], minSize: 1000, maxSize: 2000, format: 'image/jpeg', acceptedFormats: ['image/jpeg', 'image/png'], maxFileSizeKB: 10240, requireWhiteBackground: true, maxProductFill: 95 },
+  { id: 'magalu', name: 'Magalu', aspectRatio: ASPECT_RATIOS[0], minSize: 800, maxSize: 1800, format: 'image/jpeg', acceptedFormats: ['image/jpeg', 'image/png'], maxFileSizeKB: 5120, requireWhiteBackground: true, maxProductFill: 90 },
+  { id: 'instagram', name: 'Instagram', aspectRatio: ASPECT_RATIOS[1], minSize: 1080, maxSize: 1350, format: 'image/jpeg', acceptedFormats: ['image/jpeg', 'image/png'], maxFileSizeKB: 8192, requireWhiteBackground: false, maxProductFill: null },
+];
+
+/**
+ * How an image is encoded. Starts from the profile defaults and can be tuned per image.
+ */
+export interface ExportSettings {
+  format: ExportFormat;
+  quality: number; // 1-100, ignored by lossless formats
+  // When set, lossy formats lower the quality as needed to stay under this size.
+  maxFileSizeKB: number | null;
+}
+
+export const DEFAULT_EXPORT_QUALITY = 92;
+
+export const getDefaultExportSettings = (profile: ExportProfile): ExportSettings => ({
+  format: profile.format,
+  quality: DEFAULT_EXPORT_QUALITY,
+  maxFileSizeKB: profile.maxFileSizeKB,
+});
+
+export const getExportProfile = (id: string | undefined): ExportProfile =>
+  EXPORT_PROFILES.find(profile => profile.id === id) ?? EXPORT_PROFILES[0];
+
+// Which part of the image a preset edits. Auto-detected masks come from utils/backgroundRemoval.
+export type PresetMaskStrategy = 'none' | 'painted' | 'product' | 'background';
+
+export const PRESET_MASK_STRATEGIES: { id: PresetMaskStrategy; name: string }[] = [
+  { id: 'none', name: 'Imagem inteira' },
+  { id: 'painted', name: 'Máscara pintada' },
+  { id: 'product', name: 'Produto (detecção automática)' },
+  { id: 'background', name: 'Fundo (detecção automática)' },
+];
+
+export type PresetIcon = 'sparkles' | 'eraser' | 'photo' | 'shadow' | 'adjustments';
+
+/**
+ * A reusable AI enhancement. Besides the prompt, a preset may set the image adjustments and
+ * the export profile once its result is kept.
+ */
+export interface EnhancementPreset {
+  id: string;
+  name: string;
+  prompt: string;
+  icon: PresetIcon;
+  maskStrategy: PresetMaskStrategy;
+  // null leaves the image's current setting untouched.
+  adjustments: ImageAdjustments | null;
+  exportProfileId: string | null;
+}
+
+export const DEFAULT_ENHANCEMENT_PRESETS: EnhancementPreset[] = [
+  {
+    id: 'aprimoramento-geral',
+    name: 'Aprimoramento Geral',
+    prompt: 'Aprimore esta imagem para que tenha aparência profissional e realista. Melhore o equilíbrio de contraste e brilho, a nitidez e a vivacidade das cores, mantendo a naturalidade.',
+    icon: 'sparkles',
+    maskStrategy: 'none',
+    adjustments: null,
+    exportProfileId: null,
+  },
+  {
+    id: 'remover-fundo',
+    name: 'Remover Fundo',
+    prompt: 'Remova o fundo desta imagem de forma precisa, deixando apenas o objeto principal com um fundo transparente.',
+    icon: 'eraser',
+    maskStrategy: 'none',
+    adjustments: null,
+    exportProfileId: null,
+  },
+  {
+    id: 'fundo-branco',
+    name: 'Fundo Branco',
+    prompt: 'Remova o fundo da imagem e substitua-o por um fundo branco puro, de estúdio, ideal para marketplaces.',
+    icon: 'photo',
+    maskStrategy: 'none',
+    adjustments: null,
+    exportProfileId: null,
+  },
+  {
+    id: 'sombra-realista',
+    name: 'Sombra Realista',
+    prompt: 'Adicione uma sombra suave e realista ao objeto principal para dar profundidade e destacá-lo do fundo. A sombra deve parecer natural, como se o objeto estivesse sobre uma superfície.',
+    icon: 'shadow',
+    maskStrategy: 'none',
+    adjustments: null,
+    exportProfileId: null,
+  },
+  {
+    id: 'cores-vibrantes',
+    name: 'Cores Vibrantes',
+    prompt: 'Ajuste as cores da imagem para torná-las mais vibrantes e atraentes, sem parecerem supersaturadas ou artificiais. O objetivo é fazer o produto parecer mais apetecível.',
+    icon: 'adjustments',
+    maskStrategy: 'none',
+    adjustments: null,
+    exportProfileId: null,
+  },
+];
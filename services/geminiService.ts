@@ -1,185 +1,129 @@
-import { GoogleGenAI, Modality } from "@google/genai";
+import { createImageEditProvider, type ImageEditProvider, type ImageEditResult, type ProductImage } from './providers';
+import type { MarketplaceProfile } from '../utils/marketplaces';
+import { findDroppedGlossaryTerms, normalizeGlossary, protectGlossaryTerms, restoreGlossaryTerms } from '../utils/glossary';
+import type { ListingLanguage, ProductListing } from '../utils/productListing';
 
-// FIX: Initialize GoogleGenAI client strictly with process.env.API_KEY as per guidelines.
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// The active backend is chosen once at startup from IMAGE_EDIT_PROVIDER (see vite.config.ts).
+let activeProvider: ImageEditProvider = createImageEditProvider(process.env.IMAGE_EDIT_PROVIDER);
+
+export function getImageEditProvider(): ImageEditProvider {
+    return activeProvider;
+}
 
 /**
- * Extracts raw base64 data from a data URL string.
- * If the string is not a data URL, it's returned as is.
- * @param dataUrl The base64 string, possibly with a data URL prefix.
- * @returns The raw base64 data.
+ * Replaces the active provider, e.g. with a mock in tests or an alternative vendor adapter.
  */
-const getRawBase64 = (dataUrl: string): string => {
-    const parts = dataUrl.split(',');
-    return parts.length > 1 ? parts[1] : dataUrl;
-};
-
+export function setImageEditProvider(provider: ImageEditProvider): void {
+    activeProvider = provider;
+}
 
 export async function editImageWithPrompt(
     base64Image: string,
     mimeType: string,
     prompt: string,
     maskBase64?: string | null
-): Promise<string> {
-    try {
-        // The order of parts is critical for mask-based editing (inpainting).
-        // The most reliable order is [image, mask, prompt].
-        const parts: any[] = [];
-
-        // 1. Add the main image first.
-        const imagePart = {
-            inlineData: {
-                data: getRawBase64(base64Image),
-                mimeType: mimeType,
-            },
-        };
-        parts.push(imagePart);
-        
-        // 2. Add the mask second, if it exists.
-        if (maskBase64) {
-            const maskPart = {
-                inlineData: {
-                    data: getRawBase64(maskBase64),
-                    mimeType: 'image/png', // Masks should be PNG to support transparency
-                },
-            };
-            parts.push(maskPart);
-        }
-        
-        // 3. Add the text prompt last.
-        // When a mask is used, sending the user's prompt directly is more effective.
-        // When no mask is present, wrap the prompt with context to mitigate safety flags and improve clarity.
-        const instructionalPrompt = !maskBase64
-            ? `Edite esta imagem de produto para um e-commerce. A tarefa é: '${prompt}'. A edição deve ser profissional e adequada para um site de vendas.`
-            : prompt;
-
-        const textPart = {
-            text: instructionalPrompt,
-        };
-        parts.push(textPart);
-
-
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash-image',
-            // FIX: Wrap the content object in an array. Multi-modal models often expect `contents` as an array of turns.
-            contents: [{
-                parts: parts,
-            }],
-            config: {
-                responseModalities: [Modality.IMAGE],
-            },
-        });
-
-        const firstCandidate = response.candidates?.[0];
-        
-        if (!firstCandidate || !firstCandidate.content?.parts) {
-            let errorMessage = "A resposta da IA não contém conteúdo. A solicitação pode ter sido bloqueada.";
-            if (firstCandidate?.finishReason === 'SAFETY') {
-                errorMessage = "A geração de imagem foi bloqueada por motivos de segurança. Por favor, ajuste seu prompt.";
-            } else if (firstCandidate?.finishReason && firstCandidate.finishReason !== 'STOP') {
-                errorMessage = `A geração de imagem falhou. Motivo: ${firstCandidate.finishReason}.`;
-            }
-            throw new Error(errorMessage);
-        }
-
-        const imageResponsePart = firstCandidate.content.parts.find(part => part.inlineData);
-
-        if (imageResponsePart?.inlineData) {
-            return imageResponsePart.inlineData.data;
-        } else {
-            const textResponse = firstCandidate.content.parts.find(part => part.text)?.text;
-            if(textResponse) {
-                throw new Error(`A IA retornou um texto em vez de uma imagem: "${textResponse}"`);
-            }
-            throw new Error("Nenhum dado de imagem encontrado na resposta da IA.");
-        }
-
-    } catch (error) {
-        console.error("Error calling Gemini API:", error);
-        if (error instanceof Error) {
-             // Include the specific API reason in the thrown error message if available
-            if (error.message.includes('A geração de imagem falhou.')) {
-                 throw error;
-            }
-            throw new Error(`Erro ao chamar a API de IA: ${error.message}`);
-        }
-        throw new Error("Ocorreu um erro desconhecido ao se comunicar com a IA.");
-    }
+): Promise<ImageEditResult> {
+    return activeProvider.edit({ base64Image, mimeType, prompt, maskBase64 });
 }
 
-const getToneInstruction = (formality: string): string => {
-    switch (formality) {
-        case 'descontraido':
-            return "Use um tom de voz alegre e descontraído, ideal para redes sociais.";
-        case 'formal':
-            return "Use um tom de voz formal e técnico, focado em especificações.";
-        case 'profissional':
-        default:
-            return "Use um tom de voz vendedor e profissional, equilibrado e direto.";
+/**
+ * Requests `count` alternative results for the same edit, each with its own random seed.
+ * Resolves with the variations that succeeded and only fails if every request failed.
+ */
+export async function editImageVariations(
+    base64Image: string,
+    mimeType: string,
+    prompt: string,
+    count: number,
+    maskBase64?: string | null
+): Promise<ImageEditResult[]> {
+    const results = await Promise.allSettled(
+        Array.from({ length: count }, () => activeProvider.edit({
+            base64Image,
+            mimeType,
+            prompt,
+            maskBase64,
+            seed: Math.floor(Math.random() * 2 ** 31),
+        }))
+    );
+    const variations = results
+        .filter((r): r is PromiseFulfilledResult<ImageEditResult> => r.status === 'fulfilled')
+        .map(r => r.value);
+    if (variations.length === 0) {
+        throw (results[0] as PromiseRejectedResult).reason;
     }
-};
-
-export async function generateProductDescription(base64Image: string, mimeType: string, userProductInfo: string, formality: string): Promise<string> {
-    try {
-        const imagePart = {
-            inlineData: {
-                data: getRawBase64(base64Image),
-                mimeType: mimeType,
-            },
-        };
-
-        const toneInstruction = getToneInstruction(formality);
-        let promptText = "";
+    return variations;
+}
 
-        if (userProductInfo.trim()) {
-            promptText = `Baseado na imagem e na descrição fornecida pelo usuário, crie uma descrição de produto otimizada para marketplace.
-    
-            Descrição do usuário: "${userProductInfo}"
+export interface MarketplaceListings {
+    // Listings keyed by marketplace id, for the channels that succeeded.
+    listings: Record<string, ProductListing>;
+    // Error messages keyed by marketplace id, for the channels that failed.
+    errors: Record<string, string>;
+}
 
-            Instrução de Tom: ${toneInstruction}
-            
-            Sua tarefa é expandir a descrição do usuário, incorporando detalhes visuais da imagem e usando uma linguagem vendedora e profissional. A descrição final deve ter no máximo dois parágrafos e destacar os principais benefícios e características do produto.`;
+/**
+ * Generates the listing for every channel in `marketplaces` at once, each following its own
+ * profile. Resolves with the channels that succeeded and only fails if every request failed.
+ */
+export async function generateProductDescription(
+    images: ProductImage[],
+    userProductInfo: string,
+    formality: string,
+    marketplaces: MarketplaceProfile[],
+    language: ListingLanguage,
+    glossary: string[] = []
+): Promise<MarketplaceListings> {
+    const terms = normalizeGlossary(glossary);
+    const results = await Promise.allSettled(
+        marketplaces.map(marketplace => activeProvider.describe({ images, userProductInfo, formality, marketplace, language, glossary: terms }))
+    );
+    const generated: MarketplaceListings = { listings: {}, errors: {} };
+    results.forEach((result, index) => {
+        const { id } = marketplaces[index];
+        if (result.status === 'fulfilled') {
+            generated.listings[id] = result.value;
         } else {
-            promptText = `Analise a imagem deste produto e escreva uma descrição concisa e atrativa para um marketplace.
-
-            Instrução de Tom: ${toneInstruction}
-            
-            A descrição deve ter no máximo dois parágagos e focar nos principais atributos e benefícios do produto visíveis na imagem. O tom deve ser vendedor e profissional.`;
+            generated.errors[id] = result.reason instanceof Error ? result.reason.message : String(result.reason);
         }
-
-        const textPart = {
-            text: promptText,
-        };
-
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: { parts: [imagePart, textPart] },
-        });
-
-        return response.text;
-
-    } catch (error) {
-        console.error("Erro ao chamar a API Gemini para descrição:", error);
-        throw new Error("Falha ao gerar a descrição do produto.");
+    });
+    if (Object.keys(generated.listings).length === 0) {
+        throw (results[0] as PromiseRejectedResult).reason;
     }
+    return generated;
 }
 
-export async function enhanceProductDescription(currentDescription: string): Promise<string> {
-    try {
-        const prompt = `Aprimore a seguinte descrição de produto para um marketplace. 
-        Torne-a mais vendedora, profissional e otimizada para SEO, destacando os benefícios.
-        Mantenha o tom original mas melhore a clareza e o impacto. Não adicione informações 
-        que não possam ser inferidas. A descrição deve ter no máximo dois parágrafos.\n\nDescrição Original:\n"${currentDescription}"`;
+export async function enhanceProductDescription(
+    listing: ProductListing,
+    marketplace: MarketplaceProfile,
+    language: ListingLanguage,
+    glossary: string[] = []
+): Promise<ProductListing> {
+    return activeProvider.enhance({ listing, marketplace, language, glossary: normalizeGlossary(glossary) });
+}
 
-        // FIX: For text-only prompts, pass the string directly to the 'contents' property.
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: prompt,
-        });
+export interface TranslatedListing {
+    listing: ProductListing;
+    // Glossary terms of the original that the translation lost.
+    droppedTerms: string[];
+}
 
-        return response.text;
-    } catch (error) {
-        console.error("Erro ao aprimorar descrição com API Gemini:", error);
-        throw new Error("Falha ao aprimorar a descrição do produto.");
-    }
-}
\ No newline at end of file
+/**
+ * Translates `listing` into `targetLanguage`. Glossary terms are hidden from the provider behind
+ * placeholders and restored afterwards, so they come back exactly as written in the glossary.
+ */
+export async function translateProductListing(
+    listing: ProductListing,
+    marketplace: MarketplaceProfile,
+    sourceLanguage: ListingLanguage,
+    targetLanguage: ListingLanguage,
+    glossary: string[] = []
+): Promise<TranslatedListing> {
+    const terms = normalizeGlossary(glossary);
+    const protectedListing = protectGlossaryTerms(listing, terms);
+    const translated = await activeProvider.translate({ listing: protectedListing, marketplace, sourceLanguage, targetLanguage });
+    return {
+        listing: restoreGlossaryTerms(translated, terms),
+        droppedTerms: findDroppedGlossaryTerms(protectedListing, translated, terms),
+    };
+}
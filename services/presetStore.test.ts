@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_ADJUSTMENTS, DEFAULT_LEVELS } from '../utils/adjustments';
+import { parsePresetFile, serializePresets } from './presetStore';
+
+const preset = { id: 'fundo', name: 'Fundo branco', prompt: 'Troque o fundo por branco.' };
+
+const parse = (value: unknown) => parsePresetFile(JSON.stringify(value));
+
+describe('parsePresetFile', () => {
+  it('reads the exported file and a bare list, filling in the optional fields', () => {
+    const expected = [{ ...preset, icon: 'sparkles', maskStrategy: 'none', adjustments: null, exportProfileId: null }];
+    expect(parse({ version: 1, presets: [preset] })).toEqual(expected);
+    expect(parse([preset])).toEqual(expected);
+  });
+
+  it('reads back what serializePresets writes', () => {
+    const presets = parse([{ ...preset, icon: 'eraser', maskStrategy: 'background', exportProfileId: 'amazon', adjustments: DEFAULT_ADJUSTMENTS }]);
+    expect(parsePresetFile(serializePresets(presets))).toEqual(presets);
+  });
+
+  it('trims names and prompts and drops unknown icons', () => {
+    const [parsed] = parse([{ ...preset, name: '  Fundo branco ', prompt: ' Troque. ', icon: 'foguete' }]);
+    expect(parsed).toMatchObject({ name: 'Fundo branco', prompt: 'Troque.', icon: 'sparkles' });
+  });
+
+  it('fills in the adjustments older presets lack', () => {
+    const [parsed] = parse([{ ...preset, adjustments: { brightness: 110 } }]);
+    expect(parsed.adjustments).toEqual({ ...DEFAULT_ADJUSTMENTS, brightness: 110 });
+  });
+
+  it('gives repeated ids a fresh one', () => {
+    const [first, second] = parse([preset, preset]);
+    expect(first.id).toBe('fundo');
+    expect(second.id).not.toBe('fundo');
+  });
+
+  it('rejects files that are not a preset library', () => {
+    expect(() => parsePresetFile('{')).toThrow('não é um JSON válido');
+    expect(() => parse({ presets: 'fundo' })).toThrow('não contém uma lista');
+    expect(() => parse('fundo')).toThrow('não contém uma lista');
+    expect(() => parse({ version: 2, presets: [] })).toThrow('versão mais nova');
+  });
+
+  it('names the preset and the field that is wrong', () => {
+    expect(() => parse([null])).toThrow('A predefinição 1 é inválida.');
+    expect(() => parse([preset, { ...preset, name: ' ' }])).toThrow('A predefinição 2 não tem nome.');
+    expect(() => parse([{ ...preset, prompt: '' }])).toThrow('"Fundo branco" não tem comando');
+    expect(() => parse([{ ...preset, maskStrategy: 'ceu' }])).toThrow('A máscara "ceu"');
+    expect(() => parse([{ ...preset, exportProfileId: 'ebay' }])).toThrow('O perfil de exportação "ebay"');
+  });
+
+  it('rejects adjustments of the wrong type', () => {
+    expect(() => parse([{ ...preset, adjustments: 'claro' }])).toThrow('Os ajustes da predefinição');
+    expect(() => parse([{ ...preset, adjustments: { brightness: '110' } }])).toThrow('O ajuste "brightness"');
+    expect(() => parse([{ ...preset, adjustments: { levels: { ...DEFAULT_LEVELS, gamma: 'alto' } } }])).toThrow('Os níveis');
+    expect(() => parse([{ ...preset, adjustments: { channelLevels: [] } }])).toThrow('Os níveis');
+    expect(() => parse([{ ...preset, adjustments: { curve: [[0, 0, 0]] } }])).toThrow('A curva');
+    expect(() => parse([{ ...preset, adjustments: { channelCurves: { red: [[0, 'a']] } } }])).toThrow('A curva');
+  });
+});
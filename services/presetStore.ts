@@ -0,0 +1,164 @@
+import { EXPORT_PROFILES, PRESET_MASK_STRATEGIES, type EnhancementPreset, type PresetIcon, type PresetMaskStrategy } from '../constants';
+import { COLOR_CHANNELS, DEFAULT_ADJUSTMENTS, DEFAULT_LEVELS, normalizeAdjustments, type CurvePoint, type ImageAdjustments, type Levels } from '../utils/adjustments';
+
+const STORAGE_KEY = 'editor-ia:presets';
+// Served next to index.html; lets a team ship its own default library with the build.
+const TEAM_PRESETS_URL = 'presets.json';
+const FILE_VERSION = 1;
+
+const PRESET_ICONS: PresetIcon[] = ['sparkles', 'eraser', 'photo', 'shadow', 'adjustments'];
+
+/**
+ * The file format used by import/export and by the team config file.
+ */
+export interface PresetFile {
+  version: number;
+  presets: EnhancementPreset[];
+}
+
+export const createPresetId = () => `preset-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isLevels = (value: unknown) =>
+  isObject(value) && (Object.keys(DEFAULT_LEVELS) as (keyof Levels)[]).every(key => value[key] === undefined || isNumber(value[key]));
+
+const isCurve = (value: unknown) =>
+  Array.isArray(value) && value.every(point => Array.isArray(point) && point.length === 2 && point.every(isNumber));
+
+const isPresetIcon = (value: unknown): value is PresetIcon => PRESET_ICONS.some(icon => icon === value);
+
+const isMaskStrategy = (value: unknown): value is PresetMaskStrategy =>
+  PRESET_MASK_STRATEGIES.some(strategy => strategy.id === value);
+
+type NestedAdjustment = 'levels' | 'curve' | 'channelLevels' | 'channelCurves';
+type ScalarAdjustment = Exclude<keyof ImageAdjustments, NestedAdjustment>;
+
+const NESTED_ADJUSTMENTS: NestedAdjustment[] = ['levels', 'curve', 'channelLevels', 'channelCurves'];
+
+const SCALAR_ADJUSTMENTS = (Object.keys(DEFAULT_ADJUSTMENTS) as (keyof ImageAdjustments)[])
+  .filter((key): key is ScalarAdjustment => !NESTED_ADJUSTMENTS.some(nested => nested === key));
+
+const parseAdjustments = (value: unknown, name: string): ImageAdjustments | null => {
+  if (value === null || value === undefined) return null;
+  if (!isObject(value)) throw new Error(`Os ajustes da predefinição "${name}" são inválidos.`);
+  const adjustments: Partial<ImageAdjustments> = {};
+  for (const key of SCALAR_ADJUSTMENTS) {
+    const field = value[key];
+    if (field === undefined) continue;
+    if (!isNumber(field)) {
+      throw new Error(`O ajuste "${key}" da predefinição "${name}" deve ser um número.`);
+    }
+    adjustments[key] = field;
+  }
+  const channelValues = (field: unknown) => isObject(field) ? COLOR_CHANNELS.map(channel => field[channel]).filter(v => v !== undefined) : [null];
+  if ((value.levels !== undefined && !isLevels(value.levels)) || (value.channelLevels !== undefined && !channelValues(value.channelLevels).every(isLevels))) {
+    throw new Error(`Os níveis da predefinição "${name}" são inválidos.`);
+  }
+  if ((value.curve !== undefined && !isCurve(value.curve)) || (value.channelCurves !== undefined && !channelValues(value.channelCurves).every(isCurve))) {
+    throw new Error(`A curva da predefinição "${name}" é inválida.`);
+  }
+  // Presets saved before the extended adjustments only have some of the fields.
+  return normalizeAdjustments({
+    ...adjustments,
+    levels: value.levels as Levels,
+    curve: value.curve as CurvePoint[],
+    channelLevels: value.channelLevels as ImageAdjustments['channelLevels'],
+    channelCurves: value.channelCurves as ImageAdjustments['channelCurves'],
+  });
+};
+
+const parseExportProfileId = (value: unknown, name: string): string | null => {
+  if (value === null || value === undefined) return null;
+  if (typeof value !== 'string' || !EXPORT_PROFILES.some(profile => profile.id === value)) {
+    throw new Error(`O perfil de exportação "${value}" da predefinição "${name}" não existe.`);
+  }
+  return value;
+};
+
+const parsePreset = (value: unknown, index: number): EnhancementPreset => {
+  if (!isObject(value)) throw new Error(`A predefinição ${index + 1} é inválida.`);
+  const name = typeof value.name === 'string' ? value.name.trim() : '';
+  if (!name) throw new Error(`A predefinição ${index + 1} não tem nome.`);
+  if (typeof value.prompt !== 'string' || !value.prompt.trim()) throw new Error(`A predefinição "${name}" não tem comando.`);
+
+  const maskStrategy = value.maskStrategy ?? 'none';
+  if (!isMaskStrategy(maskStrategy)) {
+    throw new Error(`A máscara "${maskStrategy}" da predefinição "${name}" não é suportada.`);
+  }
+
+  return {
+    id: typeof value.id === 'string' && value.id ? value.id : createPresetId(),
+    name,
+    prompt: value.prompt.trim(),
+    icon: isPresetIcon(value.icon) ? value.icon : 'sparkles',
+    maskStrategy,
+    adjustments: parseAdjustments(value.adjustments, name),
+    exportProfileId: parseExportProfileId(value.exportProfileId, name),
+  };
+};
+
+/**
+ * Validates a preset file. Accepts the exported `{ version, presets }` object or a bare array.
+ * Throws with a message fit for the user when the content is not a valid preset library.
+ */
+export function parsePresetFile(text: string): EnhancementPreset[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('O arquivo não é um JSON válido.');
+  }
+  const list = Array.isArray(data) ? data : isObject(data) ? data.presets : undefined;
+  if (!Array.isArray(list)) throw new Error('O arquivo não contém uma lista de predefinições.');
+  if (isObject(data) && typeof data.version === 'number' && data.version > FILE_VERSION) {
+    throw new Error('O arquivo foi criado por uma versão mais nova do editor.');
+  }
+  const presets = list.map(parsePreset);
+  // Ids must be unique within a library; later duplicates get a fresh one.
+  const seen = new Set<string>();
+  return presets.map(preset => {
+    const unique = seen.has(preset.id) ? { ...preset, id: createPresetId() } : preset;
+    seen.add(unique.id);
+    return unique;
+  });
+}
+
+export const serializePresets = (presets: EnhancementPreset[]): string =>
+  JSON.stringify({ version: FILE_VERSION, presets } satisfies PresetFile, null, 2);
+
+/**
+ * The library the user saved in this browser, or null when it was never customized.
+ */
+export function loadStoredPresets(): EnhancementPreset[] | null {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (!stored) return null;
+  try {
+    return parsePresetFile(stored);
+  } catch (e) {
+    console.warn('Ignoring invalid stored presets:', e);
+    return null;
+  }
+}
+
+export function saveStoredPresets(presets: EnhancementPreset[]): void {
+  localStorage.setItem(STORAGE_KEY, serializePresets(presets));
+}
+
+export function clearStoredPresets(): void {
+  localStorage.removeItem(STORAGE_KEY);
+}
+
+/**
+ * The team's default library from the config file, or null when the build does not ship one.
+ */
+export async function loadTeamPresets(): Promise<EnhancementPreset[] | null> {
+  const response = await fetch(TEAM_PRESETS_URL, { cache: 'no-cache' });
+  if (!response.ok) return null;
+  // Dev servers answer unknown paths with index.html.
+  if (!response.headers.get('content-type')?.includes('json')) return null;
+  return parsePresetFile(await response.text());
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { dataUrlToBlob, getInternedBlob, internBlob } from '../utils/blobStore';
+import { DEFAULT_MARKETPLACE_ID } from '../utils/marketplaces';
+import { DEFAULT_LISTING_LANGUAGE, EMPTY_PRODUCT_LISTING } from '../utils/productListing';
+import { externalize, internalize, normalizeProductRecord } from './projectStore';
+
+const PIXEL = 'data:image/png;base64,iVBORw0KGgo=';
+
+// Saves `value` the way saveProject does and loads it back from the collected blobs.
+const roundTrip = async (value: unknown) => {
+  const blobs = new Map<string, Blob>();
+  const stored = await externalize(value, blobs);
+  const restored = await internalize(JSON.parse(JSON.stringify(stored)), async hash => blobs.get(hash)!, new Map());
+  return { blobs, stored, restored };
+};
+
+describe('externalize and internalize', () => {
+  it('store each payload once and restore it as an interned URL', async () => {
+    const layer = await internBlob(new Blob(['layer'], { type: 'image/png' }));
+    const history = [
+      { images: [{ id: 'a', originalSrc: PIXEL, layers: [{ src: layer }], crop: { x: 10 } }], label: 'Original' },
+      { images: [{ id: 'a', originalSrc: PIXEL, layers: [{ src: layer }], crop: { x: 20 } }], label: 'Cortar' },
+    ];
+    const { blobs, stored, restored } = await roundTrip(history);
+
+    expect(blobs.size).toBe(2);
+    expect(JSON.stringify(stored)).not.toContain('base64');
+    const [first, second] = restored as typeof history;
+    expect(first.images[0].layers[0].src).toBe(layer);
+    expect(first.images[0].originalSrc).toBe(second.images[0].originalSrc);
+    expect(first.images[0].originalSrc).toMatch(/^blob:/);
+    const pixel = getInternedBlob(first.images[0].originalSrc)!.blob;
+    expect(pixel.type).toBe('image/png');
+    expect(new Uint8Array(await pixel.arrayBuffer())).toEqual(new Uint8Array(await dataUrlToBlob(PIXEL).arrayBuffer()));
+    expect(second.images[0].crop).toEqual({ x: 20 });
+    expect(second.label).toBe('Cortar');
+  });
+
+  it('bring files back with their name, type and date, shared between steps', async () => {
+    const file = new File(['foto'], 'foto.jpg', { type: 'image/jpeg', lastModified: 1000 });
+    const { restored } = await roundTrip([{ file }, { file }]);
+    const [first, second] = restored as { file: File }[];
+
+    expect(first.file).toBeInstanceOf(File);
+    expect(first.file).toBe(second.file);
+    expect(first.file.name).toBe('foto.jpg');
+    expect(first.file.type).toBe('image/jpeg');
+    expect(first.file.lastModified).toBe(1000);
+    expect(await first.file.text()).toBe('foto');
+  });
+
+  it('keep plain values as they are', async () => {
+    const value = { label: 'Edição', timestamp: 5, maskSrc: null, src: 'https://exemplo.com/a.png', tags: ['a'] };
+    expect((await roundTrip(value)).restored).toEqual(value);
+  });
+});
+
+describe('normalizeProductRecord', () => {
+  const base = { id: 'p', images: [], userProductInfo: '', formality: 'neutro', updatedAt: 0 };
+
+  it('turns the single description of the oldest records into the default listing', () => {
+    const product = normalizeProductRecord({ ...base, description: 'Caneca de cerâmica' });
+    expect(product.listings).toEqual({
+      [DEFAULT_MARKETPLACE_ID]: { [DEFAULT_LISTING_LANGUAGE]: { ...EMPTY_PRODUCT_LISTING, longDescription: 'Caneca de cerâmica' } },
+    });
+    expect(product.marketplaces).toEqual([DEFAULT_MARKETPLACE_ID]);
+    expect(product.language).toBe(DEFAULT_LISTING_LANGUAGE);
+    expect(product.glossary).toEqual([]);
+    expect(product).not.toHaveProperty('description');
+  });
+
+  it('keeps single listings as the Portuguese version of their channel', () => {
+    const listing = { ...EMPTY_PRODUCT_LISTING, title: 'Caneca' };
+    const product = normalizeProductRecord({ ...base, listings: { amazon: listing }, marketplaces: ['amazon'] });
+    expect(product.listings).toEqual({ amazon: { [DEFAULT_LISTING_LANGUAGE]: listing } });
+    expect(product.marketplaces).toEqual(['amazon']);
+  });
+
+  it('moves the old Mercado Livre id to the one the export profiles use', () => {
+    const listing = { ...EMPTY_PRODUCT_LISTING, title: 'Caneca' };
+    const product = normalizeProductRecord({ ...base, listings: { mercadolivre: { [DEFAULT_LISTING_LANGUAGE]: listing } }, marketplaces: ['generico', 'mercadolivre'] });
+    expect(product.listings).toEqual({ 'mercado-livre': { [DEFAULT_LISTING_LANGUAGE]: listing } });
+    expect(product.marketplaces).toEqual(['generico', 'mercado-livre']);
+  });
+
+  it('leaves current records unchanged', () => {
+    const current = {
+      ...base,
+      listings: { amazon: { en: { ...EMPTY_PRODUCT_LISTING, title: 'Mug' } } },
+      marketplaces: ['amazon'],
+      language: 'en',
+      glossary: ['Aurora'],
+    };
+    expect(normalizeProductRecord(current)).toEqual(current);
+  });
+});
@@ -0,0 +1,287 @@
+import { dataUrlToBlob, getInternedBlob, hashBlob, internBlob } from '../utils/blobStore';
+import { DEFAULT_MARKETPLACE_ID } from '../utils/marketplaces';
+import { DEFAULT_LISTING_LANGUAGE, normalizeProductListing, type ListingVersions, type ProductListing } from '../utils/productListing';
+
+const DB_NAME = 'editor-ia';
+const DB_VERSION = 1;
+const PROJECTS = 'projects';
+const BLOBS = 'blobs';
+const PRODUCTS = 'products';
+
+export interface ProjectSummary {
+  id: string;
+  productId: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  imageCount: number;
+  thumbnail: string | null;
+  // Set while the editor has the project open; still set on startup means the session crashed.
+  isOpen: boolean;
+}
+
+/**
+ * A full editing session. `T` is the editor's history entry; data URLs, interned object URLs,
+ * Blobs and Files inside it are stored once per project as blobs, however many history steps
+ * share them, and come back as interned object URLs (see utils/blobStore).
+ */
+export interface ProjectData<T> extends ProjectSummary {
+  history: T[];
+  historyIndex: number;
+  selectedImageId: string | null;
+}
+
+export interface ProductRecord {
+  id: string;
+  images: Blob[];
+  userProductInfo: string;
+  // Listings keyed by marketplace id, each with its language versions; channels that were
+  // deselected keep theirs.
+  listings: Record<string, ListingVersions>;
+  // Channels selected for generation.
+  marketplaces: string[];
+  // Language of the version shown and generated.
+  language: string;
+  // Terms kept as written in every language.
+  glossary: string[];
+  formality: string;
+  updatedAt: number;
+}
+
+type StoredValue =
+  | { $blob: string }
+  | { $file: string; name: string; type: string; lastModified: number };
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PROJECTS)) db.createObjectStore(PROJECTS, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(BLOBS)) db.createObjectStore(BLOBS);
+        if (!db.objectStoreNames.contains(PRODUCTS)) db.createObjectStore(PRODUCTS, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error ?? new Error('Não foi possível abrir o armazenamento local.'));
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('Transação cancelada.'));
+  });
+
+// Blob keys are namespaced by project so deleting a project can drop its blobs by key range.
+const blobKey = (projectId: string, hash: string) => `${projectId}/${hash}`;
+const projectBlobRange = (projectId: string) => IDBKeyRange.bound(`${projectId}/`, `${projectId}/\uffff`);
+
+// Hashing a multi-megabyte data URL is not free, and autosave sees the same ones over and over.
+const MAX_CACHED_HASHES = 256;
+const dataUrlHashes = new Map<string, { hash: string; blob: Blob }>();
+const blobHashes = new WeakMap<Blob, string>();
+
+async function hashDataUrl(dataUrl: string): Promise<{ hash: string; blob: Blob }> {
+  const cached = dataUrlHashes.get(dataUrl);
+  if (cached) return cached;
+  const blob = dataUrlToBlob(dataUrl);
+  const entry = { hash: await hashBlob(blob), blob };
+  if (dataUrlHashes.size >= MAX_CACHED_HASHES) {
+    dataUrlHashes.delete(dataUrlHashes.keys().next().value!);
+  }
+  dataUrlHashes.set(dataUrl, entry);
+  return entry;
+}
+
+async function hashFile(blob: Blob): Promise<string> {
+  const cached = blobHashes.get(blob);
+  if (cached) return cached;
+  const hash = await hashBlob(blob);
+  blobHashes.set(blob, hash);
+  return hash;
+}
+
+/**
+ * Replaces binary payloads in `value` with references and collects them in `blobs`.
+ */
+export async function externalize(value: unknown, blobs: Map<string, Blob>): Promise<unknown> {
+  if (typeof value === 'string') {
+    const interned = getInternedBlob(value);
+    const entry = interned ?? (value.startsWith('data:') ? await hashDataUrl(value) : null);
+    if (!entry) return value;
+    blobs.set(entry.hash, entry.blob);
+    return { $blob: entry.hash } satisfies StoredValue;
+  }
+  if (value instanceof Blob) {
+    const hash = await hashFile(value);
+    blobs.set(hash, value);
+    return value instanceof File
+      ? { $file: hash, name: value.name, type: value.type, lastModified: value.lastModified } satisfies StoredValue
+      : { $blob: hash } satisfies StoredValue;
+  }
+  if (Array.isArray(value)) {
+    return Promise.all(value.map(item => externalize(item, blobs)));
+  }
+  if (value && typeof value === 'object') {
+    const entries = await Promise.all(Object.entries(value).map(async ([key, item]) => [key, await externalize(item, blobs)] as const));
+    return Object.fromEntries(entries);
+  }
+  return value;
+}
+
+/**
+ * Inverse of `externalize`. Identical references resolve to the same string or File
+ * instance, so restored history steps share memory the way live ones do.
+ */
+export async function internalize(value: unknown, loadBlob: (hash: string) => Promise<Blob>, cache: Map<string, Promise<unknown>>): Promise<unknown> {
+  if (Array.isArray(value)) {
+    return Promise.all(value.map(item => internalize(item, loadBlob, cache)));
+  }
+  if (value && typeof value === 'object') {
+    const stored = value as Partial<Extract<StoredValue, { $file: string }>> & { $blob?: string };
+    if (typeof stored.$blob === 'string') {
+      const hash = stored.$blob;
+      if (!cache.has(hash)) cache.set(hash, loadBlob(hash).then(blob => internBlob(blob, hash)));
+      return cache.get(hash);
+    }
+    if (typeof stored.$file === 'string') {
+      const key = `file:${stored.$file}:${stored.name}`;
+      if (!cache.has(key)) {
+        cache.set(key, loadBlob(stored.$file).then(blob => new File([blob], stored.name!, { type: stored.type, lastModified: stored.lastModified })));
+      }
+      return cache.get(key);
+    }
+    const entries = await Promise.all(Object.entries(value).map(async ([key, item]) => [key, await internalize(item, loadBlob, cache)] as const));
+    return Object.fromEntries(entries);
+  }
+  return value;
+}
+
+const toSummary = ({ id, productId, name, createdAt, updatedAt, imageCount, thumbnail, isOpen }: ProjectSummary): ProjectSummary =>
+  ({ id, productId, name, createdAt, updatedAt, imageCount, thumbnail, isOpen });
+
+export async function listProjects(productId?: string): Promise<ProjectSummary[]> {
+  const db = await openDb();
+  const records = await requestToPromise(db.transaction(PROJECTS).objectStore(PROJECTS).getAll()) as ProjectSummary[];
+  return records
+    .filter(record => !productId || record.productId === productId)
+    .map(toSummary)
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function loadProject<T>(id: string): Promise<ProjectData<T> | null> {
+  const db = await openDb();
+  const record = await requestToPromise(db.transaction(PROJECTS).objectStore(PROJECTS).get(id));
+  if (!record) return null;
+
+  const loadBlob = async (hash: string) => {
+    const blob = await requestToPromise(db.transaction(BLOBS).objectStore(BLOBS).get(blobKey(id, hash)));
+    if (!blob) throw new Error('O projeto está incompleto: uma das imagens não foi encontrada.');
+    return blob as Blob;
+  };
+  const history = await internalize(record.history, loadBlob, new Map()) as T[];
+  return { ...record, history };
+}
+
+// Saves of the same project must not interleave, or a slow older save could win.
+const saveQueues = new Map<string, Promise<void>>();
+
+export function saveProject<T>(project: ProjectData<T>): Promise<void> {
+  const previous = saveQueues.get(project.id) ?? Promise.resolve();
+  const next = previous.catch(() => undefined).then(async () => {
+    const blobs = new Map<string, Blob>();
+    const history = await externalize(project.history, blobs);
+    const db = await openDb();
+
+    const tx = db.transaction([PROJECTS, BLOBS], 'readwrite');
+    const blobStore = tx.objectStore(BLOBS);
+    const storedKeys = new Set(await requestToPromise(blobStore.getAllKeys(projectBlobRange(project.id))) as string[]);
+    const referencedKeys = new Set<string>();
+    blobs.forEach((blob, hash) => {
+      const key = blobKey(project.id, hash);
+      referencedKeys.add(key);
+      if (!storedKeys.has(key)) blobStore.put(blob, key);
+    });
+    // Blobs only used by history steps that were dropped are no longer needed.
+    storedKeys.forEach(key => {
+      if (!referencedKeys.has(key)) blobStore.delete(key);
+    });
+    tx.objectStore(PROJECTS).put({ ...project, history });
+    await transactionDone(tx);
+  });
+  saveQueues.set(project.id, next);
+  return next;
+}
+
+export async function setProjectOpen(id: string, isOpen: boolean): Promise<void> {
+  await saveQueues.get(id)?.catch(() => undefined);
+  const db = await openDb();
+  const tx = db.transaction(PROJECTS, 'readwrite');
+  const store = tx.objectStore(PROJECTS);
+  const record = await requestToPromise(store.get(id));
+  if (record) store.put({ ...record, isOpen });
+  await transactionDone(tx);
+}
+
+export async function deleteProject(id: string): Promise<void> {
+  await saveQueues.get(id)?.catch(() => undefined);
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS, BLOBS], 'readwrite');
+  tx.objectStore(PROJECTS).delete(id);
+  tx.objectStore(BLOBS).delete(projectBlobRange(id));
+  await transactionDone(tx);
+}
+
+// Channels whose id changed to match the export profile of the same marketplace.
+const RENAMED_MARKETPLACE_IDS: Record<string, string> = { mercadolivre: 'mercado-livre' };
+const renameMarketplaceId = (id: string) => RENAMED_MARKETPLACE_IDS[id] ?? id;
+
+/**
+ * Upgrades a stored product record to the current shape. Older records kept one listing per
+ * channel, before that a single listing in `listing`, and before that a single text in
+ * `description`; all of them were written in Portuguese.
+ */
+export function normalizeProductRecord(record: unknown): ProductRecord {
+  const { description, listing, listings, ...product } = record as Omit<ProductRecord, 'listings'> & {
+    description?: string;
+    listing?: ProductListing;
+    listings?: Record<string, ListingVersions | ProductListing>;
+  };
+  const versions = Object.fromEntries(Object.entries(listings ?? { [DEFAULT_MARKETPLACE_ID]: normalizeProductListing(listing, description) })
+    .map(([id, value]) => [renameMarketplaceId(id), 'title' in value ? { [DEFAULT_LISTING_LANGUAGE]: value as ProductListing } : value as ListingVersions]));
+  return {
+    ...product,
+    listings: versions,
+    marketplaces: product.marketplaces?.map(renameMarketplaceId) ?? [DEFAULT_MARKETPLACE_ID],
+    language: product.language ?? DEFAULT_LISTING_LANGUAGE,
+    glossary: product.glossary ?? [],
+  };
+}
+
+export async function loadProduct(id: string): Promise<ProductRecord | null> {
+  const db = await openDb();
+  const record = await requestToPromise(db.transaction(PRODUCTS).objectStore(PRODUCTS).get(id));
+  return record ? normalizeProductRecord(record) : null;
+}
+
+export async function saveProduct(product: ProductRecord): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(PRODUCTS, 'readwrite');
+  tx.objectStore(PRODUCTS).put(product);
+  await transactionDone(tx);
+}
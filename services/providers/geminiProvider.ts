@@ -0,0 +1,296 @@
+import { GoogleGenAI, Modality, Type, type Schema } from "@google/genai";
+import { getRawBase64 } from '../../utils/imageUtils';
+import type { MarketplaceProfile } from '../../utils/marketplaces';
+import { getGlossaryToken } from '../../utils/glossary';
+import { parseProductListing, type ListingLanguage, type ProductListing } from '../../utils/productListing';
+import type { DescribeProductRequest, EnhanceDescriptionRequest, ImageEditProvider, ImageEditRequest, ImageEditResult, TranslateListingRequest } from './types';
+
+const IMAGE_MODEL = 'gemini-2.5-flash-image';
+const TEXT_MODEL = 'gemini-2.5-flash';
+
+const stringList = (description: string): Schema => ({ type: Type.ARRAY, items: { type: Type.STRING }, description });
+
+// Mirrors ProductListing; Gemini fills every field and keeps this order.
+const PRODUCT_LISTING_SCHEMA: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        title: { type: Type.STRING, description: 'Título do anúncio' },
+        shortDescription: { type: Type.STRING, description: 'Resumo de uma ou duas frases' },
+        longDescription: { type: Type.STRING, description: 'Descrição completa, em até dois parágrafos' },
+        bullets: stringList('Características principais, uma frase curta cada'),
+        materials: stringList('Materiais do produto'),
+        colors: stringList('Cores do produto'),
+        category: { type: Type.STRING, description: 'Categoria sugerida no marketplace, ex.: "Moda > Camisetas"' },
+        keywords: stringList('Palavras-chave de busca'),
+    },
+    required: ['title', 'shortDescription', 'longDescription', 'bullets', 'materials', 'colors', 'category', 'keywords'],
+    propertyOrdering: ['title', 'shortDescription', 'longDescription', 'bullets', 'materials', 'colors', 'category', 'keywords'],
+};
+
+const LISTING_FIELDS_INSTRUCTION = `Responda em JSON com os campos: título, descrição curta (uma ou duas frases), descrição longa
+            (no máximo dois parágrafos), de 3 a 6 características, materiais, cores, categoria sugerida e de 5 a 10 palavras-chave.
+            Deixe materiais ou cores vazios quando não for possível identificá-los.`;
+
+const getMarketplaceInstruction = (marketplace: MarketplaceProfile): string => {
+    const rules = [
+        `o título deve ter no máximo ${marketplace.titleMaxLength} caracteres`,
+        `use no máximo ${marketplace.bulletCount} características`,
+        marketplace.bulletMaxLength ? `cada característica deve ter no máximo ${marketplace.bulletMaxLength} caracteres` : null,
+        marketplace.forbiddenWords.length > 0 ? `nunca use os termos: ${marketplace.forbiddenWords.map(word => `"${word}"`).join(', ')}` : null,
+        marketplace.allowsHtml ? 'a descrição longa pode usar HTML simples (<p>, <ul>, <li>, <strong>)' : 'não use HTML, apenas texto simples',
+        marketplace.allowsEmoji ? 'emojis são permitidos com moderação' : 'não use emojis',
+    ].filter(Boolean);
+    return `O anúncio será publicado em ${marketplace.name}. Regras do canal: ${rules.join('; ')}.`;
+};
+
+const LANGUAGE_NAMES: Record<ListingLanguage, string> = {
+    'pt-BR': 'português do Brasil',
+    es: 'espanhol',
+    en: 'inglês',
+};
+
+// The prompts stay in Portuguese; only the copy the model writes follows the requested language.
+const getLanguageInstruction = (language: ListingLanguage): string =>
+    `Escreva todos os campos do anúncio em ${LANGUAGE_NAMES[language]}, inclusive a categoria e as palavras-chave.`;
+
+const getGlossaryInstruction = (glossary: string[]): string =>
+    glossary.length > 0
+        ? `Nunca traduza nem altere estes termos (marcas e nomes de produto); use-os exatamente como estão: ${glossary.map(term => `"${term}"`).join(', ')}.`
+        : '';
+
+const getToneInstruction = (formality: string): string => {
+    switch (formality) {
+        case 'descontraido':
+            return "Use um tom de voz alegre e descontraído, ideal para redes sociais.";
+        case 'formal':
+            return "Use um tom de voz formal e técnico, focado em especificações.";
+        case 'profissional':
+        default:
+            return "Use um tom de voz vendedor e profissional, equilibrado e direto.";
+    }
+};
+
+export function createGeminiProvider(apiKey: string | undefined): ImageEditProvider {
+    // The client is created on first use so that selecting another provider never requires an API key.
+    let client: GoogleGenAI | null = null;
+    const getClient = () => {
+        if (!client) {
+            client = new GoogleGenAI({ apiKey });
+        }
+        return client;
+    };
+
+    const edit = async ({ base64Image, mimeType, prompt, maskBase64, seed }: ImageEditRequest): Promise<ImageEditResult> => {
+        try {
+            // The order of parts is critical for mask-based editing (inpainting).
+            // The most reliable order is [image, mask, prompt].
+            const parts: any[] = [];
+
+            // 1. Add the main image first.
+            const imagePart = {
+                inlineData: {
+                    data: getRawBase64(base64Image),
+                    mimeType: mimeType,
+                },
+            };
+            parts.push(imagePart);
+
+            // 2. Add the mask second, if it exists.
+            if (maskBase64) {
+                const maskPart = {
+                    inlineData: {
+                        data: getRawBase64(maskBase64),
+                        mimeType: 'image/png', // Masks should be PNG to support transparency
+                    },
+                };
+                parts.push(maskPart);
+            }
+
+            // 3. Add the text prompt last.
+            // When a mask is used, sending the user's prompt directly is more effective.
+            // When no mask is present, wrap the prompt with context to mitigate safety flags and improve clarity.
+            const instructionalPrompt = !maskBase64
+                ? `Edite esta imagem de produto para um e-commerce. A tarefa é: '${prompt}'. A edição deve ser profissional e adequada para um site de vendas.`
+                : prompt;
+
+            const textPart = {
+                text: instructionalPrompt,
+            };
+            parts.push(textPart);
+
+
+            const response = await getClient().models.generateContent({
+                model: IMAGE_MODEL,
+                // FIX: Wrap the content object in an array. Multi-modal models often expect `contents` as an array of turns.
+                contents: [{
+                    parts: parts,
+                }],
+                config: {
+                    responseModalities: [Modality.IMAGE],
+                    ...(seed !== undefined && { seed }),
+                },
+            });
+
+            const firstCandidate = response.candidates?.[0];
+
+            if (!firstCandidate || !firstCandidate.content?.parts) {
+                let errorMessage = "A resposta da IA não contém conteúdo. A solicitação pode ter sido bloqueada.";
+                if (firstCandidate?.finishReason === 'SAFETY') {
+                    errorMessage = "A geração de imagem foi bloqueada por motivos de segurança. Por favor, ajuste seu prompt.";
+                } else if (firstCandidate?.finishReason && firstCandidate.finishReason !== 'STOP') {
+                    errorMessage = `A geração de imagem falhou. Motivo: ${firstCandidate.finishReason}.`;
+                }
+                throw new Error(errorMessage);
+            }
+
+            const imageResponsePart = firstCandidate.content.parts.find(part => part.inlineData);
+
+            if (imageResponsePart?.inlineData) {
+                const { data, mimeType: resultMimeType } = imageResponsePart.inlineData;
+                return { data, mimeType: resultMimeType || 'image/png' };
+            } else {
+                const textResponse = firstCandidate.content.parts.find(part => part.text)?.text;
+                if(textResponse) {
+                    throw new Error(`A IA retornou um texto em vez de uma imagem: "${textResponse}"`);
+                }
+                throw new Error("Nenhum dado de imagem encontrado na resposta da IA.");
+            }
+
+        } catch (error) {
+            console.error("Error calling Gemini API:", error);
+            if (error instanceof Error) {
+                 // Include the specific API reason in the thrown error message if available
+                if (error.message.includes('A geração de imagem falhou.')) {
+                     throw error;
+                }
+                throw new Error(`Erro ao chamar a API de IA: ${error.message}`);
+            }
+            throw new Error("Ocorreu um erro desconhecido ao se comunicar com a IA.");
+        }
+    };
+
+    // Parses and validates a structured response; the schema makes invalid JSON rare, not impossible.
+    const parseListingResponse = (text: string | undefined): ProductListing => {
+        let value: unknown;
+        try {
+            value = JSON.parse(text ?? '');
+        } catch {
+            throw new Error('A resposta da IA não está no formato esperado.');
+        }
+        return parseProductListing(value);
+    };
+
+    const describe = async ({ images, userProductInfo, formality, marketplace, language, glossary }: DescribeProductRequest): Promise<ProductListing> => {
+        try {
+            const imageParts = images.map(({ base64Image, mimeType }) => ({
+                inlineData: {
+                    data: getRawBase64(base64Image),
+                    mimeType: mimeType,
+                },
+            }));
+
+            const toneInstruction = getToneInstruction(formality);
+            const imagesContext = images.length > 1
+                ? `As ${images.length} imagens mostram o mesmo produto de ângulos diferentes; use os detalhes visíveis em qualquer uma delas.`
+                : 'A imagem mostra o produto.';
+            const userContext = userProductInfo.trim()
+                ? `Descrição do usuário: "${userProductInfo}"\n\nExpanda a descrição do usuário, incorporando detalhes visuais das imagens.`
+                : 'Baseie-se apenas no que é visível nas imagens.';
+
+            const promptText = `Crie o anúncio deste produto para um marketplace, com uma linguagem vendedora e profissional.
+
+            ${imagesContext}
+
+            ${userContext}
+
+            Instrução de Tom: ${toneInstruction}
+
+            ${getMarketplaceInstruction(marketplace)}
+
+            ${getLanguageInstruction(language)} ${getGlossaryInstruction(glossary)}
+
+            ${LISTING_FIELDS_INSTRUCTION}`;
+
+            const response = await getClient().models.generateContent({
+                model: TEXT_MODEL,
+                contents: { parts: [...imageParts, { text: promptText }] },
+                config: {
+                    responseMimeType: 'application/json',
+                    responseSchema: PRODUCT_LISTING_SCHEMA,
+                },
+            });
+
+            return parseListingResponse(response.text);
+
+        } catch (error) {
+            console.error("Erro ao chamar a API Gemini para descrição:", error);
+            if (error instanceof Error && error.message.startsWith('A resposta da IA')) {
+                throw error;
+            }
+            throw new Error("Falha ao gerar a descrição do produto.");
+        }
+    };
+
+    const enhance = async ({ listing, marketplace, language, glossary }: EnhanceDescriptionRequest): Promise<ProductListing> => {
+        try {
+            const prompt = `Aprimore o seguinte anúncio de produto para um marketplace.
+        Torne-o mais vendedor, profissional e otimizado para SEO, destacando os benefícios.
+        Mantenha o tom original mas melhore a clareza e o impacto. Não adicione informações
+        que não possam ser inferidas. Campos vazios podem ser preenchidos apenas com o que
+        os outros campos permitem deduzir. Corrija o que violar as regras do canal.
+
+        ${getMarketplaceInstruction(marketplace)}
+
+        ${getLanguageInstruction(language)} ${getGlossaryInstruction(glossary)}
+
+        ${LISTING_FIELDS_INSTRUCTION}\n\nAnúncio Original (JSON):\n${JSON.stringify(listing)}`;
+
+            const response = await getClient().models.generateContent({
+                model: TEXT_MODEL,
+                contents: prompt,
+                config: {
+                    responseMimeType: 'application/json',
+                    responseSchema: PRODUCT_LISTING_SCHEMA,
+                },
+            });
+
+            return parseListingResponse(response.text);
+        } catch (error) {
+            console.error("Erro ao aprimorar descrição com API Gemini:", error);
+            if (error instanceof Error && error.message.startsWith('A resposta da IA')) {
+                throw error;
+            }
+            throw new Error("Falha ao aprimorar a descrição do produto.");
+        }
+    };
+
+    const translate = async ({ listing, marketplace, sourceLanguage, targetLanguage }: TranslateListingRequest): Promise<ProductListing> => {
+        try {
+            const prompt = `Traduza o seguinte anúncio de produto de ${LANGUAGE_NAMES[sourceLanguage]} para ${LANGUAGE_NAMES[targetLanguage]}.
+        Adapte o texto ao público local sem mudar o sentido nem adicionar informações, e mantenha
+        a mesma quantidade de itens em cada lista. Marcadores como ${getGlossaryToken(0)} representam marcas
+        e nomes de produto: mantenha-os exatamente como estão, na posição adequada da frase.
+
+        ${getMarketplaceInstruction(marketplace)}\n\nAnúncio Original (JSON):\n${JSON.stringify(listing)}`;
+
+            const response = await getClient().models.generateContent({
+                model: TEXT_MODEL,
+                contents: prompt,
+                config: {
+                    responseMimeType: 'application/json',
+                    responseSchema: PRODUCT_LISTING_SCHEMA,
+                },
+            });
+
+            return parseListingResponse(response.text);
+        } catch (error) {
+            console.error("Erro ao traduzir anúncio com API Gemini:", error);
+            if (error instanceof Error && error.message.startsWith('A resposta da IA')) {
+                throw error;
+            }
+            throw new Error("Falha ao traduzir o anúncio do produto.");
+        }
+    };
+
+    return { id: 'gemini', name: 'Google Gemini', edit, describe, enhance, translate };
+}
@@ -0,0 +1,26 @@
+import { createGeminiProvider } from './geminiProvider';
+import { createMockProvider } from './mockProvider';
+import type { ImageEditProvider } from './types';
+
+export type { ImageEditProvider, ImageEditRequest, ImageEditResult, DescribeProductRequest, EnhanceDescriptionRequest, ProductImage, TranslateListingRequest } from './types';
+export { createGeminiProvider } from './geminiProvider';
+export { createMockProvider, type MockProviderOptions } from './mockProvider';
+
+export type ProviderId = 'gemini' | 'mock';
+
+const DEFAULT_PROVIDER: ProviderId = 'gemini';
+
+/**
+ * Builds the provider named by `id`, falling back to Gemini for unknown or missing values.
+ */
+export function createImageEditProvider(id: string | undefined): ImageEditProvider {
+    switch (id?.trim().toLowerCase() || DEFAULT_PROVIDER) {
+        case 'mock':
+            return createMockProvider({ delayMs: 600 });
+        case 'gemini':
+            return createGeminiProvider(process.env.API_KEY);
+        default:
+            console.warn(`Provedor de IA desconhecido "${id}". Usando "${DEFAULT_PROVIDER}".`);
+            return createGeminiProvider(process.env.API_KEY);
+    }
+}
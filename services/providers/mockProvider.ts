@@ -0,0 +1,133 @@
+import { getDataUrlMimeType, getRawBase64 } from '../../utils/imageUtils';
+import type { MarketplaceProfile } from '../../utils/marketplaces';
+import { mapListingTexts, parseProductListing, type ProductListing } from '../../utils/productListing';
+import type { DescribeProductRequest, EnhanceDescriptionRequest, ImageEditProvider, ImageEditRequest, ImageEditResult, TranslateListingRequest } from './types';
+
+export interface MockProviderOptions {
+    // Data URLs returned in rotation instead of transforming the input image.
+    cannedImages?: string[];
+    // Artificial latency, useful to exercise loading states offline.
+    delayMs?: number;
+}
+
+// Small, stable string hash (FNV-1a) so the same prompt and seed always yield the same result.
+const hashString = (value: string): number => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+// Applies the channel's count and length limits the way a well-behaved model would, then checks
+// the result like a model response, so the mock honours the same contract as the real adapters.
+const fitToMarketplace = (listing: ProductListing, marketplace: MarketplaceProfile): ProductListing => parseProductListing({
+    ...listing,
+    title: listing.title.length > marketplace.titleMaxLength ? listing.title.slice(0, marketplace.titleMaxLength).trim() : listing.title,
+    bullets: listing.bullets.slice(0, marketplace.bulletCount),
+});
+
+const wait = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+const loadImage = (src: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Falha ao carregar a imagem de entrada.'));
+    img.src = src;
+});
+
+const toDataUrl = (base64: string, mimeType: string) =>
+    base64.startsWith('data:') ? base64 : `data:${mimeType};base64,${base64}`;
+
+const getRequestKey = ({ prompt, seed }: ImageEditRequest) =>
+    seed === undefined ? prompt.trim().toLowerCase() : `${prompt.trim().toLowerCase()}#${seed}`;
+
+/**
+ * Applies a deterministic colour transformation derived from the prompt and seed.
+ * When a mask is given, only the painted region is transformed, mimicking inpainting.
+ */
+async function transformImage(request: ImageEditRequest): Promise<string> {
+    const { base64Image, mimeType, maskBase64 } = request;
+    const source = await loadImage(toDataUrl(base64Image, mimeType));
+    const canvas = document.createElement('canvas');
+    canvas.width = source.naturalWidth;
+    canvas.height = source.naturalHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not get canvas context');
+
+    const hash = hashString(getRequestKey(request));
+    const hue = (hash % 300) + 30;
+    const saturate = 100 + (hash % 60);
+    const transformFilter = `hue-rotate(${hue}deg) saturate(${saturate}%)`;
+
+    if (!maskBase64) {
+        ctx.filter = transformFilter;
+        ctx.drawImage(source, 0, 0);
+        return getRawBase64(canvas.toDataURL('image/png'));
+    }
+
+    const mask = await loadImage(toDataUrl(maskBase64, 'image/png'));
+    const layer = document.createElement('canvas');
+    layer.width = canvas.width;
+    layer.height = canvas.height;
+    const layerCtx = layer.getContext('2d');
+    if (!layerCtx) throw new Error('Could not get canvas context');
+
+    layerCtx.drawImage(mask, 0, 0, layer.width, layer.height);
+    layerCtx.globalCompositeOperation = 'source-in';
+    layerCtx.filter = transformFilter;
+    layerCtx.drawImage(source, 0, 0);
+
+    ctx.drawImage(source, 0, 0);
+    ctx.drawImage(layer, 0, 0);
+    return getRawBase64(canvas.toDataURL('image/png'));
+}
+
+export function createMockProvider(options: MockProviderOptions = {}): ImageEditProvider {
+    const { cannedImages = [], delayMs = 0 } = options;
+
+    const edit = async (request: ImageEditRequest): Promise<ImageEditResult> => {
+        if (delayMs) await wait(delayMs);
+        if (!request.prompt.trim()) {
+            throw new Error('Erro ao chamar a API de IA: o comando de edição está vazio.');
+        }
+        if (cannedImages.length > 0) {
+            const canned = cannedImages[hashString(getRequestKey(request)) % cannedImages.length];
+            return { data: getRawBase64(canned), mimeType: getDataUrlMimeType(canned) ?? 'image/png' };
+        }
+        return { data: await transformImage(request), mimeType: 'image/png' };
+    };
+
+    const describe = async ({ images, userProductInfo, formality, marketplace, language }: DescribeProductRequest): Promise<ProductListing> => {
+        if (delayMs) await wait(delayMs);
+        const subject = userProductInfo.trim() || 'Produto de alta qualidade';
+        return fitToMarketplace({
+            title: subject,
+            shortDescription: `${subject}, com ótimo acabamento e pronto para o dia a dia.`,
+            longDescription: `${subject}. Descrição de demonstração gerada localmente a partir de ${images.length} imagem(ns) (tom: ${formality}, canal: ${marketplace.name}, idioma: ${language}), ideal para testes sem acesso à IA.\n\nDestaque os benefícios, os materiais e o acabamento do produto para aumentar a conversão no marketplace.`,
+            bullets: ['Acabamento de qualidade', 'Uso versátil no dia a dia', 'Fácil de limpar e conservar'],
+            materials: ['Algodão'],
+            colors: ['Branco'],
+            category: 'Casa > Decoração',
+            keywords: subject.toLowerCase().split(/\s+/).filter(word => word.length > 3).slice(0, 8),
+        }, marketplace);
+    };
+
+    const enhance = async ({ listing, marketplace }: EnhanceDescriptionRequest): Promise<ProductListing> => {
+        if (delayMs) await wait(delayMs);
+        return fitToMarketplace({
+            ...listing,
+            longDescription: `${listing.longDescription.trim()}\n\nAproveite: qualidade garantida e envio rápido para todo o Brasil.`,
+            bullets: listing.bullets.includes('Envio rápido') ? listing.bullets : [...listing.bullets, 'Envio rápido'],
+        }, marketplace);
+    };
+
+    // Tags every text with the target language instead of translating; placeholders pass through.
+    const translate = async ({ listing, marketplace, targetLanguage }: TranslateListingRequest): Promise<ProductListing> => {
+        if (delayMs) await wait(delayMs);
+        return fitToMarketplace(mapListingTexts(listing, text => text && `[${targetLanguage}] ${text}`), marketplace);
+    };
+
+    return { id: 'mock', name: 'Simulação local', edit, describe, enhance, translate };
+}
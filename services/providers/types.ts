@@ -0,0 +1,66 @@
+import type { MarketplaceProfile } from '../../utils/marketplaces';
+import type { ListingLanguage, ProductListing } from '../../utils/productListing';
+
+export interface ImageEditRequest {
+    base64Image: string;
+    mimeType: string;
+    prompt: string;
+    maskBase64?: string | null;
+    // Varies the result between otherwise identical requests; omitted means provider default.
+    seed?: number;
+}
+
+export interface ProductImage {
+    base64Image: string;
+    mimeType: string;
+}
+
+export interface DescribeProductRequest {
+    // Every photo of the product; details seen in any of them go into the listing.
+    images: ProductImage[];
+    userProductInfo: string;
+    formality: string;
+    // Channel whose limits the copy must respect.
+    marketplace: MarketplaceProfile;
+    language: ListingLanguage;
+    // Brand terms and product names to write as given, whatever the language.
+    glossary: string[];
+}
+
+export interface EnhanceDescriptionRequest {
+    listing: ProductListing;
+    marketplace: MarketplaceProfile;
+    language: ListingLanguage;
+    glossary: string[];
+}
+
+export interface TranslateListingRequest {
+    // Glossary terms are already replaced by placeholders (see utils/glossary), which the
+    // translation must keep untouched.
+    listing: ProductListing;
+    marketplace: MarketplaceProfile;
+    sourceLanguage: ListingLanguage;
+    targetLanguage: ListingLanguage;
+}
+
+export interface ImageEditResult {
+    // Raw base64 image data, without a data URL prefix.
+    data: string;
+    // Format of `data` as reported by the backend.
+    mimeType: string;
+}
+
+/**
+ * A backend capable of performing the AI operations used by the editor and the product page.
+ * Adapters must resolve `edit` with the raw base64 image data and its MIME type, and throw
+ * an `Error` with a user-facing message when the operation fails. `describe`, `enhance`
+ * and `translate` resolve with listings already checked with `parseProductListing`.
+ */
+export interface ImageEditProvider {
+    readonly id: string;
+    readonly name: string;
+    edit(request: ImageEditRequest): Promise<ImageEditResult>;
+    describe(request: DescribeProductRequest): Promise<ProductListing>;
+    enhance(request: EnhanceDescriptionRequest): Promise<ProductListing>;
+    translate(request: TranslateListingRequest): Promise<ProductListing>;
+}
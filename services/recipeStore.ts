@@ -0,0 +1,19 @@
+import { type Recipe } from '../utils/recipes';
+
+const STORAGE_KEY = 'editor-ia:recipes';
+
+export function loadStoredRecipes(): Recipe[] {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (!stored) return [];
+  try {
+    const recipes = JSON.parse(stored);
+    return Array.isArray(recipes) ? recipes.filter(recipe => recipe && typeof recipe.name === 'string' && Array.isArray(recipe.steps)) : [];
+  } catch (e) {
+    console.warn('Ignoring invalid stored recipes:', e);
+    return [];
+  }
+}
+
+export function saveStoredRecipes(recipes: Recipe[]): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(recipes));
+}
@@ -0,0 +1,167 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyAdjustments,
+  applyDocumentEffects,
+  buildCurveLut,
+  buildLevelsLut,
+  DEFAULT_ADJUSTMENTS,
+  DEFAULT_CURVE,
+  DEFAULT_LEVELS,
+  getChannelCurve,
+  getChannelLevels,
+  getCurveSettings,
+  getSharpenRadius,
+  hasDocumentEffects,
+  isDefaultAdjustments,
+  normalizeAdjustments,
+  setChannelCurve,
+  setChannelLevels,
+  type CurvePoint,
+  type ImageAdjustments,
+  withoutDocumentEffects,
+} from './adjustments';
+
+// ImageData is a DOM class; the adjustments only read and write its fields.
+const createPixels = (width: number, height: number, rgb: (x: number, y: number) => [number, number, number]): ImageData => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) data.set([...rgb(x, y), 255], (y * width + x) * 4);
+  }
+  return { width, height, data, colorSpace: 'srgb' } as ImageData;
+};
+
+const withAdjustments = (changes: Partial<ImageAdjustments>): ImageAdjustments => ({ ...DEFAULT_ADJUSTMENTS, ...changes });
+
+describe('buildCurveLut', () => {
+  it('is the identity for the default curve', () => {
+    const lut = buildCurveLut([[0, 0], [255, 255]]);
+    expect([...lut]).toEqual(Array.from({ length: 256 }, (_, i) => i));
+  });
+
+  it('runs through every point and stays monotone between them', () => {
+    const lut = buildCurveLut([[0, 0], [64, 100], [192, 200], [255, 255]]);
+    expect(lut[64]).toBe(100);
+    expect(lut[192]).toBe(200);
+    for (let i = 1; i < 256; i++) expect(lut[i]).toBeGreaterThanOrEqual(lut[i - 1]);
+  });
+
+  it('holds the end values outside the first and last points', () => {
+    const lut = buildCurveLut([[50, 30], [200, 220]]);
+    expect(lut[0]).toBe(30);
+    expect(lut[255]).toBe(220);
+  });
+});
+
+describe('buildLevelsLut', () => {
+  it('is the identity for the default levels', () => {
+    expect([...buildLevelsLut(DEFAULT_LEVELS)]).toEqual(Array.from({ length: 256 }, (_, i) => i));
+  });
+
+  it('stretches the input range to the output range', () => {
+    const lut = buildLevelsLut({ ...DEFAULT_LEVELS, inputBlack: 50, inputWhite: 150, outputBlack: 10, outputWhite: 210 });
+    expect(lut[0]).toBe(10);
+    expect(lut[50]).toBe(10);
+    expect(lut[100]).toBe(110);
+    expect(lut[150]).toBe(210);
+    expect(lut[255]).toBe(210);
+  });
+
+  it('brightens the midtones with a gamma above one', () => {
+    expect(buildLevelsLut({ ...DEFAULT_LEVELS, gamma: 2 })[128]).toBeGreaterThan(128);
+  });
+});
+
+describe('normalizeAdjustments', () => {
+  it('fills in the fields missing from older saves', () => {
+    const adjustments = normalizeAdjustments({ brightness: 120 });
+    expect(adjustments).toEqual({ ...DEFAULT_ADJUSTMENTS, brightness: 120 });
+    expect(isDefaultAdjustments(adjustments)).toBe(false);
+    expect(isDefaultAdjustments(normalizeAdjustments(undefined))).toBe(true);
+  });
+});
+
+describe('applyAdjustments', () => {
+  it('leaves the pixels untouched with the default adjustments', () => {
+    const pixels = createPixels(4, 4, (x, y) => [x * 60, y * 60, 100]);
+    const before = [...pixels.data];
+    applyAdjustments(pixels, DEFAULT_ADJUSTMENTS);
+    expect([...pixels.data]).toEqual(before);
+  });
+
+  it('doubles the light of each stop of exposure', () => {
+    const pixels = createPixels(1, 1, () => [50, 60, 70]);
+    applyAdjustments(pixels, withAdjustments({ exposure: 1 }));
+    expect([...pixels.data]).toEqual([100, 120, 140, 255]);
+  });
+});
+
+describe('applyDocumentEffects', () => {
+  it('centres the vignette on the pixels it is given', () => {
+    const pixels = createPixels(9, 9, () => [200, 200, 200]);
+    applyDocumentEffects(pixels, withAdjustments({ vignette: -100 }));
+    const at = (x: number, y: number) => pixels.data[(y * 9 + x) * 4];
+    expect(at(4, 4)).toBe(200);
+    expect(at(0, 0)).toBeLessThan(100);
+    expect([at(8, 0), at(0, 8), at(8, 8)]).toEqual([at(0, 0), at(0, 0), at(0, 0)]);
+  });
+
+  it('is the part of the adjustments left out of withoutDocumentEffects', () => {
+    const adjustments = withAdjustments({ exposure: 0.5, vignette: 40, sharpen: 50 });
+    expect(hasDocumentEffects(adjustments)).toBe(true);
+    expect(hasDocumentEffects(withoutDocumentEffects(adjustments))).toBe(false);
+
+    const rgb = (x: number, y: number): [number, number, number] => [x * 30, y * 30, 90];
+    const whole = createPixels(8, 8, rgb);
+    applyAdjustments(whole, adjustments);
+    const split = createPixels(8, 8, rgb);
+    applyAdjustments(split, withoutDocumentEffects(adjustments));
+    applyDocumentEffects(split, adjustments);
+    expect([...split.data]).toEqual([...whole.data]);
+  });
+});
+
+describe('getSharpenRadius', () => {
+  it('is one pixel per thousand of the longest side, at least one', () => {
+    expect(getSharpenRadius(4000, 3000)).toBe(4);
+    expect(getSharpenRadius(300, 200)).toBe(1);
+  });
+
+  it('scales the document radius to a downscaled working copy', () => {
+    // A 4000 px document previewed at 1000 px sharpens with a quarter of the radius.
+    expect(getSharpenRadius(1000, 750, 0.25)).toBe(1);
+    expect(getSharpenRadius(500, 375, 0.125)).toBe(0.5);
+  });
+});
+
+describe('channel helpers', () => {
+  const darker: CurvePoint[] = [[0, 0], [128, 100], [255, 255]];
+
+  it('read the composite or a single channel', () => {
+    const adjustments: ImageAdjustments = {
+      ...DEFAULT_ADJUSTMENTS,
+      curve: darker,
+      channelLevels: { ...DEFAULT_ADJUSTMENTS.channelLevels, blue: { ...DEFAULT_LEVELS, gamma: 2 } },
+    };
+    expect(getChannelCurve(adjustments, 'rgb')).toBe(darker);
+    expect(getChannelCurve(adjustments, 'red')).toBe(DEFAULT_CURVE);
+    expect(getChannelLevels(adjustments, 'blue').gamma).toBe(2);
+    expect(getChannelLevels(adjustments, 'rgb')).toBe(DEFAULT_LEVELS);
+  });
+
+  it('change only the edited channel', () => {
+    const curveChange = setChannelCurve(DEFAULT_ADJUSTMENTS, 'green', darker);
+    expect(curveChange).toEqual({ channelCurves: { red: DEFAULT_CURVE, green: darker, blue: DEFAULT_CURVE } });
+    expect(setChannelCurve(DEFAULT_ADJUSTMENTS, 'rgb', darker)).toEqual({ curve: darker });
+
+    const levels = { ...DEFAULT_LEVELS, inputBlack: 20 };
+    expect(setChannelLevels(DEFAULT_ADJUSTMENTS, 'red', levels)).toEqual({
+      channelLevels: { red: levels, green: DEFAULT_LEVELS, blue: DEFAULT_LEVELS },
+    });
+    expect(isDefaultAdjustments({ ...DEFAULT_ADJUSTMENTS, ...curveChange })).toBe(false);
+  });
+
+  it('copy the composite and per-channel curves together', () => {
+    const adjustments = { ...DEFAULT_ADJUSTMENTS, curve: darker, ...setChannelCurve(DEFAULT_ADJUSTMENTS, 'blue', darker) };
+    expect(getCurveSettings(adjustments)).toEqual({ curve: darker, channelCurves: adjustments.channelCurves });
+  });
+});
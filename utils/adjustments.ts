@@ -0,0 +1,463 @@
+/**
+ * Colour adjustments applied to the image layers of a document. They run on pixels, with the
+ * same routine for the on-screen preview and the export, so both look the same. Every setting
+ * is independent of resolution (radii and distances are relative to the document size), which
+ * lets the preview run at display size.
+ */
+
+// Maps input tones to output tones, all in 0-255: values below `inputBlack` become
+// `outputBlack`, above `inputWhite` become `outputWhite`, with `gamma` bending the midtones.
+export interface Levels {
+  inputBlack: number;
+  inputWhite: number;
+  gamma: number;
+  outputBlack: number;
+  outputWhite: number;
+}
+
+// [input, output] in 0-255, sorted by input. The curve runs through every point.
+export type CurvePoint = [number, number];
+
+export type ColorChannel = 'red' | 'green' | 'blue';
+
+export const COLOR_CHANNELS: ColorChannel[] = ['red', 'green', 'blue'];
+
+export interface ImageAdjustments {
+  brightness: number; // %
+  contrast: number; // %
+  saturate: number; // %
+  hue: number; // degrees
+  exposure: number; // stops (EV)
+  temperature: number; // -100 (cool) to 100 (warm)
+  tint: number; // -100 (green) to 100 (magenta)
+  highlights: number; // -100 to 100
+  shadows: number; // -100 to 100
+  sharpen: number; // 0 to 100
+  vignette: number; // -100 (dark corners) to 100 (light corners)
+  // Composite levels and curve act on all three channels, before the per-channel ones.
+  levels: Levels;
+  curve: CurvePoint[];
+  channelLevels: Record<ColorChannel, Levels>;
+  channelCurves: Record<ColorChannel, CurvePoint[]>;
+}
+
+export const DEFAULT_LEVELS: Levels = { inputBlack: 0, inputWhite: 255, gamma: 1, outputBlack: 0, outputWhite: 255 };
+
+export const DEFAULT_CURVE: CurvePoint[] = [[0, 0], [255, 255]];
+
+export const DEFAULT_ADJUSTMENTS: ImageAdjustments = {
+  brightness: 100,
+  contrast: 100,
+  saturate: 100,
+  hue: 0,
+  exposure: 0,
+  temperature: 0,
+  tint: 0,
+  highlights: 0,
+  shadows: 0,
+  sharpen: 0,
+  vignette: 0,
+  levels: DEFAULT_LEVELS,
+  curve: DEFAULT_CURVE,
+  channelLevels: { red: DEFAULT_LEVELS, green: DEFAULT_LEVELS, blue: DEFAULT_LEVELS },
+  channelCurves: { red: DEFAULT_CURVE, green: DEFAULT_CURVE, blue: DEFAULT_CURVE },
+};
+
+// The channels the levels and curves editors switch between; 'rgb' is the composite.
+export type ToneChannel = 'rgb' | ColorChannel;
+
+export const getChannelLevels = (adjustments: ImageAdjustments, channel: ToneChannel): Levels =>
+  channel === 'rgb' ? adjustments.levels : adjustments.channelLevels[channel];
+
+export const getChannelCurve = (adjustments: ImageAdjustments, channel: ToneChannel): CurvePoint[] =>
+  channel === 'rgb' ? adjustments.curve : adjustments.channelCurves[channel];
+
+export const setChannelLevels = (adjustments: ImageAdjustments, channel: ToneChannel, levels: Levels): Partial<ImageAdjustments> =>
+  channel === 'rgb' ? { levels } : { channelLevels: { ...adjustments.channelLevels, [channel]: levels } };
+
+export const setChannelCurve = (adjustments: ImageAdjustments, channel: ToneChannel, curve: CurvePoint[]): Partial<ImageAdjustments> =>
+  channel === 'rgb' ? { curve } : { channelCurves: { ...adjustments.channelCurves, [channel]: curve } };
+
+/**
+ * The curve settings of a set of adjustments, as copied between images.
+ */
+export type CurveSettings = Pick<ImageAdjustments, 'curve' | 'channelCurves'>;
+
+export const getCurveSettings = (adjustments: ImageAdjustments): CurveSettings => ({
+  curve: adjustments.curve,
+  channelCurves: adjustments.channelCurves,
+});
+
+// Largest channel gain of the white balance sliders at ±100.
+const WHITE_BALANCE_STRENGTH = 0.2;
+// Largest tone shift of the highlights/shadows sliders at ±100, as a share of the range.
+const TONE_STRENGTH = 0.25;
+// Unsharp mask radius relative to the document's longest side; at least one document pixel.
+const SHARPEN_RADIUS_RATIO = 1 / 1000;
+const SHARPEN_MAX_AMOUNT = 1.5;
+// Vignette starts at this share of the center-to-corner distance.
+const VIGNETTE_START = 0.35;
+const VIGNETTE_STRENGTH = 0.8;
+
+/**
+ * Fills in fields missing from adjustments saved by older versions.
+ */
+const normalizeLevels = (levels: Partial<Levels> | undefined): Levels => ({ ...DEFAULT_LEVELS, ...levels });
+
+const normalizeCurve = (curve: CurvePoint[] | undefined): CurvePoint[] => (curve?.length ?? 0) >= 2 ? curve : DEFAULT_CURVE;
+
+export const normalizeAdjustments = (adjustments: Partial<ImageAdjustments> | undefined): ImageAdjustments => ({
+  ...DEFAULT_ADJUSTMENTS,
+  ...adjustments,
+  levels: normalizeLevels(adjustments?.levels),
+  curve: normalizeCurve(adjustments?.curve),
+  channelLevels: {
+    red: normalizeLevels(adjustments?.channelLevels?.red),
+    green: normalizeLevels(adjustments?.channelLevels?.green),
+    blue: normalizeLevels(adjustments?.channelLevels?.blue),
+  },
+  channelCurves: {
+    red: normalizeCurve(adjustments?.channelCurves?.red),
+    green: normalizeCurve(adjustments?.channelCurves?.green),
+    blue: normalizeCurve(adjustments?.channelCurves?.blue),
+  },
+});
+
+const isDefaultCurve = (curve: CurvePoint[]) => curve.every(([x, y]) => x === y);
+
+const isDefaultLevels = (levels: Levels) =>
+  (Object.keys(DEFAULT_LEVELS) as (keyof Levels)[]).every(key => levels[key] === DEFAULT_LEVELS[key]);
+
+export function isDefaultAdjustments(adjustments: ImageAdjustments): boolean {
+  return (Object.keys(DEFAULT_ADJUSTMENTS) as (keyof ImageAdjustments)[]).every(key => {
+    if (key === 'levels') return isDefaultLevels(adjustments.levels);
+    if (key === 'curve') return isDefaultCurve(adjustments.curve);
+    if (key === 'channelLevels') return COLOR_CHANNELS.every(channel => isDefaultLevels(adjustments.channelLevels[channel]));
+    if (key === 'channelCurves') return COLOR_CHANNELS.every(channel => isDefaultCurve(adjustments.channelCurves[channel]));
+    return adjustments[key] === DEFAULT_ADJUSTMENTS[key];
+  });
+}
+
+/**
+ * A CSS filter approximating the basic adjustments, for thumbnails where running the pixel
+ * engine on every image would be wasteful.
+ */
+export const getAdjustmentsFilter = (adjustments: ImageAdjustments) =>
+  `brightness(${adjustments.brightness * 2 ** (adjustments.exposure ?? 0)}%) contrast(${adjustments.contrast}%) saturate(${adjustments.saturate}%) hue-rotate(${adjustments.hue}deg)`;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+/**
+ * Monotone cubic interpolation (Fritsch-Carlson) through the curve points, as a 256 entry table.
+ * Monotone, so a curve through increasing points never overshoots into tone reversals.
+ */
+export function buildCurveLut(curve: CurvePoint[]): Uint8ClampedArray {
+  const points = [...curve].sort((a, b) => a[0] - b[0]);
+  const lut = new Uint8ClampedArray(256);
+  const n = points.length;
+  const slopes = points.slice(0, -1).map(([x0, y0], i) => (points[i + 1][1] - y0) / Math.max(1e-6, points[i + 1][0] - x0));
+  const tangents = points.map((_, i) => {
+    if (i === 0) return slopes[0];
+    if (i === n - 1) return slopes[n - 2];
+    return slopes[i - 1] * slopes[i] <= 0 ? 0 : (slopes[i - 1] + slopes[i]) / 2;
+  });
+  for (let i = 0; i < n - 1; i++) {
+    if (slopes[i] === 0) {
+      tangents[i] = 0;
+      tangents[i + 1] = 0;
+      continue;
+    }
+    const a = tangents[i] / slopes[i];
+    const b = tangents[i + 1] / slopes[i];
+    const h = a * a + b * b;
+    if (h > 9) {
+      const t = 3 / Math.sqrt(h);
+      tangents[i] = t * a * slopes[i];
+      tangents[i + 1] = t * b * slopes[i];
+    }
+  }
+
+  let segment = 0;
+  for (let x = 0; x < 256; x++) {
+    if (x <= points[0][0]) {
+      lut[x] = points[0][1];
+      continue;
+    }
+    if (x >= points[n - 1][0]) {
+      lut[x] = points[n - 1][1];
+      continue;
+    }
+    while (x > points[segment + 1][0]) segment++;
+    const [x0, y0] = points[segment];
+    const [x1, y1] = points[segment + 1];
+    const dx = x1 - x0;
+    const t = (x - x0) / dx;
+    const t2 = t * t;
+    const t3 = t2 * t;
+    lut[x] = (2 * t3 - 3 * t2 + 1) * y0 + (t3 - 2 * t2 + t) * dx * tangents[segment] + (-2 * t3 + 3 * t2) * y1 + (t3 - t2) * dx * tangents[segment + 1];
+  }
+  return lut;
+}
+
+export function buildLevelsLut(levels: Levels): Uint8ClampedArray {
+  const lut = new Uint8ClampedArray(256);
+  const range = Math.max(1, levels.inputWhite - levels.inputBlack);
+  const inverseGamma = 1 / Math.max(0.01, levels.gamma);
+  for (let v = 0; v < 256; v++) {
+    const t = clamp01((v - levels.inputBlack) / range) ** inverseGamma;
+    lut[v] = levels.outputBlack + t * (levels.outputWhite - levels.outputBlack);
+  }
+  return lut;
+}
+
+/**
+ * The red, green and blue multipliers of the temperature and tint sliders.
+ */
+export function getWhiteBalanceGains(temperature: number, tint: number): [number, number, number] {
+  const warmth = (temperature / 100) * WHITE_BALANCE_STRENGTH;
+  const magenta = (tint / 100) * WHITE_BALANCE_STRENGTH;
+  return [1 + warmth + magenta / 2, 1 - magenta, 1 - warmth + magenta / 2];
+}
+
+/**
+ * The inverse of getWhiteBalanceGains: slider values whose gains bring a colour with the given
+ * green/red and green/blue ratios to neutral grey. Values beyond the sliders' range are clamped.
+ */
+export function getWhiteBalanceForRatios(greenToRed: number, greenToBlue: number): { temperature: number; tint: number } {
+  // Solves (1 + w + m/2) / (1 - m) = greenToRed and (1 - w + m/2) / (1 - m) = greenToBlue.
+  const magenta = (greenToRed + greenToBlue - 2) / (1 + greenToRed + greenToBlue);
+  const warmth = ((greenToRed - greenToBlue) * (1 - magenta)) / 2;
+  const toSlider = (value: number) => Math.round(Math.max(-100, Math.min(100, (value / WHITE_BALANCE_STRENGTH) * 100)));
+  return { temperature: toSlider(warmth), tint: toSlider(magenta) };
+}
+
+// Levels then curves, composite before per channel, folded into one table per channel.
+function buildFinalLuts(adjustments: ImageAdjustments): Uint8ClampedArray[] {
+  const levelsLut = buildLevelsLut(adjustments.levels);
+  const curveLut = buildCurveLut(adjustments.curve);
+  return COLOR_CHANNELS.map(channel => {
+    const channelLevelsLut = buildLevelsLut(adjustments.channelLevels[channel]);
+    const channelCurveLut = buildCurveLut(adjustments.channelCurves[channel]);
+    return levelsLut.map(v => channelCurveLut[curveLut[channelLevelsLut[v]]]);
+  });
+}
+
+// Tone curves applied per channel before the luminance-based steps: white balance, exposure,
+// then brightness and contrast with the CSS filter formulas the editor used before.
+function buildToneLuts(adjustments: ImageAdjustments): Uint8ClampedArray[] {
+  const gains = getWhiteBalanceGains(adjustments.temperature, adjustments.tint);
+  const exposure = 2 ** adjustments.exposure;
+  const brightness = adjustments.brightness / 100;
+  const contrast = adjustments.contrast / 100;
+  return gains.map(gain => {
+    const lut = new Uint8ClampedArray(256);
+    for (let v = 0; v < 256; v++) {
+      const value = clamp01((v / 255) * gain * exposure * brightness);
+      lut[v] = ((value - 0.5) * contrast + 0.5) * 255;
+    }
+    return lut;
+  });
+}
+
+// Luminance gain per luminance value for the highlights and shadows sliders. Shadows weigh most
+// around a third of the range and highlights around two thirds; black and white stay put.
+function buildLuminanceGain(adjustments: ImageAdjustments): Float32Array | null {
+  if (!adjustments.highlights && !adjustments.shadows) return null;
+  const shadows = adjustments.shadows / 100;
+  const highlights = adjustments.highlights / 100;
+  const gain = new Float32Array(256).fill(1);
+  for (let v = 1; v < 256; v++) {
+    const x = v / 255;
+    const shadowWeight = (27 / 4) * x * (1 - x) * (1 - x);
+    const highlightWeight = (27 / 4) * x * x * (1 - x);
+    gain[v] = clamp01(x + TONE_STRENGTH * (shadows * shadowWeight + highlights * highlightWeight)) / x;
+  }
+  return gain;
+}
+
+// Saturation followed by hue rotation, with the matrices from the CSS filter spec.
+function buildColorMatrix(adjustments: ImageAdjustments): number[] | null {
+  if (adjustments.saturate === 100 && adjustments.hue === 0) return null;
+  const s = adjustments.saturate / 100;
+  const saturate = [
+    0.213 + 0.787 * s, 0.715 - 0.715 * s, 0.072 - 0.072 * s,
+    0.213 - 0.213 * s, 0.715 + 0.285 * s, 0.072 - 0.072 * s,
+    0.213 - 0.213 * s, 0.715 - 0.715 * s, 0.072 + 0.928 * s,
+  ];
+  const angle = (adjustments.hue * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const hue = [
+    0.213 + cos * 0.787 - sin * 0.213, 0.715 - cos * 0.715 - sin * 0.715, 0.072 - cos * 0.072 + sin * 0.928,
+    0.213 - cos * 0.213 + sin * 0.143, 0.715 + cos * 0.285 + sin * 0.140, 0.072 - cos * 0.072 - sin * 0.283,
+    0.213 - cos * 0.213 - sin * 0.787, 0.715 - cos * 0.715 + sin * 0.715, 0.072 + cos * 0.928 + sin * 0.072,
+  ];
+  const matrix: number[] = [];
+  for (let row = 0; row < 3; row++) {
+    for (let col = 0; col < 3; col++) {
+      matrix.push(hue[row * 3] * saturate[col] + hue[row * 3 + 1] * saturate[3 + col] + hue[row * 3 + 2] * saturate[6 + col]);
+    }
+  }
+  return matrix;
+}
+
+// Separable box blur of the colour channels, used as the unsharp mask's blurred copy.
+function boxBlur(data: Uint8ClampedArray, width: number, height: number, radius: number): Uint8ClampedArray {
+  if (radius === 0) return data.slice();
+  const temp = new Uint8ClampedArray(data.length);
+  const result = new Uint8ClampedArray(data.length);
+  const size = radius * 2 + 1;
+  const pass = (source: Uint8ClampedArray, target: Uint8ClampedArray, length: number, lines: number, stride: number, lineStride: number) => {
+    for (let line = 0; line < lines; line++) {
+      const base = line * lineStride;
+      for (let c = 0; c < 3; c++) {
+        let sum = 0;
+        for (let k = -radius; k <= radius; k++) sum += source[base + Math.min(length - 1, Math.max(0, k)) * stride + c];
+        for (let i = 0; i < length; i++) {
+          target[base + i * stride + c] = sum / size;
+          sum += source[base + Math.min(length - 1, i + radius + 1) * stride + c] - source[base + Math.max(0, i - radius) * stride + c];
+        }
+      }
+    }
+  };
+  pass(data, temp, width, height, 4, width * 4);
+  pass(temp, result, height, width, width * 4, 4);
+  return result;
+}
+
+/**
+ * A box blur of `radius` pixels, which may be fractional: the blurs at the neighbouring whole
+ * radii are blended, so the result changes smoothly as the working size changes.
+ */
+function fractionalBoxBlur(data: Uint8ClampedArray, width: number, height: number, radius: number): Uint8ClampedArray {
+  const lower = Math.floor(radius);
+  const weight = radius - lower;
+  const result = boxBlur(data, width, height, lower);
+  if (weight === 0) return result;
+  const upper = boxBlur(data, width, height, lower + 1);
+  for (let i = 0; i < result.length; i++) result[i] += (upper[i] - result[i]) * weight;
+  return result;
+}
+
+/**
+ * The unsharp mask radius, in working pixels, for `pixels` that show the document at `scale`
+ * working pixels per document pixel.
+ */
+export function getSharpenRadius(width: number, height: number, scale = 1): number {
+  const documentRadius = Math.max(1, Math.round((Math.max(width, height) / scale) * SHARPEN_RADIUS_RATIO));
+  return documentRadius * scale;
+}
+
+/**
+ * Whether `adjustments` include the effects that depend on the whole document: the vignette,
+ * centred on it, and sharpening, whose radius follows its size.
+ */
+export const hasDocumentEffects = (adjustments: ImageAdjustments) => adjustments.vignette !== 0 || adjustments.sharpen > 0;
+
+// The per-pixel tone and colour part of `adjustments`, for content that is not the whole document.
+export const withoutDocumentEffects = (adjustments: ImageAdjustments): ImageAdjustments => ({ ...adjustments, vignette: 0, sharpen: 0 });
+
+/**
+ * Applies `adjustments` to `pixels` in place. Alpha is left untouched. `scale` is the number of
+ * pixels per document pixel, so a downscaled preview sharpens like the full-size export.
+ * `pixels` must show the whole document; see applyDocumentEffects.
+ */
+export function applyAdjustments(pixels: ImageData, adjustments: ImageAdjustments, scale = 1): void {
+  const { width, height, data } = pixels;
+  const toneLuts = buildToneLuts(adjustments);
+  const luminanceGain = buildLuminanceGain(adjustments);
+  const finalLuts = buildFinalLuts(adjustments);
+  const matrix = buildColorMatrix(adjustments);
+
+  for (let i = 0; i < width * height * 4; i += 4) {
+    let r = toneLuts[0][data[i]];
+    let g = toneLuts[1][data[i + 1]];
+    let b = toneLuts[2][data[i + 2]];
+
+    if (luminanceGain) {
+      const gain = luminanceGain[Math.round(0.2126 * r + 0.7152 * g + 0.0722 * b)];
+      r *= gain;
+      g *= gain;
+      b *= gain;
+    }
+
+    r = finalLuts[0][Math.min(255, Math.round(r))];
+    g = finalLuts[1][Math.min(255, Math.round(g))];
+    b = finalLuts[2][Math.min(255, Math.round(b))];
+
+    if (matrix) {
+      const mr = matrix[0] * r + matrix[1] * g + matrix[2] * b;
+      const mg = matrix[3] * r + matrix[4] * g + matrix[5] * b;
+      const mb = matrix[6] * r + matrix[7] * g + matrix[8] * b;
+      r = mr;
+      g = mg;
+      b = mb;
+    }
+
+    data[i] = r;
+    data[i + 1] = g;
+    data[i + 2] = b;
+  }
+
+  applyDocumentEffects(pixels, adjustments, scale);
+}
+
+/**
+ * Applies the vignette and sharpening of `adjustments` to `pixels`, which must show the whole
+ * document at `scale` pixels per document pixel. Layers fitted inside the document get them
+ * once, on the composite, instead of each around its own bounds.
+ */
+export function applyDocumentEffects(pixels: ImageData, adjustments: ImageAdjustments, scale = 1): void {
+  const { width, height, data } = pixels;
+  const vignette = adjustments.vignette / 100;
+
+  if (vignette) {
+    for (let y = 0; y < height; y++) {
+      const dy = (y + 0.5) / height - 0.5;
+      for (let x = 0; x < width; x++) {
+        const i = (y * width + x) * 4;
+        const dx = (x + 0.5) / width - 0.5;
+        // 0 at the center, 1 in the corners.
+        const distance = Math.sqrt((dx * dx + dy * dy) * 2);
+        const t = clamp01((distance - VIGNETTE_START) / (1 - VIGNETTE_START));
+        const weight = t * t * (3 - 2 * t) * vignette * VIGNETTE_STRENGTH;
+        if (weight < 0) {
+          data[i] *= 1 + weight;
+          data[i + 1] *= 1 + weight;
+          data[i + 2] *= 1 + weight;
+        } else {
+          data[i] += (255 - data[i]) * weight;
+          data[i + 1] += (255 - data[i + 1]) * weight;
+          data[i + 2] += (255 - data[i + 2]) * weight;
+        }
+      }
+    }
+  }
+
+  if (adjustments.sharpen > 0) {
+    const amount = (adjustments.sharpen / 100) * SHARPEN_MAX_AMOUNT;
+    const blurred = fractionalBoxBlur(data, width, height, getSharpenRadius(width, height, scale));
+    for (let i = 0; i < data.length; i += 4) {
+      data[i] += (data[i] - blurred[i]) * amount;
+      data[i + 1] += (data[i + 1] - blurred[i + 1]) * amount;
+      data[i + 2] += (data[i + 2] - blurred[i + 2]) * amount;
+    }
+  }
+}
+
+/**
+ * Draws `source` at `width` × `height` with `adjustments` applied, `scale` being the pixels of
+ * the result per document pixel.
+ */
+export function renderAdjustedImage(source: CanvasImageSource, width: number, height: number, adjustments: ImageAdjustments, scale = 1): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, width);
+  canvas.height = Math.max(1, height);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Could not get canvas context');
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  applyAdjustments(pixels, adjustments, scale);
+  ctx.putImageData(pixels, 0, 0);
+  return canvas;
+}
@@ -0,0 +1,70 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_ADJUSTMENTS, getWhiteBalanceGains } from './adjustments';
+import { computeAutoLevels, computeAutoWhiteBalance, getAutoAdjustments } from './autoAdjust';
+
+// Node has no ImageData; the analysis only needs its fields and the (width, height) constructor.
+class TestImageData {
+  readonly colorSpace = 'srgb';
+  readonly data: Uint8ClampedArray;
+  constructor(readonly width: number, readonly height: number) {
+    this.data = new Uint8ClampedArray(width * height * 4);
+  }
+}
+
+beforeAll(() => {
+  vi.stubGlobal('ImageData', TestImageData);
+});
+
+// A photo-like test image: a gradient from `dark` to `light` with the same colour in every pixel.
+const createGradient = (size: number, dark: number, light: number, tint: [number, number, number] = [1, 1, 1]): ImageData => {
+  const pixels = new TestImageData(size, size) as unknown as ImageData;
+  for (let i = 0; i < size * size; i++) {
+    const value = dark + ((light - dark) * i) / (size * size - 1);
+    pixels.data.set([value * tint[0], value * tint[1], value * tint[2], 255], i * 4);
+  }
+  return pixels;
+};
+
+describe('computeAutoWhiteBalance', () => {
+  it('neutralizes a colour cast in the brightest tones', () => {
+    const pixels = createGradient(40, 40, 230, [1, 0.95, 0.85]);
+    const balance = computeAutoWhiteBalance(pixels);
+    expect(balance).not.toBeNull();
+    const [red, green, blue] = getWhiteBalanceGains(balance!.temperature, balance!.tint);
+    // A warm cast is corrected by cooling: blue gains the most, red the least.
+    expect(balance!.temperature).toBeLessThan(0);
+    expect(blue).toBeGreaterThan(green);
+    expect(green).toBeGreaterThan(red);
+  });
+
+  it('returns null when the bright tones are blown out', () => {
+    expect(computeAutoWhiteBalance(createGradient(40, 255, 255))).toBeNull();
+  });
+});
+
+describe('computeAutoLevels', () => {
+  it('stretches the tones the image uses to the full range', () => {
+    const levels = computeAutoLevels(createGradient(40, 60, 190), DEFAULT_ADJUSTMENTS);
+    expect(levels).not.toBeNull();
+    expect(levels!.inputBlack).toBeGreaterThanOrEqual(60);
+    expect(levels!.inputBlack).toBeLessThan(65);
+    expect(levels!.inputWhite).toBeLessThanOrEqual(190);
+    expect(levels!.inputWhite).toBeGreaterThan(185);
+  });
+
+  it('leaves images with a narrow tonal range alone', () => {
+    expect(computeAutoLevels(createGradient(40, 100, 120), DEFAULT_ADJUSTMENTS)).toBeNull();
+  });
+});
+
+describe('getAutoAdjustments', () => {
+  it('only applies the requested corrections', () => {
+    const pixels = createGradient(40, 60, 190, [1, 0.95, 0.85]);
+    const levelsOnly = getAutoAdjustments(pixels, DEFAULT_ADJUSTMENTS, ['levels']);
+    expect(levelsOnly.temperature).toBe(0);
+    expect(levelsOnly.levels).not.toEqual(DEFAULT_ADJUSTMENTS.levels);
+
+    const both = getAutoAdjustments(pixels, DEFAULT_ADJUSTMENTS, ['whiteBalance', 'levels']);
+    expect(both.temperature).not.toBe(0);
+  });
+});
@@ -0,0 +1,90 @@
+import { applyAdjustments, DEFAULT_ADJUSTMENTS, DEFAULT_CURVE, DEFAULT_LEVELS, getWhiteBalanceForRatios, type ImageAdjustments, type Levels } from './adjustments';
+import { computeHistogram, getLuminance, getPercentile } from './histogram';
+
+export type AutoAdjustment = 'whiteBalance' | 'levels';
+
+// Analysis looks at about this many pixels, evenly spread over the image.
+const MAX_SAMPLES = 200_000;
+// The brightest share of the image is taken as the white reference (a white backdrop or label).
+const WHITE_REFERENCE_RATIO = 0.05;
+// Pixels with a channel at this value or above are clipped and no longer show the colour cast.
+const CLIPPED_VALUE = 254;
+const MIN_REFERENCE_PIXELS = 50;
+// Share of pixels at each end allowed to clip when stretching the tonal range.
+const LEVELS_CLIP_RATIO = 0.005;
+// Narrower ranges are left alone; stretching them mostly amplifies noise.
+const MIN_TONAL_RANGE = 48;
+
+const getSampleStep = (pixels: ImageData) => Math.max(1, Math.floor((pixels.width * pixels.height) / MAX_SAMPLES));
+
+/**
+ * Temperature and tint that make the brightest part of the image neutral, or null when that part
+ * is blown out (already pure white) and gives no reference.
+ */
+export function computeAutoWhiteBalance(pixels: ImageData): Pick<ImageAdjustments, 'temperature' | 'tint'> | null {
+  const { data } = pixels;
+  const step = getSampleStep(pixels);
+  const histogram = computeHistogram(data, step);
+  if (!histogram.total) return null;
+  const threshold = getPercentile(histogram.luminance, histogram.total, 1 - WHITE_REFERENCE_RATIO);
+
+  let red = 0, green = 0, blue = 0, count = 0;
+  for (let i = 0; i < data.length; i += 4 * step) {
+    const r = data[i], g = data[i + 1], b = data[i + 2];
+    if (data[i + 3] < 128 || Math.max(r, g, b) >= CLIPPED_VALUE || getLuminance(r, g, b) < threshold) continue;
+    red += r;
+    green += g;
+    blue += b;
+    count++;
+  }
+  if (count < MIN_REFERENCE_PIXELS || !red || !blue) return null;
+  return getWhiteBalanceForRatios(green / red, green / blue);
+}
+
+/**
+ * Levels that stretch the tones the image has after its other adjustments to the full range,
+ * or null when the image has too few tones to stretch.
+ */
+export function computeAutoLevels(pixels: ImageData, adjustments: ImageAdjustments): Levels | null {
+  const step = getSampleStep(pixels);
+  const count = Math.ceil((pixels.width * pixels.height) / step);
+  const sample = new ImageData(count, 1);
+  for (let i = 0, j = 0; j < sample.data.length; i += 4 * step, j += 4) {
+    sample.data.set(pixels.data.subarray(i, i + 4), j);
+  }
+  // Levels run after white balance and the tone sliders, so they are measured on that result.
+  applyAdjustments(sample, {
+    ...adjustments,
+    levels: DEFAULT_LEVELS,
+    curve: DEFAULT_CURVE,
+    channelLevels: DEFAULT_ADJUSTMENTS.channelLevels,
+    channelCurves: DEFAULT_ADJUSTMENTS.channelCurves,
+    sharpen: 0,
+    vignette: 0,
+  });
+
+  const histogram = computeHistogram(sample.data);
+  if (!histogram.total) return null;
+  const channels = [histogram.red, histogram.green, histogram.blue];
+  const black = Math.min(...channels.map(counts => getPercentile(counts, histogram.total, LEVELS_CLIP_RATIO)));
+  const white = Math.max(...channels.map(counts => getPercentile(counts, histogram.total, 1 - LEVELS_CLIP_RATIO)));
+  if (white - black < MIN_TONAL_RANGE) return null;
+  return { ...DEFAULT_LEVELS, inputBlack: black, inputWhite: white };
+}
+
+/**
+ * `adjustments` with the requested automatic corrections applied. White balance goes first,
+ * since the levels are measured on the balanced image.
+ */
+export function getAutoAdjustments(pixels: ImageData, adjustments: ImageAdjustments, kinds: AutoAdjustment[]): ImageAdjustments {
+  let result = adjustments;
+  if (kinds.includes('whiteBalance')) {
+    const whiteBalance = computeAutoWhiteBalance(pixels);
+    if (whiteBalance) result = { ...result, ...whiteBalance };
+  }
+  if (kinds.includes('levels')) {
+    const levels = computeAutoLevels(pixels, result);
+    if (levels) result = { ...result, levels };
+  }
+  return result;
+}
@@ -0,0 +1,91 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { applyForegroundMask, estimateBackgroundColors, refineEdges, segmentForeground, type Rgb } from './backgroundRemoval';
+
+// Node has no ImageData; applyForegroundMask only uses the (data, width, height) constructor.
+class TestImageData {
+  readonly colorSpace = 'srgb';
+  constructor(readonly data: Uint8ClampedArray, readonly width: number, readonly height: number) {}
+}
+
+beforeAll(() => {
+  vi.stubGlobal('ImageData', TestImageData);
+});
+
+const createPixels = (width: number, height: number, rgb: (x: number, y: number) => Rgb, alpha = 255): ImageData => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) data.set([...rgb(x, y), alpha], (y * width + x) * 4);
+  }
+  return { width, height, data, colorSpace: 'srgb' } as ImageData;
+};
+
+const WHITE: Rgb = [250, 250, 250];
+const DARK: Rgb = [40, 60, 90];
+
+// A dark 10 x 10 product on a white backdrop, with a white 4 x 4 label in its middle.
+const product = createPixels(20, 20, (x, y) => {
+  const inProduct = x >= 5 && x < 15 && y >= 5 && y < 15;
+  const inLabel = x >= 8 && x < 12 && y >= 8 && y < 12;
+  return inProduct && !inLabel ? DARK : WHITE;
+});
+const isProduct = (x: number, y: number) => x >= 5 && x < 15 && y >= 5 && y < 15;
+
+describe('estimateBackgroundColors', () => {
+  it('finds the dominant border colour', () => {
+    expect(estimateBackgroundColors(product)).toEqual([WHITE]);
+  });
+
+  it('ignores border colours too rare to be the backdrop', () => {
+    const noisy = createPixels(20, 20, (x, y) => (x === 0 && y === 0 ? [255, 0, 0] : WHITE));
+    expect(estimateBackgroundColors(noisy)).toEqual([WHITE]);
+  });
+});
+
+describe('segmentForeground', () => {
+  it('keeps the product, including enclosed areas of the backdrop colour', () => {
+    const mask = segmentForeground(product);
+    for (let y = 0; y < 20; y++) {
+      for (let x = 0; x < 20; x++) expect(mask[y * 20 + x]).toBe(isProduct(x, y) ? 255 : 0);
+    }
+  });
+
+  it('treats only transparent pixels as background without a dominant border colour', () => {
+    const noise = createPixels(8, 8, (x, y) => [(x * 37 + y * 91) % 256, (x * 53) % 256, (y * 71) % 256]);
+    expect([...segmentForeground(noise)].every(value => value === 255)).toBe(true);
+    const transparent = createPixels(8, 8, () => DARK, 0);
+    expect([...segmentForeground(transparent)].every(value => value === 0)).toBe(true);
+  });
+});
+
+describe('refineEdges', () => {
+  it('leaves the mask as is without a radius', () => {
+    const mask = segmentForeground(product);
+    expect(refineEdges(product, mask, 0)).toBe(mask);
+  });
+
+  it('softens pixels near the edge by how close they are to the backdrop', () => {
+    // A backdrop-coloured pixel wrongly kept next to the outline fades out; the product stays.
+    const mask = segmentForeground(product);
+    mask[4 * 20 + 10] = 255;
+    const refined = refineEdges(product, mask, 2);
+    expect(refined[4 * 20 + 10]).toBe(0);
+    expect(refined[5 * 20 + 10]).toBe(255);
+    expect(refined[10 * 20 + 10]).toBe(255);
+  });
+});
+
+describe('applyForegroundMask', () => {
+  const pixels = createPixels(2, 1, () => DARK);
+  const mask = new Uint8ClampedArray([255, 0]);
+
+  it('moves the mask into the alpha channel without touching the input', () => {
+    const result = applyForegroundMask(pixels, mask);
+    expect([...result.data]).toEqual([...DARK, 255, ...DARK, 0]);
+    expect(pixels.data[7]).toBe(255);
+  });
+
+  it('flattens on an opaque background colour', () => {
+    const result = applyForegroundMask(pixels, mask, [255, 255, 255]);
+    expect([...result.data]).toEqual([...DARK, 255, 255, 255, 255, 255]);
+  });
+});
@@ -0,0 +1,169 @@
+import { growMask } from './maskOps';
+
+/**
+ * Local background removal for product photos. The background is grown from the image border
+ * over pixels close to the border colours and stops at strong edges, so it follows the product
+ * outline without reaching into enclosed areas of similar colour (a white label on a white shot).
+ * Masks use the same convention as utils/maskOps: 255 = product, 0 = background.
+ */
+export interface BackgroundRemovalOptions {
+  // Largest channel difference from a background colour still treated as background (0-255).
+  tolerance: number;
+  // Colour jump between neighbouring pixels that stops the background from spreading (0-255).
+  edgeThreshold: number;
+}
+
+export const DEFAULT_BACKGROUND_REMOVAL_OPTIONS: BackgroundRemovalOptions = {
+  tolerance: 28,
+  edgeThreshold: 40,
+};
+
+export type Rgb = [number, number, number];
+
+// Border colours are bucketed at 4 bits per channel; buckets below this share are noise.
+const MIN_BACKGROUND_SHARE = 0.08;
+const MAX_BACKGROUND_COLORS = 4;
+
+/**
+ * The dominant colours along the image border, most frequent first.
+ */
+export function estimateBackgroundColors(pixels: ImageData): Rgb[] {
+  const { width, height, data } = pixels;
+  const buckets = new Map<number, { count: number; sum: Rgb }>();
+  let total = 0;
+
+  const sample = (x: number, y: number) => {
+    const i = (y * width + x) * 4;
+    if (data[i + 3] < 16) return;
+    const key = ((data[i] >> 4) << 8) | ((data[i + 1] >> 4) << 4) | (data[i + 2] >> 4);
+    const bucket = buckets.get(key) ?? { count: 0, sum: [0, 0, 0] };
+    bucket.count++;
+    bucket.sum[0] += data[i];
+    bucket.sum[1] += data[i + 1];
+    bucket.sum[2] += data[i + 2];
+    buckets.set(key, bucket);
+    total++;
+  };
+  for (let x = 0; x < width; x++) {
+    sample(x, 0);
+    sample(x, height - 1);
+  }
+  for (let y = 1; y < height - 1; y++) {
+    sample(0, y);
+    sample(width - 1, y);
+  }
+
+  return [...buckets.values()]
+    .filter(bucket => bucket.count >= total * MIN_BACKGROUND_SHARE)
+    .sort((a, b) => b.count - a.count)
+    .slice(0, MAX_BACKGROUND_COLORS)
+    .map(({ count, sum }) => sum.map(channel => channel / count) as Rgb);
+}
+
+// Distance of every pixel to the nearest background colour; transparent pixels count as background.
+// With no background colours every opaque pixel is as far as it gets.
+function backgroundDistances(pixels: ImageData, colors: Rgb[]): Uint8ClampedArray {
+  const { data } = pixels;
+  const distances = new Uint8ClampedArray(pixels.width * pixels.height);
+  for (let p = 0; p < distances.length; p++) {
+    const i = p * 4;
+    if (data[i + 3] < 16) continue;
+    let best = 255;
+    for (const [r, g, b] of colors) {
+      best = Math.min(best, Math.max(Math.abs(data[i] - r), Math.abs(data[i + 1] - g), Math.abs(data[i + 2] - b)));
+    }
+    distances[p] = best;
+  }
+  return distances;
+}
+
+const colorJump = (data: Uint8ClampedArray, a: number, b: number) =>
+  Math.max(Math.abs(data[a * 4] - data[b * 4]), Math.abs(data[a * 4 + 1] - data[b * 4 + 1]), Math.abs(data[a * 4 + 2] - data[b * 4 + 2]));
+
+/**
+ * Computes the product mask of `pixels`.
+ */
+export function segmentForeground(pixels: ImageData, options: BackgroundRemovalOptions = DEFAULT_BACKGROUND_REMOVAL_OPTIONS): Uint8ClampedArray {
+  const { width, height, data } = pixels;
+  const colors = estimateBackgroundColors(pixels);
+  const mask = new Uint8ClampedArray(width * height).fill(255);
+  // Without a dominant border colour only transparent pixels can be background.
+  const distances = backgroundDistances(pixels, colors);
+  const isBackground = (p: number) => distances[p] <= options.tolerance;
+  const queue = new Int32Array(width * height);
+  let head = 0;
+  let tail = 0;
+  const visit = (p: number) => {
+    if (mask[p] === 0 || !isBackground(p)) return;
+    mask[p] = 0;
+    queue[tail++] = p;
+  };
+
+  for (let x = 0; x < width; x++) {
+    visit(x);
+    visit((height - 1) * width + x);
+  }
+  for (let y = 0; y < height; y++) {
+    visit(y * width);
+    visit(y * width + width - 1);
+  }
+
+  while (head < tail) {
+    const p = queue[head++];
+    const x = p % width;
+    const spread = (q: number) => {
+      if (colorJump(data, p, q) < options.edgeThreshold) visit(q);
+    };
+    if (x > 0) spread(p - 1);
+    if (x < width - 1) spread(p + 1);
+    if (p >= width) spread(p - width);
+    if (p < width * (height - 1)) spread(p + width);
+  }
+  return mask;
+}
+
+/**
+ * Replaces the hard mask edge with partial transparency within `radius` pixels of it, based on how
+ * close each pixel is to the background colour. Recovers soft outlines (hair, fabric, shadows
+ * blending into the backdrop) that a binary mask cuts off.
+ */
+export function refineEdges(pixels: ImageData, mask: Uint8ClampedArray, radius: number, options: BackgroundRemovalOptions = DEFAULT_BACKGROUND_REMOVAL_OPTIONS): Uint8ClampedArray {
+  const { width, height } = pixels;
+  if (radius <= 0) return mask;
+  const colors = estimateBackgroundColors(pixels);
+
+  const distances = backgroundDistances(pixels, colors);
+  const outer = growMask(mask, width, height, radius);
+  const inner = growMask(mask, width, height, -radius);
+  const low = options.tolerance / 2;
+  const high = Math.max(low + 1, options.tolerance * 2);
+
+  return mask.map((value, p) => {
+    if (outer[p] < 128 || inner[p] >= 128) return value;
+    const t = Math.min(1, Math.max(0, (distances[p] - low) / (high - low)));
+    return Math.round(t * t * (3 - 2 * t) * 255);
+  });
+}
+
+/**
+ * Returns a copy of `pixels` with `mask` applied to the alpha channel, optionally flattened on
+ * an opaque `background` colour.
+ */
+export function applyForegroundMask(pixels: ImageData, mask: Uint8ClampedArray, background?: Rgb): ImageData {
+  const result = new ImageData(new Uint8ClampedArray(pixels.data), pixels.width, pixels.height);
+  const { data } = result;
+  for (let p = 0; p < mask.length; p++) {
+    const i = p * 4;
+    const alpha = (data[i + 3] * mask[p]) / 255;
+    if (!background) {
+      data[i + 3] = alpha;
+      continue;
+    }
+    const a = alpha / 255;
+    data[i] = data[i] * a + background[0] * (1 - a);
+    data[i + 1] = data[i + 1] * a + background[1] * (1 - a);
+    data[i + 2] = data[i + 2] * a + background[2] * (1 - a);
+    data[i + 3] = 255;
+  }
+  return result;
+}
@@ -0,0 +1,92 @@
+/**
+ * Immutable image content kept once per distinct payload. Callers hold short object URLs
+ * instead of multi-megabyte data URLs, so editor state and history snapshots stay small
+ * and every snapshot referencing the same pixels shares a single Blob.
+ */
+interface BlobEntry {
+  hash: string;
+  blob: Blob;
+}
+
+const urlsByHash = new Map<string, string>();
+const entriesByUrl = new Map<string, BlobEntry>();
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+
+export async function hashBlob(blob: Blob): Promise<string> {
+  return toHex(await crypto.subtle.digest('SHA-256', await blob.arrayBuffer()));
+}
+
+export function dataUrlToBlob(dataUrl: string): Blob {
+  const [header, data] = dataUrl.split(',');
+  const mimeType = header.match(/^data:([^;]+)/)?.[1] ?? 'application/octet-stream';
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: mimeType });
+}
+
+export const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+/**
+ * Stores `blob` (or finds identical content already stored) and returns its object URL.
+ * Pass `knownHash` when the content hash was already computed elsewhere.
+ */
+export async function internBlob(blob: Blob, knownHash?: string): Promise<string> {
+  const hash = knownHash ?? await hashBlob(blob);
+  const existing = urlsByHash.get(hash);
+  if (existing) return existing;
+
+  const url = URL.createObjectURL(blob);
+  urlsByHash.set(hash, url);
+  entriesByUrl.set(url, { hash, blob });
+  return url;
+}
+
+/**
+ * Interns a data URL. Anything else (an interned object URL, a remote URL) is returned as is.
+ */
+export async function internDataUrl(src: string): Promise<string> {
+  return src.startsWith('data:') ? internBlob(dataUrlToBlob(src)) : src;
+}
+
+export const getInternedBlob = (url: string): { hash: string; blob: Blob } | undefined => entriesByUrl.get(url);
+
+export const getInternedSize = (url: string): number => entriesByUrl.get(url)?.blob.size ?? 0;
+
+/**
+ * Resolves an interned object URL back to a data URL, for APIs that need inline base64.
+ */
+export async function resolveToDataUrl(src: string): Promise<string> {
+  const entry = entriesByUrl.get(src);
+  return entry ? blobToDataUrl(entry.blob) : src;
+}
+
+const release = (url: string) => {
+  const entry = entriesByUrl.get(url);
+  if (!entry) return;
+  URL.revokeObjectURL(url);
+  entriesByUrl.delete(url);
+  urlsByHash.delete(entry.hash);
+};
+
+/**
+ * Revokes every stored blob whose URL is not in `referenced`, letting the browser free it.
+ */
+export function releaseUnreferenced(referenced: Set<string>): void {
+  [...entriesByUrl.keys()].filter(url => !referenced.has(url)).forEach(release);
+}
+
+/**
+ * Revokes the stored blobs behind `urls`. URLs that were not interned are ignored.
+ */
+export function releaseUrls(urls: Iterable<string>): void {
+  for (const url of urls) release(url);
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_EXPORT_PROFILE_ID, getDefaultExportSettings, getExportProfile } from '../constants';
+import { DEFAULT_ADJUSTMENTS } from './adjustments';
+import { copyEdits, getAvailableEditProperties, pasteEdits, type EditableImage } from './editClipboard';
+import { createImageLayer, createShapeLayer, createTextLayer } from './layers';
+
+const photo = createImageLayer('blob:foto', 'base', 'Original');
+
+const source: EditableImage = {
+  id: 'fonte',
+  naturalWidth: 1000,
+  naturalHeight: 500,
+  // 400 x 200 px, a 2:1 crop.
+  crop: { unit: '%', x: 10, y: 20, width: 40, height: 40 },
+  adjustments: { ...DEFAULT_ADJUSTMENTS, brightness: 120 },
+  maskSrc: 'blob:mascara',
+  layers: [photo, createTextLayer({ text: 'Promoção' })],
+  exportProfileId: 'amazon',
+  exportSettings: getDefaultExportSettings(getExportProfile('amazon')),
+};
+
+const target: EditableImage = {
+  id: 'destino',
+  naturalWidth: 1000,
+  naturalHeight: 500,
+  crop: undefined,
+  adjustments: DEFAULT_ADJUSTMENTS,
+  maskSrc: null,
+  layers: [createImageLayer('blob:outra', 'base', 'Original'), createShapeLayer('rectangle')],
+  exportProfileId: DEFAULT_EXPORT_PROFILE_ID,
+  exportSettings: getDefaultExportSettings(getExportProfile(DEFAULT_EXPORT_PROFILE_ID)),
+};
+
+describe('getAvailableEditProperties', () => {
+  it('offers only what the copied image has', () => {
+    expect(getAvailableEditProperties(copyEdits(source))).toEqual(['crop', 'adjustments', 'mask', 'overlays', 'exportProfile']);
+    expect(getAvailableEditProperties(copyEdits({ ...source, crop: undefined, maskSrc: null, layers: [photo] })))
+      .toEqual(['adjustments', 'exportProfile']);
+  });
+});
+
+describe('pasteEdits', () => {
+  it('changes only the chosen properties', async () => {
+    const result = await pasteEdits(target, copyEdits(source), ['adjustments', 'exportProfile']);
+    expect(result).toEqual({
+      ...target,
+      adjustments: source.adjustments,
+      exportProfileId: 'amazon',
+      exportSettings: source.exportSettings,
+    });
+  });
+
+  it('replaces the overlays of the target with copies of the source ones', async () => {
+    const result = await pasteEdits(target, copyEdits(source), ['overlays']);
+    expect(result.layers.map(layer => layer.kind)).toEqual(['image', 'text']);
+    expect(result.layers[0]).toBe(target.layers[0]);
+    expect(result.layers[1].id).not.toBe(source.layers[1].id);
+  });
+
+  it('keeps the mask of a same-size source as is', async () => {
+    expect((await pasteEdits(target, copyEdits(source), ['mask'])).maskSrc).toBe('blob:mascara');
+  });
+
+  it('keeps the proportions of the copied crop on images of another size', async () => {
+    const square = { ...target, naturalWidth: 800, naturalHeight: 800 };
+    const { crop } = await pasteEdits(square, copyEdits(source), ['crop']);
+    const width = (crop!.width / 100) * 800;
+    const height = (crop!.height / 100) * 800;
+    expect(width / height).toBeCloseTo(2);
+    // Same center as on the source: 30% across, 40% down.
+    expect(crop!.x + crop!.width / 2).toBeCloseTo(30);
+    expect(crop!.y + crop!.height / 2).toBeCloseTo(40);
+  });
+});
@@ -0,0 +1,110 @@
+import { type Crop } from 'react-image-crop';
+import { type ExportSettings } from '../constants';
+import { type ImageAdjustments } from './adjustments';
+import { internDataUrl } from './blobStore';
+import { fitCropToRatio } from './exportImage';
+import { cloneOverlayLayer, isOverlayLayer, type Layer, type OverlayLayer } from './layers';
+
+export type EditProperty = 'crop' | 'adjustments' | 'mask' | 'overlays' | 'exportProfile';
+
+export const EDIT_PROPERTIES: { id: EditProperty; name: string }[] = [
+  { id: 'crop', name: 'Corte' },
+  { id: 'adjustments', name: 'Ajustes' },
+  { id: 'mask', name: 'Máscara' },
+  { id: 'overlays', name: 'Textos e sobreposições' },
+  { id: 'exportProfile', name: 'Perfil de exportação' },
+];
+
+/**
+ * The parts of an image the edit clipboard reads and writes.
+ */
+export interface EditableImage {
+  id: string;
+  naturalWidth: number;
+  naturalHeight: number;
+  crop?: Crop;
+  adjustments: ImageAdjustments;
+  maskSrc: string | null;
+  layers: Layer[];
+  exportProfileId: string;
+  exportSettings: ExportSettings;
+}
+
+export interface CopiedEdits {
+  sourceId: string;
+  naturalWidth: number;
+  naturalHeight: number;
+  crop: Crop | undefined;
+  adjustments: ImageAdjustments;
+  maskSrc: string | null;
+  overlays: OverlayLayer[];
+  exportProfileId: string;
+  exportSettings: ExportSettings;
+}
+
+export const copyEdits = (image: EditableImage): CopiedEdits => ({
+  sourceId: image.id,
+  naturalWidth: image.naturalWidth,
+  naturalHeight: image.naturalHeight,
+  crop: image.crop,
+  adjustments: image.adjustments,
+  maskSrc: image.maskSrc,
+  overlays: image.layers.filter(isOverlayLayer),
+  exportProfileId: image.exportProfileId,
+  exportSettings: image.exportSettings,
+});
+
+/**
+ * Properties the copied image actually has; the rest would only clear the target.
+ */
+export function getAvailableEditProperties(edits: CopiedEdits): EditProperty[] {
+  return EDIT_PROPERTIES.map(p => p.id).filter(id =>
+    (id !== 'crop' || !!edits.crop?.width) &&
+    (id !== 'mask' || !!edits.maskSrc) &&
+    (id !== 'overlays' || edits.overlays.length > 0)
+  );
+}
+
+/**
+ * The copied crop on an image of another size: same position and size in percent, narrowed
+ * around its center where needed to keep the proportions it had on the source.
+ */
+function getRelativeCrop(edits: CopiedEdits, image: EditableImage): Crop | undefined {
+  const { crop } = edits;
+  if (!crop?.width || !crop.height) return undefined;
+  const ratio = (crop.width * edits.naturalWidth) / (crop.height * edits.naturalHeight);
+  return fitCropToRatio(crop, image.naturalWidth, image.naturalHeight, ratio);
+}
+
+async function scaleMask(maskSrc: string, width: number, height: number): Promise<string> {
+  const mask = new Image();
+  mask.src = maskSrc;
+  await mask.decode();
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  canvas.getContext('2d')?.drawImage(mask, 0, 0, width, height);
+  return internDataUrl(canvas.toDataURL());
+}
+
+/**
+ * `image` with the chosen properties of `edits`. Copied overlays replace the image's own.
+ */
+export async function pasteEdits<T extends EditableImage>(image: T, edits: CopiedEdits, properties: EditProperty[]): Promise<T> {
+  let result = { ...image };
+  if (properties.includes('crop')) result.crop = getRelativeCrop(edits, image);
+  if (properties.includes('adjustments')) result.adjustments = edits.adjustments;
+  if (properties.includes('mask')) {
+    result.maskSrc = edits.maskSrc && (edits.naturalWidth === image.naturalWidth && edits.naturalHeight === image.naturalHeight
+      ? edits.maskSrc
+      : await scaleMask(edits.maskSrc, image.naturalWidth, image.naturalHeight));
+  }
+  if (properties.includes('overlays')) {
+    // Overlay positions and sizes are relative to the document, so they carry over as they are.
+    result.layers = [...image.layers.filter(layer => !isOverlayLayer(layer)), ...edits.overlays.map(cloneOverlayLayer)];
+  }
+  if (properties.includes('exportProfile')) {
+    result = { ...result, exportProfileId: edits.exportProfileId, exportSettings: edits.exportSettings };
+  }
+  return result;
+}
@@ -0,0 +1,161 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ASPECT_RATIOS, type ExportProfile, type ExportSettings } from '../constants';
+import { exportImage, fitCropToRatio } from './exportImage';
+import { createCroppedCanvas } from './imageUtils';
+
+// Node has no canvas. Fake canvases record where they are drawn and encode to a blob of
+// `bytesPerQuality` bytes per quality point, so size limits have a known answer.
+interface FakeCanvas {
+  width: number;
+  height: number;
+  draws: unknown[][];
+}
+
+let canvases: FakeCanvas[] = [];
+let bytesPerQuality = 1024;
+
+const createFakeCanvas = (): FakeCanvas => {
+  const canvas = {
+    width: 0,
+    height: 0,
+    draws: [] as unknown[][],
+    getContext: () => ({ drawImage: (...args: unknown[]) => canvas.draws.push(args), fillRect: () => {} }),
+    toBlob: (callback: (blob: Blob) => void, _type: string, quality: number) =>
+      callback(new Blob([new Uint8Array(Math.round(quality * 100) * bytesPerQuality)])),
+    toDataURL: (type: string) => `data:${type};base64,`,
+  };
+  canvases.push(canvas);
+  return canvas;
+};
+
+beforeEach(() => {
+  canvases = [];
+  bytesPerQuality = 1024;
+  vi.stubGlobal('document', { createElement: createFakeCanvas });
+  vi.stubGlobal('HTMLImageElement', class {});
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+const createSource = (width: number, height: number) => ({ width, height }) as HTMLCanvasElement;
+
+const profile: ExportProfile = {
+  id: 'teste',
+  name: 'Loja Teste',
+  aspectRatio: ASPECT_RATIOS[0],
+  minSize: 500,
+  maxSize: 1000,
+  format: 'image/webp',
+  acceptedFormats: ['image/webp', 'image/png'],
+  maxFileSizeKB: null,
+  requireWhiteBackground: false,
+  maxProductFill: null,
+};
+
+const settings: ExportSettings = { format: 'image/webp', quality: 90, maxFileSizeKB: null };
+
+// The canvas createCroppedCanvas drew the export on.
+const getOutput = () => canvases.find(canvas => canvas.draws.length > 0)!;
+
+describe('fitCropToRatio', () => {
+  it('narrows a crop around its center to the ratio', () => {
+    const crop = fitCropToRatio({ unit: '%', x: 0, y: 0, width: 100, height: 100 }, 2000, 1000, 1);
+    expect(crop).toEqual({ unit: '%', x: 25, y: 0, width: 50, height: 100 });
+  });
+
+  it('lowers a crop that is too tall', () => {
+    const crop = fitCropToRatio({ unit: '%', x: 0, y: 0, width: 50, height: 100 }, 1000, 1000, 2);
+    expect(crop).toEqual({ unit: '%', x: 0, y: 37.5, width: 50, height: 25 });
+  });
+});
+
+describe('createCroppedCanvas', () => {
+  it('scales the whole image to the output width without a crop', () => {
+    const canvas = createCroppedCanvas(createSource(2000, 1000), undefined, 500) as unknown as FakeCanvas;
+    expect([canvas.width, canvas.height]).toEqual([500, 250]);
+    expect(canvas.draws[0].slice(1)).toEqual([0, 0, 500, 250]);
+  });
+
+  it('draws the percent crop in pixels, keeping its proportions', () => {
+    const crop = { unit: '%' as const, x: 10, y: 20, width: 50, height: 40 };
+    const canvas = createCroppedCanvas(createSource(2000, 1000), crop, 500) as unknown as FakeCanvas;
+    expect([canvas.width, canvas.height]).toEqual([500, 200]);
+    expect(canvas.draws[0].slice(1)).toEqual([200, 200, 1000, 400, 0, 0, 500, 200]);
+  });
+});
+
+describe('exportImage', () => {
+  it('fits the crop to the ratio the profile requires and says so', async () => {
+    const result = await exportImage(createSource(2000, 1000), undefined, profile, settings);
+    // The centred 1000 x 1000 px square of the source, at the maximum size.
+    expect(getOutput().draws[0].slice(1, 5)).toEqual([500, 0, 1000, 1000]);
+    expect([result.width, result.height]).toEqual([1000, 1000]);
+    expect(result.issues).toContainEqual({ level: 'info', message: 'Corte ajustado para o formato Quadrado exigido por Loja Teste.' });
+  });
+
+  it('keeps crops that already have the ratio', async () => {
+    const crop = { unit: '%' as const, x: 10, y: 10, width: 40, height: 80 };
+    const result = await exportImage(createSource(2000, 1000), crop, profile, settings);
+    expect(getOutput().draws[0].slice(1, 5)).toEqual([200, 100, 800, 800]);
+    expect(result.issues).toEqual([]);
+  });
+
+  it('shrinks images above the maximum size', async () => {
+    const result = await exportImage(createSource(3000, 3000), undefined, profile, settings);
+    expect([result.width, result.height]).toEqual([1000, 1000]);
+  });
+
+  it('enlarges images below the minimum size and warns about it', async () => {
+    const result = await exportImage(createSource(300, 300), undefined, profile, settings);
+    expect([result.width, result.height]).toEqual([500, 500]);
+    expect(result.issues).toEqual([
+      { level: 'warning', message: 'Resolução baixa: a imagem foi ampliada de 300 px para 500 px e pode perder nitidez.' },
+    ]);
+  });
+
+  it('keeps images within the range at their size', async () => {
+    const result = await exportImage(createSource(800, 600), undefined, { ...profile, aspectRatio: null }, settings);
+    expect([result.width, result.height]).toEqual([800, 600]);
+  });
+});
+
+describe('exportImage file size limit', () => {
+  const free = { ...profile, aspectRatio: null };
+  const source = createSource(800, 800);
+
+  it('keeps the requested quality when the file fits', async () => {
+    const result = await exportImage(source, undefined, free, { ...settings, maxFileSizeKB: 100 });
+    expect(result.quality).toBe(90);
+    expect(result.issues).toEqual([]);
+  });
+
+  it('finds the highest quality that fits the limit', async () => {
+    // Every quality point weighs 1 KB, so the answer is the limit itself.
+    for (const limit of [10, 11, 37, 50, 64, 88, 89]) {
+      const result = await exportImage(source, undefined, free, { ...settings, maxFileSizeKB: limit });
+      expect(result.quality).toBe(limit);
+      expect(result.blob.size).toBeLessThanOrEqual(limit * 1024);
+    }
+  });
+
+  it('applies the tighter of the profile and user limits and reports the lower quality', async () => {
+    const result = await exportImage(source, undefined, { ...free, maxFileSizeKB: 40 }, { ...settings, maxFileSizeKB: 60 });
+    expect(result.quality).toBe(40);
+    expect(result.issues).toEqual([{ level: 'info', message: 'Qualidade reduzida para 40% para caber no limite de 40 KB.' }]);
+  });
+
+  it('falls back to the smallest encoding and warns when nothing fits', async () => {
+    const result = await exportImage(source, undefined, free, { ...settings, maxFileSizeKB: 5 });
+    expect(result.quality).toBe(10);
+    expect(result.issues).toEqual([{ level: 'warning', message: 'O arquivo tem 10 KB e excede o limite de 5 KB.' }]);
+  });
+
+  it('does not search qualities for lossless formats', async () => {
+    bytesPerQuality = 2048;
+    const result = await exportImage(source, undefined, free, { format: 'image/png', quality: 90, maxFileSizeKB: 50 });
+    expect(result.quality).toBe(90);
+    expect(result.issues).toEqual([{ level: 'warning', message: 'O arquivo tem 180 KB e excede o limite de 50 KB.' }]);
+  });
+});
@@ -0,0 +1,176 @@
+import { type Crop } from 'react-image-crop';
+import { EXPORT_FORMATS, type ExportFormat, type ExportProfile, type ExportSettings } from '../constants';
+import { analyzeProduct } from './imageAnalysis';
+import { canvasToBlob, createCroppedCanvas, isEncodingSupported } from './imageUtils';
+
+export interface ExportIssue {
+  // 'info' reports something that was fixed automatically, 'warning' something that was not.
+  level: 'info' | 'warning';
+  message: string;
+}
+
+export interface ExportResult {
+  blob: Blob;
+  width: number;
+  height: number;
+  format: ExportFormat;
+  // Quality actually used (1-100), lower than requested when a size limit forced it down.
+  quality: number;
+  issues: ExportIssue[];
+}
+
+const MIN_QUALITY = 10;
+// Seven halvings of the 1-100 range land within one quality point of the best fit.
+const QUALITY_SEARCH_STEPS = 7;
+
+export const formatKB = (bytes: number) => `${Math.round(bytes / 1024)} KB`;
+
+/**
+ * Shrinks a percent crop around its center until it matches `ratio` (width / height).
+ */
+export function fitCropToRatio(crop: Crop | undefined, naturalWidth: number, naturalHeight: number, ratio: number): Crop {
+  const base = crop && crop.width && crop.height ? crop : { unit: '%' as const, x: 0, y: 0, width: 100, height: 100 };
+  let width = (base.width / 100) * naturalWidth;
+  let height = (base.height / 100) * naturalHeight;
+  const centerX = (base.x / 100) * naturalWidth + width / 2;
+  const centerY = (base.y / 100) * naturalHeight + height / 2;
+
+  if (width / height > ratio) {
+    width = height * ratio;
+  } else {
+    height = width / ratio;
+  }
+
+  return {
+    unit: '%',
+    x: ((centerX - width / 2) / naturalWidth) * 100,
+    y: ((centerY - height / 2) / naturalHeight) * 100,
+    width: (width / naturalWidth) * 100,
+    height: (height / naturalHeight) * 100,
+  };
+}
+
+const isLossy = (format: ExportFormat) => EXPORT_FORMATS.find(f => f.id === format)?.lossy ?? false;
+const getFormatName = (format: ExportFormat) => EXPORT_FORMATS.find(f => f.id === format)?.name ?? format;
+
+/**
+ * Encodes `canvas` at `quality`, or, when the result exceeds `maxBytes`, at the highest
+ * quality that fits, found by binary search. Falls back to the smallest encoding tried.
+ */
+async function encodeCanvas(canvas: HTMLCanvasElement, format: ExportFormat, quality: number, maxBytes: number | null): Promise<{ blob: Blob; quality: number }> {
+  const blob = await canvasToBlob(canvas, format, quality / 100);
+  if (!maxBytes || blob.size <= maxBytes || !isLossy(format)) {
+    return { blob, quality };
+  }
+
+  let low = MIN_QUALITY;
+  let high = quality - 1;
+  let best: { blob: Blob; quality: number } | null = null;
+  let smallest = { blob, quality };
+  for (let step = 0; step < QUALITY_SEARCH_STEPS && low <= high; step++) {
+    const candidateQuality = Math.round((low + high) / 2);
+    const candidate = await canvasToBlob(canvas, format, candidateQuality / 100);
+    if (candidate.size < smallest.blob.size) {
+      smallest = { blob: candidate, quality: candidateQuality };
+    }
+    if (candidate.size <= maxBytes) {
+      best = { blob: candidate, quality: candidateQuality };
+      low = candidateQuality + 1;
+    } else {
+      high = candidateQuality - 1;
+    }
+  }
+  return best ?? smallest;
+}
+
+const createWhiteCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not get canvas context');
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, width, height);
+  return { canvas, ctx };
+};
+
+/**
+ * Crops, resizes and encodes a flattened image following `profile` and `settings`, fixing
+ * what can be fixed automatically and reporting the rest as issues to review before saving.
+ */
+export async function exportImage(source: HTMLCanvasElement, crop: Crop | undefined, profile: ExportProfile, settings: ExportSettings): Promise<ExportResult> {
+  const issues: ExportIssue[] = [];
+  let format = settings.format;
+  if (!isEncodingSupported(format)) {
+    issues.push({ level: 'warning', message: `Este navegador não gera ${getFormatName(format)}; a imagem foi salva em PNG.` });
+    format = 'image/png';
+  }
+  if (!profile.acceptedFormats.includes(format)) {
+    issues.push({ level: 'warning', message: `${profile.name} não aceita ${getFormatName(format)}.` });
+  }
+
+  let cropToUse = crop && crop.width && crop.height ? crop : undefined;
+
+  if (profile.aspectRatio) {
+    const cropWidth = ((cropToUse?.width ?? 100) / 100) * source.width;
+    const cropHeight = ((cropToUse?.height ?? 100) / 100) * source.height;
+    const { ratio, name } = profile.aspectRatio;
+    if (Math.abs(cropWidth / cropHeight - ratio) / ratio > 0.01) {
+      cropToUse = fitCropToRatio(cropToUse, source.width, source.height, ratio);
+      issues.push({ level: 'info', message: `Corte ajustado para o formato ${name} exigido por ${profile.name}.` });
+    }
+  }
+
+  const cropWidth = ((cropToUse?.width ?? 100) / 100) * source.width;
+  const cropHeight = ((cropToUse?.height ?? 100) / 100) * source.height;
+  const longestSide = Math.max(cropWidth, cropHeight);
+  const targetSide = Math.min(profile.maxSize, Math.max(profile.minSize, longestSide));
+  if (longestSide < profile.minSize) {
+    issues.push({ level: 'warning', message: `Resolução baixa: a imagem foi ampliada de ${Math.round(longestSide)} px para ${profile.minSize} px e pode perder nitidez.` });
+  }
+
+  let canvas = createCroppedCanvas(source, cropToUse, Math.round(cropWidth * (targetSide / longestSide)));
+
+  // JPEG has no transparency, and marketplaces that require a white background expect white, not alpha.
+  if (format === 'image/jpeg' || profile.requireWhiteBackground) {
+    const flattened = createWhiteCanvas(canvas.width, canvas.height);
+    flattened.ctx.drawImage(canvas, 0, 0);
+    canvas = flattened.canvas;
+  }
+
+  if (profile.requireWhiteBackground || profile.maxProductFill) {
+    const { fill, isWhiteBackground } = analyzeProduct(canvas);
+    if (profile.requireWhiteBackground && !isWhiteBackground) {
+      issues.push({ level: 'warning', message: `${profile.name} exige fundo branco. Use o aprimoramento "Fundo Branco" antes de salvar.` });
+    }
+    if (profile.maxProductFill && fill > profile.maxProductFill) {
+      if (isWhiteBackground) {
+        // Scale the content down around the center so the product keeps a white margin.
+        const scale = profile.maxProductFill / fill;
+        const padded = createWhiteCanvas(canvas.width, canvas.height);
+        const width = canvas.width * scale;
+        const height = canvas.height * scale;
+        padded.ctx.drawImage(canvas, (canvas.width - width) / 2, (canvas.height - height) / 2, width, height);
+        canvas = padded.canvas;
+        issues.push({ level: 'info', message: `Margem adicionada: o produto ocupava ${Math.round(fill)}% da imagem (máximo de ${profile.maxProductFill}%).` });
+      } else {
+        issues.push({ level: 'warning', message: `O produto ocupa ${Math.round(fill)}% da imagem; ${profile.name} aceita no máximo ${profile.maxProductFill}%.` });
+      }
+    }
+  }
+
+  // The profile limit always applies; the user's target may only tighten it.
+  const limits = [settings.maxFileSizeKB, profile.maxFileSizeKB].filter((kb): kb is number => !!kb);
+  const maxBytes = limits.length > 0 ? Math.min(...limits) * 1024 : null;
+  const { blob, quality } = await encodeCanvas(canvas, format, settings.quality, maxBytes);
+  if (maxBytes) {
+    if (quality < settings.quality && blob.size <= maxBytes) {
+      issues.push({ level: 'info', message: `Qualidade reduzida para ${quality}% para caber no limite de ${formatKB(maxBytes)}.` });
+    }
+    if (blob.size > maxBytes) {
+      issues.push({ level: 'warning', message: `O arquivo tem ${formatKB(blob.size)} e excede o limite de ${formatKB(maxBytes)}.` });
+    }
+  }
+
+  return { blob, width: canvas.width, height: canvas.height, format, quality, issues };
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { computeProductFrame, getFramePadding } from './framing';
+
+describe('computeProductFrame', () => {
+  it('sizes the frame so the product covers the requested share, centred', () => {
+    const frame = computeProductFrame({ x: 100, y: 100, width: 200, height: 100 }, { aspectRatio: 1, fill: 50, margin: 0 });
+    expect(frame).toEqual({ x: 0, y: -50, width: 400, height: 400 });
+  });
+
+  it('uses the product side that is widest relative to the ratio', () => {
+    const frame = computeProductFrame({ x: 0, y: 0, width: 100, height: 300 }, { aspectRatio: 0.5, fill: 100, margin: 0 });
+    expect(frame.width).toBe(150);
+    expect(frame.height).toBe(300);
+  });
+
+  it('grows the frame when the margin leaves less room than the fill', () => {
+    // A 20% margin on both sides leaves 60% of the frame, less than the 90% fill asks for.
+    const frame = computeProductFrame({ x: 0, y: 0, width: 60, height: 60 }, { aspectRatio: 1, fill: 90, margin: 20 });
+    expect(frame.width).toBeCloseTo(100);
+    expect(frame.height).toBeCloseTo(100);
+  });
+});
+
+describe('getFramePadding', () => {
+  it('is zero when the frame is inside the image', () => {
+    expect(getFramePadding({ x: 10, y: 10, width: 50, height: 50 }, 100, 100)).toEqual({ top: 0, right: 0, bottom: 0, left: 0 });
+  });
+
+  it('covers the parts of the frame outside the image, rounded up', () => {
+    expect(getFramePadding({ x: -10.5, y: -5, width: 130, height: 110.2 }, 100, 100)).toEqual({ top: 5, right: 20, bottom: 6, left: 11 });
+  });
+});
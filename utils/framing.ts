@@ -0,0 +1,63 @@
+import { type ProductBounds } from './imageAnalysis';
+import { type Padding } from './padding';
+
+export interface FramingOptions {
+  // Width / height of the resulting frame.
+  aspectRatio: number;
+  // Share of the frame, in percent, the product should cover on its widest side.
+  fill: number;
+  // Minimum free space on every side, in percent of the frame's width/height.
+  margin: number;
+}
+
+export const DEFAULT_FRAMING_OPTIONS: Omit<FramingOptions, 'aspectRatio'> = {
+  fill: 85,
+  margin: 5,
+};
+
+/**
+ * A rectangle in image pixels. It may extend past the image, where padding is needed.
+ */
+export interface Frame {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * The frame with the requested ratio, centred on the product, in which the product covers
+ * `fill` percent without getting closer than `margin` to any side.
+ */
+export function computeProductFrame(bounds: ProductBounds, options: FramingOptions): Frame {
+  const { aspectRatio } = options;
+  const fill = Math.min(100, Math.max(1, options.fill)) / 100;
+  const usable = Math.max(0.05, 1 - (2 * Math.min(45, Math.max(0, options.margin))) / 100);
+
+  // Frame width needed for each constraint; the frame height follows from the ratio.
+  const width = Math.max(
+    bounds.width / fill,
+    (bounds.height * aspectRatio) / fill,
+    bounds.width / usable,
+    (bounds.height * aspectRatio) / usable
+  );
+  const height = width / aspectRatio;
+  return {
+    x: bounds.x + bounds.width / 2 - width / 2,
+    y: bounds.y + bounds.height / 2 - height / 2,
+    width,
+    height,
+  };
+}
+
+/**
+ * How much an image of `imageWidth` x `imageHeight` must grow to contain `frame`.
+ */
+export function getFramePadding(frame: Frame, imageWidth: number, imageHeight: number): Padding {
+  return {
+    top: Math.max(0, Math.ceil(-frame.y)),
+    right: Math.max(0, Math.ceil(frame.x + frame.width - imageWidth)),
+    bottom: Math.max(0, Math.ceil(frame.y + frame.height - imageHeight)),
+    left: Math.max(0, Math.ceil(-frame.x)),
+  };
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { findDroppedGlossaryTerms, getGlossaryToken, normalizeGlossary, protectGlossaryTerms, restoreGlossaryTerms } from './glossary';
+import { EMPTY_PRODUCT_LISTING, type ProductListing } from './productListing';
+
+const listing: ProductListing = {
+  ...EMPTY_PRODUCT_LISTING,
+  title: 'Luminária Aurora Plus de mesa',
+  longDescription: 'A aurora plus ilumina sem ofuscar. Da linha Aurora.',
+  keywords: ['aurora', 'auroral'],
+};
+
+describe('normalizeGlossary', () => {
+  it('trims terms and drops blanks and case-insensitive repeats', () => {
+    expect(normalizeGlossary([' Aurora ', '', 'aurora', 'Aurora Plus', '  '])).toEqual(['Aurora', 'Aurora Plus']);
+  });
+});
+
+describe('protectGlossaryTerms', () => {
+  const glossary = ['Aurora', 'Aurora Plus'];
+
+  it('replaces whole-word matches, longest terms first and ignoring case', () => {
+    const protectedListing = protectGlossaryTerms(listing, glossary);
+    expect(protectedListing.title).toBe(`Luminária ${getGlossaryToken(1)} de mesa`);
+    expect(protectedListing.longDescription).toBe(`A ${getGlossaryToken(1)} ilumina sem ofuscar. Da linha ${getGlossaryToken(0)}.`);
+    expect(protectedListing.keywords).toEqual([getGlossaryToken(0), 'auroral']);
+  });
+
+  it('is undone by restoreGlossaryTerms, with the glossary spelling', () => {
+    const restored = restoreGlossaryTerms(protectGlossaryTerms(listing, glossary), glossary);
+    expect(restored.title).toBe(listing.title);
+    expect(restored.longDescription).toBe('A Aurora Plus ilumina sem ofuscar. Da linha Aurora.');
+  });
+});
+
+describe('restoreGlossaryTerms', () => {
+  it('leaves tokens without a glossary entry as they are', () => {
+    const restored = restoreGlossaryTerms({ ...EMPTY_PRODUCT_LISTING, title: `${getGlossaryToken(0)} ${getGlossaryToken(5)}` }, ['Aurora']);
+    expect(restored.title).toBe(`Aurora ${getGlossaryToken(5)}`);
+  });
+});
+
+describe('findDroppedGlossaryTerms', () => {
+  it('lists the terms that were sent but are missing from the result', () => {
+    const glossary = ['Aurora', 'Aurora Plus', 'Solar'];
+    const source = protectGlossaryTerms(listing, glossary);
+    const result = { ...source, title: 'Lamp de mesa', longDescription: `The ${getGlossaryToken(1)} shines.` };
+    // "Aurora" survives in the keywords; "Solar" was never in the listing.
+    expect(findDroppedGlossaryTerms(source, result, glossary)).toEqual([]);
+    expect(findDroppedGlossaryTerms(source, { ...result, longDescription: 'The lamp shines.' }, glossary)).toEqual(['Aurora Plus']);
+  });
+});
@@ -0,0 +1,61 @@
+import { LISTING_LIST_FIELDS, LISTING_TEXT_FIELDS, mapListingTexts, type ProductListing } from './productListing';
+
+/**
+ * Brand terms and product names that must come out of translation exactly as written.
+ * Before a listing is translated, each term is swapped for a placeholder the model is told to
+ * keep, and the term is put back afterwards, so it survives even when the model would translate it.
+ */
+
+export const getGlossaryToken = (index: number) => `⟦${index}⟧`;
+
+const GLOSSARY_TOKEN = /⟦(\d+)⟧/g;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Trimmed, without blanks or repeated terms (ignoring case).
+ */
+export function normalizeGlossary(terms: string[]): string[] {
+  const seen = new Set<string>();
+  return terms.map(term => term.trim()).filter(term => {
+    const key = term.toLowerCase();
+    if (!term || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Replaces each glossary term in `listing` with its placeholder. Longer terms go first, so
+ * "Linha Aurora Plus" is not split by an entry for "Aurora".
+ */
+export function protectGlossaryTerms(listing: ProductListing, glossary: string[]): ProductListing {
+  const order = glossary.map((term, index) => ({ term, index })).sort((a, b) => b.term.length - a.term.length);
+  return mapListingTexts(listing, text => order.reduce(
+    (result, { term, index }) => result.replace(new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(term)}(?![\\p{L}\\p{N}])`, 'giu'), getGlossaryToken(index)),
+    text
+  ));
+}
+
+/**
+ * Puts the glossary terms back in place of their placeholders, spelled as in the glossary.
+ */
+export function restoreGlossaryTerms(listing: ProductListing, glossary: string[]): ProductListing {
+  return mapListingTexts(listing, text => text.replace(GLOSSARY_TOKEN, (token, index) => glossary[Number(index)] ?? token));
+}
+
+const collectTokens = (listing: ProductListing): Set<string> => {
+  const tokens = new Set<string>();
+  const texts = [...LISTING_TEXT_FIELDS.map(field => listing[field]), ...LISTING_LIST_FIELDS.flatMap(field => listing[field])];
+  texts.forEach(text => text.match(GLOSSARY_TOKEN)?.forEach(token => tokens.add(token)));
+  return tokens;
+};
+
+/**
+ * Glossary terms that were in the protected source but that the model dropped from its result.
+ */
+export function findDroppedGlossaryTerms(protectedSource: ProductListing, protectedResult: ProductListing, glossary: string[]): string[] {
+  const sent = collectTokens(protectedSource);
+  const kept = collectTokens(protectedResult);
+  return glossary.filter((_, index) => sent.has(getGlossaryToken(index)) && !kept.has(getGlossaryToken(index)));
+}
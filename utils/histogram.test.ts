@@ -0,0 +1,67 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { computeClippingOverlay, computeHistogram, getLuminance, getPercentile } from './histogram';
+
+// Node has no ImageData; the overlay only needs the (width, height) constructor.
+class TestImageData {
+  readonly colorSpace = 'srgb';
+  readonly data: Uint8ClampedArray;
+  constructor(readonly width: number, readonly height: number) {
+    this.data = new Uint8ClampedArray(width * height * 4);
+  }
+}
+
+beforeAll(() => {
+  vi.stubGlobal('ImageData', TestImageData);
+});
+
+const rgba = (...pixels: number[][]) => new Uint8ClampedArray(pixels.flat());
+
+describe('computeHistogram', () => {
+  it('counts each channel and the luminance of the opaque pixels', () => {
+    const histogram = computeHistogram(rgba([255, 0, 0, 255], [255, 255, 255, 255], [10, 20, 30, 0]));
+    expect(histogram.total).toBe(2);
+    expect(histogram.red[255]).toBe(2);
+    expect(histogram.green[0]).toBe(1);
+    expect(histogram.green[255]).toBe(1);
+    expect(histogram.luminance[getLuminance(255, 0, 0)]).toBe(1);
+    expect(histogram.luminance[255]).toBe(1);
+    expect(histogram.red[10]).toBe(0);
+  });
+
+  it('samples every step-th pixel', () => {
+    const data = rgba(...Array.from({ length: 10 }, (_, i) => [i, i, i, 255]));
+    const histogram = computeHistogram(data, 3);
+    expect(histogram.total).toBe(4);
+    expect([0, 3, 6, 9].map(v => histogram.luminance[v])).toEqual([1, 1, 1, 1]);
+  });
+});
+
+describe('getPercentile', () => {
+  it('returns the tone below which the given share of pixels falls', () => {
+    const counts = new Uint32Array(256);
+    counts[10] = 25;
+    counts[100] = 50;
+    counts[200] = 25;
+    expect(getPercentile(counts, 100, 0)).toBe(10);
+    expect(getPercentile(counts, 100, 0.5)).toBe(100);
+    expect(getPercentile(counts, 100, 0.8)).toBe(200);
+    expect(getPercentile(counts, 100, 1)).toBe(255);
+  });
+});
+
+describe('computeClippingOverlay', () => {
+  it('marks clipped highlights and shadows and reports their shares', () => {
+    const data = rgba([255, 120, 120, 255], [0, 50, 90, 255], [120, 120, 120, 255], [255, 255, 255, 0]);
+    const { overlay, highlights, shadows } = computeClippingOverlay({ width: 4, height: 1, data, colorSpace: 'srgb' } as ImageData);
+    expect(highlights).toBeCloseTo(1 / 3);
+    expect(shadows).toBeCloseTo(1 / 3);
+    expect([...overlay.data.slice(0, 4)]).toEqual([255, 0, 0, 200]);
+    expect([...overlay.data.slice(4, 8)]).toEqual([0, 96, 255, 200]);
+    expect([...overlay.data.slice(8)]).toEqual(new Array(8).fill(0));
+  });
+
+  it('reports no clipping without opaque pixels', () => {
+    const data = rgba([255, 255, 255, 0]);
+    expect(computeClippingOverlay({ width: 1, height: 1, data, colorSpace: 'srgb' } as ImageData)).toMatchObject({ highlights: 0, shadows: 0 });
+  });
+});
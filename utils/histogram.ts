@@ -0,0 +1,103 @@
+import { type ImageAdjustments } from './adjustments';
+
+/**
+ * Per-channel counts of the 256 tone values. Pixels that are mostly transparent are skipped:
+ * they are not part of the photo, and cutouts would otherwise pile up at black.
+ */
+export interface Histogram {
+  red: Uint32Array;
+  green: Uint32Array;
+  blue: Uint32Array;
+  luminance: Uint32Array;
+  // Number of pixels counted.
+  total: number;
+}
+
+const MIN_ALPHA = 128;
+
+export const getLuminance = (r: number, g: number, b: number) => Math.round(0.2126 * r + 0.7152 * g + 0.0722 * b);
+
+/**
+ * Counts every `step`-th pixel of `data` (RGBA). A step above 1 keeps large photos cheap; the
+ * shape of the histogram barely changes.
+ */
+export function computeHistogram(data: Uint8ClampedArray, step = 1): Histogram {
+  const histogram: Histogram = {
+    red: new Uint32Array(256),
+    green: new Uint32Array(256),
+    blue: new Uint32Array(256),
+    luminance: new Uint32Array(256),
+    total: 0,
+  };
+  for (let i = 0; i < data.length; i += 4 * step) {
+    if (data[i + 3] < MIN_ALPHA) continue;
+    histogram.red[data[i]]++;
+    histogram.green[data[i + 1]]++;
+    histogram.blue[data[i + 2]]++;
+    histogram.luminance[getLuminance(data[i], data[i + 1], data[i + 2])]++;
+    histogram.total++;
+  }
+  return histogram;
+}
+
+/**
+ * The tone value below which `ratio` (0-1) of the counted pixels fall.
+ */
+export function getPercentile(counts: Uint32Array, total: number, ratio: number): number {
+  const target = total * ratio;
+  let sum = 0;
+  for (let v = 0; v < 256; v++) {
+    sum += counts[v];
+    if (sum > target) return v;
+  }
+  return 255;
+}
+
+// Colours of the clipping overlay: highlights in red, shadows in blue, like most photo editors.
+const HIGHLIGHT_CLIP_COLOR = [255, 0, 0, 200];
+const SHADOW_CLIP_COLOR = [0, 96, 255, 200];
+
+export interface ClippingOverlay {
+  // Transparent except where a channel is at 255 (highlights) or 0 (shadows).
+  overlay: ImageData;
+  // Shares (0-1) of the counted pixels with clipped highlights or shadows.
+  highlights: number;
+  shadows: number;
+}
+
+export function computeClippingOverlay(pixels: ImageData): ClippingOverlay {
+  const { data, width, height } = pixels;
+  const overlay = new ImageData(width, height);
+  let highlights = 0, shadows = 0, total = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] < MIN_ALPHA) continue;
+    total++;
+    const color = Math.max(data[i], data[i + 1], data[i + 2]) >= 255
+      ? HIGHLIGHT_CLIP_COLOR
+      : Math.min(data[i], data[i + 1], data[i + 2]) <= 0 ? SHADOW_CLIP_COLOR : null;
+    if (!color) continue;
+    if (color === HIGHLIGHT_CLIP_COLOR) highlights++;
+    else shadows++;
+    overlay.data.set(color, i);
+  }
+  return { overlay, highlights: total && highlights / total, shadows: total && shadows / total };
+}
+
+/**
+ * A request to the histogram worker: `pixels` are the unadjusted preview, which the worker
+ * adjusts with the same engine as the canvas before counting.
+ */
+export interface HistogramRequest {
+  id: number;
+  pixels: ImageData;
+  adjustments: ImageAdjustments;
+  withClipping: boolean;
+  // Pixels per document pixel, as the adjustments' `scale`.
+  scale: number;
+}
+
+export interface HistogramResponse {
+  id: number;
+  histogram: Histogram;
+  clipping: ClippingOverlay | null;
+}
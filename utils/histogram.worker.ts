@@ -0,0 +1,14 @@
+import { applyAdjustments } from './adjustments';
+import { computeClippingOverlay, computeHistogram, type HistogramRequest, type HistogramResponse } from './histogram';
+
+// Adjusts the preview pixels and counts them off the main thread, so sliders stay smooth.
+self.onmessage = (event: MessageEvent<HistogramRequest>) => {
+  const { id, pixels, adjustments, withClipping, scale } = event.data;
+  applyAdjustments(pixels, adjustments, scale);
+  const response: HistogramResponse = {
+    id,
+    histogram: computeHistogram(pixels.data),
+    clipping: withClipping ? computeClippingOverlay(pixels) : null,
+  };
+  self.postMessage(response);
+};
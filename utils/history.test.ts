@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { trimHistory } from './history';
+
+interface Entry {
+  urls: string[];
+}
+
+const sizes: Record<string, number> = { a: 100, b: 100, c: 100, d: 100 };
+const getUrls = (entry: Entry) => entry.urls;
+const getSize = (url: string) => sizes[url] ?? 0;
+
+const entries: Entry[] = [{ urls: ['a'] }, { urls: ['a', 'b'] }, { urls: ['b', 'c'] }, { urls: ['c', 'd'] }];
+
+describe('trimHistory', () => {
+  it('keeps everything within the limits', () => {
+    const trimmed = trimHistory(entries, 3, { maxSteps: 10, maxBytes: 1000 }, getUrls, getSize);
+    expect(trimmed).toEqual({ entries, currentIndex: 3 });
+  });
+
+  it('drops the oldest entries beyond the step limit', () => {
+    const trimmed = trimHistory(entries, 3, { maxSteps: 2, maxBytes: 1000 }, getUrls, getSize);
+    expect(trimmed.entries).toEqual(entries.slice(2));
+    expect(trimmed.currentIndex).toBe(1);
+  });
+
+  it('counts blobs shared between entries once', () => {
+    // a, b, c and d together are 400 bytes, though the entries reference 7 blobs.
+    const trimmed = trimHistory(entries, 3, { maxSteps: 10, maxBytes: 400 }, getUrls, getSize);
+    expect(trimmed.entries).toHaveLength(4);
+  });
+
+  it('drops the oldest entries until the blobs fit the memory budget', () => {
+    // Without the first entry the rest still references all four blobs; without two, only b, c and d.
+    const trimmed = trimHistory(entries, 3, { maxSteps: 10, maxBytes: 300 }, getUrls, getSize);
+    expect(trimmed.entries).toEqual(entries.slice(2));
+    expect(trimmed.currentIndex).toBe(1);
+  });
+
+  it('always keeps the current entry and the ones after it', () => {
+    const trimmed = trimHistory(entries, 1, { maxSteps: 10, maxBytes: 0 }, getUrls, getSize);
+    expect(trimmed.entries).toEqual(entries.slice(1));
+    expect(trimmed.currentIndex).toBe(0);
+  });
+});
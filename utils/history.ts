@@ -0,0 +1,36 @@
+export interface HistoryLimits {
+  maxSteps: number;
+  maxBytes: number;
+}
+
+/**
+ * Drops the oldest entries until the history fits in `limits`. Memory is the combined size of
+ * the distinct blobs the retained entries reference, since entries share unchanged content.
+ * The current entry is always kept, even if it alone exceeds the budget.
+ */
+export function trimHistory<T>(
+  entries: T[],
+  currentIndex: number,
+  limits: HistoryLimits,
+  getUrls: (entry: T) => string[],
+  getSize: (url: string) => number
+): { entries: T[]; currentIndex: number } {
+  let start = Math.max(0, entries.length - limits.maxSteps);
+
+  const sizeFrom = (from: number) => {
+    const urls = new Set<string>();
+    for (let i = from; i < entries.length; i++) {
+      getUrls(entries[i]).forEach(url => urls.add(url));
+    }
+    let total = 0;
+    urls.forEach(url => { total += getSize(url); });
+    return total;
+  };
+
+  while (start < currentIndex && sizeFrom(start) > limits.maxBytes) {
+    start++;
+  }
+
+  start = Math.min(start, currentIndex);
+  return { entries: entries.slice(start), currentIndex: currentIndex - start };
+}
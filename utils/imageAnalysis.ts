@@ -0,0 +1,135 @@
+import { estimateBackgroundColors, segmentForeground } from './backgroundRemoval';
+
+export interface ProductBounds {
+  // In pixels of the analysed canvas.
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ProductAnalysis {
+  bounds: ProductBounds | null;
+  // Share of the frame, in percent, covered by the product on its widest side.
+  fill: number;
+  isWhiteBackground: boolean;
+}
+
+// Analysis runs on a downscaled copy; product bounds do not need full resolution.
+const ANALYSIS_SIZE = 256;
+// Channel distance from pure white still treated as background (JPEG noise, soft shadows).
+const WHITE_TOLERANCE = 12;
+// Share of border pixels that must be background for the image to count as "white background".
+const WHITE_BORDER_RATIO = 0.97;
+
+const isBackgroundPixel = (data: Uint8ClampedArray, i: number) =>
+  data[i + 3] < 16 ||
+  (data[i] >= 255 - WHITE_TOLERANCE && data[i + 1] >= 255 - WHITE_TOLERANCE && data[i + 2] >= 255 - WHITE_TOLERANCE);
+
+/**
+ * Finds the product inside an image shot on a white or transparent background.
+ * Pixels close to white or mostly transparent are background; everything else is product.
+ */
+export function analyzeProduct(source: HTMLCanvasElement): ProductAnalysis {
+  const scale = Math.min(1, ANALYSIS_SIZE / Math.max(source.width, source.height));
+  const width = Math.max(1, Math.round(source.width * scale));
+  const height = Math.max(1, Math.round(source.height * scale));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Could not get canvas context');
+  ctx.drawImage(source, 0, 0, width, height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+  let borderPixels = 0, whiteBorderPixels = 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const isBackground = isBackgroundPixel(data, (y * width + x) * 4);
+      if (x === 0 || y === 0 || x === width - 1 || y === height - 1) {
+        borderPixels++;
+        if (isBackground) whiteBorderPixels++;
+      }
+      if (!isBackground) {
+        if (x < minX) minX = x;
+        if (x > maxX) maxX = x;
+        if (y < minY) minY = y;
+        if (y > maxY) maxY = y;
+      }
+    }
+  }
+
+  const isWhiteBackground = whiteBorderPixels / borderPixels >= WHITE_BORDER_RATIO;
+  if (maxX < 0) {
+    return { bounds: null, fill: 0, isWhiteBackground };
+  }
+
+  const boundsWidth = maxX - minX + 1;
+  const boundsHeight = maxY - minY + 1;
+  return {
+    bounds: {
+      x: minX / scale,
+      y: minY / scale,
+      width: boundsWidth / scale,
+      height: boundsHeight / scale,
+    },
+    fill: Math.max(boundsWidth / width, boundsHeight / height) * 100,
+    isWhiteBackground,
+  };
+}
+
+export interface ProductDetection {
+  // In pixels of the source canvas.
+  bounds: ProductBounds | null;
+  // Dominant background colour as a CSS colour, or null when the background is transparent.
+  backgroundColor: string | null;
+}
+
+/**
+ * Finds the product on any plain background: transparent, or a colour taken from the image
+ * border. Uses the same segmentation as local background removal, on a downscaled copy.
+ */
+export function detectProduct(source: HTMLCanvasElement): ProductDetection {
+  const scale = Math.min(1, ANALYSIS_SIZE / Math.max(source.width, source.height));
+  const width = Math.max(1, Math.round(source.width * scale));
+  const height = Math.max(1, Math.round(source.height * scale));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Could not get canvas context');
+  ctx.drawImage(source, 0, 0, width, height);
+  const pixels = ctx.getImageData(0, 0, width, height);
+
+  const [background] = estimateBackgroundColors(pixels);
+  const backgroundColor = background ? `rgb(${background.map(Math.round).join(', ')})` : null;
+  const mask = segmentForeground(pixels);
+
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (mask[y * width + x] < 128) continue;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+    }
+  }
+  // A mask covering the whole frame means no background was found, not a product filling it.
+  if (maxX < 0 || (minX === 0 && minY === 0 && maxX === width - 1 && maxY === height - 1)) {
+    return { bounds: null, backgroundColor };
+  }
+  return {
+    bounds: {
+      x: minX / scale,
+      y: minY / scale,
+      width: (maxX - minX + 1) / scale,
+      height: (maxY - minY + 1) / scale,
+    },
+    backgroundColor,
+  };
+}
@@ -1,4 +1,5 @@
 import { type Crop } from 'react-image-crop';
+import { isDefaultAdjustments, renderAdjustedImage, type ImageAdjustments } from './adjustments';
 
 export function fileToBase64(file: File): Promise<string> {
   return new Promise((resolve, reject) => {
@@ -9,6 +10,25 @@ export function fileToBase64(file: File): Promise<string> {
   });
 }
 
+/**
+ * Extracts raw base64 data from a data URL string.
+ * If the string is not a data URL, it's returned as is.
+ * @param dataUrl The base64 string, possibly with a data URL prefix.
+ * @returns The raw base64 data.
+ */
+export const getRawBase64 = (dataUrl: string): string => {
+    const parts = dataUrl.split(',');
+    return parts.length > 1 ? parts[1] : dataUrl;
+};
+
+/**
+ * The MIME type declared by a data URL, or null when the string is not one.
+ */
+export const getDataUrlMimeType = (dataUrl: string): string | null =>
+    dataUrl.match(/^data:([^;,]+)[;,]/)?.[1] ?? null;
+
+export const toDataUrl = (base64: string, mimeType: string): string => `data:${mimeType};base64,${base64}`;
+
 export function getImageDimensions(src: string): Promise<{ naturalWidth: number, naturalHeight: number }> {
     return new Promise((resolve, reject) => {
         const img = new Image();
@@ -18,32 +38,42 @@ export function getImageDimensions(src: string): Promise<{ naturalWidth: number,
     });
 }
 
-export async function createCroppedBlob(
-  image: HTMLImageElement,
+const getSourceSize = (image: HTMLImageElement | HTMLCanvasElement) =>
+  image instanceof HTMLImageElement
+    ? { naturalWidth: image.naturalWidth, naturalHeight: image.naturalHeight }
+    : { naturalWidth: image.width, naturalHeight: image.height };
+
+/**
+ * Draws the cropped region of `image` scaled to `outputWidth`, keeping the crop's aspect ratio.
+ */
+export function createCroppedCanvas(
+  image: HTMLImageElement | HTMLCanvasElement,
   crop?: Crop,
   outputWidth: number = 1080,
-  adjustments?: { brightness: number; contrast: number; saturate: number; hue: number; }
-): Promise<Blob> {
+  adjustments?: ImageAdjustments
+): HTMLCanvasElement {
+    const { naturalWidth, naturalHeight } = getSourceSize(image);
     const canvas = document.createElement('canvas');
     const ctx = canvas.getContext('2d');
     if (!ctx) throw new Error('Could not get canvas context');
-    
-    if (adjustments) {
-      ctx.filter = `brightness(${adjustments.brightness}%) contrast(${adjustments.contrast}%) saturate(${adjustments.saturate}%) hue-rotate(${adjustments.hue}deg)`;
+
+    // Adjusted at full size, like the layer stack, so the crop matches the editor preview.
+    if (adjustments && !isDefaultAdjustments(adjustments)) {
+      image = renderAdjustedImage(image, naturalWidth, naturalHeight, adjustments);
     }
 
     // If no crop is provided, use the whole image
     if (!crop || !crop.width || !crop.height) {
-        const scale = outputWidth / image.naturalWidth;
+        const scale = outputWidth / naturalWidth;
         canvas.width = outputWidth;
-        canvas.height = image.naturalHeight * scale;
+        canvas.height = naturalHeight * scale;
         ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
     } else {
         // Crop is in percentages (0-100). Convert to pixels.
-        const cropX = (crop.x / 100) * image.naturalWidth;
-        const cropY = (crop.y / 100) * image.naturalHeight;
-        const cropWidth = (crop.width / 100) * image.naturalWidth;
-        const cropHeight = (crop.height / 100) * image.naturalHeight;
+        const cropX = (crop.x / 100) * naturalWidth;
+        const cropY = (crop.y / 100) * naturalHeight;
+        const cropWidth = (crop.width / 100) * naturalWidth;
+        const cropHeight = (crop.height / 100) * naturalHeight;
 
         // Calculate output dimensions while maintaining aspect ratio of the crop
         const scale = outputWidth / cropWidth;
@@ -64,7 +94,11 @@ export async function createCroppedBlob(
             canvas.height
         );
     }
-  
+
+    return canvas;
+}
+
+export function canvasToBlob(canvas: HTMLCanvasElement, mimeType: string = 'image/png', quality: number = 0.95): Promise<Blob> {
     return new Promise((resolve, reject) => {
       canvas.toBlob(blob => {
         if (!blob) {
@@ -72,12 +106,54 @@ export async function createCroppedBlob(
           return;
         }
         resolve(blob);
-      }, 'image/png', 0.95);
+      }, mimeType, quality);
     });
 }
 
+const encodingSupport = new Map<string, boolean>();
+
+/**
+ * Whether the browser can encode canvases to `mimeType`. Unsupported types silently fall back
+ * to PNG in `toDataURL`/`toBlob`, which is how support is detected.
+ */
+export function isEncodingSupported(mimeType: string): boolean {
+    if (!encodingSupport.has(mimeType)) {
+        const canvas = document.createElement('canvas');
+        canvas.width = 1;
+        canvas.height = 1;
+        encodingSupport.set(mimeType, canvas.toDataURL(mimeType).startsWith(`data:${mimeType}`));
+    }
+    return encodingSupport.get(mimeType)!;
+}
+
 export async function base64ToBlob(base64: string, mimeType: string): Promise<Blob> {
   const response = await fetch(base64);
   const blob = await response.blob();
   return blob;
 }
+
+/**
+ * Downscales an image to fit in a `size`×`size` box and returns it as a small JPEG data URL.
+ */
+export function createThumbnail(src: string, size: number = 160): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => {
+            const scale = Math.min(1, size / Math.max(img.naturalWidth, img.naturalHeight));
+            const canvas = document.createElement('canvas');
+            canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+            canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+            const ctx = canvas.getContext('2d');
+            if (!ctx) {
+                reject(new Error('Could not get canvas context'));
+                return;
+            }
+            ctx.fillStyle = '#ffffff';
+            ctx.fillRect(0, 0, canvas.width, canvas.height);
+            ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+            resolve(canvas.toDataURL('image/jpeg', 0.7));
+        };
+        img.onerror = (error) => reject(error);
+        img.src = src;
+    });
+}
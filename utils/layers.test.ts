@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { getImageLayerRect } from './layers';
+
+describe('getImageLayerRect', () => {
+  it('covers the document when the proportions match, within rounding', () => {
+    expect(getImageLayerRect(1024, 768, 2000, 1500)).toEqual({ x: 0, y: 0, width: 2000, height: 1500 });
+    expect(getImageLayerRect(1024, 770, 2000, 1500)).toEqual({ x: 0, y: 0, width: 2000, height: 1500 });
+  });
+
+  it('fits a wider result inside the document, centred vertically', () => {
+    expect(getImageLayerRect(1000, 500, 1000, 1000)).toEqual({ x: 0, y: 250, width: 1000, height: 500 });
+  });
+
+  it('fits a taller result inside the document, centred horizontally', () => {
+    expect(getImageLayerRect(500, 1000, 2000, 1000)).toEqual({ x: 750, y: 0, width: 500, height: 1000 });
+  });
+
+  it('covers the document while the size of the source is unknown', () => {
+    expect(getImageLayerRect(0, 0, 800, 600)).toEqual({ x: 0, y: 0, width: 800, height: 600 });
+  });
+});
@@ -0,0 +1,430 @@
+import { applyDocumentEffects, hasDocumentEffects, isDefaultAdjustments, renderAdjustedImage, withoutDocumentEffects, type ImageAdjustments } from './adjustments';
+import { type Padding } from './padding';
+import { DEFAULT_TEXT_CONTENT, drawText, measureText, type TextContent } from './textLayer';
+
+export type BlendMode =
+  | 'source-over'
+  | 'multiply'
+  | 'screen'
+  | 'overlay'
+  | 'darken'
+  | 'lighten'
+  | 'soft-light'
+  | 'hard-light'
+  | 'difference'
+  | 'color'
+  | 'luminosity';
+
+export const BLEND_MODES: { id: BlendMode; name: string }[] = [
+  { id: 'source-over', name: 'Normal' },
+  { id: 'multiply', name: 'Multiplicar' },
+  { id: 'screen', name: 'Tela' },
+  { id: 'overlay', name: 'Sobrepor' },
+  { id: 'darken', name: 'Escurecer' },
+  { id: 'lighten', name: 'Clarear' },
+  { id: 'soft-light', name: 'Luz suave' },
+  { id: 'hard-light', name: 'Luz forte' },
+  { id: 'difference', name: 'Diferença' },
+  { id: 'color', name: 'Cor' },
+  { id: 'luminosity', name: 'Luminosidade' },
+];
+
+interface LayerBase {
+  id: string;
+  name: string;
+  visible: boolean;
+  opacity: number; // 0-100
+  blendMode: BlendMode;
+}
+
+/**
+ * A raster layer. `base` is the original product photo, `ai` holds a model result and
+ * `local` a result computed in the browser (e.g. background removal).
+ * Image layers always cover the whole document.
+ */
+export interface ImageLayer extends LayerBase {
+  kind: 'image';
+  role: 'base' | 'ai' | 'local';
+  src: string;
+}
+
+export interface TextLayer extends LayerBase, TextContent {
+  kind: 'text';
+}
+
+export type ShapeKind = 'rectangle' | 'ellipse';
+
+export interface ShapeLayer extends LayerBase {
+  kind: 'shape';
+  shape: ShapeKind;
+  // Center in percent of the image width/height.
+  x: number;
+  y: number;
+  // Both sides in percent of the image width, so the shape keeps its proportions on any image.
+  width: number;
+  height: number;
+  rotation: number;
+  fill: string;
+  cornerRadius: number; // percent of the shorter side
+}
+
+export interface StickerLayer extends LayerBase {
+  kind: 'sticker';
+  emoji: string;
+  x: number;
+  y: number;
+  size: number; // percent of the image width
+  rotation: number;
+}
+
+export type Layer = ImageLayer | TextLayer | ShapeLayer | StickerLayer;
+export type OverlayLayer = TextLayer | ShapeLayer | StickerLayer;
+
+export const STICKER_EMOJIS = ['⭐', '🔥', '✅', '💯', '🏷️', '📦', '🚚', '❤️', '🎁', '⚡'];
+
+const createLayerId = (prefix: string) => `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
+
+const layerDefaults = { visible: true, opacity: 100, blendMode: 'source-over' as BlendMode };
+
+export function createImageLayer(src: string, role: ImageLayer['role'], name: string): ImageLayer {
+  return { ...layerDefaults, id: createLayerId('image'), kind: 'image', role, src, name };
+}
+
+export function createTextLayer(overrides: Partial<TextContent> = {}): TextLayer {
+  return { ...layerDefaults, ...DEFAULT_TEXT_CONTENT, ...overrides, id: createLayerId('text'), kind: 'text', name: 'Texto' };
+}
+
+export function createShapeLayer(shape: ShapeKind): ShapeLayer {
+  return {
+    ...layerDefaults,
+    id: createLayerId('shape'),
+    kind: 'shape',
+    name: shape === 'ellipse' ? 'Elipse' : 'Retângulo',
+    shape,
+    x: 50,
+    y: 50,
+    width: 40,
+    height: 20,
+    rotation: 0,
+    fill: '#dc2626',
+    cornerRadius: 20,
+  };
+}
+
+export function createStickerLayer(emoji: string): StickerLayer {
+  return { ...layerDefaults, id: createLayerId('sticker'), kind: 'sticker', name: `Adesivo ${emoji}`, emoji, x: 50, y: 50, size: 15, rotation: 0 };
+}
+
+export const isOverlayLayer = (layer: Layer): layer is OverlayLayer => layer.kind !== 'image';
+
+// A copy with its own id, for placing the same overlay on another document.
+export const cloneOverlayLayer = (layer: OverlayLayer): OverlayLayer => ({ ...layer, id: createLayerId(layer.kind) });
+
+export const getLayerLabel = (layer: Layer) =>
+  layer.kind === 'text' ? (layer.text.trim() || layer.name) : layer.name;
+
+/**
+ * Returns the topmost visible image layer, i.e. what the photo currently looks like.
+ */
+export function getTopImageLayer(layers: Layer[]): ImageLayer | undefined {
+  for (let i = layers.length - 1; i >= 0; i--) {
+    const layer = layers[i];
+    if (layer.kind === 'image' && layer.visible) return layer;
+  }
+  return undefined;
+}
+
+/**
+ * Inserts a model result right above the existing image layers and hides them, so the
+ * result is shown as-is (including transparency) while the previous pixels are kept.
+ */
+export function addImageLayerOnTop(layers: Layer[], layer: ImageLayer): Layer[] {
+  let insertAt = 0;
+  layers.forEach((l, i) => { if (l.kind === 'image') insertAt = i + 1; });
+  const hidden = layers.map(l => l.kind === 'image' ? { ...l, visible: false } : l);
+  return [...hidden.slice(0, insertAt), layer, ...hidden.slice(insertAt)];
+}
+
+/**
+ * Repositions an overlay layer for a document grown by `padding` (in image pixels), so it stays
+ * on the same pixels. Sizes are relative to the image width and shrink with it.
+ */
+export function padOverlayLayer(layer: OverlayLayer, imageWidth: number, imageHeight: number, padding: Padding): OverlayLayer {
+  const newWidth = imageWidth + padding.left + padding.right;
+  const newHeight = imageHeight + padding.top + padding.bottom;
+  const scale = imageWidth / newWidth;
+  const x = (((layer.x / 100) * imageWidth + padding.left) / newWidth) * 100;
+  const y = (((layer.y / 100) * imageHeight + padding.top) / newHeight) * 100;
+  switch (layer.kind) {
+    case 'text':
+      return { ...layer, x, y, width: layer.width * scale, fontSize: layer.fontSize * scale };
+    case 'shape':
+      return { ...layer, x, y, width: layer.width * scale, height: layer.height * scale };
+    case 'sticker':
+      return { ...layer, x, y, size: layer.size * scale };
+  }
+}
+
+/**
+ * Size of an overlay layer's box in image pixels.
+ */
+export function getLayerBox(layer: OverlayLayer, imageWidth: number): { width: number; height: number } {
+  switch (layer.kind) {
+    case 'text':
+      return measureText(layer, imageWidth);
+    case 'shape':
+      return { width: (layer.width / 100) * imageWidth, height: (layer.height / 100) * imageWidth };
+    case 'sticker': {
+      const size = (layer.size / 100) * imageWidth;
+      return { width: size, height: size };
+    }
+  }
+}
+
+/**
+ * Changes computed when the user drags a corner handle, scaling the layer uniformly from `start`.
+ */
+export function getScaledLayerChanges(start: OverlayLayer, factor: number): Partial<OverlayLayer> {
+  const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+  switch (start.kind) {
+    case 'text':
+      return { fontSize: clamp(start.fontSize * factor, 1, 50), width: clamp(start.width * factor, 5, 200) };
+    case 'shape':
+      return { width: clamp(start.width * factor, 1, 200), height: clamp(start.height * factor, 1, 200) };
+    case 'sticker':
+      return { size: clamp(start.size * factor, 2, 100) };
+  }
+}
+
+// Results whose proportions differ from the document by less than this are just rounding.
+const ASPECT_TOLERANCE = 0.01;
+
+const getSourceSize = (source: CanvasImageSource): { width: number; height: number } => {
+  if (source instanceof HTMLImageElement) return { width: source.naturalWidth, height: source.naturalHeight };
+  if (source instanceof HTMLVideoElement) return { width: source.videoWidth, height: source.videoHeight };
+  if ('displayWidth' in source) return { width: source.displayWidth, height: source.displayHeight };
+  if (typeof source.width === 'number' && typeof source.height === 'number') return { width: source.width, height: source.height };
+  return { width: 0, height: 0 };
+};
+
+/**
+ * Where an image layer of `sourceWidth` × `sourceHeight` goes in the document. Layers with the
+ * document's proportions cover it; others (the model does not always keep the input's aspect
+ * ratio) are fitted inside and centered, leaving transparent bars instead of distorting.
+ */
+export function getImageLayerRect(sourceWidth: number, sourceHeight: number, imageWidth: number, imageHeight: number) {
+  const full = { x: 0, y: 0, width: imageWidth, height: imageHeight };
+  if (!sourceWidth || !sourceHeight) return full;
+  const sourceRatio = sourceWidth / sourceHeight;
+  const imageRatio = imageWidth / imageHeight;
+  if (Math.abs(sourceRatio / imageRatio - 1) <= ASPECT_TOLERANCE) return full;
+  const scale = Math.min(imageWidth / sourceWidth, imageHeight / sourceHeight);
+  const width = sourceWidth * scale;
+  const height = sourceHeight * scale;
+  return { x: (imageWidth - width) / 2, y: (imageHeight - height) / 2, width, height };
+}
+
+function drawShape(ctx: CanvasRenderingContext2D, layer: ShapeLayer, imageWidth: number, imageHeight: number) {
+  const width = (layer.width / 100) * imageWidth;
+  const height = (layer.height / 100) * imageWidth;
+  ctx.translate((layer.x / 100) * imageWidth, (layer.y / 100) * imageHeight);
+  ctx.rotate((layer.rotation * Math.PI) / 180);
+  ctx.fillStyle = layer.fill;
+  ctx.beginPath();
+  if (layer.shape === 'ellipse') {
+    ctx.ellipse(0, 0, width / 2, height / 2, 0, 0, Math.PI * 2);
+  } else {
+    const radius = (Math.min(width, height) / 2) * (layer.cornerRadius / 100);
+    ctx.roundRect(-width / 2, -height / 2, width, height, radius);
+  }
+  ctx.fill();
+}
+
+function drawSticker(ctx: CanvasRenderingContext2D, layer: StickerLayer, imageWidth: number, imageHeight: number) {
+  const size = (layer.size / 100) * imageWidth;
+  ctx.translate((layer.x / 100) * imageWidth, (layer.y / 100) * imageHeight);
+  ctx.rotate((layer.rotation * Math.PI) / 180);
+  // Emoji glyphs are slightly taller than the em box; 0.85 keeps them inside the handle box.
+  ctx.font = `${size * 0.85}px "Apple Color Emoji", "Segoe UI Emoji", "Noto Color Emoji", sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(layer.emoji, 0, 0);
+}
+
+// Adjusted bitmaps of recent draws. Redraws that change neither the source, the adjustments
+// nor the size (moving a text layer, hovering a handle) reuse them instead of adjusting again.
+const adjustedCache = new Map<string, HTMLCanvasElement>();
+const ADJUSTED_CACHE_LIMIT = 8;
+
+function getCachedCanvas(key: string, render: () => HTMLCanvasElement): HTMLCanvasElement {
+  const cached = adjustedCache.get(key);
+  if (cached) {
+    // Re-inserted so the least recently drawn entry is evicted first.
+    adjustedCache.delete(key);
+    adjustedCache.set(key, cached);
+    return cached;
+  }
+  const adjusted = render();
+  adjustedCache.set(key, adjusted);
+  if (adjustedCache.size > ADJUSTED_CACHE_LIMIT) {
+    adjustedCache.delete(adjustedCache.keys().next().value!);
+  }
+  return adjusted;
+}
+
+const getAdjustedImage = (src: string, image: CanvasImageSource, width: number, height: number, adjustments: ImageAdjustments, scale: number) =>
+  getCachedCanvas(`${src}|${width}x${height}|${scale}|${JSON.stringify(adjustments)}`, () => renderAdjustedImage(image, width, height, adjustments, scale));
+
+// Draws an image layer with per-pixel `adjustments` (none of the document effects), `scale` being
+// the pixels the context draws per document pixel.
+function drawImageLayer(
+  ctx: CanvasRenderingContext2D,
+  layer: ImageLayer,
+  imageWidth: number,
+  imageHeight: number,
+  images: Map<string, CanvasImageSource>,
+  adjustments: ImageAdjustments | null,
+  scale: number
+) {
+  const image = images.get(layer.src);
+  if (!image) return;
+  const { width: sourceWidth, height: sourceHeight } = getSourceSize(image);
+  const rect = getImageLayerRect(sourceWidth, sourceHeight, imageWidth, imageHeight);
+  const source = adjustments
+    ? getAdjustedImage(layer.src, image, Math.round(rect.width * scale), Math.round(rect.height * scale), adjustments, scale)
+    : image;
+  ctx.drawImage(source, rect.x, rect.y, rect.width, rect.height);
+}
+
+// Composites consecutive image layers at the working resolution and gives the result the
+// vignette and sharpening, which belong to the whole document rather than to each layer.
+function getDocumentPhoto(
+  layers: ImageLayer[],
+  imageWidth: number,
+  imageHeight: number,
+  images: Map<string, CanvasImageSource>,
+  adjustments: ImageAdjustments,
+  scale: number
+): HTMLCanvasElement {
+  const width = Math.max(1, Math.round(imageWidth * scale));
+  const height = Math.max(1, Math.round(imageHeight * scale));
+  const stack = layers.map(l => `${l.src}:${l.visible}:${l.opacity}:${l.blendMode}`).join(',');
+  return getCachedCanvas(`${stack}|${width}x${height}|${scale}|${JSON.stringify(adjustments)}`, () => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error('Could not get canvas context');
+    ctx.scale(width / imageWidth, height / imageHeight);
+    const toneAdjustments = withoutDocumentEffects(adjustments);
+    layers.forEach(layer => {
+      if (!layer.visible || layer.opacity <= 0) return;
+      ctx.save();
+      ctx.globalAlpha = layer.opacity / 100;
+      ctx.globalCompositeOperation = layer.blendMode;
+      drawImageLayer(ctx, layer, imageWidth, imageHeight, images, isDefaultAdjustments(toneAdjustments) ? null : toneAdjustments, scale);
+      ctx.restore();
+    });
+    const pixels = ctx.getImageData(0, 0, width, height);
+    applyDocumentEffects(pixels, adjustments, scale);
+    ctx.putImageData(pixels, 0, 0);
+    return canvas;
+  });
+}
+
+/**
+ * Composites the visible layers bottom-up in image-pixel coordinates.
+ * `images` maps image layer sources to loaded elements; `adjustments` only affect image
+ * layers, so text and shapes keep their exact colors. Adjusted layers are rendered at the
+ * resolution the context draws at (the natural size on export, the display size on screen).
+ * The vignette and sharpening apply to the composited image layers, centred on the document.
+ */
+export function drawLayers(
+  ctx: CanvasRenderingContext2D,
+  layers: Layer[],
+  imageWidth: number,
+  imageHeight: number,
+  images: Map<string, CanvasImageSource>,
+  adjustments?: ImageAdjustments
+) {
+  const isAdjusted = !!adjustments && !isDefaultAdjustments(adjustments);
+  const withEffects = isAdjusted && hasDocumentEffects(adjustments);
+  const { a, b } = ctx.getTransform();
+  const scale = Math.min(1, Math.hypot(a, b) || 1);
+  layers.forEach((layer, index) => {
+    if (withEffects && layer.kind === 'image') {
+      // Each run of adjacent image layers is drawn as one photo, by its first layer.
+      if (layers[index - 1]?.kind === 'image') return;
+      const next = layers.findIndex((l, i) => i > index && l.kind !== 'image');
+      const run = layers.slice(index, next === -1 ? layers.length : next) as ImageLayer[];
+      ctx.drawImage(getDocumentPhoto(run, imageWidth, imageHeight, images, adjustments, scale), 0, 0, imageWidth, imageHeight);
+      return;
+    }
+    if (!layer.visible || layer.opacity <= 0) return;
+    ctx.save();
+    ctx.globalAlpha = layer.opacity / 100;
+    ctx.globalCompositeOperation = layer.blendMode;
+    switch (layer.kind) {
+      case 'image':
+        drawImageLayer(ctx, layer, imageWidth, imageHeight, images, isAdjusted ? adjustments : null, scale);
+        break;
+      case 'text':
+        drawText(ctx, layer, imageWidth, imageHeight);
+        break;
+      case 'shape':
+        drawShape(ctx, layer, imageWidth, imageHeight);
+        break;
+      case 'sticker':
+        drawSticker(ctx, layer, imageWidth, imageHeight);
+        break;
+    }
+    ctx.restore();
+  });
+}
+
+const imageCache = new Map<string, Promise<HTMLImageElement>>();
+const IMAGE_CACHE_LIMIT = 32;
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  const cached = imageCache.get(src);
+  if (cached) return cached;
+  const promise = new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = reject;
+    img.src = src;
+  });
+  imageCache.set(src, promise);
+  promise.catch(() => imageCache.delete(src));
+  if (imageCache.size > IMAGE_CACHE_LIMIT) {
+    imageCache.delete(imageCache.keys().next().value!);
+  }
+  return promise;
+}
+
+/**
+ * Loads the sources of all image layers (visible or not), reusing previously decoded images.
+ */
+export async function loadLayerImages(layers: Layer[]): Promise<Map<string, HTMLImageElement>> {
+  const sources = [...new Set(layers.filter((l): l is ImageLayer => l.kind === 'image').map(l => l.src))];
+  const loaded = await Promise.all(sources.map(async src => [src, await loadImage(src)] as const));
+  return new Map(loaded);
+}
+
+/**
+ * Flattens layers into a canvas at the document's natural resolution.
+ */
+export async function renderLayersToCanvas(layers: Layer[], imageWidth: number, imageHeight: number, adjustments?: ImageAdjustments): Promise<HTMLCanvasElement> {
+  const images = await loadLayerImages(layers);
+  if (layers.some(l => l.kind === 'text' && l.visible)) {
+    // Make sure web fonts used by text layers are ready before rasterizing.
+    await document.fonts?.ready;
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = imageWidth;
+  canvas.height = imageHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not get canvas context');
+  drawLayers(ctx, layers, imageWidth, imageHeight, images, adjustments);
+  return canvas;
+}
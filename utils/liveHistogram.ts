@@ -0,0 +1,51 @@
+import { type ImageAdjustments } from './adjustments';
+import { type HistogramRequest, type HistogramResponse } from './histogram';
+
+export interface LiveHistogram {
+  update: (pixels: ImageData, adjustments: ImageAdjustments, withClipping: boolean, scale: number) => void;
+  dispose: () => void;
+}
+
+/**
+ * Runs histogram requests on a worker, one at a time. While one is in flight only the latest
+ * update is kept, so dragging a slider never queues up stale work.
+ */
+export function createLiveHistogram(onResult: (response: HistogramResponse) => void): LiveHistogram {
+  const worker = new Worker(new URL('./histogram.worker.ts', import.meta.url), { type: 'module' });
+  let nextId = 0;
+  let isBusy = false;
+  let pending: HistogramRequest | null = null;
+
+  const send = (request: HistogramRequest) => {
+    isBusy = true;
+    worker.postMessage(request);
+  };
+
+  const sendPending = () => {
+    isBusy = false;
+    if (!pending) return;
+    const request = pending;
+    pending = null;
+    send(request);
+  };
+
+  worker.onmessage = (event: MessageEvent<HistogramResponse>) => {
+    sendPending();
+    onResult(event.data);
+  };
+  worker.onerror = (event) => {
+    console.error('Falha ao calcular o histograma:', event.message);
+    sendPending();
+  };
+
+  return {
+    update: (pixels, adjustments, withClipping, scale) => {
+      // The worker adjusts the pixels in place; each request gets its own copy.
+      const copy = new ImageData(new Uint8ClampedArray(pixels.data), pixels.width, pixels.height);
+      const request = { id: nextId++, pixels: copy, adjustments, withClipping, scale };
+      if (isBusy) pending = request;
+      else send(request);
+    },
+    dispose: () => worker.terminate(),
+  };
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { EXPORT_PROFILES } from '../constants';
+import { getMarketplaceProfile, MARKETPLACE_PROFILES, validateListing, type MarketplaceProfile } from './marketplaces';
+import { EMPTY_PRODUCT_LISTING, type ProductListing } from './productListing';
+
+const profile: MarketplaceProfile = {
+  id: 'teste',
+  name: 'Loja Teste',
+  titleMaxLength: 20,
+  bulletCount: 2,
+  bulletMaxLength: 15,
+  forbiddenWords: ['oferta', 'frete grátis'],
+  allowsHtml: false,
+  allowsEmoji: false,
+};
+
+const listing: ProductListing = {
+  ...EMPTY_PRODUCT_LISTING,
+  title: 'Caneca de cerâmica',
+  longDescription: 'Caneca esmaltada, ideal para café.',
+  bullets: ['Vai ao micro-ondas', ''],
+};
+
+describe('validateListing', () => {
+  it('accepts a listing within the rules', () => {
+    expect(validateListing({ ...listing, bullets: ['Lava-louças', ' '] }, profile)).toEqual([]);
+  });
+
+  it('reports titles, bullet counts and bullets over the limits', () => {
+    const issues = validateListing({ ...listing, title: 'Caneca de cerâmica esmaltada', bullets: ['Um', 'Dois', 'Vai ao micro-ondas'] }, profile);
+    expect(issues.map(issue => issue.field)).toEqual(['title', 'bullets', 'bullets']);
+    expect(issues[0].message).toContain('até 20 caracteres no título (atual: 28)');
+    expect(issues[1].message).toContain('até 2 características (atual: 3)');
+    expect(issues[2].message).toContain('característica 3 passa de 15');
+  });
+
+  it('finds forbidden terms at the start of words, ignoring case and inflection', () => {
+    const issues = validateListing({ ...listing, bullets: [], shortDescription: 'Ofertas com Frete Grátis', keywords: ['desoferta'] }, profile);
+    expect(issues).toEqual([{ field: 'shortDescription', message: 'Loja Teste não permite os termos: oferta, frete grátis.' }]);
+  });
+
+  it('rejects HTML and emoji where the channel does not accept them', () => {
+    const issues = validateListing({ ...listing, bullets: [], longDescription: '<p>Caneca</p> ☕' }, profile);
+    expect(issues.map(issue => issue.message)).toEqual(['Loja Teste não aceita HTML.', 'Loja Teste não aceita emojis.']);
+    expect(validateListing({ ...listing, bullets: [], longDescription: '<p>Caneca</p> ☕' }, getMarketplaceProfile('generico')!)).toEqual([]);
+  });
+
+  it('lists the issues in field order', () => {
+    const issues = validateListing({ ...listing, bullets: [], title: 'Oferta', keywords: ['oferta'], category: '<b>Casa</b>' }, profile);
+    expect(issues.map(issue => issue.field)).toEqual(['title', 'category', 'keywords']);
+  });
+});
+
+describe('MARKETPLACE_PROFILES', () => {
+  it('uses the ids of the export profiles for the same channels', () => {
+    const exportIds = new Set(EXPORT_PROFILES.map(exportProfile => exportProfile.id));
+    const channels = MARKETPLACE_PROFILES.filter(marketplace => marketplace.id !== 'generico');
+    expect(channels.map(marketplace => marketplace.id).filter(id => !exportIds.has(id))).toEqual([]);
+  });
+});
@@ -0,0 +1,133 @@
+import { LISTING_FIELD_NAMES, LISTING_LIST_FIELDS, LISTING_TEXT_FIELDS, type ProductListing } from './productListing';
+
+/**
+ * The copy rules of a sales channel. Generation is asked to follow them and the product page
+ * checks the result, since the model does not always respect limits.
+ */
+export interface MarketplaceProfile {
+  id: string;
+  name: string;
+  titleMaxLength: number;
+  // Maximum number of feature bullets.
+  bulletCount: number;
+  // Per-bullet limit, for channels that truncate long bullets.
+  bulletMaxLength?: number;
+  // Terms the channel rejects or penalizes, matched at the start of a word, ignoring case.
+  forbiddenWords: string[];
+  allowsHtml: boolean;
+  allowsEmoji: boolean;
+}
+
+// Ids match the export profiles of the same channel (see EXPORT_PROFILES).
+export const MARKETPLACE_PROFILES: MarketplaceProfile[] = [
+  {
+    id: 'generico',
+    name: 'Loja própria',
+    titleMaxLength: 150,
+    bulletCount: 6,
+    forbiddenWords: [],
+    allowsHtml: true,
+    allowsEmoji: true,
+  },
+  {
+    id: 'mercado-livre',
+    name: 'Mercado Livre',
+    titleMaxLength: 60,
+    bulletCount: 5,
+    forbiddenWords: ['frete grátis', 'promoção', 'oferta', 'desconto', 'réplica', 'similar'],
+    allowsHtml: false,
+    allowsEmoji: false,
+  },
+  {
+    id: 'amazon',
+    name: 'Amazon',
+    titleMaxLength: 200,
+    bulletCount: 5,
+    bulletMaxLength: 250,
+    forbiddenWords: ['frete grátis', 'promoção', 'oferta', 'desconto', 'barato', 'melhor', 'garantia de satisfação'],
+    allowsHtml: false,
+    allowsEmoji: false,
+  },
+  {
+    id: 'magalu',
+    name: 'Magalu',
+    titleMaxLength: 150,
+    bulletCount: 5,
+    forbiddenWords: ['frete grátis', 'promoção', 'oferta', 'desconto', 'réplica'],
+    allowsHtml: false,
+    allowsEmoji: false,
+  },
+  {
+    id: 'shopee',
+    name: 'Shopee',
+    titleMaxLength: 120,
+    bulletCount: 6,
+    forbiddenWords: ['réplica', 'primeira linha'],
+    allowsHtml: false,
+    allowsEmoji: true,
+  },
+];
+
+export const DEFAULT_MARKETPLACE_ID = MARKETPLACE_PROFILES[0].id;
+
+export const getMarketplaceProfile = (id: string): MarketplaceProfile | undefined =>
+  MARKETPLACE_PROFILES.find(profile => profile.id === id);
+
+export interface ListingIssue {
+  field: keyof ProductListing;
+  message: string;
+}
+
+const HTML_TAG = /<\/?[a-z][^>]*>/i;
+const EMOJI = /\p{Extended_Pictographic}/u;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Only the start of the term is anchored, so inflections ("ofertas") still count.
+const containsWord = (text: string, word: string) =>
+  new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(word)}`, 'iu').test(text);
+
+const getFieldTexts = (listing: ProductListing, field: keyof ProductListing): string[] => {
+  const value = listing[field];
+  return typeof value === 'string' ? [value] : value;
+};
+
+/**
+ * Everything in `listing` that breaks the rules of `profile`, in field order. Blank list
+ * entries are ignored, as they are when copying.
+ */
+export function validateListing(listing: ProductListing, profile: MarketplaceProfile): ListingIssue[] {
+  const issues: ListingIssue[] = [];
+  const title = listing.title.trim();
+  if (title.length > profile.titleMaxLength) {
+    issues.push({ field: 'title', message: `${profile.name} aceita até ${profile.titleMaxLength} caracteres no título (atual: ${title.length}).` });
+  }
+
+  const bullets = listing.bullets.map(item => item.trim()).filter(Boolean);
+  if (bullets.length > profile.bulletCount) {
+    issues.push({ field: 'bullets', message: `${profile.name} aceita até ${profile.bulletCount} características (atual: ${bullets.length}).` });
+  }
+  if (profile.bulletMaxLength) {
+    const longIndex = bullets.findIndex(item => item.length > profile.bulletMaxLength!);
+    if (longIndex !== -1) {
+      issues.push({ field: 'bullets', message: `A característica ${longIndex + 1} passa de ${profile.bulletMaxLength} caracteres.` });
+    }
+  }
+
+  for (const field of [...LISTING_TEXT_FIELDS, ...LISTING_LIST_FIELDS]) {
+    const texts = getFieldTexts(listing, field);
+    const forbidden = profile.forbiddenWords.filter(word => texts.some(text => containsWord(text, word)));
+    if (forbidden.length > 0) {
+      issues.push({ field, message: `${profile.name} não permite os termos: ${forbidden.join(', ')}.` });
+    }
+    if (!profile.allowsHtml && texts.some(text => HTML_TAG.test(text))) {
+      issues.push({ field, message: `${profile.name} não aceita HTML.` });
+    }
+    if (!profile.allowsEmoji && texts.some(text => EMOJI.test(text))) {
+      issues.push({ field, message: `${profile.name} não aceita emojis.` });
+    }
+  }
+
+  const order = Object.keys(LISTING_FIELD_NAMES);
+  return issues.sort((a, b) => order.indexOf(a.field) - order.indexOf(b.field));
+}
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { combineMask, growMask, invertMask, isMaskEmpty, magicWandSelect } from './maskOps';
+
+// ImageData is a DOM class; the pixel operations only read its fields.
+const createPixels = (rows: string[], colors: Record<string, [number, number, number]>): ImageData => {
+  const width = rows[0].length;
+  const height = rows.length;
+  const data = new Uint8ClampedArray(width * height * 4);
+  rows.join('').split('').forEach((key, i) => data.set([...colors[key], 255], i * 4));
+  return { width, height, data, colorSpace: 'srgb' } as ImageData;
+};
+
+// Selection as rows of '#' (selected) and '.' (not selected), for readable expectations.
+const toRows = (alpha: Uint8ClampedArray, width: number) =>
+  Array.from({ length: alpha.length / width }, (_, y) =>
+    Array.from(alpha.subarray(y * width, (y + 1) * width), value => value ? '#' : '.').join(''));
+
+const fromRows = (rows: string[]) => Uint8ClampedArray.from(rows.join('').split(''), key => key === '#' ? 255 : 0);
+
+const colors: Record<string, [number, number, number]> = {
+  w: [255, 255, 255],
+  r: [200, 20, 20],
+  s: [210, 30, 25],
+};
+
+describe('combineMask', () => {
+  it('adds and subtracts a selection', () => {
+    const target = Uint8ClampedArray.from([0, 255, 255, 128]);
+    const selection = Uint8ClampedArray.from([255, 0, 255, 255]);
+    expect([...combineMask(target, selection, 'add')]).toEqual([255, 255, 255, 255]);
+    expect([...combineMask(target, selection, 'subtract')]).toEqual([0, 255, 0, 0]);
+  });
+});
+
+describe('invertMask', () => {
+  it('swaps selected and unselected pixels', () => {
+    expect([...invertMask(Uint8ClampedArray.from([0, 255, 100]))]).toEqual([255, 0, 155]);
+  });
+});
+
+describe('isMaskEmpty', () => {
+  it('is true only when no pixel is selected', () => {
+    expect(isMaskEmpty(new Uint8ClampedArray(4))).toBe(true);
+    expect(isMaskEmpty(Uint8ClampedArray.from([0, 0, 1, 0]))).toBe(false);
+  });
+});
+
+describe('magicWandSelect', () => {
+  const pixels = createPixels([
+    'rrwwr',
+    'wrwwr',
+    'wwwss',
+  ], colors);
+
+  it('selects only the connected pixels of the clicked colour', () => {
+    expect(toRows(magicWandSelect(pixels, 0, 0, 0, true), 5)).toEqual([
+      '##...',
+      '.#...',
+      '.....',
+    ]);
+  });
+
+  it('selects matching pixels anywhere when not contiguous', () => {
+    expect(toRows(magicWandSelect(pixels, 0, 0, 0, false), 5)).toEqual([
+      '##..#',
+      '.#..#',
+      '.....',
+    ]);
+  });
+
+  it('includes colours within the tolerance', () => {
+    expect(toRows(magicWandSelect(pixels, 4, 0, 10, true), 5)).toEqual([
+      '....#',
+      '....#',
+      '...##',
+    ]);
+  });
+
+  it('selects nothing when the click is outside the image', () => {
+    expect(isMaskEmpty(magicWandSelect(pixels, -1, 0, 255, true))).toBe(true);
+  });
+});
+
+describe('growMask', () => {
+  const alpha = fromRows([
+    '.....',
+    '.....',
+    '..#..',
+    '.....',
+    '.....',
+  ]);
+
+  it('grows the selection by the radius, measured as a distance', () => {
+    // Diagonal neighbours are about 1.4 pixels away, outside a radius of 1.
+    expect(toRows(growMask(alpha, 5, 5, 1), 5)).toEqual([
+      '.....',
+      '..#..',
+      '.###.',
+      '..#..',
+      '.....',
+    ]);
+    expect(toRows(growMask(alpha, 5, 5, 2), 5)).toEqual([
+      '..#..',
+      '.###.',
+      '#####',
+      '.###.',
+      '..#..',
+    ]);
+  });
+
+  it('shrinks the selection with a negative radius', () => {
+    const square = fromRows([
+      '.....',
+      '.###.',
+      '.###.',
+      '.###.',
+      '.....',
+    ]);
+    expect(toRows(growMask(square, 5, 5, -1), 5)).toEqual(toRows(alpha, 5));
+  });
+});
@@ -0,0 +1,193 @@
+import { type Padding } from './padding';
+
+/**
+ * Pixel operations on the edit mask. A mask is a canvas at the image's natural size where the
+ * alpha channel is the selection; the colour only matters for display. Operations work on a
+ * plain alpha array (0 = not selected, 255 = selected) and write it back in the mask colour.
+ */
+export const MASK_COLOR = 'rgb(139, 92, 246)';
+const MASK_RGB = [139, 92, 246];
+
+export type MaskCombineMode = 'add' | 'subtract';
+
+export function readMaskAlpha(canvas: HTMLCanvasElement): Uint8ClampedArray {
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Could not get canvas context');
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const alpha = new Uint8ClampedArray(canvas.width * canvas.height);
+  for (let i = 0; i < alpha.length; i++) alpha[i] = data[i * 4 + 3];
+  return alpha;
+}
+
+export function writeMaskAlpha(canvas: HTMLCanvasElement, alpha: Uint8ClampedArray): void {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not get canvas context');
+  const imageData = ctx.createImageData(canvas.width, canvas.height);
+  const { data } = imageData;
+  for (let i = 0; i < alpha.length; i++) {
+    data[i * 4] = MASK_RGB[0];
+    data[i * 4 + 1] = MASK_RGB[1];
+    data[i * 4 + 2] = MASK_RGB[2];
+    data[i * 4 + 3] = alpha[i];
+  }
+  ctx.putImageData(imageData, 0, 0);
+}
+
+export const isMaskEmpty = (alpha: Uint8ClampedArray) => !alpha.some(value => value > 0);
+
+export function combineMask(target: Uint8ClampedArray, selection: Uint8ClampedArray, mode: MaskCombineMode): Uint8ClampedArray {
+  const result = new Uint8ClampedArray(target.length);
+  for (let i = 0; i < target.length; i++) {
+    result[i] = mode === 'add' ? Math.max(target[i], selection[i]) : Math.min(target[i], 255 - selection[i]);
+  }
+  return result;
+}
+
+export function invertMask(alpha: Uint8ClampedArray): Uint8ClampedArray {
+  return alpha.map(value => 255 - value);
+}
+
+/**
+ * Selects pixels whose colour is within `tolerance` (0-255, per channel) of the clicked pixel.
+ * With `contiguous` only pixels connected to the clicked one are selected, like a flood fill.
+ */
+export function magicWandSelect(
+  pixels: ImageData,
+  x: number,
+  y: number,
+  tolerance: number,
+  contiguous: boolean
+): Uint8ClampedArray {
+  const { width, height, data } = pixels;
+  const selection = new Uint8ClampedArray(width * height);
+  const startX = Math.floor(x);
+  const startY = Math.floor(y);
+  if (startX < 0 || startY < 0 || startX >= width || startY >= height) return selection;
+
+  const start = (startY * width + startX) * 4;
+  const [r, g, b, a] = [data[start], data[start + 1], data[start + 2], data[start + 3]];
+  const matches = (index: number) => {
+    const i = index * 4;
+    return Math.abs(data[i] - r) <= tolerance
+      && Math.abs(data[i + 1] - g) <= tolerance
+      && Math.abs(data[i + 2] - b) <= tolerance
+      && Math.abs(data[i + 3] - a) <= tolerance;
+  };
+
+  if (!contiguous) {
+    for (let i = 0; i < selection.length; i++) {
+      if (matches(i)) selection[i] = 255;
+    }
+    return selection;
+  }
+
+  // Scanline flood fill: one stack entry per run instead of per pixel.
+  const stack = [startY * width + startX];
+  while (stack.length > 0) {
+    const seed = stack.pop()!;
+    if (selection[seed] || !matches(seed)) continue;
+    const rowStart = seed - (seed % width);
+    let left = seed;
+    while (left > rowStart && !selection[left - 1] && matches(left - 1)) left--;
+    let right = seed;
+    while (right < rowStart + width - 1 && !selection[right + 1] && matches(right + 1)) right++;
+
+    for (let i = left; i <= right; i++) {
+      selection[i] = 255;
+      if (i - width >= 0 && !selection[i - width] && matches(i - width)) stack.push(i - width);
+      if (i + width < selection.length && !selection[i + width] && matches(i + width)) stack.push(i + width);
+    }
+  }
+  return selection;
+}
+
+/**
+ * Approximate Euclidean distance (chamfer 3-4) from every pixel to the nearest selected one.
+ */
+function distanceToSelection(alpha: Uint8ClampedArray, width: number, height: number): Float32Array {
+  const distance = new Float32Array(width * height);
+  for (let i = 0; i < distance.length; i++) distance[i] = alpha[i] >= 128 ? 0 : Infinity;
+
+  const relax = (index: number, neighbour: number, cost: number) => {
+    if (distance[neighbour] + cost < distance[index]) distance[index] = distance[neighbour] + cost;
+  };
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      if (x > 0) relax(i, i - 1, 3);
+      if (y > 0) {
+        relax(i, i - width, 3);
+        if (x > 0) relax(i, i - width - 1, 4);
+        if (x < width - 1) relax(i, i - width + 1, 4);
+      }
+    }
+  }
+  for (let y = height - 1; y >= 0; y--) {
+    for (let x = width - 1; x >= 0; x--) {
+      const i = y * width + x;
+      if (x < width - 1) relax(i, i + 1, 3);
+      if (y < height - 1) {
+        relax(i, i + width, 3);
+        if (x < width - 1) relax(i, i + width + 1, 4);
+        if (x > 0) relax(i, i + width - 1, 4);
+      }
+    }
+  }
+  for (let i = 0; i < distance.length; i++) distance[i] /= 3;
+  return distance;
+}
+
+/**
+ * Grows the selection by `radius` pixels, or shrinks it when `radius` is negative.
+ * The result is a hard-edged mask; feather it afterwards for soft edges.
+ */
+export function growMask(alpha: Uint8ClampedArray, width: number, height: number, radius: number): Uint8ClampedArray {
+  if (radius === 0) return alpha;
+  if (radius < 0) {
+    return invertMask(growMask(invertMask(alpha), width, height, -radius));
+  }
+  const distance = distanceToSelection(alpha, width, height);
+  return alpha.map((value, i) => distance[i] <= radius ? 255 : value);
+}
+
+/**
+ * Softens the mask edge with a blur of `radius` pixels.
+ */
+export function featherMask(canvas: HTMLCanvasElement, radius: number): void {
+  if (radius <= 0) return;
+  const copy = document.createElement('canvas');
+  copy.width = canvas.width;
+  copy.height = canvas.height;
+  copy.getContext('2d')?.drawImage(canvas, 0, 0);
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not get canvas context');
+  ctx.save();
+  ctx.globalCompositeOperation = 'copy';
+  ctx.filter = `blur(${radius}px)`;
+  ctx.drawImage(copy, 0, 0);
+  ctx.restore();
+}
+
+/**
+ * Mask covering the area added by `padding` around an image of `width` x `height`, reaching
+ * `overlap` pixels into the image on padded sides so generated content blends with the photo.
+ */
+export function createPaddingMask(width: number, height: number, padding: Padding, overlap: number): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = width + padding.left + padding.right;
+  canvas.height = height + padding.top + padding.bottom;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not get canvas context');
+
+  ctx.fillStyle = MASK_COLOR;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  const inset = (side: number) => side > 0 ? overlap : 0;
+  ctx.clearRect(
+    padding.left + inset(padding.left),
+    padding.top + inset(padding.top),
+    width - inset(padding.left) - inset(padding.right),
+    height - inset(padding.top) - inset(padding.bottom)
+  );
+  return canvas;
+}
@@ -0,0 +1,81 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getPaddingForAspectRatio, hasPadding, NO_PADDING, padCanvas, type Padding } from './padding';
+
+// Node has no canvas; the fake records the drawing calls padCanvas makes.
+const createFakeCanvas = () => {
+  const calls: [string, ...unknown[]][] = [];
+  const record = (name: string) => (...args: unknown[]) => { calls.push([name, ...args]); };
+  const ctx = {
+    fillStyle: '',
+    filter: 'none',
+    fillRect: record('fillRect'),
+    drawImage: record('drawImage'),
+    save: record('save'),
+    restore: record('restore'),
+    translate: record('translate'),
+    scale: record('scale'),
+    createLinearGradient: () => ({ addColorStop: record('addColorStop') }),
+  };
+  return { width: 0, height: 0, calls, getContext: () => ctx };
+};
+
+const stubCanvas = () => {
+  const canvas = createFakeCanvas();
+  vi.stubGlobal('document', { createElement: () => canvas });
+  return canvas;
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+const source = {} as CanvasImageSource;
+const padding: Padding = { top: 10, right: 20, bottom: 30, left: 40 };
+
+describe('getPaddingForAspectRatio', () => {
+  it('widens a portrait image, with the odd pixel on the right', () => {
+    expect(getPaddingForAspectRatio(601, 800, 1)).toEqual({ top: 0, bottom: 0, left: 99, right: 100 });
+  });
+
+  it('heightens a landscape image', () => {
+    expect(getPaddingForAspectRatio(1000, 500, 4 / 5)).toEqual({ left: 0, right: 0, top: 375, bottom: 375 });
+  });
+
+  it('adds nothing when the image already has the ratio', () => {
+    expect(hasPadding(getPaddingForAspectRatio(800, 800, 1))).toBe(false);
+    expect(hasPadding(NO_PADDING)).toBe(false);
+  });
+});
+
+describe('padCanvas', () => {
+  it('grows the canvas by the padding and draws the source inside it', () => {
+    const canvas = stubCanvas();
+    padCanvas(source, 100, 50, padding, { kind: 'transparent' });
+    expect([canvas.width, canvas.height]).toEqual([160, 90]);
+    expect(canvas.calls).toEqual([['drawImage', source, 40, 10, 100, 50]]);
+  });
+
+  it('fills the whole canvas with a solid colour first', () => {
+    const canvas = stubCanvas();
+    padCanvas(source, 100, 50, padding, { kind: 'solid', color: '#fff' });
+    expect(canvas.calls).toEqual([['fillRect', 0, 0, 160, 90], ['drawImage', source, 40, 10, 100, 50]]);
+  });
+
+  it('mirrors the photo into every side it grows', () => {
+    const canvas = stubCanvas();
+    padCanvas(source, 100, 50, padding, { kind: 'mirror' });
+    // One tile column to the left and right, one row above and below: 3 x 3 tiles and the photo.
+    expect(canvas.calls.filter(([name]) => name === 'drawImage')).toHaveLength(10);
+    expect(canvas.calls).toContainEqual(['scale', -1, -1]);
+  });
+
+  it('covers the canvas with the blurred photo', () => {
+    const canvas = stubCanvas();
+    padCanvas(source, 100, 50, padding, { kind: 'blur' });
+    const [, , x, y, width, height] = canvas.calls.find(([name]) => name === 'drawImage')!;
+    expect(x).toBeLessThanOrEqual(0);
+    expect(y).toBeLessThanOrEqual(0);
+    expect((x as number) + (width as number)).toBeGreaterThanOrEqual(160);
+    expect((y as number) + (height as number)).toBeGreaterThanOrEqual(90);
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Extra space added around an image, in image pixels.
+ */
+export interface Padding {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+export type PaddingFill =
+  | { kind: 'transparent' }
+  | { kind: 'solid'; color: string }
+  // Top to bottom.
+  | { kind: 'gradient'; from: string; to: string }
+  // A blurred copy of the photo scaled to cover the whole canvas.
+  | { kind: 'blur' }
+  // The photo reflected at its edges.
+  | { kind: 'mirror' };
+
+export type PaddingFillKind = PaddingFill['kind'];
+
+export const NO_PADDING: Padding = { top: 0, right: 0, bottom: 0, left: 0 };
+
+export const hasPadding = (padding: Padding) =>
+  padding.top > 0 || padding.right > 0 || padding.bottom > 0 || padding.left > 0;
+
+/**
+ * The smallest padding, split evenly between opposite sides, that gives an image of
+ * `width` x `height` the aspect ratio `ratio` (width / height).
+ */
+export function getPaddingForAspectRatio(width: number, height: number, ratio: number): Padding {
+  if (width / height < ratio) {
+    const extra = Math.round(height * ratio - width);
+    return { top: 0, bottom: 0, left: Math.floor(extra / 2), right: Math.ceil(extra / 2) };
+  }
+  const extra = Math.round(width / ratio - height);
+  return { left: 0, right: 0, top: Math.floor(extra / 2), bottom: Math.ceil(extra / 2) };
+}
+
+// Blur radius of the `blur` fill, relative to the longest side of the result.
+const BLUR_FILL_RATIO = 0.03;
+
+function drawMirroredTiles(ctx: CanvasRenderingContext2D, source: CanvasImageSource, width: number, height: number, padding: Padding) {
+  const columns = { from: -Math.ceil(padding.left / width), to: Math.ceil(padding.right / width) };
+  const rows = { from: -Math.ceil(padding.top / height), to: Math.ceil(padding.bottom / height) };
+  for (let row = rows.from; row <= rows.to; row++) {
+    for (let column = columns.from; column <= columns.to; column++) {
+      const flipX = Math.abs(column) % 2 === 1;
+      const flipY = Math.abs(row) % 2 === 1;
+      ctx.save();
+      ctx.translate(padding.left + column * width + (flipX ? width : 0), padding.top + row * height + (flipY ? height : 0));
+      ctx.scale(flipX ? -1 : 1, flipY ? -1 : 1);
+      ctx.drawImage(source, 0, 0, width, height);
+      ctx.restore();
+    }
+  }
+}
+
+/**
+ * Draws `source`, stretched to `width` x `height` like image layers are, inside a larger canvas
+ * with `padding` around it filled with `fill`.
+ */
+export function padCanvas(source: CanvasImageSource, width: number, height: number, padding: Padding, fill: PaddingFill): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = width + padding.left + padding.right;
+  canvas.height = height + padding.top + padding.bottom;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not get canvas context');
+
+  switch (fill.kind) {
+    case 'solid':
+      ctx.fillStyle = fill.color;
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      break;
+    case 'gradient': {
+      const gradient = ctx.createLinearGradient(0, 0, 0, canvas.height);
+      gradient.addColorStop(0, fill.from);
+      gradient.addColorStop(1, fill.to);
+      ctx.fillStyle = gradient;
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      break;
+    }
+    case 'blur': {
+      const scale = Math.max(canvas.width / width, canvas.height / height);
+      const blur = Math.max(canvas.width, canvas.height) * BLUR_FILL_RATIO;
+      // Drawn slightly larger so the blur does not fade out at the canvas edges.
+      const coverWidth = width * scale + blur * 4;
+      const coverHeight = height * scale + blur * 4;
+      ctx.save();
+      ctx.filter = `blur(${blur}px)`;
+      ctx.drawImage(source, (canvas.width - coverWidth) / 2, (canvas.height - coverHeight) / 2, coverWidth, coverHeight);
+      ctx.restore();
+      break;
+    }
+    case 'mirror':
+      drawMirroredTiles(ctx, source, width, height, padding);
+      break;
+  }
+  ctx.drawImage(source, padding.left, padding.top, width, height);
+  return canvas;
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import {
+  EMPTY_PRODUCT_LISTING,
+  formatListingAsText,
+  formatListingField,
+  normalizeProductListing,
+  parseProductListing,
+  type ProductListing,
+} from './productListing';
+
+const listing: ProductListing = {
+  title: 'Caneca de cerâmica',
+  shortDescription: 'Caneca para café.',
+  longDescription: 'Caneca de cerâmica esmaltada.',
+  bullets: ['Vai ao micro-ondas', 'Capacidade de 300 ml'],
+  materials: ['Cerâmica'],
+  colors: ['Branco', 'Azul'],
+  category: 'Casa > Cozinha',
+  keywords: ['caneca', 'café'],
+};
+
+describe('parseProductListing', () => {
+  it('accepts a well-formed response, trimming texts and dropping blank entries', () => {
+    const parsed = parseProductListing({ ...listing, title: '  Caneca de cerâmica ', colors: ['Branco', ' ', 'Azul '] });
+    expect(parsed).toEqual(listing);
+  });
+
+  it('rejects anything that is not an object', () => {
+    expect(() => parseProductListing('texto')).toThrow('não está no formato esperado');
+    expect(() => parseProductListing(null)).toThrow('não está no formato esperado');
+  });
+
+  it('names the first field that does not match', () => {
+    expect(() => parseProductListing({ ...listing, category: 3 })).toThrow('"Categoria sugerida"');
+    expect(() => parseProductListing({ ...listing, bullets: 'Vai ao micro-ondas' })).toThrow('"Características" deve ser uma lista');
+  });
+
+  it('requires a title', () => {
+    expect(() => parseProductListing({ ...listing, title: '   ' })).toThrow('não trouxe um título');
+  });
+});
+
+describe('formatListingField', () => {
+  it('writes bullets one per line and other lists comma separated', () => {
+    expect(formatListingField(listing, 'bullets')).toBe('• Vai ao micro-ondas\n• Capacidade de 300 ml');
+    expect(formatListingField(listing, 'colors')).toBe('Branco, Azul');
+    expect(formatListingField({ ...listing, title: ' Caneca ' }, 'title')).toBe('Caneca');
+  });
+});
+
+describe('formatListingAsText', () => {
+  it('labels every field and skips the empty ones', () => {
+    const text = formatListingAsText({ ...EMPTY_PRODUCT_LISTING, title: 'Caneca', colors: ['Branco'] });
+    expect(text).toBe('Título:\nCaneca\n\nCores:\nBranco');
+  });
+});
+
+describe('normalizeProductListing', () => {
+  it('keeps the single description of older saves as the long description', () => {
+    expect(normalizeProductListing(undefined, 'Descrição antiga')).toEqual({ ...EMPTY_PRODUCT_LISTING, longDescription: 'Descrição antiga' });
+  });
+
+  it('fills in the fields a partial listing is missing', () => {
+    expect(normalizeProductListing({ title: 'Caneca' })).toEqual({ ...EMPTY_PRODUCT_LISTING, title: 'Caneca' });
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Marketplace copy for a product, split into the fields the ERP keeps separately.
+ */
+export interface ProductListing {
+  title: string;
+  shortDescription: string;
+  longDescription: string;
+  // Feature bullet points, one sentence each.
+  bullets: string[];
+  materials: string[];
+  colors: string[];
+  category: string;
+  keywords: string[];
+}
+
+export type ListingLanguage = 'pt-BR' | 'es' | 'en';
+
+export const LISTING_LANGUAGES: ListingLanguage[] = ['pt-BR', 'es', 'en'];
+export const DEFAULT_LISTING_LANGUAGE: ListingLanguage = 'pt-BR';
+
+// The versions of one listing, one per language, kept side by side.
+export type ListingVersions = Partial<Record<ListingLanguage, ProductListing>>;
+
+export type ListingTextField = 'title' | 'shortDescription' | 'longDescription' | 'category';
+export type ListingListField = 'bullets' | 'materials' | 'colors' | 'keywords';
+
+export const LISTING_TEXT_FIELDS: ListingTextField[] = ['title', 'shortDescription', 'longDescription', 'category'];
+export const LISTING_LIST_FIELDS: ListingListField[] = ['bullets', 'materials', 'colors', 'keywords'];
+
+export const LISTING_FIELD_NAMES: Record<keyof ProductListing, string> = {
+  title: 'Título',
+  shortDescription: 'Descrição curta',
+  longDescription: 'Descrição longa',
+  bullets: 'Características',
+  materials: 'Materiais',
+  colors: 'Cores',
+  category: 'Categoria sugerida',
+  keywords: 'Palavras-chave',
+};
+
+export const EMPTY_PRODUCT_LISTING: ProductListing = {
+  title: '',
+  shortDescription: '',
+  longDescription: '',
+  bullets: [],
+  materials: [],
+  colors: [],
+  category: '',
+  keywords: [],
+};
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+/**
+ * Checks an AI response against the listing shape and returns it with blank entries removed.
+ * Throws with a user-facing message naming the first field that does not match.
+ */
+export function parseProductListing(value: unknown): ProductListing {
+  if (!value || typeof value !== 'object') {
+    throw new Error('A resposta da IA não está no formato esperado.');
+  }
+  const record = value as Record<string, unknown>;
+  for (const field of LISTING_TEXT_FIELDS) {
+    if (typeof record[field] !== 'string') {
+      throw new Error(`A resposta da IA não está no formato esperado: o campo "${LISTING_FIELD_NAMES[field]}" está ausente ou inválido.`);
+    }
+  }
+  for (const field of LISTING_LIST_FIELDS) {
+    if (!isStringArray(record[field])) {
+      throw new Error(`A resposta da IA não está no formato esperado: o campo "${LISTING_FIELD_NAMES[field]}" deve ser uma lista de textos.`);
+    }
+  }
+  if (!(record.title as string).trim()) {
+    throw new Error('A resposta da IA não trouxe um título para o produto.');
+  }
+  return cleanProductListing(record as unknown as ProductListing);
+}
+
+/**
+ * Trims every field and drops empty list entries, which editing leaves behind while typing.
+ */
+export function cleanProductListing(listing: ProductListing): ProductListing {
+  const result = { ...listing };
+  for (const field of LISTING_TEXT_FIELDS) result[field] = listing[field].trim();
+  for (const field of LISTING_LIST_FIELDS) result[field] = listing[field].map(item => item.trim()).filter(Boolean);
+  return result;
+}
+
+/**
+ * `listing` with `transform` applied to every text, including each list entry.
+ */
+export function mapListingTexts(listing: ProductListing, transform: (text: string) => string): ProductListing {
+  const result = { ...listing };
+  for (const field of LISTING_TEXT_FIELDS) result[field] = transform(listing[field]);
+  for (const field of LISTING_LIST_FIELDS) result[field] = listing[field].map(transform);
+  return result;
+}
+
+export const isEmptyProductListing = (listing: ProductListing): boolean =>
+  LISTING_TEXT_FIELDS.every(field => !listing[field].trim()) &&
+  LISTING_LIST_FIELDS.every(field => listing[field].every(item => !item.trim()));
+
+/**
+ * Text of one field as it is pasted into the ERP: bullets one per line, other lists comma separated.
+ */
+export function formatListingField(listing: ProductListing, field: keyof ProductListing): string {
+  const value = listing[field];
+  if (typeof value === 'string') return value.trim();
+  const items = value.map(item => item.trim()).filter(Boolean);
+  return field === 'bullets' ? items.map(item => `• ${item}`).join('\n') : items.join(', ');
+}
+
+/**
+ * The whole listing as labelled plain text, for pasting somewhere without separate fields.
+ */
+export function formatListingAsText(listing: ProductListing): string {
+  return (Object.keys(LISTING_FIELD_NAMES) as (keyof ProductListing)[])
+    .map(field => [field, formatListingField(listing, field)] as const)
+    .filter(([, text]) => text)
+    .map(([field, text]) => `${LISTING_FIELD_NAMES[field]}:\n${text}`)
+    .join('\n\n');
+}
+
+/**
+ * Restores a listing saved by an older version, which kept the description as a single text.
+ */
+export function normalizeProductListing(listing: Partial<ProductListing> | undefined, legacyDescription = ''): ProductListing {
+  if (!listing) return { ...EMPTY_PRODUCT_LISTING, longDescription: legacyDescription };
+  return { ...EMPTY_PRODUCT_LISTING, ...listing };
+}
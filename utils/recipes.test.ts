@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_ADJUSTMENTS } from './adjustments';
+import { advanceRecipeRun, getRecipeCrop, getStepOutcomeKey, isRecipeRunFinished, type RecipeRun, type RecipeStep } from './recipes';
+
+const steps: RecipeStep[] = [
+  { kind: 'adjust', adjustments: DEFAULT_ADJUSTMENTS },
+  { kind: 'crop', crop: undefined, aspectRatio: null, aspectName: null },
+];
+
+const start: RecipeRun = {
+  recipe: { id: 'receita', name: 'Receita', steps },
+  imageIds: ['a', 'b'],
+  imageIndex: 0,
+  stepIndex: 0,
+  reviewEachStep: false,
+  skipFailedSteps: true,
+  status: 'running',
+  error: null,
+  outcomes: {},
+};
+
+describe('advanceRecipeRun', () => {
+  it('runs every step of an image before moving to the next image', () => {
+    const positions: [number, number][] = [];
+    let run = start;
+    while (!isRecipeRunFinished(run)) {
+      positions.push([run.imageIndex, run.stepIndex]);
+      run = advanceRecipeRun(run, 'done');
+    }
+    expect(positions).toEqual([[0, 0], [0, 1], [1, 0], [1, 1]]);
+  });
+
+  it('records the outcome of the step it leaves', () => {
+    const run = advanceRecipeRun(advanceRecipeRun(start, 'failed'), 'skipped');
+    expect(run.outcomes).toEqual({ [getStepOutcomeKey('a', 0)]: 'failed', [getStepOutcomeKey('a', 1)]: 'skipped' });
+    expect(start.outcomes).toEqual({});
+  });
+});
+
+describe('getRecipeCrop', () => {
+  const crop = { unit: '%' as const, x: 10, y: 20, width: 50, height: 40 };
+
+  it('copies a free crop, or the lack of one, as recorded', () => {
+    const step = { kind: 'crop' as const, crop, aspectRatio: null, aspectName: null };
+    expect(getRecipeCrop(step, 800, 600)).toEqual(crop);
+    expect(getRecipeCrop(step, 800, 600)).not.toBe(crop);
+    expect(getRecipeCrop({ ...step, crop: undefined }, 800, 600)).toBeUndefined();
+    expect(getRecipeCrop({ ...step, crop: undefined, aspectRatio: 1 }, 800, 600)).toBeUndefined();
+  });
+
+  it('refits a crop with an aspect ratio around its center on other proportions', () => {
+    const step = { kind: 'crop' as const, crop, aspectRatio: 1, aspectName: '1:1' };
+    const fitted = getRecipeCrop(step, 1000, 500)!;
+    // 500 x 200 px shrinks to 200 x 200 px around the same center.
+    expect((fitted.width / 100) * 1000).toBeCloseTo(200);
+    expect((fitted.height / 100) * 500).toBeCloseTo(200);
+    expect(fitted.x + fitted.width / 2).toBeCloseTo(35);
+    expect(fitted.y + fitted.height / 2).toBeCloseTo(40);
+  });
+});
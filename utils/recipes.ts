@@ -0,0 +1,80 @@
+import { type Crop } from 'react-image-crop';
+import { getExportProfile, type EnhancementPreset, type ExportSettings } from '../constants';
+import { type ImageAdjustments } from './adjustments';
+import { fitCropToRatio } from './exportImage';
+
+/**
+ * One recorded editor operation. Steps hold everything they need to run again, so a recipe
+ * keeps working after the preset or profile it was recorded from is edited or deleted.
+ */
+export type RecipeStep =
+  | { kind: 'enhance'; preset: EnhancementPreset }
+  // Percent crop; with an aspect ratio it is refitted around its center on other proportions.
+  | { kind: 'crop'; crop: Crop | undefined; aspectRatio: number | null; aspectName: string | null }
+  | { kind: 'adjust'; adjustments: ImageAdjustments }
+  | { kind: 'export'; exportProfileId: string; exportSettings: ExportSettings };
+
+export interface Recipe {
+  id: string;
+  name: string;
+  steps: RecipeStep[];
+}
+
+export const createRecipeId = () => `receita-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
+
+export function describeRecipeStep(step: RecipeStep): string {
+  switch (step.kind) {
+    case 'enhance':
+      return `IA: ${step.preset.name}`;
+    case 'crop':
+      return step.aspectName ? `Cortar (${step.aspectName})` : 'Cortar';
+    case 'adjust':
+      return `Ajustes (brilho ${step.adjustments.brightness}%, contraste ${step.adjustments.contrast}%)`;
+    case 'export':
+      return `Exportação: ${getExportProfile(step.exportProfileId).name}`;
+  }
+}
+
+/**
+ * The crop a recorded crop step gives an image of the given size.
+ */
+export function getRecipeCrop(step: Extract<RecipeStep, { kind: 'crop' }>, naturalWidth: number, naturalHeight: number): Crop | undefined {
+  if (!step.crop || !step.aspectRatio) return step.crop && { ...step.crop };
+  return fitCropToRatio(step.crop, naturalWidth, naturalHeight, step.aspectRatio);
+}
+
+export type RecipeStepOutcome = 'done' | 'skipped' | 'failed';
+
+/**
+ * Progress of a recipe over one or more images. Images are processed one after the other,
+ * every step of an image before moving to the next.
+ */
+export interface RecipeRun {
+  recipe: Recipe;
+  imageIds: string[];
+  // Position of the step about to run (or waiting for review or retry).
+  imageIndex: number;
+  stepIndex: number;
+  // Pause after every step so its result can be checked on the canvas.
+  reviewEachStep: boolean;
+  // Record failures and move on instead of stopping for the user to decide.
+  skipFailedSteps: boolean;
+  status: 'running' | 'review' | 'failed' | 'done';
+  error: string | null;
+  // Keyed by getStepOutcomeKey.
+  outcomes: Record<string, RecipeStepOutcome>;
+}
+
+export const getStepOutcomeKey = (imageId: string, stepIndex: number) => `${imageId}:${stepIndex}`;
+
+export const isRecipeRunFinished = (run: RecipeRun) => run.imageIndex >= run.imageIds.length;
+
+/**
+ * Records the outcome of the current step and moves to the next one.
+ */
+export function advanceRecipeRun(run: RecipeRun, outcome: RecipeStepOutcome): RecipeRun {
+  const outcomes = { ...run.outcomes, [getStepOutcomeKey(run.imageIds[run.imageIndex], run.stepIndex)]: outcome };
+  return run.stepIndex < run.recipe.steps.length - 1
+    ? { ...run, outcomes, stepIndex: run.stepIndex + 1 }
+    : { ...run, outcomes, imageIndex: run.imageIndex + 1, stepIndex: 0 };
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { runTaskQueue, type TaskUpdate } from './taskQueue';
+
+const deferred = <T>() => {
+  let resolve!: (value: T) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+};
+
+const flush = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+const recordUpdates = <T>() => {
+  const updates: [string, TaskUpdate<T>][] = [];
+  const onUpdate = (id: string, update: TaskUpdate<T>) => { updates.push([id, update]); };
+  const statusOf = (id: string) => updates.filter(([updateId]) => updateId === id).at(-1)?.[1].status;
+  return { updates, onUpdate, statusOf };
+};
+
+describe('runTaskQueue', () => {
+  it('runs every task and reports results and errors', async () => {
+    const { updates, onUpdate, statusOf } = recordUpdates<string>();
+    const controller = runTaskQueue(['a', 'b', 'c'], async id => {
+      if (id === 'b') throw new Error('falhou');
+      return id.toUpperCase();
+    }, { concurrency: 2, onUpdate });
+    await controller.done;
+
+    expect(statusOf('a')).toBe('done');
+    expect(statusOf('c')).toBe('done');
+    expect(updates).toContainEqual(['a', { status: 'done', result: 'A' }]);
+    expect(updates).toContainEqual(['b', { status: 'error', error: 'falhou' }]);
+  });
+
+  it('keeps at most `concurrency` tasks in flight', async () => {
+    const { onUpdate } = recordUpdates<void>();
+    let running = 0;
+    let maxRunning = 0;
+    const controller = runTaskQueue(['a', 'b', 'c', 'd', 'e'], async () => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await flush();
+      running--;
+    }, { concurrency: 2, onUpdate });
+    await controller.done;
+
+    expect(maxRunning).toBe(2);
+  });
+
+  it('starts no new task while paused', async () => {
+    const { onUpdate, statusOf } = recordUpdates<void>();
+    const first = deferred<void>();
+    const started: string[] = [];
+    const controller = runTaskQueue(['a', 'b'], id => {
+      started.push(id);
+      return id === 'a' ? first.promise : Promise.resolve();
+    }, { concurrency: 1, onUpdate });
+
+    controller.pause();
+    first.resolve();
+    await flush();
+    expect(started).toEqual(['a']);
+    expect(statusOf('b')).toBe('queued');
+
+    controller.resume();
+    await controller.done;
+    expect(started).toEqual(['a', 'b']);
+    expect(statusOf('b')).toBe('done');
+  });
+
+  it('cancels queued tasks and discards results still in flight', async () => {
+    const { onUpdate, statusOf } = recordUpdates<string>();
+    const first = deferred<string>();
+    const controller = runTaskQueue(['a', 'b'], () => first.promise, { concurrency: 1, onUpdate });
+
+    controller.cancel();
+    expect(statusOf('b')).toBe('cancelled');
+    first.resolve('a');
+    await controller.done;
+    expect(statusOf('a')).toBe('cancelled');
+  });
+});
@@ -0,0 +1,74 @@
+export type TaskStatus = 'queued' | 'running' | 'done' | 'error' | 'cancelled';
+
+export interface TaskUpdate<T> {
+  status: TaskStatus;
+  result?: T;
+  error?: string;
+}
+
+export interface TaskQueueOptions<T> {
+  concurrency: number;
+  onUpdate: (id: string, update: TaskUpdate<T>) => void;
+}
+
+export interface TaskQueueController {
+  pause: () => void;
+  resume: () => void;
+  cancel: () => void;
+  // Resolves once every task has settled or the queue was cancelled.
+  done: Promise<void>;
+}
+
+/**
+ * Runs `task` for each id with at most `concurrency` tasks in flight.
+ * Pausing lets running tasks finish but starts no new ones. Cancelling marks queued tasks
+ * as cancelled and discards results of tasks still running, since requests cannot be aborted.
+ */
+export function runTaskQueue<T>(ids: string[], task: (id: string) => Promise<T>, { concurrency, onUpdate }: TaskQueueOptions<T>): TaskQueueController {
+  const queue = [...ids];
+  let paused = false;
+  let cancelled = false;
+  let resumeWaiters: (() => void)[] = [];
+
+  const waitWhilePaused = () => paused
+    ? new Promise<void>(resolve => resumeWaiters.push(resolve))
+    : Promise.resolve();
+
+  const resume = () => {
+    paused = false;
+    resumeWaiters.forEach(resolve => resolve());
+    resumeWaiters = [];
+  };
+
+  const worker = async () => {
+    while (queue.length > 0) {
+      await waitWhilePaused();
+      const id = queue.shift();
+      if (cancelled || !id) return;
+
+      onUpdate(id, { status: 'running' });
+      try {
+        const result = await task(id);
+        onUpdate(id, cancelled ? { status: 'cancelled' } : { status: 'done', result });
+      } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : 'Falha desconhecida.';
+        onUpdate(id, cancelled ? { status: 'cancelled' } : { status: 'error', error: message });
+      }
+    }
+  };
+
+  ids.forEach(id => onUpdate(id, { status: 'queued' }));
+  const workerCount = Math.max(1, Math.min(concurrency, ids.length));
+  const done = Promise.all(Array.from({ length: workerCount }, worker)).then(() => undefined);
+
+  return {
+    pause: () => { paused = true; },
+    resume,
+    cancel: () => {
+      cancelled = true;
+      queue.splice(0).forEach(id => onUpdate(id, { status: 'cancelled' }));
+      resume();
+    },
+    done,
+  };
+}
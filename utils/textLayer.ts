@@ -0,0 +1,163 @@
+export type TextAlign = 'left' | 'center' | 'right';
+
+/**
+ * What a text layer draws: a text box whose geometry is stored relative to the image, so the
+ * layer renders identically on screen and at any export resolution.
+ */
+export interface TextContent {
+  text: string;
+  // Center of the box, in percent of the image width/height.
+  x: number;
+  y: number;
+  // Box width in percent of the image width. Lines wrap inside it.
+  width: number;
+  rotation: number; // degrees
+  fontFamily: string;
+  fontSize: number; // percent of the image width
+  fontWeight: number;
+  color: string;
+  strokeColor: string;
+  strokeWidth: number; // percent of the font size, 0 disables the stroke
+  shadowColor: string;
+  shadowBlur: number; // percent of the font size, 0 disables the shadow
+  align: TextAlign;
+}
+
+export const TEXT_FONT_FAMILIES: { name: string; value: string }[] = [
+  { name: 'Poppins', value: "'Poppins', sans-serif" },
+  { name: 'Arial', value: 'Arial, Helvetica, sans-serif' },
+  { name: 'Impact', value: "Impact, 'Arial Black', sans-serif" },
+  { name: 'Georgia', value: 'Georgia, serif' },
+  { name: 'Trebuchet', value: "'Trebuchet MS', sans-serif" },
+  { name: 'Courier', value: "'Courier New', monospace" },
+];
+
+export const TEXT_FONT_WEIGHTS: { name: string; value: number }[] = [
+  { name: 'Normal', value: 400 },
+  { name: 'Médio', value: 500 },
+  { name: 'Negrito', value: 700 },
+  { name: 'Black', value: 900 },
+];
+
+const LINE_HEIGHT = 1.2;
+
+export const DEFAULT_TEXT_CONTENT: TextContent = {
+  text: 'Seu texto',
+  x: 50,
+  y: 50,
+  width: 60,
+  rotation: 0,
+  fontFamily: TEXT_FONT_FAMILIES[0].value,
+  fontSize: 8,
+  fontWeight: 700,
+  color: '#ffffff',
+  strokeColor: '#000000',
+  strokeWidth: 0,
+  shadowColor: 'rgba(0, 0, 0, 0.5)',
+  shadowBlur: 10,
+  align: 'center',
+};
+
+export interface TextLayout {
+  lines: string[];
+  fontPx: number;
+  lineHeight: number;
+  width: number;
+  height: number;
+}
+
+const getFont = (text: TextContent, fontPx: number) =>
+  `${text.fontWeight} ${fontPx}px ${text.fontFamily}`;
+
+/**
+ * Word-wraps the text inside its box. All values are in image pixels.
+ */
+export function layoutText(ctx: CanvasRenderingContext2D, text: TextContent, imageWidth: number): TextLayout {
+  const fontPx = (text.fontSize / 100) * imageWidth;
+  const width = (text.width / 100) * imageWidth;
+  ctx.font = getFont(text, fontPx);
+
+  const lines: string[] = [];
+  text.text.split('\n').forEach(paragraph => {
+    const words = paragraph.split(/\s+/).filter(Boolean);
+    if (words.length === 0) {
+      lines.push('');
+      return;
+    }
+    let current = words[0];
+    for (const word of words.slice(1)) {
+      const candidate = `${current} ${word}`;
+      if (ctx.measureText(candidate).width <= width) {
+        current = candidate;
+      } else {
+        lines.push(current);
+        current = word;
+      }
+    }
+    lines.push(current);
+  });
+
+  const lineHeight = fontPx * LINE_HEIGHT;
+  return { lines, fontPx, lineHeight, width, height: lines.length * lineHeight };
+}
+
+let measureCtx: CanvasRenderingContext2D | null = null;
+
+/**
+ * Returns the box size of the text in image pixels without drawing it.
+ */
+export function measureText(text: TextContent, imageWidth: number): { width: number; height: number } {
+  if (!measureCtx) {
+    measureCtx = document.createElement('canvas').getContext('2d');
+  }
+  if (!measureCtx) return { width: 0, height: 0 };
+  const { width, height } = layoutText(measureCtx, text, imageWidth);
+  return { width, height };
+}
+
+export function drawText(ctx: CanvasRenderingContext2D, text: TextContent, imageWidth: number, imageHeight: number) {
+  if (!text.text.trim()) return;
+
+  ctx.save();
+  const layout = layoutText(ctx, text, imageWidth);
+  const { lines, fontPx, lineHeight, width, height } = layout;
+
+  ctx.translate((text.x / 100) * imageWidth, (text.y / 100) * imageHeight);
+  ctx.rotate((text.rotation * Math.PI) / 180);
+  ctx.font = getFont(text, fontPx);
+  ctx.textAlign = text.align;
+  ctx.textBaseline = 'middle';
+  ctx.lineJoin = 'round';
+
+  const anchorX = text.align === 'left' ? -width / 2 : text.align === 'right' ? width / 2 : 0;
+  const lineY = (index: number) => -height / 2 + lineHeight * (index + 0.5);
+
+  const applyShadow = () => {
+    if (text.shadowBlur > 0) {
+      ctx.shadowColor = text.shadowColor;
+      ctx.shadowBlur = (text.shadowBlur / 100) * fontPx;
+      ctx.shadowOffsetX = fontPx * 0.04;
+      ctx.shadowOffsetY = fontPx * 0.04;
+    }
+  };
+  const clearShadow = () => {
+    ctx.shadowColor = 'transparent';
+    ctx.shadowBlur = 0;
+    ctx.shadowOffsetX = 0;
+    ctx.shadowOffsetY = 0;
+  };
+
+  // The shadow is cast by the first pass only, otherwise it would darken the fill twice.
+  applyShadow();
+  if (text.strokeWidth > 0) {
+    // Strokes are centered on the glyph outline, so double the width to keep the visible part.
+    ctx.lineWidth = (text.strokeWidth / 100) * fontPx * 2;
+    ctx.strokeStyle = text.strokeColor;
+    lines.forEach((line, i) => ctx.strokeText(line, anchorX, lineY(i)));
+    clearShadow();
+  }
+  ctx.fillStyle = text.color;
+  lines.forEach((line, i) => ctx.fillText(line, anchorX, lineY(i)));
+
+  ctx.restore();
+}